@@ -1,20 +1,98 @@
 // src/app.ts
 
-// Make sure dotenv is loaded at the very beginning to ensure environment variables are available
+import express, { Application, RequestHandler } from 'express';
 
-import 'dotenv/config';
-
-import express, { Application } from 'express';
-
-import { AppError } from '@domain/errors/app.errors';
+import { AppConfig, loadConfig, validateConfig } from './config';
+import { AppError, InvalidConfigError, toErrorResponseBody } from '@domain/errors/app.errors';
+import { InFlightRequestTracker, createInFlightTrackingMiddleware } from '@interfaces/http/middleware/in-flight.middleware';
+import { createMatrixLimitsMiddleware, requireRoles, requireScopes } from '@interfaces/http/middleware/authorization.middleware';
+import { createCallerSizedBodyParser, fromBodyParserError } from '@interfaces/http/utils/request-body';
+import { createHttpMetricsMiddleware, recordRouteBaseUrl } from '@interfaces/http/middleware/http-metrics.middleware';
+import { AddressInfo } from 'net';
+import { ApiKeyAuthenticator } from '@application/services/api-key.authenticator';
+import { ApiKeyController } from '@interfaces/http/controllers/api-key.controller';
+import { ApiKeyRoutes } from '@interfaces/http/routes/api-key.routes';
+import { ApiOperation } from '@interfaces/http/openapi/api-operation';
+import { ApplyMatrixArithmeticUseCase } from '@application/use-cases/matrix/apply-matrix-arithmetic.usecase';
 import { AuthController } from '@interfaces/http/controllers/auth.controller';
 import { AuthRoutes } from '@interfaces/http/routes/auth.routes';
-import { GoApiHttpClient } from '@infrastructure/http-client/go-api.http-client';
+import { AuthSessionService } from '@application/services/auth-session.service';
+import { CacheController } from '@interfaces/http/controllers/cache.controller';
+import { CacheRoutes } from '@interfaces/http/routes/cache.routes';
+import { CachingGoApiGateway } from '@infrastructure/cache/caching.gateway';
+import { CalculateMatrixStatsUseCase } from '@application/use-cases/matrix/calculate-matrix-stats.usecase';
+import { ChangePasswordUseCase } from '@application/use-cases/auth/change-password.usecase';
+import { CreateApiKeyUseCase } from '@application/use-cases/api-keys/create-api-key.usecase';
+import { DecomposeMatrixUseCase } from '@application/use-cases/matrix/decompose-matrix.usecase';
+import { DocsController } from '@interfaces/http/controllers/docs.controller';
+import { DocsRoutes } from '@interfaces/http/routes/docs.routes';
+import { FileApiKeyRepository } from '@infrastructure/persistence/file-api-key.repository';
+import { FileUserRepository } from '@infrastructure/persistence/file-user.repository';
+import { GoApiGateway } from '@application/ports/go-api.gateway';
+import { HealthController } from '@interfaces/http/controllers/health.controller';
+import { HealthRoutes } from '@interfaces/http/routes/health.routes';
+import { HealthService } from '@application/services/health.service';
+import { InMemoryRateLimitStore } from '@infrastructure/persistence/in-memory-rate-limit.store';
+import { InMemorySessionStore } from '@infrastructure/persistence/in-memory-session.store';
+import { InternalMatrixController } from '@interfaces/http/controllers/internal-matrix.controller';
+import { InternalRoutes } from '@interfaces/http/routes/internal.routes';
+import { JwtTokenService } from '@infrastructure/security/jwt-token.service';
+import { LinearSystemController } from '@interfaces/http/controllers/linear-system.controller';
+import { LinearSystemRoutes } from '@interfaces/http/routes/linear-system.routes';
+import { ListApiKeysUseCase } from '@application/use-cases/api-keys/list-api-keys.usecase';
+import { ListUsersUseCase } from '@application/use-cases/auth/list-users.usecase';
+import { LoginUseCase } from '@application/use-cases/auth/login.usecase';
+import { LogoutUseCase } from '@application/use-cases/auth/logout.usecase';
+import { MatrixArithmeticController } from '@interfaces/http/controllers/matrix-arithmetic.controller';
+import { MatrixArithmeticRoutes } from '@interfaces/http/routes/matrix-arithmetic.routes';
+import { MatrixBatchController } from '@interfaces/http/controllers/matrix-batch.controller';
+import { MatrixBatchRoutes } from '@interfaces/http/routes/matrix-batch.routes';
 import { MatrixController } from '@interfaces/http/controllers/matrix.controller';
+import { MatrixDecompositionController } from '@interfaces/http/controllers/matrix-decomposition.controller';
+import { MatrixDecompositionRoutes } from '@interfaces/http/routes/matrix-decomposition.routes';
+import { MatrixJobController } from '@interfaces/http/controllers/matrix-job.controller';
+import { MatrixJobQueue } from '@application/services/matrix-job.queue';
+import { MatrixJobRoutes } from '@interfaces/http/routes/matrix-job.routes';
+import { MatrixLimitsPolicy } from '@application/services/matrix-limits.policy';
 import { MatrixRoutes } from '@interfaces/http/routes/matrix.routes';
+import { MatrixStatisticsEngine } from '@application/services/statistics/matrix-statistics.engine';
+import { MetricsController } from '@interfaces/http/controllers/metrics.controller';
+import { MetricsRoutes } from '@interfaces/http/routes/metrics.routes';
+import { PasswordHasher } from '@application/ports/password-hasher';
 import { ProcessMatrixAndGetStatsUseCase } from '@application/use-cases/matrix/process-matrix-and-get-stats.usecase';
-import { authMiddleware } from '@interfaces/http/middleware/auth.middleware';
-import { config } from './config';
+import { ProcessMatrixBatchUseCase } from '@application/use-cases/matrix/process-matrix-batch.usecase';
+import { PrometheusMetrics } from '@infrastructure/metrics/prometheus.metrics';
+import { QRVerifier } from '@application/services/qr-verifier';
+import { RefreshSessionUseCase } from '@application/use-cases/auth/refresh-session.usecase';
+import { RegisterUserUseCase } from '@application/use-cases/auth/register-user.usecase';
+import { RevokeApiKeyUseCase } from '@application/use-cases/api-keys/revoke-api-key.usecase';
+import { ScryptPasswordHasher } from '@infrastructure/security/scrypt-password.hasher';
+import { Server } from 'http';
+import { SetUserDisabledUseCase } from '@application/use-cases/auth/set-user-disabled.usecase';
+import { SetUserRolesUseCase } from '@application/use-cases/auth/set-user-roles.usecase';
+import { SolveLinearSystemUseCase } from '@application/use-cases/matrix/solve-linear-system.usecase';
+import { TokenBucketRateLimiter } from '@application/services/token-bucket.rate-limiter';
+import { UserController } from '@interfaces/http/controllers/user.controller';
+import { UserRepository } from '@application/ports/user.repository';
+import { UserRoutes } from '@interfaces/http/routes/user.routes';
+import { apiKeyOperations } from '@interfaces/http/openapi/operations/api-key.operations';
+import { authOperations } from '@interfaces/http/openapi/operations/auth.operations';
+import { buildOpenApiDocument } from '@interfaces/http/openapi/openapi.document';
+import { cacheOperations } from '@interfaces/http/openapi/operations/cache.operations';
+import { createAuthMiddleware } from '@interfaces/http/middleware/auth.middleware';
+import { createGoApiGateway } from '@infrastructure/gateways/go-api.gateway.factory';
+import { createInternalAuthMiddleware } from '@interfaces/http/middleware/internal-auth.middleware';
+import { createRateLimitMiddleware } from '@interfaces/http/middleware/rate-limit.middleware';
+import { createRequestLoggingMiddleware } from '@interfaces/http/middleware/request-logging.middleware';
+import dotenv from 'dotenv';
+import { healthOperations } from '@interfaces/http/openapi/operations/health.operations';
+import { logger } from '@shared/logging/logger';
+import { matrixArithmeticOperations } from '@interfaces/http/openapi/operations/matrix-arithmetic.operations';
+import { matrixOperations } from '@interfaces/http/openapi/operations/matrix.operations';
+import { metricsOperations } from '@interfaces/http/openapi/operations/metrics.operations';
+import { once } from 'events';
+import { settleWithin } from '@shared/async/settle-within';
+import { userOperations } from '@interfaces/http/openapi/operations/user.operations';
 
 // --- IMPORTANT CHANGE: Import config using the alias @config ---
 
@@ -24,81 +102,401 @@ import { config } from './config';
 
 
 
-class App {
+// Routes whose bodies are parsed after authentication, with a limit sized from the caller's matrix limits
+const MATRIX_ROUTES = /^\/api\/matrix(\/|$)/i;
+// Job status polling under /api/matrix, rate limited with its own policy
+const isJobPoll = (req: express.Request): boolean => (req.method === 'GET' || req.method === 'HEAD') && /^\/jobs\//i.test(req.path);
+
+export class App {
     public app: Application;
     public port: number;
+    private readonly config: AppConfig;
+    private readonly userRepository: UserRepository;
+    private readonly passwordHasher: PasswordHasher = new ScryptPasswordHasher();
+    private readonly rateLimitStore = new InMemoryRateLimitStore();
+    private readonly metrics?: PrometheusMetrics;
+    // Operations of the mounted routes, published in the OpenAPI document
+    private readonly apiOperations: ApiOperation[] = [];
+    private readonly inFlightRequests = new InFlightRequestTracker();
+    // Created with the routes; drained or closed by `shutdown`
+    private goApiGateway!: GoApiGateway;
+    private healthService!: HealthService;
+    private matrixJobQueue!: MatrixJobQueue;
+    private server?: Server;
+    private shutdownPromise?: Promise<boolean>;
 
-    constructor() {
+    /**
+     * @param config The validated configuration (see `loadConfig`), injected so the app can be built with any configuration.
+     */
+    constructor(config: AppConfig) {
+        this.config = config;
+        this.userRepository = new FileUserRepository(config.auth.userStoreFile);
+        this.metrics = config.metrics.enabled ? new PrometheusMetrics() : undefined;
+        logger.setLevel(config.logLevel);
         this.app = express();
-        this.port = config.nodeApiPort;
+        this.port = this.config.nodeApiPort;
         this.initializeMiddlewares();
         this.initializeRoutes();
         this.initializeErrorHandling();
     }
 
     private initializeMiddlewares(): void {
-        // Allows Express to parse JSON in the request body
-        this.app.use(express.json()); 
+        // Request context (X-Request-ID, user, route, latency) for the structured logs; must run first
+        this.app.use(createRequestLoggingMiddleware(logger));
+        // Counts the in-flight requests, so that a graceful shutdown can wait for them
+        this.app.use(createInFlightTrackingMiddleware(this.inFlightRequests));
+        // HTTP request counters and latency histograms by route template and status
+        if (this.metrics) {
+            this.app.use(createHttpMetricsMiddleware(this.metrics));
+        }
+        // Number of proxies in front of the API, so that req.ip (used by the rate limiter) is the client's IP
+        this.app.set('trust proxy', this.config.trustProxyHops);
+        // Allows Express to parse JSON in the request body, up to body-parser's default size (100 kB).
+        // The matrix routes parse theirs after authentication, with a limit sized from the caller's role.
+        const jsonParser = express.json();
+        this.app.use((req, res, next) => (MATRIX_ROUTES.test(req.path) ? next() : jsonParser(req, res, next)));
     }
 
     private initializeRoutes(): void {
-        // --- Authentication Routes (Public) ---
-        // These routes do not require a JWT to be accessed (e.g., /api/auth/login)
-        const authController = new AuthController();
-        const authRoutes = new AuthRoutes(authController);
-        this.app.use('/api/auth', authRoutes.router); // Prefix for authentication routes
+        // --- Prometheus Metrics (optionally protected with METRICS_TOKEN) ---
+        if (this.metrics) {
+            if (this.config.metrics.token) {
+                this.app.use('/metrics', createInternalAuthMiddleware(this.config.metrics.token));
+            }
+            this.useRouter('/metrics', new MetricsRoutes(new MetricsController(this.metrics)).router);
+            this.documentOperations(metricsOperations);
+        }
+
+        // --- Authentication Routes (Public, except password change) ---
+        // Users live in the user repository; passwords are hashed with scrypt
+        // Sessions: short-lived JWTs (with jti) + rotating refresh tokens, checked against the revocation list
+        const authSessionService = new AuthSessionService(new JwtTokenService(this.config), new InMemorySessionStore(), this.config.auth);
+        const authMiddleware = createAuthMiddleware(authSessionService, undefined, this.metrics);
+        const authController = new AuthController(
+            new LoginUseCase(this.userRepository, this.passwordHasher, authSessionService),
+            new RefreshSessionUseCase(this.userRepository, authSessionService),
+            new LogoutUseCase(authSessionService),
+            new RegisterUserUseCase(this.userRepository, this.passwordHasher),
+            new ChangePasswordUseCase(this.userRepository, this.passwordHasher, authSessionService),
+            this.config.auth,
+            this.metrics
+        );
+        const authRoutes = new AuthRoutes(authController, authMiddleware);
+        // Brute-force protection: login attempts are limited per client IP
+        this.useRateLimit('/api/auth/login', 'login');
+        this.useRouter('/api/auth', authRoutes.router); // Prefix for authentication routes
+        this.documentOperations(authOperations);
+
+        // --- User Account Routes (PROTECTED WITH JWT!) ---
+        const userController = new UserController(
+            new ListUsersUseCase(this.userRepository),
+            new SetUserRolesUseCase(this.userRepository, authSessionService),
+            new SetUserDisabledUseCase(this.userRepository, authSessionService)
+        );
+        this.useRouter('/api/users', authMiddleware, new UserRoutes(userController).router);
+        this.documentOperations(userOperations);
+
+        // --- API Key Routes (PROTECTED WITH JWT!) ---
+        // Long-lived keys for machine-to-machine clients, stored hashed. Keys are managed with a user JWT only,
+        // so a leaked key cannot mint new keys.
+        const apiKeyRepository = new FileApiKeyRepository(this.config.apiKeys.storeFile);
+        const apiKeyController = new ApiKeyController(
+            new CreateApiKeyUseCase(apiKeyRepository, this.config.apiKeys),
+            new ListApiKeysUseCase(apiKeyRepository),
+            new RevokeApiKeyUseCase(apiKeyRepository)
+        );
+        this.useRouter('/api/api-keys', authMiddleware, new ApiKeyRoutes(apiKeyController).router);
+        this.documentOperations(apiKeyOperations);
+        // The matrix routes also accept an API key (X-API-Key), acting as its owner within the key's scopes
+        const matrixAuthMiddleware = createAuthMiddleware(
+            authSessionService, new ApiKeyAuthenticator(apiKeyRepository, this.userRepository), this.metrics
+        );
 
         // --- Initialize dependencies for the Matrix API ---
-        // Initializes the HTTP client for the Go API
-        const goApiHttpClient = new GoApiHttpClient(config.goApiBaseUrl, config.goApiAppAccessToken);
+        // Initializes the matrix gateway for the configured backend (Go API, local engine, or Go with local fallback)
+        // (with metrics, the Go API calls are timed and the circuit breaker state is published)
+        let goApiGateway: GoApiGateway = createGoApiGateway(this.config, this.metrics);
+
+        // Wraps the gateway with the content-addressed result cache (if enabled)
+        let resultCache: CachingGoApiGateway | undefined;
+        if (this.config.resultCache.enabled) {
+            resultCache = new CachingGoApiGateway(goApiGateway, this.config.resultCache);
+            goApiGateway = resultCache;
+            this.registerCacheMetrics(resultCache);
+        }
+        this.goApiGateway = goApiGateway;
 
-        // Initializes the main use case with its dependency (the Go HTTP client)
-        const processMatrixAndGetStatsUseCase = new ProcessMatrixAndGetStatsUseCase(goApiHttpClient);
+        // Initializes the main use case with its dependencies (the matrix gateway, the statistics engine
+        // and, if enabled, the numerical verifier of the QR factorization)
+        const qrVerifier = this.config.qrVerification.enabled ? new QRVerifier(this.config.qrVerification) : undefined;
+        const processMatrixAndGetStatsUseCase = new ProcessMatrixAndGetStatsUseCase(
+            goApiGateway, new MatrixStatisticsEngine(), qrVerifier, this.metrics
+        );
 
         // Initializes the controller with the use case
         const matrixController = new MatrixController(processMatrixAndGetStatsUseCase);
 
+        // --- Health Probes (Public) ---
+        // Liveness only checks that the process answers; readiness checks the configuration and that the
+        // matrix backend is reachable and accepts our access token (cached for a few seconds)
+        this.healthService = new HealthService({
+            config: async () => {
+                const errors = validateConfig(this.config);
+                return errors.length === 0 ? { status: 'up' } : { status: 'down', message: errors.join(' ') };
+            },
+            goApi: () => goApiGateway.healthCheck(),
+        }, this.config.health);
+        this.useRouter('/health', new HealthRoutes(new HealthController(this.healthService)).router);
+        this.documentOperations(healthOperations);
+
         // --- Matrix Routes (PROTECTED WITH JWT!) ---
         // Apply the authentication middleware to all routes under /api/matrix
-        // Any request to /api/matrix/... will now require a valid JWT.
-        this.app.use('/api/matrix', authMiddleware);
+        // Any request to /api/matrix/... will now require a valid JWT or API key.
+        this.app.use('/api/matrix', matrixAuthMiddleware);
+        // API keys can only reach the routes of their scopes (user JWTs are not limited by scopes)
+        this.app.use('/api/matrix/process-matrix', requireScopes('matrix:process'));
+        this.app.use('/api/matrix/decompose', requireScopes('matrix:process'));
+        this.app.use('/api/matrix/solve', requireScopes('matrix:process'));
+        this.app.use('/api/matrix/ops', requireScopes('matrix:process'));
+        this.app.use('/api/matrix/process-batch', requireScopes('matrix:batch'));
+        this.app.use('/api/matrix/jobs', requireScopes('matrix:jobs'));
+        this.app.use('/api/matrix/cache', requireScopes('cache:admin'));
+        // Limits the matrix requests of each user (or of the user owning the API key) to protect the Go API
+        this.useRateLimit('/api/matrix', 'matrix', req => !isJobPoll(req));
+        this.useRateLimit('/api/matrix', 'jobs', isJobPoll);
+        // Resolves the matrix size limits of the user's roles (enforced by the matrix validation)
+        this.app.use('/api/matrix', createMatrixLimitsMiddleware(new MatrixLimitsPolicy(this.config.matrixLimits)));
+        // Parses JSON bodies up to the size of the largest matrix the caller may send (never before authentication)
+        this.app.use('/api/matrix', createCallerSizedBodyParser(limit => express.json({ limit })));
+
+        // Cache administration (stats, invalidate one entry, flush) under /api/matrix/cache, admins only
+        if (resultCache) {
+            const cacheRoutes = new CacheRoutes(new CacheController(resultCache));
+            this.useRouter('/api/matrix/cache', requireRoles('admin'), cacheRoutes.router);
+            this.documentOperations(cacheOperations);
+        }
 
         // Define the routes for the Matrix API.
         // Now, the matrix processing endpoint will be /api/matrix/process-matrix
         const matrixRoutes = new MatrixRoutes(matrixController);
-        this.app.use('/api/matrix', matrixRoutes.router); // Use the /api/matrix prefix
+        this.useRouter('/api/matrix', matrixRoutes.router); // Use the /api/matrix prefix
+
+        // Decompositions (QR, LU, Cholesky, SVD, eigenvalues) without rotation or statistics
+        const decomposeMatrixUseCase = new DecomposeMatrixUseCase(goApiGateway, this.metrics);
+        const matrixDecompositionRoutes = new MatrixDecompositionRoutes(new MatrixDecompositionController(decomposeMatrixUseCase));
+        this.useRouter('/api/matrix', matrixDecompositionRoutes.router);
+
+        // Linear systems and least squares, solved with the QR factorization from the gateway
+        const solveLinearSystemUseCase = new SolveLinearSystemUseCase(goApiGateway, this.metrics);
+        const linearSystemRoutes = new LinearSystemRoutes(new LinearSystemController(solveLinearSystemUseCase));
+        this.useRouter('/api/matrix', linearSystemRoutes.router);
+
+        // Matrix arithmetic (add, multiply, inverse, power, ...) computed in Node.js
+        const applyMatrixArithmeticUseCase = new ApplyMatrixArithmeticUseCase(this.metrics);
+        const matrixArithmeticRoutes = new MatrixArithmeticRoutes(new MatrixArithmeticController(applyMatrixArithmeticUseCase));
+        this.useRouter('/api/matrix', matrixArithmeticRoutes.router);
+
+        // Batch mode: many matrices in one request, processed with bounded parallelism
+        const processMatrixBatchUseCase = new ProcessMatrixBatchUseCase(processMatrixAndGetStatsUseCase, this.config.matrixBatch);
+        const matrixBatchRoutes = new MatrixBatchRoutes(new MatrixBatchController(processMatrixBatchUseCase));
+        this.useRouter('/api/matrix', matrixBatchRoutes.router);
+
+        // Async mode: jobs are processed by an in-process worker queue and polled by their owner
+        this.matrixJobQueue = new MatrixJobQueue(processMatrixAndGetStatsUseCase, this.config.matrixJobs);
+        this.registerJobQueueMetrics(this.matrixJobQueue);
+        const matrixJobRoutes = new MatrixJobRoutes(new MatrixJobController(this.matrixJobQueue));
+        this.useRouter('/api/matrix', matrixJobRoutes.router);
+        this.documentOperations(matrixOperations);
+        this.documentOperations(matrixArithmeticOperations);
+
+        // --- Internal Routes (Go -> Node callback, PROTECTED WITH THE SERVICE TOKEN) ---
+        // User JWTs are NOT accepted here; the Go API authenticates with INTERNAL_API_TOKEN.
+        const calculateMatrixStatsUseCase = new CalculateMatrixStatsUseCase();
+        const internalMatrixController = new InternalMatrixController(calculateMatrixStatsUseCase);
+        this.app.use('/api/internal', createInternalAuthMiddleware(this.config.internalApiToken));
+        const internalRoutes = new InternalRoutes(internalMatrixController);
+        this.useRouter('/api/internal', internalRoutes.router);
+
+        // --- API Documentation (Public) ---
+        // OpenAPI 3 document generated from the same schemas that validate the requests.
+        // The internal Go -> Node callback is not part of the public contract and is left out.
+        const openApiDocument = buildOpenApiDocument(this.apiOperations, {
+            title: 'Matrix Processing API',
+            version: '1.0.0',
+            description: 'Rotates matrices, computes their QR factorization (through the Go API) and their statistics.',
+        });
+        this.useRouter('/api/docs', new DocsRoutes(new DocsController(openApiDocument)).router);
+    }
+
+    /**
+     * Adds the operations of a mounted router to the OpenAPI document.
+     */
+    private documentOperations(operations: Record<string, ApiOperation>): void {
+        this.apiOperations.push(...Object.values(operations));
+    }
+
+    /**
+     * Mounts a router (after its own middlewares) on the given path, recording the mount path so the
+     * HTTP metrics can label the request with the full route template.
+     */
+    private useRouter(path: string, ...handlers: RequestHandler[]): void {
+        this.app.use(path, recordRouteBaseUrl, ...handlers);
+    }
+
+    /**
+     * Mounts a token-bucket rate limiter with the configured policy on the given path (if rate limiting is enabled),
+     * optionally only for the requests accepted by `appliesTo`.
+     */
+    private useRateLimit(path: string, policy: 'login' | 'matrix' | 'jobs', appliesTo?: (req: express.Request) => boolean): void {
+        if (!this.config.rateLimit.enabled) return;
+        const rateLimiter = new TokenBucketRateLimiter(this.rateLimitStore, this.config.rateLimit[policy], policy);
+        const rateLimit = createRateLimitMiddleware(rateLimiter);
+        this.app.use(path, appliesTo ? (req, res, next) => (appliesTo(req) ? rateLimit(req, res, next) : next()) : rateLimit);
+    }
+
+    /**
+     * Publishes the result cache occupancy and counters in the metrics registry.
+     */
+    private registerCacheMetrics(cache: CachingGoApiGateway): void {
+        if (!this.metrics) return;
+        this.metrics.registerGauge({ name: 'result_cache_entries', help: 'Entries in the result cache.', collect: () => cache.getStats().entries });
+        this.metrics.registerGauge({ name: 'result_cache_bytes', help: 'Estimated size of the result cache in bytes.', collect: () => cache.getStats().bytes });
+        this.metrics.registerCounter({ name: 'result_cache_hits_total', help: 'Result cache hits.', collect: () => cache.getStats().hits });
+        this.metrics.registerCounter({ name: 'result_cache_misses_total', help: 'Result cache misses.', collect: () => cache.getStats().misses });
+        this.metrics.registerCounter({ name: 'result_cache_evictions_total', help: 'Result cache evictions.', collect: () => cache.getStats().evictions });
+    }
+
+    /**
+     * Publishes the depth of the async job queue in the metrics registry.
+     */
+    private registerJobQueueMetrics(queue: MatrixJobQueue): void {
+        if (!this.metrics) return;
+        this.metrics.registerGauge({ name: 'matrix_jobs_queued', help: 'Matrix jobs waiting in the queue.', collect: () => queue.getStats().queued });
+        this.metrics.registerGauge({ name: 'matrix_jobs_running', help: 'Matrix jobs being processed.', collect: () => queue.getStats().running });
     }
 
     private initializeErrorHandling(): void {
         // Centralized middleware for error handling
-        this.app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
+        this.app.use((error: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
+            // Body parser errors (e.g. a body over the size limit) carry an HTTP status but are not AppErrors
+            const err = fromBodyParserError(error) ?? error;
             if (err instanceof AppError) {
-                console.error(`[AppError] ${err.name}: ${err.message} (Code: ${err.errorCode}, Status: ${err.statusCode})`);
-                res.status(err.statusCode).json({
-                    error: err.errorCode,
-                    details: err.message,
-                    ...(err.details && { message: err.details })
-                });
+                // Client errors are expected (validation, authentication...); server errors are not
+                const fields = { error: { name: err.name, message: err.message, errorCode: err.errorCode, statusCode: err.statusCode } };
+                if (err.statusCode >= 500) {
+                    logger.error('Request failed', fields);
+                } else {
+                    logger.warn('Request rejected', fields);
+                }
+                res.status(err.statusCode).json(toErrorResponseBody(err));
             } else {
-                console.error(`[Unhandled Error] ${err.name}: ${err.message}`, err.stack);
-                res.status(500).json({
-                    error: 'INTERNAL_SERVER_ERROR',
-                    details: 'An unexpected error occurred.',
-                });
+                logger.error('Unhandled error', { error: err });
+                res.status(500).json(toErrorResponseBody(err));
             }
         });
     }
 
-    public listen(): void {
-        this.app.listen(this.port, () => {
-            console.log(`⚡️Node.js API listening on port ${this.port}`);
-            console.log(`🔗 Go API URL: ${config.goApiBaseUrl}`); // Shows the Go API base URL
-            // Verify JWT secret configuration for debugging
-            console.log(`🔐 JWT Secret: ${config.jwtSecret ? 'Configured' : 'NOT CONFIGURED'}`); 
+    /**
+     * Creates the bootstrap administrator (BOOTSTRAP_ADMIN_USERNAME / BOOTSTRAP_ADMIN_PASSWORD) if it does not exist yet,
+     * so that a fresh deployment has an account that can manage the others.
+     */
+    private async ensureBootstrapAdmin(): Promise<void> {
+        const { bootstrapAdminUsername, bootstrapAdminPassword } = this.config.auth;
+        if (!bootstrapAdminUsername || !bootstrapAdminPassword) return;
+        if (await this.userRepository.findByUsername(bootstrapAdminUsername)) return;
+
+        await new RegisterUserUseCase(this.userRepository, this.passwordHasher).execute({
+            username: bootstrapAdminUsername,
+            password: bootstrapAdminPassword,
+            roles: ['admin'],
+        });
+        logger.info('Bootstrap admin created', { username: bootstrapAdminUsername });
+    }
+
+    /**
+     * Starts the HTTP server (after creating the bootstrap admin) and resolves once it accepts connections.
+     * @param port Defaults to NODE_API_PORT; 0 picks a free port (useful in tests).
+     */
+    public async listen(port: number = this.port): Promise<Server> {
+        await this.ensureBootstrapAdmin();
+        const server = this.app.listen(port);
+        await once(server, 'listening');
+        this.server = server;
+        logger.info('Node.js API listening', {
+            port: (server.address() as AddressInfo).port,
+            goApiBaseUrl: this.config.goApiBaseUrl,
+            matrixBackend: this.config.matrixBackend,
+            jwtConfigured: Boolean(this.config.jwtSecret),
+            internalAuthConfigured: Boolean(this.config.internalApiToken), // Internal routes are disabled without INTERNAL_API_TOKEN
         });
+        return server;
+    }
+
+    /**
+     * Graceful shutdown: fails the readiness probe, stops accepting connections and waits (up to SHUTDOWN_TIMEOUT_MS)
+     * for the in-flight requests and the queued jobs. Then it closes the remaining connections and those to the Go API.
+     * Calling it again returns the same shutdown.
+     * @returns Whether all the in-flight work finished before the deadline.
+     */
+    public shutdown(): Promise<boolean> {
+        this.shutdownPromise ??= this.drain();
+        return this.shutdownPromise;
+    }
+
+    private async drain(): Promise<boolean> {
+        const { timeoutMs } = this.config.shutdown;
+        logger.info('Shutting down', { inFlightRequests: this.inFlightRequests.count, ...this.matrixJobQueue.getStats(), timeoutMs });
+
+        this.healthService.beginShutdown();
+        const server = this.server;
+        const serverClosed = server ? new Promise<void>(resolve => server.close(() => resolve())) : Promise.resolve();
+        const drained = await settleWithin(Promise.all([this.inFlightRequests.drain(), this.matrixJobQueue.drain()]), timeoutMs);
+        if (!drained) {
+            logger.warn('Shutdown deadline exceeded, dropping the unfinished work', {
+                inFlightRequests: this.inFlightRequests.count, ...this.matrixJobQueue.getStats(),
+            });
+        }
+
+        // Idle keep-alive connections (and, past the deadline, unfinished requests) would keep the server open
+        server?.closeAllConnections();
+        await serverClosed;
+        await this.goApiGateway.close();
+        logger.info('Shutdown complete', { drained });
+        return drained;
     }
 }
 
-// Create an instance of the application and start it
-const app = new App();
-app.listen();
\ No newline at end of file
+// Entry point: load the .env file and the configuration (reporting every problem at once), then start the application.
+// Nothing runs when the module is imported, so the app can be built with an injected configuration.
+if (require.main === module) {
+    dotenv.config();
+
+    let config: AppConfig;
+    try {
+        config = loadConfig();
+    } catch (error) {
+        const problems = (error as InvalidConfigError).problems ?? [String(error)];
+        logger.error('Invalid configuration', { problems });
+        process.exit(1);
+    }
+
+    const app = new App(config);
+    // SIGTERM (orchestrators) and SIGINT (Ctrl+C) start a graceful shutdown; a second signal kills the process.
+    // Exit code 0 when all the work finished in time, 1 when the deadline cut it off.
+    for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+        process.once(signal, () => {
+            logger.info('Termination signal received', { signal });
+            app.shutdown()
+                .then(drained => process.exit(drained ? 0 : 1))
+                .catch(error => {
+                    logger.error('Graceful shutdown failed', { error });
+                    process.exit(1);
+                });
+        });
+    }
+
+    app.listen().catch(error => {
+        logger.error('Failed to start the application', { error });
+        process.exit(1);
+    });
+}
@@ -0,0 +1,18 @@
+// src/application/ports/api-key.repository.ts
+
+import { ApiKey } from '@domain/entities/api-key';
+
+/**
+ * @interface ApiKeyRepository
+ * @description Puerto de persistencia de API keys.
+ */
+export interface ApiKeyRepository {
+    findById(id: string): Promise<ApiKey | undefined>;
+    findByHash(keyHash: string): Promise<ApiKey | undefined>;
+    listByOwner(ownerId: string): Promise<ApiKey[]>;
+    create(apiKey: ApiKey): Promise<void>;
+    /**
+     * @throws {NotFoundError} Si la key no existe.
+     */
+    update(apiKey: ApiKey): Promise<void>;
+}
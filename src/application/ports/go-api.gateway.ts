@@ -1,9 +1,53 @@
 // src/application/ports/go-api.gateway.ts
 
-import { GoApiResponseData, Matrix } from '@domain/entities/matrix';
+import { DecompositionName, GoApiResponseData, Matrix, MatrixDecompositions, MatrixOperation } from '@domain/entities/matrix';
+
+import { DependencyHealth } from '@domain/entities/health';
+
+/**
+ * @interface GoApiErrorResponse
+ * @description Error que el gateway propaga sin mapear, con la respuesta HTTP original de Go
+ * (ej. el 400 por dimensiones inválidas, que el caso de uso convierte en `InvalidMatrixError`).
+ */
+export interface GoApiErrorResponse {
+    message: string;
+    response: {
+        status: number;
+        data?: { error?: string; details?: string };
+    };
+}
+
+/**
+ * Indica si un error lleva la respuesta HTTP de Go (ver `GoApiErrorResponse`).
+ */
+export const isGoApiErrorResponse = (error: unknown): error is GoApiErrorResponse => {
+    if (typeof error !== 'object' || error === null || !('response' in error)) return false;
+    const { response } = error;
+    return typeof response === 'object' && response !== null && 'status' in response && typeof response.status === 'number';
+};
 
 // La interfaz del "Gateway" o "Puerto Saliente"
 // Define el contrato para comunicarse con la API de Go.
 export interface GoApiGateway {
-    processMatrix(matrix: Matrix): Promise<GoApiResponseData>;
+    /**
+     * Aplica la operación a la matriz (el resultado es `rotated_matrix`) y calcula su factorización QR.
+     * La operación ya está validada y completa (ver `resolveMatrixOperation`).
+     */
+    processMatrix(matrix: Matrix, operation: MatrixOperation): Promise<GoApiResponseData>;
+    /**
+     * Calcula las descomposiciones indicadas de la matriz (ya validada). Las que la API de Go todavía no ofrece
+     * se calculan en proceso (ver `MatrixDecompositionRegistry`).
+     * Las precondiciones incumplidas (ej. Cholesky de una matriz no definida positiva) se lanzan como `InvalidMatrixError`.
+     */
+    decompose(matrix: Matrix, decompositions: DecompositionName[]): Promise<MatrixDecompositions>;
+    /**
+     * Comprueba que el backend de matrices está disponible (para la API de Go: que responde y acepta el token
+     * de la aplicación). No debe lanzar: los fallos se reportan con `status: 'down'`.
+     */
+    healthCheck(): Promise<DependencyHealth>;
+    /**
+     * Libera las conexiones salientes del backend (se llama al apagar la aplicación, cuando ya no quedan
+     * solicitudes en curso).
+     */
+    close(): Promise<void>;
 }
\ No newline at end of file
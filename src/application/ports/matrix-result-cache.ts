@@ -0,0 +1,23 @@
+// src/application/ports/matrix-result-cache.ts
+
+/**
+ * @interface MatrixResultCacheStats
+ * @description Ocupación y contadores del caché de resultados.
+ */
+export interface MatrixResultCacheStats {
+    entries: number;
+    bytes: number;
+    maxEntries: number;
+    maxBytes: number;
+    hits: number;
+    misses: number;
+    evictions: number;
+    inFlight: number; // Llamadas a Go en curso que otras solicitudes idénticas están esperando
+}
+
+// Contrato de administración del caché de resultados (invalidación, vaciado y estadísticas).
+export interface MatrixResultCache {
+    invalidate(key: string): boolean;
+    flush(): number;
+    getStats(): MatrixResultCacheStats;
+}
@@ -0,0 +1,27 @@
+// src/application/ports/metrics.recorder.ts
+
+export type AuthMethod = 'password' | 'refresh_token' | 'jwt' | 'api_key';
+
+export type AuthOutcome = 'success' | 'failure';
+
+/**
+ * @interface MetricsRecorder
+ * @description Puerto para registrar métricas operativas sin acoplar la aplicación a un sistema de métricas concreto.
+ */
+export interface MetricsRecorder {
+    /**
+     * Registra una solicitud HTTP terminada. `route` es la plantilla de la ruta (ej. `/api/matrix/jobs/:id`).
+     */
+    observeHttpRequest(method: string, route: string, status: number, durationSeconds: number): void;
+    /**
+     * Registra una llamada a la API de Go; `errorCode` solo se indica si falló.
+     */
+    observeGoApiCall(operation: string, durationSeconds: number, errorCode?: string): void;
+    /**
+     * Registra un cálculo hecho en proceso en lugar de en Go (ej. las descomposiciones que Go no ofrece);
+     * `errorCode` solo se indica si falló.
+     */
+    observeLocalComputation(operation: string, durationSeconds: number, errorCode?: string): void;
+    recordAuthAttempt(method: AuthMethod, outcome: AuthOutcome): void;
+    observeMatrixSize(rows: number, columns: number): void;
+}
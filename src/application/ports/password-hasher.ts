@@ -0,0 +1,10 @@
+// src/application/ports/password-hasher.ts
+
+/**
+ * @interface PasswordHasher
+ * @description Puerto para derivar y verificar hashes de contraseñas.
+ */
+export interface PasswordHasher {
+    hash(password: string): Promise<string>;
+    verify(password: string, passwordHash: string): Promise<boolean>;
+}
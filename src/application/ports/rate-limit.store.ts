@@ -0,0 +1,17 @@
+// src/application/ports/rate-limit.store.ts
+
+import { RateLimitDecision, RateLimitPolicy } from '@domain/entities/rate-limit';
+
+/**
+ * @interface RateLimitStore
+ * @description Puerto de persistencia del estado de los limitadores de solicitudes.
+ */
+export interface RateLimitStore {
+    /**
+     * Rellena el cubo de la clave y retira `cost` tokens si hay suficientes (ver `takeTokens`), en una sola operación
+     * atómica: dos solicitudes concurrentes de la misma clave nunca consumen el mismo token. Un almacén compartido
+     * debe implementarlo en el propio almacén (ej. un script de Redis), no como una lectura seguida de una escritura.
+     * El estado se puede descartar cuando el cubo vuelve a estar lleno.
+     */
+    take(key: string, cost: number, policy: RateLimitPolicy, now: number): Promise<RateLimitDecision>;
+}
@@ -0,0 +1,29 @@
+// src/application/ports/session.store.ts
+
+import { RefreshTokenRecord } from '@domain/entities/session';
+
+/**
+ * @interface SessionStore
+ * @description Puerto de persistencia de sesiones: refresh tokens y listas de revocación.
+ */
+export interface SessionStore {
+    saveRefreshToken(record: RefreshTokenRecord): Promise<void>;
+    findRefreshToken(tokenHash: string): Promise<RefreshTokenRecord | undefined>;
+    /**
+     * Marca el refresh token como usado. Devuelve `false` si ya lo estaba (otra solicitud lo rotó antes).
+     */
+    markRefreshTokenUsed(tokenHash: string, usedAt: number): Promise<boolean>;
+
+    revokeSession(sessionId: string): Promise<void>;
+    /**
+     * Revoca todas las sesiones (vigentes) del usuario.
+     */
+    revokeUserSessions(userId: string): Promise<void>;
+    isSessionRevoked(sessionId: string): Promise<boolean>;
+
+    /**
+     * Revoca un token de acceso concreto. La entrada se puede descartar después de `expiresAt`.
+     */
+    revokeAccessToken(jti: string, expiresAt: number): Promise<void>;
+    isAccessTokenRevoked(jti: string): Promise<boolean>;
+}
@@ -0,0 +1,19 @@
+// src/application/ports/token.service.ts
+
+import { AccessTokenClaims } from '@domain/entities/session';
+import { AuthenticatedUser } from '@domain/entities/user';
+
+/**
+ * @interface TokenService
+ * @description Puerto para emitir y verificar los tokens de acceso de los usuarios.
+ */
+export interface TokenService {
+    /**
+     * Emite un token de acceso con un `jti` nuevo, asociado a la sesión indicada.
+     */
+    issueAccessToken(user: AuthenticatedUser, sessionId: string): string;
+    /**
+     * @throws {UnauthorizedError} Si el token es inválido o expiró.
+     */
+    verifyAccessToken(token: string): AccessTokenClaims;
+}
@@ -0,0 +1,22 @@
+// src/application/ports/user.repository.ts
+
+import { User } from '@domain/entities/user';
+
+/**
+ * @interface UserRepository
+ * @description Puerto de persistencia de usuarios.
+ * Los nombres de usuario son únicos sin distinguir mayúsculas de minúsculas.
+ */
+export interface UserRepository {
+    findById(id: string): Promise<User | undefined>;
+    findByUsername(username: string): Promise<User | undefined>;
+    list(): Promise<User[]>;
+    /**
+     * @throws {ConflictError} Si ya existe un usuario con el mismo nombre.
+     */
+    create(user: User): Promise<void>;
+    /**
+     * @throws {NotFoundError} Si el usuario no existe.
+     */
+    update(user: User): Promise<void>;
+}
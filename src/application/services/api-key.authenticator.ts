@@ -0,0 +1,69 @@
+// src/application/services/api-key.authenticator.ts
+
+import { ApiKey, isApiKeyActive } from '@domain/entities/api-key';
+import { AuthenticatedUser, toAuthenticatedUser } from '@domain/entities/user';
+
+import { ApiKeyRepository } from '@application/ports/api-key.repository';
+import { UnauthorizedError } from '@domain/errors/app.errors';
+import { UserRepository } from '@application/ports/user.repository';
+import { hashApiKey } from '@application/use-cases/api-keys/api-key-secret';
+import { logger } from '@shared/logging/logger';
+
+const log = logger.child({ component: 'ApiKeyAuthenticator' });
+
+// Intervalo mínimo entre dos escrituras de `lastUsedAt` de una misma key (evita escribir el archivo en cada petición)
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+/**
+ * @interface ApiKeyAuthentication
+ * @description Resultado de autenticar una petición con una API key.
+ */
+export interface ApiKeyAuthentication {
+    user: AuthenticatedUser;
+    apiKey: ApiKey;
+}
+
+/**
+ * @class ApiKeyAuthenticator
+ * @description Autentica peticiones con API key (`X-API-Key`):
+ * 1. Busca la key por su hash y comprueba que no esté revocada ni expirada.
+ * 2. Resuelve su propietario, que debe existir y estar habilitado; la key actúa con sus roles actuales.
+ * 3. Registra el último uso (con resolución de un minuto).
+ */
+export class ApiKeyAuthenticator {
+    private readonly apiKeyRepository: ApiKeyRepository;
+    private readonly userRepository: UserRepository;
+
+    constructor(apiKeyRepository: ApiKeyRepository, userRepository: UserRepository) {
+        this.apiKeyRepository = apiKeyRepository;
+        this.userRepository = userRepository;
+    }
+
+    /**
+     * @method authenticate
+     * @throws {UnauthorizedError} Si la key no es válida, fue revocada, expiró o su propietario no puede usarla.
+     */
+    public async authenticate(key: string): Promise<ApiKeyAuthentication> {
+        const now = new Date();
+        const apiKey = await this.apiKeyRepository.findByHash(hashApiKey(key));
+        if (!apiKey || !isApiKeyActive(apiKey, now)) {
+            throw new UnauthorizedError('Invalid, revoked or expired API key.');
+        }
+
+        const owner = await this.userRepository.findById(apiKey.ownerId);
+        if (!owner || owner.disabled) {
+            throw new UnauthorizedError('Invalid, revoked or expired API key.');
+        }
+
+        const lastUsed = apiKey.lastUsedAt ? Date.parse(apiKey.lastUsedAt) : 0;
+        if (now.getTime() - lastUsed >= LAST_USED_RESOLUTION_MS) {
+            apiKey.lastUsedAt = now.toISOString();
+            // El registro del último uso es informativo: un fallo al guardarlo no debe rechazar la petición
+            await this.apiKeyRepository.update(apiKey).catch(error =>
+                log.warn('Could not record the last use of an API key', { apiKeyId: apiKey.id, error })
+            );
+        }
+
+        return { user: toAuthenticatedUser(owner), apiKey };
+    }
+}
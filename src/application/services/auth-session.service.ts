@@ -0,0 +1,127 @@
+// src/application/services/auth-session.service.ts
+
+import { AccessTokenClaims, SessionTokens } from '@domain/entities/session';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+
+import { AuthenticatedUser } from '@domain/entities/user';
+import { SessionStore } from '@application/ports/session.store';
+import { TokenService } from '@application/ports/token.service';
+import { UnauthorizedError } from '@domain/errors/app.errors';
+import { logger } from '@shared/logging/logger';
+
+const log = logger.child({ component: 'AuthSessionService' });
+
+/**
+ * @interface AuthSessionServiceOptions
+ * @description Configuración de las sesiones.
+ */
+export interface AuthSessionServiceOptions {
+    refreshTokenTtlMs: number; // Vigencia de cada refresh token (debe superar la del token de acceso)
+}
+
+const hashRefreshToken = (refreshToken: string): string => createHash('sha256').update(refreshToken).digest('hex');
+
+/**
+ * @class AuthSessionService
+ * @description Gestiona las sesiones de los usuarios:
+ * - Al iniciar sesión emite un token de acceso (JWT con `jti`) y un refresh token opaco.
+ * - Cada refresh token es de un solo uso: al usarlo se rota por otro de la misma sesión.
+ * - Si se presenta un refresh token ya rotado (posible robo), se revoca la sesión completa.
+ * - Verifica los tokens de acceso contra la lista de revocación (tokens y sesiones revocados).
+ */
+export class AuthSessionService {
+    private readonly tokenService: TokenService;
+    private readonly sessionStore: SessionStore;
+    private readonly options: AuthSessionServiceOptions;
+
+    constructor(tokenService: TokenService, sessionStore: SessionStore, options: AuthSessionServiceOptions) {
+        this.tokenService = tokenService;
+        this.sessionStore = sessionStore;
+        this.options = options;
+    }
+
+    /**
+     * @method startSession
+     * @description Abre una sesión nueva para el usuario.
+     */
+    public startSession(user: AuthenticatedUser): Promise<SessionTokens> {
+        return this.issueTokens(user, randomUUID());
+    }
+
+    /**
+     * @method rotateRefreshToken
+     * @description Consume un refresh token y devuelve el id del usuario y de la sesión a la que pertenece.
+     * El llamador debe emitir los nuevos tokens con `continueSession` (tras comprobar que el usuario sigue activo).
+     * @throws {UnauthorizedError} Si el token no existe, expiró, su sesión fue revocada o ya se había usado.
+     */
+    public async rotateRefreshToken(refreshToken: string): Promise<{ userId: string; sessionId: string }> {
+        const tokenHash = hashRefreshToken(refreshToken);
+        const record = await this.sessionStore.findRefreshToken(tokenHash);
+        const now = Date.now();
+
+        if (!record || record.expiresAt <= now) {
+            throw new UnauthorizedError('Invalid or expired refresh token.');
+        }
+        if (await this.sessionStore.isSessionRevoked(record.sessionId)) {
+            throw new UnauthorizedError('This session has been revoked. Please log in again.');
+        }
+        if (!(await this.sessionStore.markRefreshTokenUsed(tokenHash, now))) {
+            // Reutilización: alguien más tiene una copia del token. Se revoca la sesión para ambos.
+            await this.sessionStore.revokeSession(record.sessionId);
+            log.warn('Refresh token reuse detected; session revoked', { userId: record.userId, sessionId: record.sessionId });
+            throw new UnauthorizedError('Refresh token reuse detected. The session has been revoked; please log in again.');
+        }
+        return { userId: record.userId, sessionId: record.sessionId };
+    }
+
+    /**
+     * @method continueSession
+     * @description Emite un nuevo par de tokens dentro de una sesión existente.
+     */
+    public continueSession(user: AuthenticatedUser, sessionId: string): Promise<SessionTokens> {
+        return this.issueTokens(user, sessionId);
+    }
+
+    /**
+     * @method endSession
+     * @description Cierra la sesión del token de acceso: revoca el token y la sesión (y con ella sus refresh tokens).
+     */
+    public async endSession(claims: AccessTokenClaims): Promise<void> {
+        await this.sessionStore.revokeAccessToken(claims.jti, claims.expiresAt);
+        await this.sessionStore.revokeSession(claims.sessionId);
+    }
+
+    /**
+     * @method revokeUserSessions
+     * @description Revoca todas las sesiones del usuario (ej. al cambiar la contraseña o deshabilitar la cuenta).
+     */
+    public revokeUserSessions(userId: string): Promise<void> {
+        return this.sessionStore.revokeUserSessions(userId);
+    }
+
+    /**
+     * @method verifyAccessToken
+     * @description Verifica la firma y la vigencia del token de acceso y que no haya sido revocado.
+     * @throws {UnauthorizedError} Si el token es inválido, expiró o fue revocado.
+     */
+    public async verifyAccessToken(token: string): Promise<AccessTokenClaims> {
+        const claims = this.tokenService.verifyAccessToken(token);
+        if (await this.sessionStore.isAccessTokenRevoked(claims.jti) || await this.sessionStore.isSessionRevoked(claims.sessionId)) {
+            throw new UnauthorizedError('Token has been revoked. Please log in again.');
+        }
+        return claims;
+    }
+
+    private async issueTokens(user: AuthenticatedUser, sessionId: string): Promise<SessionTokens> {
+        const refreshToken = randomBytes(32).toString('base64url');
+        const now = Date.now();
+        await this.sessionStore.saveRefreshToken({
+            tokenHash: hashRefreshToken(refreshToken),
+            userId: user.id,
+            sessionId,
+            issuedAt: now,
+            expiresAt: now + this.options.refreshTokenTtlMs,
+        });
+        return { token: this.tokenService.issueAccessToken(user, sessionId), refreshToken };
+    }
+}
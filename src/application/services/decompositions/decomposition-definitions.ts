@@ -0,0 +1,96 @@
+// src/application/services/decompositions/decomposition-definitions.ts
+
+import { DecompositionName, Matrix, MatrixDecompositions } from '@domain/entities/matrix';
+
+import { InvalidMatrixError } from '@domain/errors/app.errors';
+import { choleskyDecompose } from '@shared/math/cholesky';
+import { eigenvalues } from '@shared/math/eigenvalues';
+import { householderQR } from '@shared/math/householder-qr';
+import { luDecompose } from '@shared/math/lu';
+import { svdDecompose } from '@shared/math/svd';
+import { symmetricEigen } from '@shared/math/symmetric-eigen';
+
+/**
+ * @interface DecompositionDefinition
+ * @description Implementación local (en TypeScript) de una descomposición. Para reemplazar una basta con
+ * registrar otra definición con el mismo nombre (ver `MatrixDecompositionRegistry`).
+ */
+export interface DecompositionDefinition {
+    name: DecompositionName;
+    description: string;
+    /**
+     * @throws {InvalidMatrixError} Si la matriz no cumple las precondiciones de la descomposición (ej. no es cuadrada).
+     */
+    compute(matrix: Matrix): MatrixDecompositions[DecompositionName];
+}
+
+// Diferencia relativa máxima entre aij y aji para considerar la matriz simétrica
+const SYMMETRY_TOLERANCE = 1e-9;
+
+const requireSquare = (matrix: Matrix, decomposition: string): void => {
+    const rows = matrix.length;
+    const cols = matrix[0].length;
+    if (rows !== cols) {
+        throw new InvalidMatrixError(`${decomposition} requires a square matrix; the matrix is ${rows}x${cols}.`);
+    }
+};
+
+const isSymmetric = (matrix: Matrix): boolean =>
+    matrix.every((row, i) => row.every((value, j) =>
+        j <= i || Math.abs(value - matrix[j][i]) <= SYMMETRY_TOLERANCE * Math.max(1, Math.abs(value), Math.abs(matrix[j][i]))
+    ));
+
+/**
+ * Descomposiciones integradas. Las precondiciones se reportan como `InvalidMatrixError`, con el motivo en `details`.
+ */
+export const BUILT_IN_DECOMPOSITIONS: DecompositionDefinition[] = [
+    {
+        name: 'qr',
+        description: 'Householder QR: A = Q·R, with Q orthogonal (m x m) and R upper triangular (m x n).',
+        compute: matrix => householderQR(matrix),
+    },
+    {
+        name: 'lu',
+        description: 'LU with partial pivoting: P·A = L·U (square matrices only).',
+        compute: matrix => {
+            requireSquare(matrix, 'LU decomposition');
+            const { L, U, P } = luDecompose(matrix);
+            return { L, U, P };
+        },
+    },
+    {
+        name: 'cholesky',
+        description: 'Cholesky: A = L·Lᵀ (symmetric positive definite matrices only).',
+        compute: matrix => {
+            requireSquare(matrix, 'Cholesky decomposition');
+            if (!isSymmetric(matrix)) {
+                throw new InvalidMatrixError('Cholesky decomposition requires a symmetric matrix.');
+            }
+            const L = choleskyDecompose(matrix);
+            if (!L) {
+                throw new InvalidMatrixError('Cholesky decomposition requires a positive definite matrix; the matrix is not positive definite.');
+            }
+            return { L };
+        },
+    },
+    {
+        name: 'svd',
+        description: 'Reduced singular value decomposition: A = U·diag(S)·Vᵀ, singular values in descending order.',
+        compute: matrix => svdDecompose(matrix),
+    },
+    {
+        name: 'eigen',
+        description: 'Eigenvalues (possibly complex) of a square matrix; eigenvectors too when the matrix is symmetric.',
+        compute: matrix => {
+            requireSquare(matrix, 'Eigenvalue decomposition');
+            if (isSymmetric(matrix)) {
+                const { values, vectors } = symmetricEigen(matrix);
+                return { real: values, imaginary: values.map(() => 0), vectors };
+            }
+            const { real, imaginary } = eigenvalues(matrix);
+            // De mayor a menor parte real; en un par conjugado, la parte imaginaria positiva primero
+            const order = real.map((_, i) => i).sort((a, b) => real[b] - real[a] || imaginary[b] - imaginary[a]);
+            return { real: order.map(i => real[i]), imaginary: order.map(i => imaginary[i]), vectors: null };
+        },
+    },
+];
@@ -0,0 +1,76 @@
+// src/application/services/decompositions/matrix-decomposition.registry.ts
+
+import { BUILT_IN_DECOMPOSITIONS, DecompositionDefinition } from '@application/services/decompositions/decomposition-definitions';
+import { DecompositionName, Matrix, MatrixDecompositions } from '@domain/entities/matrix';
+
+import { BadRequestError } from '@domain/errors/app.errors';
+
+export const DECOMPOSITION_NAMES: DecompositionName[] = ['qr', 'lu', 'cholesky', 'svd', 'eigen'];
+
+/**
+ * @function resolveDecompositionSelection
+ * @description Valida la selección de descomposiciones del cliente. `all` selecciona todas.
+ * @returns Los nombres solicitados, sin repetir (vacío si no se solicitó ninguna).
+ * @throws {BadRequestError} Si se pide alguna descomposición desconocida.
+ */
+export const resolveDecompositionSelection = (requested?: string[]): DecompositionName[] => {
+    if (!requested || requested.length === 0) {
+        return [];
+    }
+    if (requested.includes('all')) {
+        return DECOMPOSITION_NAMES;
+    }
+
+    const unknown = requested.filter(name => !DECOMPOSITION_NAMES.includes(name as DecompositionName));
+    if (unknown.length > 0) {
+        throw new BadRequestError(`Unknown decompositions: ${unknown.join(', ')}. Available: ${DECOMPOSITION_NAMES.join(', ')}, all.`);
+    }
+    return Array.from(new Set(requested)) as DecompositionName[];
+};
+
+/**
+ * @class MatrixDecompositionRegistry
+ * @description Registro de las implementaciones locales (en TypeScript) de las descomposiciones.
+ * Lo usan el motor local y, para las descomposiciones que la API de Go todavía no ofrece, el cliente de Go.
+ */
+export class MatrixDecompositionRegistry {
+    private readonly definitions = new Map<DecompositionName, DecompositionDefinition>();
+
+    constructor(definitions: DecompositionDefinition[] = BUILT_IN_DECOMPOSITIONS) {
+        definitions.forEach(definition => this.register(definition));
+    }
+
+    /**
+     * @method register
+     * @description Registra (o reemplaza) la implementación de una descomposición.
+     */
+    public register(definition: DecompositionDefinition): void {
+        this.definitions.set(definition.name, definition);
+    }
+
+    /**
+     * @method listDecompositions
+     * @description Devuelve los nombres y descripciones de las descomposiciones disponibles.
+     */
+    public listDecompositions(): Array<{ name: DecompositionName; description: string }> {
+        return Array.from(this.definitions.values(), ({ name, description }) => ({ name, description }));
+    }
+
+    /**
+     * @method compute
+     * @description Calcula las descomposiciones indicadas sobre una matriz ya validada (rectangular y numérica).
+     * @throws {InvalidMatrixError} Si la matriz no cumple las precondiciones de alguna descomposición.
+     * @throws {BadRequestError} Si alguna descomposición no está registrada.
+     */
+    public compute(matrix: Matrix, names: DecompositionName[]): MatrixDecompositions {
+        const result: Record<string, unknown> = {};
+        for (const name of names) {
+            const definition = this.definitions.get(name);
+            if (!definition) {
+                throw new BadRequestError(`Decomposition ${name} is not available.`);
+            }
+            result[name] = definition.compute(matrix);
+        }
+        return result as MatrixDecompositions;
+    }
+}
@@ -0,0 +1,91 @@
+// src/application/services/health.service.ts
+
+import { DependencyHealth, HealthReport, HealthStatus } from '@domain/entities/health';
+
+/**
+ * @typedef HealthCheck
+ * @description Comprobación de una dependencia. Si lanza, la dependencia se reporta como `down`.
+ */
+export type HealthCheck = () => Promise<DependencyHealth>;
+
+/**
+ * @interface HealthServiceOptions
+ */
+export interface HealthServiceOptions {
+    cacheTtlMs: number; // Tiempo durante el que se reutiliza el último informe
+}
+
+const SEVERITY: Record<HealthStatus, number> = { up: 0, degraded: 1, down: 2 };
+
+/**
+ * @class HealthService
+ * @description Comprueba la disponibilidad de las dependencias de la API (para `/health/ready`).
+ * El informe se cachea durante `cacheTtlMs`, y las consultas simultáneas comparten la misma comprobación
+ * en curso, para que los sondeos frecuentes del orquestador no saturen la API de Go.
+ */
+export class HealthService {
+    private readonly checks: Record<string, HealthCheck>;
+    private readonly options: HealthServiceOptions;
+    private cached?: { report: HealthReport; expiresAt: number };
+    private inFlight?: Promise<HealthReport>;
+    private shuttingDown = false;
+
+    constructor(checks: Record<string, HealthCheck>, options: HealthServiceOptions) {
+        this.checks = checks;
+        this.options = options;
+    }
+
+    /**
+     * @method checkReadiness
+     * @description Devuelve el estado de cada dependencia y el estado agregado (el peor de ellos).
+     */
+    public checkReadiness(): Promise<HealthReport> {
+        if (this.shuttingDown) {
+            return Promise.resolve({
+                status: 'down',
+                checkedAt: new Date().toISOString(),
+                dependencies: { server: { status: 'down', message: 'The server is shutting down.' } },
+            });
+        }
+        if (this.cached && this.cached.expiresAt > Date.now()) {
+            return Promise.resolve(this.cached.report);
+        }
+        if (!this.inFlight) {
+            this.inFlight = this.runChecks().then(report => {
+                this.cached = { report, expiresAt: Date.now() + this.options.cacheTtlMs };
+                return report;
+            }).finally(() => {
+                this.inFlight = undefined;
+            });
+        }
+        return this.inFlight;
+    }
+
+    /**
+     * @method beginShutdown
+     * @description Marca la API como no disponible (sin comprobar las dependencias), para que el orquestador
+     * deje de enviarle tráfico mientras termina las solicitudes en curso.
+     */
+    public beginShutdown(): void {
+        this.shuttingDown = true;
+    }
+
+    private async runChecks(): Promise<HealthReport> {
+        const names = Object.keys(this.checks);
+        const results = await Promise.all(names.map(name => this.checks[name]().catch((error: Error): DependencyHealth => ({
+            status: 'down',
+            message: error.message,
+        }))));
+
+        const dependencies: Record<string, DependencyHealth> = {};
+        let status: HealthStatus = 'up';
+        names.forEach((name, index) => {
+            dependencies[name] = results[index];
+            if (SEVERITY[results[index].status] > SEVERITY[status]) {
+                status = results[index].status;
+            }
+        });
+
+        return { status, checkedAt: new Date().toISOString(), dependencies };
+    }
+}
@@ -0,0 +1,176 @@
+// src/application/services/matrix-job.queue.ts
+
+import { ConflictError, NotFoundError, QueueFullError, ShuttingDownError, toErrorResponseBody } from '@domain/errors/app.errors';
+
+import { MatrixJob } from '@domain/entities/matrix-job';
+import { MatrixProcessingRequest } from '@domain/entities/matrix';
+import { ProcessMatrixAndGetStatsUseCase } from '@application/use-cases/matrix/process-matrix-and-get-stats.usecase';
+import { randomUUID } from 'crypto';
+
+/**
+ * @interface MatrixJobQueueOptions
+ * @description Límites de la cola de trabajos asíncronos.
+ */
+export interface MatrixJobQueueOptions {
+    concurrency: number;   // Trabajos que se ejecutan a la vez
+    maxQueueDepth: number; // Trabajos en espera admitidos antes de rechazar nuevos envíos
+    retentionMs: number;   // Tiempo que se conserva un trabajo terminado para poder consultarlo
+}
+
+/**
+ * @interface MatrixJobQueueStats
+ * @description Ocupación actual de la cola.
+ */
+export interface MatrixJobQueueStats {
+    queued: number;
+    running: number;
+    retained: number; // Total de trabajos en memoria (incluidos los terminados)
+}
+
+interface JobRecord {
+    job: MatrixJob;
+    request: MatrixProcessingRequest;
+}
+
+/**
+ * @class MatrixJobQueue
+ * @description Cola de trabajos en proceso para el procesamiento asíncrono de matrices.
+ * Ejecuta `ProcessMatrixAndGetStatsUseCase` con un límite de concurrencia y una profundidad máxima de cola.
+ * Los trabajos pertenecen al usuario que los creó: un trabajo ajeno se reporta como inexistente.
+ */
+export class MatrixJobQueue {
+    private readonly processMatrixAndGetStatsUseCase: ProcessMatrixAndGetStatsUseCase;
+    private readonly options: MatrixJobQueueOptions;
+    private readonly jobs = new Map<string, JobRecord>();
+    private readonly pending: JobRecord[] = [];
+    private running = 0;
+    private draining = false;
+    private readonly idleWaiters: Array<() => void> = [];
+
+    constructor(processMatrixAndGetStatsUseCase: ProcessMatrixAndGetStatsUseCase, options: MatrixJobQueueOptions) {
+        this.processMatrixAndGetStatsUseCase = processMatrixAndGetStatsUseCase;
+        this.options = options;
+    }
+
+    /**
+     * @method submit
+     * @description Encola un nuevo trabajo para el usuario indicado.
+     * La solicitud se valida antes de encolarla, para que una matriz inválida se rechace de inmediato.
+     * @throws {QueueFullError} Si la cola alcanzó su profundidad máxima.
+     * @throws {ShuttingDownError} Si la cola se está vaciando para apagar la aplicación.
+     * @throws {InvalidMatrixError | MatrixTooLargeError | BadRequestError} Si la solicitud no es válida.
+     */
+    public submit(ownerId: string, request: MatrixProcessingRequest): MatrixJob {
+        if (this.draining) {
+            throw new ShuttingDownError('No new jobs are accepted while the queue drains.');
+        }
+        this.processMatrixAndGetStatsUseCase.validateRequest(request);
+        if (this.pending.length >= this.options.maxQueueDepth) {
+            throw new QueueFullError(`Maximum queue depth of ${this.options.maxQueueDepth} jobs reached.`);
+        }
+
+        const record: JobRecord = {
+            job: { id: randomUUID(), ownerId, status: 'queued', createdAt: new Date().toISOString() },
+            request,
+        };
+        this.jobs.set(record.job.id, record);
+        this.pending.push(record);
+        this.pump();
+        return { ...record.job };
+    }
+
+    /**
+     * @method get
+     * @description Devuelve un trabajo del usuario indicado.
+     * @throws {NotFoundError} Si el trabajo no existe o pertenece a otro usuario.
+     */
+    public get(jobId: string, ownerId: string): MatrixJob {
+        return { ...this.findOwned(jobId, ownerId).job };
+    }
+
+    /**
+     * @method cancel
+     * @description Cancela un trabajo en espera o en ejecución. Si ya se estaba ejecutando,
+     * su resultado se descarta cuando termine.
+     * @throws {NotFoundError} Si el trabajo no existe o pertenece a otro usuario.
+     * @throws {ConflictError} Si el trabajo ya había terminado.
+     */
+    public cancel(jobId: string, ownerId: string): MatrixJob {
+        const record = this.findOwned(jobId, ownerId);
+        const { job } = record;
+        if (job.status !== 'queued' && job.status !== 'running') {
+            throw new ConflictError(`Job '${jobId}' has already finished with status '${job.status}'.`);
+        }
+
+        const index = this.pending.indexOf(record);
+        if (index !== -1) {
+            this.pending.splice(index, 1);
+        }
+        this.finish(record, { status: 'cancelled' });
+        this.notifyIfIdle();
+        return { ...job };
+    }
+
+    /**
+     * @method drain
+     * @description Deja de aceptar trabajos nuevos y espera a que terminen los trabajos en espera y en ejecución.
+     * Se usa al apagar la aplicación.
+     */
+    public drain(): Promise<void> {
+        this.draining = true;
+        return new Promise(resolve => {
+            this.idleWaiters.push(resolve);
+            this.notifyIfIdle();
+        });
+    }
+
+    public getStats(): MatrixJobQueueStats {
+        return { queued: this.pending.length, running: this.running, retained: this.jobs.size };
+    }
+
+    private findOwned(jobId: string, ownerId: string): JobRecord {
+        const record = this.jobs.get(jobId);
+        if (!record || record.job.ownerId !== ownerId) {
+            throw new NotFoundError(`Job '${jobId}' not found.`);
+        }
+        return record;
+    }
+
+    private pump(): void {
+        while (this.running < this.options.concurrency && this.pending.length > 0) {
+            const record = this.pending.shift() as JobRecord;
+            this.run(record);
+        }
+    }
+
+    private async run(record: JobRecord): Promise<void> {
+        this.running++;
+        record.job.status = 'running';
+        record.job.startedAt = new Date().toISOString();
+
+        try {
+            const result = await this.processMatrixAndGetStatsUseCase.execute(record.request);
+            this.finish(record, { status: 'succeeded', result });
+        } catch (error) {
+            this.finish(record, { status: 'failed', error: toErrorResponseBody(error) });
+        } finally {
+            this.running--;
+            this.pump();
+            this.notifyIfIdle();
+        }
+    }
+
+    private notifyIfIdle(): void {
+        if (this.running > 0 || this.pending.length > 0) return;
+        this.idleWaiters.splice(0).forEach(resolve => resolve());
+    }
+
+    private finish(record: JobRecord, outcome: Pick<MatrixJob, 'status' | 'result' | 'error'>): void {
+        // Un trabajo cancelado mientras se ejecutaba conserva su estado 'cancelled'
+        if (record.job.status === 'cancelled') return;
+
+        Object.assign(record.job, outcome, { finishedAt: new Date().toISOString() });
+        const timer = setTimeout(() => this.jobs.delete(record.job.id), this.options.retentionMs);
+        timer.unref(); // No mantener vivo el proceso solo por la retención
+    }
+}
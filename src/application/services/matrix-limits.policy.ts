@@ -0,0 +1,26 @@
+// src/application/services/matrix-limits.policy.ts
+
+import { MatrixLimits } from '@domain/entities/matrix';
+import { UserRole } from '@domain/entities/user';
+
+/**
+ * @class MatrixLimitsPolicy
+ * @description Resuelve los límites de tamaño de matrices de un usuario a partir de sus roles.
+ * Con varios roles se aplica el límite más permisivo de cada uno; sin roles, los del rol `user`.
+ */
+export class MatrixLimitsPolicy {
+    private readonly limitsByRole: Record<UserRole, MatrixLimits>;
+
+    constructor(limitsByRole: Record<UserRole, MatrixLimits>) {
+        this.limitsByRole = limitsByRole;
+    }
+
+    public forRoles(roles: UserRole[]): MatrixLimits {
+        const applicable = (roles.length > 0 ? roles : ['user' as UserRole]).map(role => this.limitsByRole[role]);
+        return {
+            maxDimension: Math.max(...applicable.map(limits => limits.maxDimension)),
+            maxElements: Math.max(...applicable.map(limits => limits.maxElements)),
+            maxComputeDimension: Math.max(...applicable.map(limits => limits.maxComputeDimension)),
+        };
+    }
+}
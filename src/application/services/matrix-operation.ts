@@ -0,0 +1,89 @@
+// src/application/services/matrix-operation.ts
+
+import { FlipAxis, MatrixOperation, RotationDegrees, RotationDirection } from '@domain/entities/matrix';
+
+import { BadRequestError } from '@domain/errors/app.errors';
+
+/**
+ * La operación que la API de Go aplicaba siempre, antes de que se pudiera elegir.
+ */
+export const DEFAULT_MATRIX_OPERATION: MatrixOperation = { type: 'rotate', degrees: 90, direction: 'clockwise' };
+
+export const MATRIX_OPERATION_TYPES: MatrixOperation['type'][] = ['rotate', 'transpose', 'flip'];
+export const ROTATION_DEGREES: RotationDegrees[] = [90, 180, 270];
+export const ROTATION_DIRECTIONS: RotationDirection[] = ['clockwise', 'counterclockwise'];
+export const FLIP_AXES: FlipAxis[] = ['horizontal', 'vertical'];
+
+// Propiedades admitidas por tipo, además de `type`
+const PARAMETERS: Record<MatrixOperation['type'], string[]> = {
+    rotate: ['degrees', 'direction'],
+    transpose: [],
+    flip: ['axis'],
+};
+
+/**
+ * Convierte la forma abreviada (`rotate:180:counterclockwise`, `flip:vertical`, `transpose`) en un descriptor.
+ */
+const fromShorthand = (shorthand: string): Record<string, unknown> => {
+    const [type, ...args] = shorthand.trim().split(':').map(part => part.trim());
+    if (!MATRIX_OPERATION_TYPES.includes(type as MatrixOperation['type'])) {
+        return { type }; // `resolveMatrixOperation` rechaza el tipo
+    }
+    const names = PARAMETERS[type as MatrixOperation['type']];
+    if (args.length > names.length) {
+        throw new BadRequestError(`"operation" "${shorthand}" has too many parts (expected ${[type, ...names].join(':')}).`);
+    }
+    const descriptor: Record<string, unknown> = { type };
+    args.forEach((arg, index) => {
+        descriptor[names[index]] = names[index] === 'degrees' && /^\d+$/.test(arg) ? Number(arg) : arg;
+    });
+    return descriptor;
+};
+
+const oneOf = <T>(value: unknown, allowed: T[], field: string, fallback?: T): T => {
+    if (value === undefined && fallback !== undefined) {
+        return fallback;
+    }
+    if (!allowed.includes(value as T)) {
+        throw new BadRequestError(`"operation.${field}" must be one of ${allowed.join(', ')}.`);
+    }
+    return value as T;
+};
+
+/**
+ * @function resolveMatrixOperation
+ * @description Valida el descriptor de la operación y completa sus valores por defecto, antes de enviarlo al backend.
+ * Acepta el objeto (`{ "type": "rotate", "degrees": 180 }`) o su forma abreviada (`"rotate:180"`).
+ * Sin descriptor, devuelve `DEFAULT_MATRIX_OPERATION`; en una rotación, `degrees` vale 90 y `direction`, `clockwise`
+ * por defecto. El volteo exige `axis`.
+ * @throws {BadRequestError} Si el tipo es desconocido, algún parámetro no es válido o no corresponde al tipo.
+ */
+export const resolveMatrixOperation = (raw: unknown): MatrixOperation => {
+    if (raw === undefined || raw === null) {
+        return DEFAULT_MATRIX_OPERATION;
+    }
+    const descriptor = typeof raw === 'string' ? fromShorthand(raw) : raw;
+    if (typeof descriptor !== 'object' || Array.isArray(descriptor)) {
+        throw new BadRequestError('"operation" must be an object such as { "type": "rotate", "degrees": 180 } or a string such as "rotate:180".');
+    }
+
+    const { type, ...parameters } = descriptor as Record<string, unknown>;
+    const operationType = oneOf(type, MATRIX_OPERATION_TYPES, 'type');
+    const unexpected = Object.keys(parameters).filter(name => !PARAMETERS[operationType].includes(name));
+    if (unexpected.length > 0) {
+        throw new BadRequestError(`"operation" of type ${operationType} does not accept: ${unexpected.join(', ')}.`);
+    }
+
+    switch (operationType) {
+        case 'rotate':
+            return {
+                type: 'rotate',
+                degrees: oneOf(parameters.degrees, ROTATION_DEGREES, 'degrees', 90),
+                direction: oneOf(parameters.direction, ROTATION_DIRECTIONS, 'direction', 'clockwise'),
+            };
+        case 'transpose':
+            return { type: 'transpose' };
+        case 'flip':
+            return { type: 'flip', axis: oneOf(parameters.axis, FLIP_AXES, 'axis') };
+    }
+};
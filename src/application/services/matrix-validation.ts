@@ -0,0 +1,68 @@
+// src/application/services/matrix-validation.ts
+
+import { InvalidMatrixError, MatrixTooLargeError } from '@domain/errors/app.errors';
+import { Matrix, MatrixLimits } from '@domain/entities/matrix';
+
+/**
+ * @function checkMatrixLimits
+ * @description Comprueba unas dimensiones contra los límites de tamaño del solicitante. Sirve también para
+ * rechazar un resultado demasiado grande (ej. un producto de Kronecker) antes de calcularlo.
+ * @throws {MatrixTooLargeError} Si las dimensiones exceden los límites.
+ */
+export const checkMatrixLimits = (numRows: number, numCols: number, limits: MatrixLimits): void => {
+    if (numRows > limits.maxDimension || numCols > limits.maxDimension) {
+        throw new MatrixTooLargeError(`Matrix dimensions ${numRows}x${numCols} exceed the maximum of ${limits.maxDimension} rows or columns for your plan.`);
+    }
+    if (numRows * numCols > limits.maxElements) {
+        throw new MatrixTooLargeError(`Matrix has ${numRows * numCols} elements; the maximum for your plan is ${limits.maxElements}.`);
+    }
+};
+
+/**
+ * @function checkComputeLimits
+ * @description Comprueba unas dimensiones contra el límite de las operaciones de coste O(n³) (descomposiciones,
+ * estadísticas como el rango o el determinante, producto, inversa y potencia). Se calculan en el event loop, así que
+ * con las dimensiones que admite `maxDimension` dejarían el proceso sin atender solicitudes durante minutos.
+ * @param operation Lo que se iba a calcular, para el mensaje de error (ej. 'Matrix multiplication').
+ * @throws {MatrixTooLargeError} Si alguna dimensión excede `maxComputeDimension`.
+ */
+export const checkComputeLimits = (numRows: number, numCols: number, limits: MatrixLimits, operation: string): void => {
+    if (numRows > limits.maxComputeDimension || numCols > limits.maxComputeDimension) {
+        throw new MatrixTooLargeError(
+            `${operation} on a ${numRows}x${numCols} matrix exceeds the maximum of ${limits.maxComputeDimension} rows or columns for compute-heavy operations on your plan.`
+        );
+    }
+};
+
+/**
+ * @function validateMatrix
+ * @description Valida la forma de una matriz de entrada: no vacía, rectangular, solo números y, si se indican,
+ * dentro de los límites de tamaño del solicitante.
+ * @throws {InvalidMatrixError} Si la matriz es inválida (vacía, mal formada, no rectangular o contiene no numéricos).
+ * @throws {MatrixTooLargeError} Si la matriz excede los límites.
+ */
+export const validateMatrix = (matrix: Matrix, limits?: MatrixLimits): void => {
+    // 1. Validación inicial de la matriz de entrada.
+    if (!matrix || matrix.length === 0 || !Array.isArray(matrix[0])) {
+        throw new InvalidMatrixError('Input matrix is empty or malformed.');
+    }
+
+    const numRows = matrix.length;
+    const numCols = matrix[0].length;
+
+    // Los límites se comprueban antes de recorrer la matriz, para no validar elemento a elemento una matriz enorme.
+    if (limits) {
+        checkMatrixLimits(numRows, numCols, limits);
+    }
+
+    // 2. Validación de que la matriz sea rectangular y contenga solo números.
+    for (const row of matrix) {
+        if (row.length !== numCols) {
+            throw new InvalidMatrixError('Matrix must be rectangular (all rows must have the same number of columns).');
+        }
+        // Verificar que todos los elementos de la fila sean números
+        if (!row.every(item => typeof item === 'number')) {
+            throw new InvalidMatrixError('Matrix must contain only arrays of numbers.');
+        }
+    }
+};
@@ -0,0 +1,108 @@
+// src/application/services/qr-verifier.ts
+
+import { Matrix, QRFactorization, QRVerificationReport } from '@domain/entities/matrix';
+import { identity, multiply, transpose } from '@shared/math/linear-algebra';
+
+import { QRVerificationMode } from '../../config';
+import { frobeniusNorm } from '@shared/math/matrix-analysis';
+
+/**
+ * @interface QRVerifierOptions
+ * @description Configuración de la verificación de la factorización QR.
+ */
+export interface QRVerifierOptions {
+    tolerance: number;        // Residuo relativo máximo admitido en cada comprobación
+    mode: QRVerificationMode; // 'reject' para rechazar la solicitud, 'flag' para solo reportarlo
+}
+
+/**
+ * Norma de Frobenius de la diferencia a - b (se asume que tienen las mismas dimensiones).
+ */
+const differenceNorm = (a: Matrix, b: Matrix): number =>
+    frobeniusNorm(a.map((row, i) => row.map((value, j) => value - b[i][j])));
+
+/**
+ * Divide por la escala salvo que sea cero (ej. la matriz nula), en cuyo caso el residuo es absoluto.
+ */
+const relative = (residual: number, scale: number): number => scale > 0 ? residual / scale : residual;
+
+/**
+ * Indica si dos matrices tienen las mismas dimensiones y los mismos valores.
+ */
+const sameEntries = (a: Matrix, b: Matrix): boolean =>
+    Array.isArray(b) && a.length === b.length &&
+    a.every((row, i) => Array.isArray(b[i]) && row.length === b[i].length && row.every((value, j) => value === b[i][j]));
+
+const dimensionsOf = (matrix: Matrix | undefined): [number, number] | null => {
+    if (!Array.isArray(matrix) || matrix.length === 0 || !Array.isArray(matrix[0])) return null;
+    const cols = matrix[0].length;
+    return matrix.every(row => Array.isArray(row) && row.length === cols) ? [matrix.length, cols] : null;
+};
+
+/**
+ * @class QRVerifier
+ * @description Verifica numéricamente la factorización QR devuelta por el backend (Go o el motor local):
+ * 1. Q es ortogonal: QᵀQ ≈ I.
+ * 2. R es triangular superior.
+ * 3. Q·R reconstruye la matriz original.
+ * 4. Si se indica, la matriz original que devolvió el backend coincide con la que se le envió.
+ * Acepta tanto la factorización completa (Q de m x m) como la reducida (Q de m x n).
+ */
+export class QRVerifier {
+    private readonly options: QRVerifierOptions;
+
+    constructor(options: QRVerifierOptions) {
+        this.options = options;
+    }
+
+    /**
+     * @method shouldReject
+     * @description Indica si un informe fallido debe rechazar la solicitud (modo 'reject').
+     */
+    public shouldReject(report: QRVerificationReport): boolean {
+        return !report.passed && this.options.mode === 'reject';
+    }
+
+    /**
+     * @method verify
+     * @description Calcula los residuos de la factorización y los compara con la tolerancia.
+     * @param original La matriz que se envió al backend para factorizarla.
+     * @param qr La factorización a verificar.
+     * @param returned La matriz original que devolvió el backend; si difiere de `original`, falla 'originalMatrix'.
+     */
+    public verify(original: Matrix, qr: QRFactorization | undefined, returned?: Matrix): QRVerificationReport {
+        const { tolerance } = this.options;
+        const echoFailures = returned !== undefined && !sameEntries(original, returned) ? ['originalMatrix'] : [];
+        const a = dimensionsOf(original);
+        const q = dimensionsOf(qr?.Q);
+        const r = dimensionsOf(qr?.R);
+
+        // Q (m x k) · R (k x n) debe tener las dimensiones de A (m x n)
+        if (!a || !q || !r || q[0] !== a[0] || q[1] !== r[0] || r[1] !== a[1]) {
+            return {
+                passed: false,
+                tolerance,
+                residuals: { orthogonality: null, triangularity: null, reconstruction: null },
+                failures: ['dimensions', ...echoFailures],
+            };
+        }
+
+        const { Q, R } = qr as QRFactorization;
+
+        let belowDiagonal = 0;
+        R.forEach((row, i) => row.forEach((value, j) => {
+            if (i > j) belowDiagonal += value * value;
+        }));
+
+        const residuals = {
+            orthogonality: differenceNorm(multiply(transpose(Q), Q), identity(q[1])),
+            triangularity: relative(Math.sqrt(belowDiagonal), frobeniusNorm(R)),
+            reconstruction: relative(differenceNorm(multiply(Q, R), original), frobeniusNorm(original)),
+        };
+        const failures: string[] = (Object.keys(residuals) as Array<keyof typeof residuals>)
+            .filter(check => !(residuals[check] <= tolerance)); // !(<=) también marca NaN como fallo
+        failures.push(...echoFailures);
+
+        return { passed: failures.length === 0, tolerance, residuals, failures };
+    }
+}
@@ -0,0 +1,137 @@
+// src/application/services/statistics/matrix-statistics.engine.ts
+
+import { BUILT_IN_STATISTICS, StatisticContext, StatisticDefinition } from '@application/services/statistics/statistic-definitions';
+import { BadRequestError, InvalidMatrixError } from '@domain/errors/app.errors';
+import { Matrix, MatrixStatistics, MatrixStatisticsReport } from '@domain/entities/matrix';
+
+import { flatten } from '@shared/math/linear-algebra';
+
+/**
+ * Estadísticas calculadas cuando el cliente no elige ninguna (las más baratas de calcular).
+ */
+export const DEFAULT_STATISTICS_SELECTION = ['max', 'min', 'sum', 'average', 'isDiagonal'];
+
+/**
+ * @interface MatrixStatisticsEngineOptions
+ * @description Opciones del motor de estadísticas.
+ */
+export interface MatrixStatisticsEngineOptions {
+    tolerance: number; // Tolerancia absoluta para detectar estructura (ceros, identidad, simetría)
+}
+
+/**
+ * @class MatrixStatisticsEngine
+ * @description Motor único de estadísticas de matrices. Centraliza el cálculo que antes estaba
+ * duplicado en los casos de uso y permite:
+ * - Registrar estadísticas adicionales (`register`).
+ * - Calcular una selección de estadísticas sobre una matriz (`compute`).
+ * - Calcular el resumen agregado histórico sobre la matriz original y la rotada (`computeSummary`).
+ */
+export class MatrixStatisticsEngine {
+    private readonly definitions = new Map<string, StatisticDefinition>();
+    private readonly options: MatrixStatisticsEngineOptions;
+
+    constructor(options: MatrixStatisticsEngineOptions = { tolerance: 1e-9 }, definitions: StatisticDefinition[] = BUILT_IN_STATISTICS) {
+        this.options = options;
+        definitions.forEach(definition => this.register(definition));
+    }
+
+    /**
+     * @method register
+     * @description Registra (o reemplaza) una estadística.
+     */
+    public register(definition: StatisticDefinition): void {
+        this.definitions.set(definition.name, definition);
+    }
+
+    /**
+     * @method heavyStatistics
+     * @description Devuelve las estadísticas de la selección con coste O(n³), que están sujetas a `maxComputeDimension`.
+     */
+    public heavyStatistics(selection: string[]): string[] {
+        return selection.filter(name => this.definitions.get(name)?.heavy);
+    }
+
+    /**
+     * @method listStatistics
+     * @description Devuelve los nombres y descripciones de las estadísticas disponibles.
+     */
+    public listStatistics(): Array<{ name: string; description: string }> {
+        return Array.from(this.definitions.values(), ({ name, description }) => ({ name, description }));
+    }
+
+    /**
+     * @method resolveSelection
+     * @description Valida la selección del cliente. Sin selección se usan las estadísticas por defecto;
+     * `all` selecciona todas las registradas.
+     * @throws {BadRequestError} Si se pide alguna estadística desconocida.
+     */
+    public resolveSelection(requested?: string[]): string[] {
+        if (!requested || requested.length === 0) {
+            return DEFAULT_STATISTICS_SELECTION;
+        }
+        if (requested.includes('all')) {
+            return Array.from(this.definitions.keys());
+        }
+
+        const unknown = requested.filter(name => !this.definitions.has(name));
+        if (unknown.length > 0) {
+            throw new BadRequestError(
+                `Unknown statistics: ${unknown.join(', ')}. Available: ${Array.from(this.definitions.keys()).join(', ')}, all.`
+            );
+        }
+        return Array.from(new Set(requested));
+    }
+
+    /**
+     * @method compute
+     * @description Calcula las estadísticas seleccionadas sobre una única matriz.
+     * Una matriz vacía (ej. una factorización que Go no devolvió) produce `null` en todas.
+     */
+    public compute(matrix: Matrix, selection: string[]): MatrixStatisticsReport {
+        const rows = matrix?.length ?? 0;
+        const cols = rows > 0 ? matrix[0].length : 0;
+        const report: MatrixStatisticsReport = {};
+
+        if (rows === 0 || cols === 0) {
+            selection.forEach(name => { report[name] = null; });
+            return report;
+        }
+
+        const context: StatisticContext = {
+            matrix,
+            values: flatten(matrix),
+            rows,
+            cols,
+            isSquare: rows === cols,
+            tolerance: this.options.tolerance,
+        };
+        for (const name of selection) {
+            report[name] = (this.definitions.get(name) as StatisticDefinition).compute(context);
+        }
+        return report;
+    }
+
+    /**
+     * @method computeSummary
+     * @description Calcula el resumen agregado (máximo, mínimo, promedio y suma sobre los valores de ambas
+     * matrices, y si cada una es diagonal). Es el formato `MatrixStatistics` que la API devolvía originalmente.
+     * @throws {InvalidMatrixError} Si no hay valores numéricos sobre los que calcular.
+     */
+    public computeSummary(originalMatrix: Matrix, rotatedMatrix: Matrix): MatrixStatistics {
+        const allValues = [...flatten(originalMatrix), ...flatten(rotatedMatrix)];
+        if (allValues.length === 0) {
+            throw new InvalidMatrixError('No numeric values found in matrices to calculate statistics.');
+        }
+
+        const pooled = this.compute([allValues], ['max', 'min', 'sum', 'average']);
+        return {
+            maxValue: pooled.max as number,
+            minValue: pooled.min as number,
+            average: pooled.average as number,
+            totalSum: pooled.sum as number,
+            isDiagonalOriginal: this.compute(originalMatrix, ['isDiagonal']).isDiagonal === true,
+            isDiagonalRotated: this.compute(rotatedMatrix, ['isDiagonal']).isDiagonal === true,
+        };
+    }
+}
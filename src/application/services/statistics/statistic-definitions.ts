@@ -0,0 +1,107 @@
+// src/application/services/statistics/statistic-definitions.ts
+
+import { Matrix, StatisticValue } from '@domain/entities/matrix';
+import { conditionNumber, frobeniusNorm, infinityNorm, oneNorm, rank } from '@shared/math/matrix-analysis';
+import { multiply, transpose } from '@shared/math/linear-algebra';
+
+import { determinant } from '@shared/math/lu';
+
+/**
+ * @interface StatisticContext
+ * @description Datos precalculados que reciben todas las estadísticas de una misma matriz.
+ */
+export interface StatisticContext {
+    matrix: Matrix;
+    values: number[];  // Todos los elementos, fila por fila
+    rows: number;
+    cols: number;
+    isSquare: boolean;
+    tolerance: number; // Tolerancia absoluta para las comparaciones con cero / identidad
+}
+
+/**
+ * @interface StatisticDefinition
+ * @description Una estadística del motor. Para añadir una nueva basta con registrar otra definición.
+ */
+export interface StatisticDefinition {
+    name: string;
+    description: string;
+    heavy?: boolean; // Coste O(n³): solo se calcula dentro de `maxComputeDimension` (ver `checkComputeLimits`)
+    compute(context: StatisticContext): StatisticValue;
+}
+
+const sortedValues = (values: number[]): number[] => values.slice().sort((a, b) => a - b);
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const variance = (values: number[]): number => {
+    const avg = mean(values);
+    return values.reduce((sum, value) => sum + (value - avg) * (value - avg), 0) / values.length;
+};
+
+/**
+ * Verifica que todos los elementos (i, j) que cumplen `predicate` sean cero (dentro de la tolerancia).
+ */
+const zeroWhere = ({ matrix, tolerance }: StatisticContext, predicate: (i: number, j: number) => boolean): boolean =>
+    matrix.every((row, i) => row.every((value, j) => !predicate(i, j) || Math.abs(value) <= tolerance));
+
+const isNear = (a: Matrix, b: Matrix, tolerance: number): boolean =>
+    a.every((row, i) => row.every((value, j) => Math.abs(value - b[i][j]) <= tolerance));
+
+const isIdentity = (matrix: Matrix, tolerance: number): boolean =>
+    matrix.every((row, i) => row.every((value, j) => Math.abs(value - (i === j ? 1 : 0)) <= tolerance));
+
+/**
+ * Estadísticas integradas. Las que solo tienen sentido para matrices cuadradas devuelven `null`
+ * (valores numéricos) o `false` (propiedades estructurales) para matrices rectangulares.
+ */
+export const BUILT_IN_STATISTICS: StatisticDefinition[] = [
+    // --- Estadísticas descriptivas de los valores ---
+    // reduce en lugar de Math.max(...values), que desborda la pila con matrices grandes
+    { name: 'max', description: 'Largest element.', compute: ({ values }) => values.reduce((max, value) => Math.max(max, value), -Infinity) },
+    { name: 'min', description: 'Smallest element.', compute: ({ values }) => values.reduce((min, value) => Math.min(min, value), Infinity) },
+    { name: 'sum', description: 'Sum of all elements.', compute: ({ values }) => values.reduce((sum, value) => sum + value, 0) },
+    { name: 'average', description: 'Arithmetic mean of all elements.', compute: ({ values }) => mean(values) },
+    {
+        name: 'median',
+        description: 'Median of all elements.',
+        compute: ({ values }) => {
+            const sorted = sortedValues(values);
+            const middle = Math.floor(sorted.length / 2);
+            return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+        },
+    },
+    { name: 'variance', description: 'Population variance of all elements.', compute: ({ values }) => variance(values) },
+    { name: 'standardDeviation', description: 'Population standard deviation of all elements.', compute: ({ values }) => Math.sqrt(variance(values)) },
+
+    // --- Álgebra lineal ---
+    {
+        name: 'trace',
+        description: 'Sum of the main diagonal (square matrices only).',
+        compute: ({ matrix, isSquare }) => isSquare ? matrix.reduce((sum, row, i) => sum + row[i], 0) : null,
+    },
+    { name: 'determinant', description: 'Determinant via LU with partial pivoting (square matrices only).', heavy: true, compute: ({ matrix, isSquare }) => isSquare ? determinant(matrix) : null },
+    { name: 'rank', description: 'Numerical rank via Gaussian elimination.', heavy: true, compute: ({ matrix }) => rank(matrix) },
+    { name: 'frobeniusNorm', description: 'Frobenius norm.', compute: ({ matrix }) => frobeniusNorm(matrix) },
+    { name: 'oneNorm', description: 'Maximum absolute column sum.', compute: ({ matrix }) => oneNorm(matrix) },
+    { name: 'infinityNorm', description: 'Maximum absolute row sum.', compute: ({ matrix }) => infinityNorm(matrix) },
+    { name: 'conditionNumber', description: '2-norm condition number (null when singular).', heavy: true, compute: ({ matrix }) => conditionNumber(matrix) },
+
+    // --- Estructura ---
+    { name: 'isDiagonal', description: 'Square with zeros outside the main diagonal.', compute: ctx => ctx.isSquare && zeroWhere(ctx, (i, j) => i !== j) },
+    { name: 'isSymmetric', description: 'Square and equal to its transpose.', compute: ({ matrix, isSquare, tolerance }) => isSquare && isNear(matrix, transpose(matrix), tolerance) },
+    { name: 'isUpperTriangular', description: 'Zeros below the main diagonal.', compute: ctx => zeroWhere(ctx, (i, j) => i > j) },
+    { name: 'isLowerTriangular', description: 'Zeros above the main diagonal.', compute: ctx => zeroWhere(ctx, (i, j) => i < j) },
+    { name: 'isIdentity', description: 'Square identity matrix.', compute: ({ matrix, isSquare, tolerance }) => isSquare && isIdentity(matrix, tolerance) },
+    {
+        name: 'isOrthogonal',
+        description: 'Square with orthonormal columns (AᵀA = I).',
+        heavy: true,
+        compute: ({ matrix, isSquare, tolerance }) => isSquare && isIdentity(multiply(transpose(matrix), matrix), tolerance),
+    },
+    {
+        name: 'density',
+        description: 'Fraction of non-zero elements (sparsity = 1 - density).',
+        compute: ({ values, tolerance }) => values.filter(value => Math.abs(value) > tolerance).length / values.length,
+    },
+];
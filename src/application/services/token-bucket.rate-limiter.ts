@@ -0,0 +1,39 @@
+// src/application/services/token-bucket.rate-limiter.ts
+
+import { RateLimitDecision, RateLimitPolicy } from '@domain/entities/rate-limit';
+
+import { RateLimitStore } from '@application/ports/rate-limit.store';
+
+/**
+ * @class TokenBucketRateLimiter
+ * @description Limitador de solicitudes token bucket. Cada clave (usuario o IP) tiene un cubo de `limit` tokens
+ * que se rellena de forma continua; cada solicitud consume un token y se rechaza si no queda ninguno.
+ * Varios limitadores pueden compartir un almacén: las claves se prefijan con el nombre del limitador.
+ */
+export class TokenBucketRateLimiter {
+    private readonly store: RateLimitStore;
+    private readonly policy: RateLimitPolicy;
+    private readonly name: string;
+
+    /**
+     * @constructor
+     * @param store El almacén del estado de los cubos.
+     * @param policy Capacidad y ventana de relleno.
+     * @param name Nombre del limitador (ej. 'login', 'matrix').
+     */
+    constructor(store: RateLimitStore, policy: RateLimitPolicy, name: string) {
+        this.store = store;
+        this.policy = policy;
+        this.name = name;
+    }
+
+    /**
+     * @method consume
+     * @description Intenta consumir un token del cubo de la clave.
+     * @param key Identifica al cliente (ej. `user:<id>` o `ip:<dirección>`).
+     */
+    public async consume(key: string, now: number = Date.now()): Promise<RateLimitDecision> {
+        // El almacén rellena y consume en una sola operación, para que las solicitudes concurrentes no compartan tokens
+        return this.store.take(`${this.name}:${key}`, 1, this.policy, now);
+    }
+}
@@ -0,0 +1,21 @@
+// src/application/use-cases/api-keys/api-key-secret.ts
+
+import { createHash, randomBytes } from 'crypto';
+
+// Prefijo fijo de las keys: permite reconocerlas (ej. en escáneres de secretos) y distinguirlas de un JWT
+const API_KEY_PREFIX = 'ak_';
+
+// Caracteres de la key que se guardan en claro para identificarla en los listados
+const VISIBLE_PREFIX_LENGTH = API_KEY_PREFIX.length + 6;
+
+/**
+ * Genera una API key nueva (256 bits aleatorios en base64url).
+ */
+export const generateApiKey = (): string => `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+/**
+ * Hash con el que se guarda y se busca una key. Al ser de alta entropía no necesita sal ni un hash lento.
+ */
+export const hashApiKey = (key: string): string => createHash('sha256').update(key).digest('hex');
+
+export const visiblePrefixOf = (key: string): string => key.slice(0, VISIBLE_PREFIX_LENGTH);
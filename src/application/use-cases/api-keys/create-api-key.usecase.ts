@@ -0,0 +1,100 @@
+// src/application/use-cases/api-keys/create-api-key.usecase.ts
+
+import { API_KEY_SCOPES, ApiKey, ApiKeyScope, PublicApiKey, isApiKeyActive, toPublicApiKey } from '@domain/entities/api-key';
+import { generateApiKey, hashApiKey, visiblePrefixOf } from '@application/use-cases/api-keys/api-key-secret';
+
+import { ApiKeyRepository } from '@application/ports/api-key.repository';
+import { BadRequestError } from '@domain/errors/app.errors';
+import { randomUUID } from 'crypto';
+
+export const MAX_LABEL_LENGTH = 100;
+
+/**
+ * @interface CreateApiKeyRequest
+ * @description Datos para crear una API key para el usuario autenticado.
+ */
+export interface CreateApiKeyRequest {
+    ownerId: string;
+    label: string;
+    scopes: ApiKeyScope[];
+    expiresAt?: string | null; // ISO 8601; sin valor, la key no expira
+}
+
+/**
+ * @interface CreatedApiKey
+ * @description La key creada junto con su valor en claro, que solo se devuelve en este momento.
+ */
+export interface CreatedApiKey {
+    key: string;
+    apiKey: PublicApiKey;
+}
+
+/**
+ * @interface CreateApiKeyOptions
+ */
+export interface CreateApiKeyOptions {
+    maxPerUser: number; // API keys activas (no revocadas ni expiradas) por usuario
+}
+
+/**
+ * @class CreateApiKeyUseCase
+ * @description Caso de uso para crear una API key:
+ * 1. Valida la etiqueta, los scopes y la expiración.
+ * 2. Comprueba que el usuario no supere el máximo de keys activas.
+ * 3. Genera la key y guarda solo su hash.
+ */
+export class CreateApiKeyUseCase {
+    private readonly apiKeyRepository: ApiKeyRepository;
+    private readonly options: CreateApiKeyOptions;
+
+    constructor(apiKeyRepository: ApiKeyRepository, options: CreateApiKeyOptions) {
+        this.apiKeyRepository = apiKeyRepository;
+        this.options = options;
+    }
+
+    /**
+     * @method execute
+     * @throws {BadRequestError} Si los datos no son válidos o el usuario ya tiene el máximo de keys activas.
+     */
+    async execute(request: CreateApiKeyRequest): Promise<CreatedApiKey> {
+        const { ownerId, label, scopes, expiresAt } = request;
+
+        if (typeof label !== 'string' || label.trim().length === 0 || label.trim().length > MAX_LABEL_LENGTH) {
+            throw new BadRequestError(`"label" must be a non-empty string of at most ${MAX_LABEL_LENGTH} characters.`);
+        }
+        if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(scope => API_KEY_SCOPES.includes(scope))) {
+            throw new BadRequestError(`"scopes" must be a non-empty array with any of: ${API_KEY_SCOPES.join(', ')}.`);
+        }
+
+        const now = new Date();
+        let expiration: string | null = null;
+        if (expiresAt !== undefined && expiresAt !== null) {
+            const time = typeof expiresAt === 'string' ? Date.parse(expiresAt) : NaN;
+            if (Number.isNaN(time) || time <= now.getTime()) {
+                throw new BadRequestError('"expiresAt" must be an ISO 8601 date in the future.');
+            }
+            expiration = new Date(time).toISOString();
+        }
+
+        const active = (await this.apiKeyRepository.listByOwner(ownerId)).filter(apiKey => isApiKeyActive(apiKey, now));
+        if (active.length >= this.options.maxPerUser) {
+            throw new BadRequestError(`A user can have at most ${this.options.maxPerUser} active API keys. Revoke one first.`);
+        }
+
+        const key = generateApiKey();
+        const apiKey: ApiKey = {
+            id: randomUUID(),
+            ownerId,
+            label: label.trim(),
+            keyHash: hashApiKey(key),
+            prefix: visiblePrefixOf(key),
+            scopes: Array.from(new Set(scopes)),
+            createdAt: now.toISOString(),
+            expiresAt: expiration,
+            lastUsedAt: null,
+            revokedAt: null,
+        };
+        await this.apiKeyRepository.create(apiKey);
+        return { key, apiKey: toPublicApiKey(apiKey) };
+    }
+}
@@ -0,0 +1,22 @@
+// src/application/use-cases/api-keys/list-api-keys.usecase.ts
+
+import { PublicApiKey, toPublicApiKey } from '@domain/entities/api-key';
+
+import { ApiKeyRepository } from '@application/ports/api-key.repository';
+
+/**
+ * @class ListApiKeysUseCase
+ * @description Caso de uso para listar las API keys de un usuario (incluidas las revocadas y expiradas, sin sus hashes).
+ */
+export class ListApiKeysUseCase {
+    private readonly apiKeyRepository: ApiKeyRepository;
+
+    constructor(apiKeyRepository: ApiKeyRepository) {
+        this.apiKeyRepository = apiKeyRepository;
+    }
+
+    async execute(ownerId: string): Promise<PublicApiKey[]> {
+        const apiKeys = await this.apiKeyRepository.listByOwner(ownerId);
+        return apiKeys.map(toPublicApiKey).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    }
+}
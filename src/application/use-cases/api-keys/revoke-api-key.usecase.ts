@@ -0,0 +1,45 @@
+// src/application/use-cases/api-keys/revoke-api-key.usecase.ts
+
+import { PublicApiKey, toPublicApiKey } from '@domain/entities/api-key';
+
+import { ApiKeyRepository } from '@application/ports/api-key.repository';
+import { NotFoundError } from '@domain/errors/app.errors';
+
+/**
+ * @interface RevokeApiKeyRequest
+ */
+export interface RevokeApiKeyRequest {
+    ownerId: string;
+    apiKeyId: string;
+}
+
+/**
+ * @class RevokeApiKeyUseCase
+ * @description Caso de uso para revocar una API key. La revocación es inmediata y definitiva;
+ * revocar una key ya revocada no cambia la fecha de revocación.
+ */
+export class RevokeApiKeyUseCase {
+    private readonly apiKeyRepository: ApiKeyRepository;
+
+    constructor(apiKeyRepository: ApiKeyRepository) {
+        this.apiKeyRepository = apiKeyRepository;
+    }
+
+    /**
+     * @method execute
+     * @throws {NotFoundError} Si la key no existe o pertenece a otro usuario (no se revela cuál de los dos).
+     */
+    async execute(request: RevokeApiKeyRequest): Promise<PublicApiKey> {
+        const apiKey = await this.apiKeyRepository.findById(request.apiKeyId);
+        if (!apiKey || apiKey.ownerId !== request.ownerId) {
+            throw new NotFoundError(`API key ${request.apiKeyId} not found.`);
+        }
+        if (apiKey.revokedAt) {
+            return toPublicApiKey(apiKey);
+        }
+
+        const revoked = { ...apiKey, revokedAt: new Date().toISOString() };
+        await this.apiKeyRepository.update(revoked);
+        return toPublicApiKey(revoked);
+    }
+}
@@ -0,0 +1,60 @@
+// src/application/use-cases/auth/change-password.usecase.ts
+
+import { NotFoundError, UnauthorizedError } from '@domain/errors/app.errors';
+
+import { AuthSessionService } from '@application/services/auth-session.service';
+import { PasswordHasher } from '@application/ports/password-hasher';
+import { UserRepository } from '@application/ports/user.repository';
+import { assertValidPassword } from '@application/use-cases/auth/credential-rules';
+
+/**
+ * @interface ChangePasswordRequest
+ * @description Cambio de contraseña del usuario autenticado.
+ */
+export interface ChangePasswordRequest {
+    userId: string;
+    currentPassword: string;
+    newPassword: string;
+}
+
+/**
+ * @class ChangePasswordUseCase
+ * @description Caso de uso para cambiar la contraseña propia. Exige la contraseña actual y
+ * revoca todas las sesiones del usuario (incluida la actual), que debe volver a iniciar sesión.
+ */
+export class ChangePasswordUseCase {
+    private readonly userRepository: UserRepository;
+    private readonly passwordHasher: PasswordHasher;
+    private readonly authSessionService: AuthSessionService;
+
+    constructor(userRepository: UserRepository, passwordHasher: PasswordHasher, authSessionService: AuthSessionService) {
+        this.userRepository = userRepository;
+        this.passwordHasher = passwordHasher;
+        this.authSessionService = authSessionService;
+    }
+
+    /**
+     * @method execute
+     * @throws {BadRequestError} Si la nueva contraseña no es válida.
+     * @throws {UnauthorizedError} Si la contraseña actual no coincide.
+     * @throws {NotFoundError} Si el usuario ya no existe.
+     */
+    async execute(request: ChangePasswordRequest): Promise<void> {
+        const newPassword = assertValidPassword(request.newPassword, 'newPassword');
+
+        const user = await this.userRepository.findById(request.userId);
+        if (!user) {
+            throw new NotFoundError(`User ${request.userId} not found.`);
+        }
+        if (typeof request.currentPassword !== 'string' || !(await this.passwordHasher.verify(request.currentPassword, user.passwordHash))) {
+            throw new UnauthorizedError('Current password is incorrect.');
+        }
+
+        await this.userRepository.update({
+            ...user,
+            passwordHash: await this.passwordHasher.hash(newPassword),
+            updatedAt: new Date().toISOString(),
+        });
+        await this.authSessionService.revokeUserSessions(user.id);
+    }
+}
@@ -0,0 +1,27 @@
+// src/application/use-cases/auth/credential-rules.ts
+
+import { BadRequestError } from '@domain/errors/app.errors';
+
+export const USERNAME_PATTERN = /^[A-Za-z0-9_.-]{3,32}$/;
+export const PASSWORD_MIN_LENGTH = 8;
+export const PASSWORD_MAX_LENGTH = 128; // Acota el coste de scrypt ante contraseñas enormes
+
+/**
+ * @throws {BadRequestError} Si el nombre de usuario no tiene entre 3 y 32 caracteres alfanuméricos, '_', '.' o '-'.
+ */
+export const assertValidUsername = (username: unknown): string => {
+    if (typeof username !== 'string' || !USERNAME_PATTERN.test(username)) {
+        throw new BadRequestError('"username" must be 3-32 characters long and contain only letters, digits, "_", "." or "-".');
+    }
+    return username;
+};
+
+/**
+ * @throws {BadRequestError} Si la contraseña no tiene entre 8 y 128 caracteres.
+ */
+export const assertValidPassword = (password: unknown, field: string = 'password'): string => {
+    if (typeof password !== 'string' || password.length < PASSWORD_MIN_LENGTH || password.length > PASSWORD_MAX_LENGTH) {
+        throw new BadRequestError(`"${field}" must be between ${PASSWORD_MIN_LENGTH} and ${PASSWORD_MAX_LENGTH} characters long.`);
+    }
+    return password;
+};
@@ -0,0 +1,22 @@
+// src/application/use-cases/auth/list-users.usecase.ts
+
+import { PublicUser, toPublicUser } from '@domain/entities/user';
+
+import { UserRepository } from '@application/ports/user.repository';
+
+/**
+ * @class ListUsersUseCase
+ * @description Caso de uso para listar los usuarios registrados (sin los hashes de las contraseñas).
+ */
+export class ListUsersUseCase {
+    private readonly userRepository: UserRepository;
+
+    constructor(userRepository: UserRepository) {
+        this.userRepository = userRepository;
+    }
+
+    async execute(): Promise<PublicUser[]> {
+        const users = await this.userRepository.list();
+        return users.map(toPublicUser).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    }
+}
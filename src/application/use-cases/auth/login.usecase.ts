@@ -0,0 +1,78 @@
+// src/application/use-cases/auth/login.usecase.ts
+
+import { ForbiddenError, UnauthorizedError } from '@domain/errors/app.errors';
+import { PublicUser, toAuthenticatedUser, toPublicUser } from '@domain/entities/user';
+
+import { AuthSessionService } from '@application/services/auth-session.service';
+import { PasswordHasher } from '@application/ports/password-hasher';
+import { SessionTokens } from '@domain/entities/session';
+import { UserRepository } from '@application/ports/user.repository';
+import { randomBytes } from 'crypto';
+
+/**
+ * @interface LoginRequest
+ * @description Credenciales de inicio de sesión.
+ */
+export interface LoginRequest {
+    username: string;
+    password: string;
+}
+
+/**
+ * @interface LoginResult
+ * @description Token de acceso y refresh token emitidos, y datos públicos del usuario.
+ */
+export interface LoginResult extends SessionTokens {
+    user: PublicUser;
+}
+
+/**
+ * @class LoginUseCase
+ * @description Caso de uso para iniciar sesión: busca al usuario, verifica su contraseña y abre una sesión
+ * (token de acceso + refresh token).
+ */
+export class LoginUseCase {
+    private readonly userRepository: UserRepository;
+    private readonly passwordHasher: PasswordHasher;
+    private readonly authSessionService: AuthSessionService;
+    private dummyHash?: Promise<string>;
+
+    constructor(userRepository: UserRepository, passwordHasher: PasswordHasher, authSessionService: AuthSessionService) {
+        this.userRepository = userRepository;
+        this.passwordHasher = passwordHasher;
+        this.authSessionService = authSessionService;
+    }
+
+    /**
+     * @method execute
+     * @throws {UnauthorizedError} Si el usuario no existe o la contraseña no coincide (mismo mensaje en ambos casos).
+     * @throws {ForbiddenError} Si la cuenta está deshabilitada.
+     */
+    async execute(request: LoginRequest): Promise<LoginResult> {
+        const { username, password } = request;
+        if (typeof username !== 'string' || typeof password !== 'string') {
+            throw new UnauthorizedError('Invalid username or password.');
+        }
+
+        const user = await this.userRepository.findByUsername(username);
+        // Con un usuario inexistente se verifica igualmente contra un hash ficticio para que el tiempo
+        // de respuesta no revele qué nombres de usuario existen.
+        const passwordHash = user?.passwordHash ?? await this.getDummyHash();
+        const valid = await this.passwordHasher.verify(password, passwordHash);
+
+        if (!user || !valid) {
+            throw new UnauthorizedError('Invalid username or password.');
+        }
+        if (user.disabled) {
+            throw new ForbiddenError('This account is disabled.');
+        }
+
+        const tokens = await this.authSessionService.startSession(toAuthenticatedUser(user));
+        return { ...tokens, user: toPublicUser(user) };
+    }
+
+    private getDummyHash(): Promise<string> {
+        this.dummyHash ??= this.passwordHasher.hash(randomBytes(16).toString('hex'));
+        return this.dummyHash;
+    }
+}
@@ -0,0 +1,21 @@
+// src/application/use-cases/auth/logout.usecase.ts
+
+import { AccessTokenClaims } from '@domain/entities/session';
+import { AuthSessionService } from '@application/services/auth-session.service';
+
+/**
+ * @class LogoutUseCase
+ * @description Caso de uso para cerrar sesión: revoca el token de acceso presentado y su sesión,
+ * de modo que ni ese token ni los refresh tokens de la sesión vuelvan a servir.
+ */
+export class LogoutUseCase {
+    private readonly authSessionService: AuthSessionService;
+
+    constructor(authSessionService: AuthSessionService) {
+        this.authSessionService = authSessionService;
+    }
+
+    async execute(claims: AccessTokenClaims): Promise<void> {
+        await this.authSessionService.endSession(claims);
+    }
+}
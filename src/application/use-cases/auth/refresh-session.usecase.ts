@@ -0,0 +1,53 @@
+// src/application/use-cases/auth/refresh-session.usecase.ts
+
+import { ForbiddenError, UnauthorizedError } from '@domain/errors/app.errors';
+
+import { AuthSessionService } from '@application/services/auth-session.service';
+import { SessionTokens } from '@domain/entities/session';
+import { UserRepository } from '@application/ports/user.repository';
+import { toAuthenticatedUser } from '@domain/entities/user';
+
+/**
+ * @interface RefreshSessionRequest
+ * @description Solicitud de renovación de tokens.
+ */
+export interface RefreshSessionRequest {
+    refreshToken: string;
+}
+
+/**
+ * @class RefreshSessionUseCase
+ * @description Caso de uso para renovar los tokens de una sesión:
+ * 1. Rota el refresh token (detectando su reutilización).
+ * 2. Vuelve a leer al usuario, para que los cambios de roles se reflejen y una cuenta eliminada o deshabilitada no pueda renovar.
+ * 3. Emite un nuevo token de acceso y un nuevo refresh token en la misma sesión.
+ */
+export class RefreshSessionUseCase {
+    private readonly userRepository: UserRepository;
+    private readonly authSessionService: AuthSessionService;
+
+    constructor(userRepository: UserRepository, authSessionService: AuthSessionService) {
+        this.userRepository = userRepository;
+        this.authSessionService = authSessionService;
+    }
+
+    /**
+     * @method execute
+     * @throws {UnauthorizedError} Si el refresh token es inválido, expiró, fue revocado o reutilizado.
+     * @throws {ForbiddenError} Si la cuenta está deshabilitada.
+     */
+    async execute(request: RefreshSessionRequest): Promise<SessionTokens> {
+        if (typeof request.refreshToken !== 'string' || request.refreshToken.length === 0) {
+            throw new UnauthorizedError('"refreshToken" is required.');
+        }
+
+        const { userId, sessionId } = await this.authSessionService.rotateRefreshToken(request.refreshToken);
+        const user = await this.userRepository.findById(userId);
+        if (!user || user.disabled) {
+            await this.authSessionService.revokeUserSessions(userId);
+            throw user ? new ForbiddenError('This account is disabled.') : new UnauthorizedError('User no longer exists.');
+        }
+
+        return this.authSessionService.continueSession(toAuthenticatedUser(user), sessionId);
+    }
+}
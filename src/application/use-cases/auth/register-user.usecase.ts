@@ -0,0 +1,60 @@
+// src/application/use-cases/auth/register-user.usecase.ts
+
+import { PublicUser, User, UserRole, toPublicUser } from '@domain/entities/user';
+import { assertValidPassword, assertValidUsername } from '@application/use-cases/auth/credential-rules';
+
+import { PasswordHasher } from '@application/ports/password-hasher';
+import { UserRepository } from '@application/ports/user.repository';
+import { randomUUID } from 'crypto';
+
+/**
+ * @interface RegisterUserRequest
+ * @description Datos para registrar un usuario. Los roles solo los asigna el servidor (ej. el administrador inicial);
+ * el registro público siempre crea usuarios con el rol `user`.
+ */
+export interface RegisterUserRequest {
+    username: string;
+    password: string;
+    roles?: UserRole[];
+}
+
+/**
+ * @class RegisterUserUseCase
+ * @description Caso de uso para registrar un usuario:
+ * 1. Valida el nombre de usuario y la contraseña.
+ * 2. Hashea la contraseña.
+ * 3. Guarda el usuario (el repositorio garantiza que el nombre sea único).
+ */
+export class RegisterUserUseCase {
+    private readonly userRepository: UserRepository;
+    private readonly passwordHasher: PasswordHasher;
+
+    constructor(userRepository: UserRepository, passwordHasher: PasswordHasher) {
+        this.userRepository = userRepository;
+        this.passwordHasher = passwordHasher;
+    }
+
+    /**
+     * @method execute
+     * @returns El usuario creado, sin el hash de la contraseña.
+     * @throws {BadRequestError} Si el nombre de usuario o la contraseña no son válidos.
+     * @throws {ConflictError} Si el nombre de usuario ya existe.
+     */
+    async execute(request: RegisterUserRequest): Promise<PublicUser> {
+        const username = assertValidUsername(request.username);
+        const password = assertValidPassword(request.password);
+
+        const now = new Date().toISOString();
+        const user: User = {
+            id: randomUUID(),
+            username,
+            passwordHash: await this.passwordHasher.hash(password),
+            roles: request.roles ?? ['user'],
+            disabled: false,
+            createdAt: now,
+            updatedAt: now,
+        };
+        await this.userRepository.create(user);
+        return toPublicUser(user);
+    }
+}
@@ -0,0 +1,58 @@
+// src/application/use-cases/auth/set-user-disabled.usecase.ts
+
+import { AuthenticatedUser, PublicUser, toPublicUser } from '@domain/entities/user';
+import { ForbiddenError, NotFoundError } from '@domain/errors/app.errors';
+
+import { AuthSessionService } from '@application/services/auth-session.service';
+import { UserRepository } from '@application/ports/user.repository';
+
+/**
+ * @interface SetUserDisabledRequest
+ * @description Habilita o deshabilita una cuenta.
+ */
+export interface SetUserDisabledRequest {
+    actor: AuthenticatedUser; // Quién realiza la acción
+    userId: string;
+    disabled: boolean;
+}
+
+/**
+ * @class SetUserDisabledUseCase
+ * @description Caso de uso para deshabilitar o rehabilitar una cuenta.
+ * Un usuario puede deshabilitar su propia cuenta; solo un administrador puede deshabilitar
+ * cuentas ajenas o volver a habilitar una cuenta. Deshabilitar una cuenta revoca todas sus sesiones.
+ */
+export class SetUserDisabledUseCase {
+    private readonly userRepository: UserRepository;
+    private readonly authSessionService: AuthSessionService;
+
+    constructor(userRepository: UserRepository, authSessionService: AuthSessionService) {
+        this.userRepository = userRepository;
+        this.authSessionService = authSessionService;
+    }
+
+    /**
+     * @method execute
+     * @throws {ForbiddenError} Si el actor no tiene permiso.
+     * @throws {NotFoundError} Si el usuario no existe.
+     */
+    async execute(request: SetUserDisabledRequest): Promise<PublicUser> {
+        const { actor, userId, disabled } = request;
+        const isAdmin = actor.roles.includes('admin');
+        if (!isAdmin && (actor.id !== userId || !disabled)) {
+            throw new ForbiddenError('Only administrators can enable accounts or disable other accounts.');
+        }
+
+        const user = await this.userRepository.findById(userId);
+        if (!user) {
+            throw new NotFoundError(`User ${userId} not found.`);
+        }
+
+        const updated = { ...user, disabled, updatedAt: new Date().toISOString() };
+        await this.userRepository.update(updated);
+        if (disabled) {
+            await this.authSessionService.revokeUserSessions(userId);
+        }
+        return toPublicUser(updated);
+    }
+}
@@ -0,0 +1,53 @@
+// src/application/use-cases/auth/set-user-roles.usecase.ts
+
+import { BadRequestError, NotFoundError } from '@domain/errors/app.errors';
+import { PublicUser, USER_ROLES, UserRole, toPublicUser } from '@domain/entities/user';
+
+import { AuthSessionService } from '@application/services/auth-session.service';
+import { UserRepository } from '@application/ports/user.repository';
+
+/**
+ * @interface SetUserRolesRequest
+ * @description Reemplaza los roles de un usuario.
+ */
+export interface SetUserRolesRequest {
+    userId: string;
+    roles: UserRole[];
+}
+
+/**
+ * @class SetUserRolesUseCase
+ * @description Caso de uso para asignar roles a un usuario. Revoca sus sesiones para que
+ * los tokens emitidos con los roles anteriores dejen de valer de inmediato.
+ */
+export class SetUserRolesUseCase {
+    private readonly userRepository: UserRepository;
+    private readonly authSessionService: AuthSessionService;
+
+    constructor(userRepository: UserRepository, authSessionService: AuthSessionService) {
+        this.userRepository = userRepository;
+        this.authSessionService = authSessionService;
+    }
+
+    /**
+     * @method execute
+     * @throws {BadRequestError} Si `roles` no es un array no vacío de roles conocidos.
+     * @throws {NotFoundError} Si el usuario no existe.
+     */
+    async execute(request: SetUserRolesRequest): Promise<PublicUser> {
+        const { userId, roles } = request;
+        if (!Array.isArray(roles) || roles.length === 0 || !roles.every(role => USER_ROLES.includes(role))) {
+            throw new BadRequestError(`"roles" must be a non-empty array with any of: ${USER_ROLES.join(', ')}.`);
+        }
+
+        const user = await this.userRepository.findById(userId);
+        if (!user) {
+            throw new NotFoundError(`User ${userId} not found.`);
+        }
+
+        const updated = { ...user, roles: Array.from(new Set(roles)), updatedAt: new Date().toISOString() };
+        await this.userRepository.update(updated);
+        await this.authSessionService.revokeUserSessions(userId);
+        return toPublicUser(updated);
+    }
+}
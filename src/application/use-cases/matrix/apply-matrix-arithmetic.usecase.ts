@@ -0,0 +1,148 @@
+// src/application/use-cases/matrix/apply-matrix-arithmetic.usecase.ts
+
+import { BadRequestError, InvalidMatrixError } from '@domain/errors/app.errors';
+import { Matrix, MatrixArithmeticRequest, MatrixArithmeticResult, MatrixLimits } from '@domain/entities/matrix';
+import { add, kronecker, multiply, power, scale, subtract, transpose } from '@shared/math/linear-algebra';
+import { checkComputeLimits, checkMatrixLimits, validateMatrix } from '@application/services/matrix-validation';
+
+import { MetricsRecorder } from '@application/ports/metrics.recorder';
+import { inverse } from '@shared/math/lu';
+
+const dimensions = (matrix: Matrix): string => `${matrix.length}x${matrix[0].length}`;
+
+const requireSquare = (matrix: Matrix, operation: string): void => {
+    if (matrix.length !== matrix[0].length) {
+        throw new InvalidMatrixError(`${operation} requires a square matrix; the matrix is ${dimensions(matrix)}.`);
+    }
+};
+
+const requireSameDimensions = (a: Matrix, b: Matrix, operation: string): void => {
+    if (a.length !== b.length || a[0].length !== b[0].length) {
+        throw new InvalidMatrixError(`${operation} requires matrices of the same dimensions; a is ${dimensions(a)} and b is ${dimensions(b)}.`);
+    }
+};
+
+/**
+ * @class ApplyMatrixArithmeticUseCase
+ * @description Caso de uso para las operaciones aritméticas sobre matrices (suma, resta, producto por un escalar,
+ * producto, transpuesta, inversa, potencia entera y producto de Kronecker). Se calculan en Node.js, sin la API de Go.
+ * Las matrices se validan igual que en el procesamiento (rectangulares, numéricas y dentro de los límites del solicitante)
+ * y las dimensiones incompatibles se reportan como `InvalidMatrixError`, con el motivo en `details`.
+ */
+export class ApplyMatrixArithmeticUseCase {
+    private readonly metrics?: MetricsRecorder;
+
+    /**
+     * @constructor
+     * @param metrics Donde se registra el tamaño de las matrices procesadas (opcional).
+     */
+    constructor(metrics?: MetricsRecorder) {
+        this.metrics = metrics;
+    }
+
+    /**
+     * @method execute
+     * @description Aplica la operación solicitada.
+     * @returns La operación aplicada y la matriz resultante.
+     * @throws {InvalidMatrixError} Si alguna matriz es inválida, las dimensiones no son compatibles, la matriz a invertir
+     * es singular o el resultado no es representable (desbordamiento).
+     * @throws {MatrixTooLargeError} Si alguna matriz, o el resultado de un producto de Kronecker, excede los límites,
+     * o si una matriz del producto, la inversa o la potencia excede el límite de las operaciones de coste O(n³).
+     * @throws {BadRequestError} Si el escalar no es un número finito o el exponente no es entero.
+     */
+    execute(request: MatrixArithmeticRequest): MatrixArithmeticResult {
+        const result = this.compute(request);
+        if (!result.every(row => row.every(Number.isFinite))) {
+            throw new InvalidMatrixError('The result has values too large to represent (overflow).');
+        }
+        return { operation: request.operation, result };
+    }
+
+    private compute(request: MatrixArithmeticRequest): Matrix {
+        const { limits } = request;
+        switch (request.operation) {
+            case 'add':
+            case 'subtract': {
+                const { a, b } = request;
+                this.validateOperands(limits, a, b);
+                requireSameDimensions(a, b, request.operation === 'add' ? 'Addition' : 'Subtraction');
+                return request.operation === 'add' ? add(a, b) : subtract(a, b);
+            }
+            case 'multiply': {
+                const { a, b } = request;
+                this.validateOperands(limits, a, b);
+                if (a[0].length !== b.length) {
+                    throw new InvalidMatrixError(
+                        `Matrix multiplication requires the columns of a to match the rows of b; a is ${dimensions(a)} and b is ${dimensions(b)}.`
+                    );
+                }
+                this.checkComputeLimits(limits, 'Matrix multiplication', a, b);
+                return multiply(a, b);
+            }
+            case 'kronecker': {
+                const { a, b } = request;
+                this.validateOperands(limits, a, b);
+                // El resultado crece como el producto de los tamaños: se comprueba antes de calcularlo
+                if (limits) {
+                    checkMatrixLimits(a.length * b.length, a[0].length * b[0].length, limits);
+                }
+                return kronecker(a, b);
+            }
+            case 'scalarMultiply': {
+                const { matrix, scalar } = request;
+                this.validateOperands(limits, matrix);
+                if (typeof scalar !== 'number' || !Number.isFinite(scalar)) {
+                    throw new BadRequestError('scalar must be a finite number.');
+                }
+                return scale(matrix, scalar);
+            }
+            case 'transpose':
+                this.validateOperands(limits, request.matrix);
+                return transpose(request.matrix);
+            case 'inverse':
+                this.validateOperands(limits, request.matrix);
+                requireSquare(request.matrix, 'Matrix inverse');
+                this.checkComputeLimits(limits, 'Matrix inverse', request.matrix);
+                return this.invert(request.matrix);
+            case 'power': {
+                const { matrix, exponent } = request;
+                this.validateOperands(limits, matrix);
+                if (!Number.isInteger(exponent)) {
+                    throw new BadRequestError('exponent must be an integer.');
+                }
+                requireSquare(matrix, 'Matrix power');
+                this.checkComputeLimits(limits, 'Matrix power', matrix);
+                // A⁻ᵏ = (A⁻¹)ᵏ
+                return exponent < 0 ? power(this.invert(matrix), -exponent) : power(matrix, exponent);
+            }
+        }
+    }
+
+    /**
+     * Valida las matrices de entrada (igual que en el procesamiento) y registra su tamaño.
+     */
+    private validateOperands(limits: MatrixLimits | undefined, ...matrices: Matrix[]): void {
+        for (const matrix of matrices) {
+            validateMatrix(matrix, limits);
+            this.metrics?.observeMatrixSize(matrix.length, matrix[0].length);
+        }
+    }
+
+    /**
+     * Comprueba las matrices de una operación O(n³) contra el límite de dimensiones de estas operaciones.
+     */
+    private checkComputeLimits(limits: MatrixLimits | undefined, operation: string, ...matrices: Matrix[]): void {
+        if (!limits) return;
+        for (const matrix of matrices) {
+            checkComputeLimits(matrix.length, matrix[0].length, limits, operation);
+        }
+    }
+
+    private invert(matrix: Matrix): Matrix {
+        const result = inverse(matrix);
+        if (!result) {
+            throw new InvalidMatrixError('The matrix is singular, so it has no inverse.');
+        }
+        return result;
+    }
+}
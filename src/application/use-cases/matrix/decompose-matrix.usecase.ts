@@ -0,0 +1,72 @@
+// src/application/use-cases/matrix/decompose-matrix.usecase.ts
+
+import { AppError, BadRequestError, GoApiError } from '@domain/errors/app.errors';
+import { GoApiGateway, isGoApiErrorResponse } from '@application/ports/go-api.gateway';
+import { checkComputeLimits, validateMatrix } from '@application/services/matrix-validation';
+import { MatrixDecompositionRequest, MatrixDecompositions } from '@domain/entities/matrix';
+
+import { MetricsRecorder } from '@application/ports/metrics.recorder';
+import { resolveDecompositionSelection } from '@application/services/decompositions/matrix-decomposition.registry';
+
+/**
+ * @class DecomposeMatrixUseCase
+ * @description Caso de uso para descomponer una matriz sin rotarla ni calcular estadísticas:
+ * valida la matriz y la selección, y delega el cálculo en el gateway (la API de Go para QR;
+ * el resto, en proceso mientras Go no las ofrezca).
+ */
+export class DecomposeMatrixUseCase {
+    private readonly goApiGateway: GoApiGateway;
+    private readonly metrics?: MetricsRecorder;
+
+    /**
+     * @constructor
+     * @param goApiGateway La implementación del gateway para la API de Go.
+     * @param metrics Donde se registra el tamaño de las matrices procesadas (opcional).
+     */
+    constructor(goApiGateway: GoApiGateway, metrics?: MetricsRecorder) {
+        this.goApiGateway = goApiGateway;
+        this.metrics = metrics;
+    }
+
+    /**
+     * @method execute
+     * @description Calcula las descomposiciones solicitadas de la matriz.
+     * @returns Las descomposiciones, indexadas por nombre.
+     * @throws {InvalidMatrixError} Si la matriz es inválida o no cumple las precondiciones de alguna descomposición
+     * (ej. "requires a square matrix", "not positive definite").
+     * @throws {MatrixTooLargeError} Si la matriz excede los límites de la solicitud, incluido el de las descomposiciones
+     * calculadas en proceso.
+     * @throws {BadRequestError} Si no se solicita ninguna descomposición o alguna es desconocida.
+     * @throws {GoApiError} Si ocurre un error al comunicarse con la API de Go.
+     */
+    async execute(request: MatrixDecompositionRequest): Promise<MatrixDecompositions> {
+        const { matrix, limits } = request;
+        validateMatrix(matrix, limits);
+        const decompositions = resolveDecompositionSelection(request.decompositions);
+        if (decompositions.length === 0) {
+            throw new BadRequestError('Select at least one decomposition with "decompositions" (e.g. ["lu", "svd"]).');
+        }
+        // Las descomposiciones que no calcula Go son O(n³) en proceso: tienen su propio límite de dimensiones
+        const localDecompositions = decompositions.filter(name => name !== 'qr');
+        if (limits && localDecompositions.length > 0) {
+            checkComputeLimits(matrix.length, matrix[0].length, limits, `Computing the ${localDecompositions.join(', ')} decomposition`);
+        }
+        this.metrics?.observeMatrixSize(matrix.length, matrix[0].length);
+
+        try {
+            return await this.goApiGateway.decompose(matrix, decompositions);
+        } catch (error: unknown) {
+            if (error instanceof AppError) {
+                throw error;
+            }
+            // Errores sin mapear del cliente HTTP (ej. la respuesta 400 original de Go)
+            const response = isGoApiErrorResponse(error) ? error.response : undefined;
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new GoApiError(
+                response?.data?.details || `Fallo al conectar o error desconocido de la API de Go: ${reason}`,
+                response?.data?.error || 'NETWORK_ERROR',
+                response?.status
+            );
+        }
+    }
+}
@@ -1,147 +1,185 @@
 // src/application/use-cases/matrix/process-matrix-and-get-stats.usecase.ts
 
-import { GoApiError, InvalidMatrixError } from '@domain/errors/app.errors';
-import { GoApiResponseData, Matrix, MatrixProcessingRequest, MatrixStatistics, ProcessedMatrixResult } from '@domain/entities/matrix';
-
-import { GoApiGateway } from '@application/ports/go-api.gateway';
+import { GoApiError, InvalidMatrixError, QRVerificationError } from '@domain/errors/app.errors';
+import { GoApiGateway, isGoApiErrorResponse } from '@application/ports/go-api.gateway';
+import {
+    GoApiResponseData,
+    MatrixDecompositions,
+    MatrixProcessingRequest,
+    MatrixStatistics,
+    PerMatrixStatistics,
+    ProcessedMatrixResult,
+    QRVerificationReport,
+} from '@domain/entities/matrix';
+import { checkComputeLimits, validateMatrix } from '@application/services/matrix-validation';
+
+import { MatrixStatisticsEngine } from '@application/services/statistics/matrix-statistics.engine';
+import { MetricsRecorder } from '@application/ports/metrics.recorder';
+import { QRVerifier } from '@application/services/qr-verifier';
+import { logger } from '@shared/logging/logger';
+import { resolveDecompositionSelection } from '@application/services/decompositions/matrix-decomposition.registry';
+import { resolveMatrixOperation } from '@application/services/matrix-operation';
+
+const log = logger.child({ component: 'ProcessMatrixAndGetStatsUseCase' });
 
 /**
  * @class ProcessMatrixAndGetStatsUseCase
  * @description Caso de uso para procesar una matriz:
- * 1. Valida la matriz de entrada.
- * 2. Envía la matriz a la API de Go para rotación y factorización QR.
- * 3. Recibe los resultados de Go.
- * 4. Calcula estadísticas adicionales sobre las matrices (original y rotada).
- * 5. Retorna un resultado completo que incluye todo lo anterior.
+ * 1. Valida la matriz de entrada y el descriptor de la operación (rotación, traspuesta o volteo).
+ * 2. Envía la matriz y la operación a la API de Go, que la aplica y calcula la factorización QR.
+ * 3. Recibe los resultados de Go y, si hay un `QRVerifier`, verifica numéricamente la factorización QR.
+ * 4. Calcula estadísticas adicionales con el `MatrixStatisticsEngine`: el resumen agregado de la
+ *    original y la rotada, y las estadísticas seleccionadas por el cliente para cada matriz (original, rotada, Q y R).
+ * 5. Si se solicitaron, calcula descomposiciones adicionales de la matriz original (LU, Cholesky, SVD, valores propios).
+ * 6. Retorna un resultado completo que incluye todo lo anterior y la operación aplicada.
  */
 export class ProcessMatrixAndGetStatsUseCase {
     private readonly goApiGateway: GoApiGateway;
+    private readonly statisticsEngine: MatrixStatisticsEngine;
+    private readonly qrVerifier?: QRVerifier;
+    private readonly metrics?: MetricsRecorder;
 
     /**
      * @constructor
      * @param goApiGateway La implementación del gateway para la API de Go.
+     * @param statisticsEngine El motor de estadísticas (por defecto, uno con las estadísticas integradas).
+     * @param qrVerifier Verificador de la factorización QR. Sin él, la factorización no se verifica.
+     * @param metrics Donde se registra el tamaño de las matrices procesadas (opcional).
      */
-    constructor(goApiGateway: GoApiGateway) {
+    constructor(
+        goApiGateway: GoApiGateway,
+        statisticsEngine: MatrixStatisticsEngine = new MatrixStatisticsEngine(),
+        qrVerifier?: QRVerifier,
+        metrics?: MetricsRecorder
+    ) {
         this.goApiGateway = goApiGateway;
+        this.statisticsEngine = statisticsEngine;
+        this.qrVerifier = qrVerifier;
+        this.metrics = metrics;
+    }
+
+    /**
+     * @method validateRequest
+     * @description Valida la solicitud sin procesarla: forma de la matriz, límites de tamaño, operación y selección de estadísticas
+     * y de descomposiciones.
+     * `execute` la invoca al inicio; se expone para poder rechazar trabajos asíncronos antes de encolarlos.
+     * @returns Las estadísticas por matriz que se calcularán.
+     * @throws {InvalidMatrixError} Si la matriz de entrada es inválida (vacía, mal formada, no rectangular o contiene no numéricos).
+     * @throws {MatrixTooLargeError} Si la matriz excede los límites de la solicitud, incluido el de las estadísticas y
+     * descomposiciones de coste O(n³).
+     * @throws {BadRequestError} Si se solicita alguna estadística o descomposición desconocida, o la operación no es válida.
+     */
+    public validateRequest(request: MatrixProcessingRequest): string[] {
+        const { matrix, stats, limits, operation, decompositions } = request;
+
+        validateMatrix(matrix, limits);
+
+        // Se validan la operación y las selecciones antes de llamar a Go para no procesar una matriz cuya respuesta se rechazará.
+        resolveMatrixOperation(operation);
+        const localDecompositions = resolveDecompositionSelection(decompositions).filter(name => name !== 'qr');
+        const selection = this.statisticsEngine.resolveSelection(stats);
+
+        // Las estadísticas y descomposiciones O(n³) se calculan en proceso: tienen su propio límite de dimensiones
+        // (Q es de m x m, así que basta con acotar las filas y las columnas de la matriz de entrada).
+        const heavyStatistics = this.statisticsEngine.heavyStatistics(selection);
+        if (limits && heavyStatistics.length > 0) {
+            checkComputeLimits(matrix.length, matrix[0].length, limits, `Computing ${heavyStatistics.join(', ')}`);
+        }
+        if (limits && localDecompositions.length > 0) {
+            checkComputeLimits(matrix.length, matrix[0].length, limits, `Computing the ${localDecompositions.join(', ')} decomposition`);
+        }
+        return selection;
     }
 
     /**
      * @method execute
      * @description Ejecuta el caso de uso para procesar una matriz.
-     * @param request Un objeto que contiene la matriz a procesar.
+     * @param request Un objeto que contiene la matriz a procesar y, opcionalmente, la operación, las estadísticas deseadas y los límites de tamaño.
      * @returns Una promesa que resuelve con los resultados de la matriz procesada y sus estadísticas.
      * @throws {InvalidMatrixError} Si la matriz de entrada es inválida (vacía, mal formada, no rectangular o contiene no numéricos).
+     * @throws {MatrixTooLargeError} Si la matriz excede los límites de la solicitud.
+     * @throws {InvalidMatrixError} Si la matriz no cumple las precondiciones de alguna descomposición solicitada.
+     * @throws {BadRequestError} Si se solicita alguna estadística o descomposición desconocida, o la operación no es válida.
      * @throws {GoApiError} Si ocurre un error al comunicarse con la API de Go.
+     * @throws {QRVerificationError} Si la factorización QR no pasa la verificación y el verificador está en modo 'reject'.
      */
     async execute(request: MatrixProcessingRequest): Promise<ProcessedMatrixResult> {
         const { matrix } = request;
+        const selection = this.validateRequest(request);
+        const operation = resolveMatrixOperation(request.operation);
+        this.metrics?.observeMatrixSize(matrix.length, matrix[0].length);
 
-        // 1. Validación inicial de la matriz de entrada.
-        if (!matrix || matrix.length === 0 || !Array.isArray(matrix[0])) {
-            throw new InvalidMatrixError('Input matrix is empty or malformed.');
-        }
-
-        const numRows = matrix.length;
-        const numCols = matrix[0].length;
-
-        // 2. Validación de que la matriz sea rectangular y contenga solo números.
-        for (const row of matrix) {
-            if (row.length !== numCols) {
-                throw new InvalidMatrixError('Matrix must be rectangular (all rows must have the same number of columns).');
-            }
-            // Verificar que todos los elementos de la fila sean números
-            if (!row.every(item => typeof item === 'number')) {
-                throw new InvalidMatrixError('Matrix must contain only arrays of numbers.');
-            }
-        }
-
-        // 3. Llama a la API de Go para procesar la matriz (rotación y factorización QR).
+        // 3. Llama a la API de Go para procesar la matriz (operación y factorización QR).
         let goResult: GoApiResponseData;
         try {
-            goResult = await this.goApiGateway.processMatrix(matrix);
-        } catch (error: any) {
-            console.error('Error al llamar a la API de Go:', error.message, error.response?.data);
+            goResult = await this.goApiGateway.processMatrix(matrix, operation);
+        } catch (error: unknown) {
+            log.warn('Go API call failed', { error, goApiResponse: isGoApiErrorResponse(error) ? error.response.data : undefined });
 
-            if (error.response?.status) {
+            if (isGoApiErrorResponse(error) && error.response.status) {
+                const { status, data } = error.response;
                 // Si la API de Go devuelve un error 400 por dimensiones inválidas, lo mapeamos a InvalidMatrixError.
-                if (error.response.status === 400 && error.response.data?.error === 'dimensiones_de_matriz_invalidas') {
-                    throw new InvalidMatrixError(error.response.data.details || 'Las dimensiones de la matriz son inválidas según la API de Go.');
+                if (status === 400 && data?.error === 'dimensiones_de_matriz_invalidas') {
+                    throw new InvalidMatrixError(data.details || 'Las dimensiones de la matriz son inválidas según la API de Go.');
                 }
                 // Para otros errores específicos de la API de Go (ej. 401 Unauthorized, 500 Internal Server Error).
                 throw new GoApiError(
-                    error.response.data?.details || `Error de la API de Go con estado ${error.response.status}.`,
-                    error.response.data?.error || 'GO_API_ERROR',
-                    error.response.status
+                    data?.details || `Error de la API de Go con estado ${status}.`,
+                    data?.error || 'GO_API_ERROR',
+                    status
                 );
             }
             // Si no hay respuesta HTTP (ej. error de red, API de Go caída).
-            throw new GoApiError(`Fallo al conectar o error desconocido de la API de Go: ${error.message}`, 'NETWORK_ERROR');
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new GoApiError(`Fallo al conectar o error desconocido de la API de Go: ${reason}`, 'NETWORK_ERROR');
+        }
+
+        let qrVerification: QRVerificationReport | undefined;
+        if (this.qrVerifier) {
+            // Q·R se compara con la matriz enviada; que Go devuelva otra distinta también es un fallo.
+            qrVerification = this.qrVerifier.verify(matrix, goResult.qr_factorization, goResult.original_matrix);
+            if (!qrVerification.passed) {
+                log.warn('QR factorization failed verification', { failures: qrVerification.failures, residuals: qrVerification.residuals });
+            }
+            if (this.qrVerifier.shouldReject(qrVerification)) {
+                throw new QRVerificationError(
+                    `Failed checks: ${qrVerification.failures.join(', ')} (tolerance ${qrVerification.tolerance}).`
+                );
+            }
         }
 
         // 4. Calcula las estadísticas adicionales sobre las matrices.
-        const statistics: MatrixStatistics = this.calculateMatrixStatistics(goResult.original_matrix, goResult.rotated_matrix);
+        const statistics: MatrixStatistics = this.statisticsEngine.computeSummary(goResult.original_matrix, goResult.rotated_matrix);
+        const matrixStatistics: PerMatrixStatistics = {
+            original: this.statisticsEngine.compute(goResult.original_matrix, selection),
+            rotated: this.statisticsEngine.compute(goResult.rotated_matrix, selection),
+            q: this.statisticsEngine.compute(goResult.qr_factorization?.Q, selection),
+            r: this.statisticsEngine.compute(goResult.qr_factorization?.R, selection),
+        };
+
+        // 5. Calcula las descomposiciones adicionales (la QR ya la devolvió Go).
+        let decompositions: MatrixDecompositions | undefined;
+        const requestedDecompositions = resolveDecompositionSelection(request.decompositions);
+        if (requestedDecompositions.length > 0) {
+            const others = requestedDecompositions.filter(name => name !== 'qr');
+            decompositions = others.length > 0 ? await this.goApiGateway.decompose(matrix, others) : {};
+            if (requestedDecompositions.includes('qr')) {
+                decompositions.qr = goResult.qr_factorization;
+            }
+        }
 
-        // 5. Retorna el resultado combinado de la API de Go y las estadísticas calculadas localmente.
+        // 6. Retorna el resultado combinado de la API de Go y las estadísticas calculadas localmente.
         return {
             originalMatrix: goResult.original_matrix,
             rotatedMatrix: goResult.rotated_matrix,
+            operation,
             qrFactorization: goResult.qr_factorization,
             statistics: statistics,
+            matrixStatistics: matrixStatistics,
+            ...(decompositions && { decompositions }),
+            ...(qrVerification && { qrVerification }),
+            ...(goResult.cache && { cache: goResult.cache }),
         };
     }
 
-    /**
-     * @private
-     * @method calculateMatrixStatistics
-     * @description Calcula las estadísticas específicas (max, min, promedio, suma total, es diagonal)
-     * para las matrices dadas (original y rotada).
-     * @param originalMatrix La matriz original.
-     * @param rotatedMatrix La matriz rotada.
-     * @returns Un objeto MatrixStatistics con las estadísticas calculadas.
-     * @throws {InvalidMatrixError} Si no se encuentran valores numéricos para calcular estadísticas.
-     */
-    private calculateMatrixStatistics(originalMatrix: Matrix, rotatedMatrix: Matrix): MatrixStatistics {
-        let allValues: number[] = [];
-        originalMatrix.forEach(row => allValues = allValues.concat(row));
-        rotatedMatrix.forEach(row => allValues = allValues.concat(row));
-
-        if (allValues.length === 0) {
-            // Este caso debería ser cubierto por la validación de la matriz de entrada en execute,
-            // pero se añade como un guardrail defensivo si por algún motivo una matriz llega vacía de Go.
-            throw new InvalidMatrixError('No numeric values found in matrices to calculate statistics.');
-        }
-
-        const maxValue = Math.max(...allValues);
-        const minValue = Math.min(...allValues);
-        const totalSum = allValues.reduce((sum, val) => sum + val, 0);
-        const average = totalSum / allValues.length;
-
-        const isDiagonal = (matrix: Matrix): boolean => {
-            if (!matrix || matrix.length === 0) return false;
-            const rows = matrix.length;
-            const cols = matrix[0].length;
-            if (rows !== cols) return false; // Una matriz diagonal debe ser cuadrada
-
-            for (let i = 0; i < rows; i++) {
-                for (let j = 0; j < cols; j++) {
-                    if (i !== j && matrix[i][j] !== 0) {
-                        return false;
-                    }
-                }
-            }
-            return true;
-        };
-
-        const isDiagonalOriginal = isDiagonal(originalMatrix);
-        const isDiagonalRotated = isDiagonal(rotatedMatrix);
-
-        return {
-            maxValue,
-            minValue,
-            average,
-            totalSum,
-            isDiagonalOriginal,
-            isDiagonalRotated,
-        };
-    }
 }
\ No newline at end of file
@@ -0,0 +1,104 @@
+// src/application/use-cases/matrix/process-matrix-batch.usecase.ts
+
+import { BadRequestError, toErrorResponseBody } from '@domain/errors/app.errors';
+import { MatrixBatchItemResult, MatrixBatchRequest, MatrixBatchResult, MatrixBatchSummary } from '@domain/entities/matrix';
+
+import { ProcessMatrixAndGetStatsUseCase } from '@application/use-cases/matrix/process-matrix-and-get-stats.usecase';
+import { mapWithConcurrency } from '@shared/async/map-with-concurrency';
+import { resolveMatrixOperation } from '@application/services/matrix-operation';
+
+/**
+ * @interface ProcessMatrixBatchOptions
+ * @description Límites del procesamiento por lotes.
+ */
+export interface ProcessMatrixBatchOptions {
+    concurrency: number;  // Matrices procesadas en paralelo
+    maxBatchSize: number; // Número máximo de matrices por solicitud
+}
+
+/**
+ * @class ProcessMatrixBatchUseCase
+ * @description Caso de uso para procesar varias matrices en una sola solicitud:
+ * 1. Valida el tamaño del lote.
+ * 2. Procesa cada matriz con `ProcessMatrixAndGetStatsUseCase` con paralelismo acotado.
+ * 3. Devuelve un resultado o un error por elemento, en el orden de entrada.
+ * 4. Calcula un resumen agregado del lote.
+ */
+export class ProcessMatrixBatchUseCase {
+    private readonly processMatrixAndGetStatsUseCase: ProcessMatrixAndGetStatsUseCase;
+    private readonly options: ProcessMatrixBatchOptions;
+
+    constructor(processMatrixAndGetStatsUseCase: ProcessMatrixAndGetStatsUseCase, options: ProcessMatrixBatchOptions) {
+        this.processMatrixAndGetStatsUseCase = processMatrixAndGetStatsUseCase;
+        this.options = options;
+    }
+
+    /**
+     * @method execute
+     * @description Ejecuta el procesamiento del lote.
+     * @param request Un objeto con el array de matrices a procesar y, opcionalmente, la operación, las estadísticas deseadas y los límites de tamaño.
+     * @returns Los resultados por elemento y el resumen agregado.
+     * @throws {BadRequestError} Si `matrices` no es un array no vacío, excede el tamaño máximo del lote o la operación no es válida.
+     */
+    async execute(request: MatrixBatchRequest): Promise<MatrixBatchResult> {
+        const { matrices, stats, limits } = request;
+
+        if (!Array.isArray(matrices) || matrices.length === 0) {
+            throw new BadRequestError('"matrices" must be a non-empty array of matrices.');
+        }
+        if (matrices.length > this.options.maxBatchSize) {
+            throw new BadRequestError(`A batch can contain at most ${this.options.maxBatchSize} matrices (received ${matrices.length}).`);
+        }
+        // La operación es común a todo el lote: si no es válida, se rechaza el lote entero
+        const operation = resolveMatrixOperation(request.operation);
+
+        // Cada elemento captura su propio error para que un elemento inválido no haga fallar el lote
+        const items = await mapWithConcurrency(matrices, this.options.concurrency, async (matrix, index): Promise<MatrixBatchItemResult> => {
+            try {
+                const result = await this.processMatrixAndGetStatsUseCase.execute({ matrix, stats, limits, operation });
+                return { index, status: 'succeeded', result };
+            } catch (error) {
+                return { index, status: 'failed', error: toErrorResponseBody(error) };
+            }
+        });
+
+        return { items, summary: this.summarize(items) };
+    }
+
+    /**
+     * @private
+     * @method summarize
+     * @description Agrega los conteos y las estadísticas de los elementos procesados con éxito.
+     */
+    private summarize(items: MatrixBatchItemResult[]): MatrixBatchSummary {
+        let succeeded = 0;
+        let maxValue = -Infinity;
+        let minValue = Infinity;
+        let totalSum = 0;
+        let elementCount = 0;
+
+        for (const item of items) {
+            if (item.status !== 'succeeded') continue;
+            succeeded++;
+            for (const matrix of [item.result.originalMatrix, item.result.rotatedMatrix]) {
+                for (const row of matrix) {
+                    for (const value of row) {
+                        if (value > maxValue) maxValue = value;
+                        if (value < minValue) minValue = value;
+                        totalSum += value;
+                        elementCount++;
+                    }
+                }
+            }
+        }
+
+        return {
+            total: items.length,
+            succeeded,
+            failed: items.length - succeeded,
+            ...(elementCount > 0 && {
+                statistics: { maxValue, minValue, average: totalSum / elementCount, totalSum, elementCount },
+            }),
+        };
+    }
+}
@@ -0,0 +1,120 @@
+// src/application/use-cases/matrix/solve-linear-system.usecase.ts
+
+import { AppError, GoApiError, InvalidMatrixError } from '@domain/errors/app.errors';
+import { GoApiGateway, isGoApiErrorResponse } from '@application/ports/go-api.gateway';
+import { LinearSystemRequest, LinearSystemSolution, Matrix, QRFactorization } from '@domain/entities/matrix';
+import { minimumNormSolve, qrRank, qrSolve, residualNorms } from '@shared/math/least-squares';
+
+import { MetricsRecorder } from '@application/ports/metrics.recorder';
+import { validateMatrix } from '@application/services/matrix-validation';
+
+/**
+ * @class SolveLinearSystemUseCase
+ * @description Caso de uso para resolver A · x = b con la factorización QR de A:
+ * 1. Valida A (m x n, con m >= n) y los lados derechos b (m valores cada uno).
+ * 2. Obtiene Q y R del gateway (la API de Go).
+ * 3. Si A tiene rango completo, resuelve R₁ · x = Q₁ᵀ · b por sustitución hacia atrás: la solución exacta
+ *    de un sistema cuadrado o la de mínimos cuadrados de uno sobredeterminado.
+ * 4. Si no, advierte de la deficiencia de rango y devuelve la solución de mínimos cuadrados de norma mínima.
+ */
+export class SolveLinearSystemUseCase {
+    private readonly goApiGateway: GoApiGateway;
+    private readonly metrics?: MetricsRecorder;
+
+    /**
+     * @constructor
+     * @param goApiGateway La implementación del gateway para la API de Go.
+     * @param metrics Donde se registra el tamaño de las matrices procesadas (opcional).
+     */
+    constructor(goApiGateway: GoApiGateway, metrics?: MetricsRecorder) {
+        this.goApiGateway = goApiGateway;
+        this.metrics = metrics;
+    }
+
+    /**
+     * @method execute
+     * @description Resuelve el sistema para cada lado derecho.
+     * @returns La solución (con la misma forma que `b`), la norma del residuo de cada lado derecho y el rango de A.
+     * @throws {InvalidMatrixError} Si A o b son inválidos, A tiene menos filas que columnas o b no tiene m filas.
+     * @throws {MatrixTooLargeError} Si A o b exceden los límites de la solicitud.
+     * @throws {GoApiError} Si ocurre un error al comunicarse con la API de Go.
+     */
+    async execute(request: LinearSystemRequest): Promise<LinearSystemSolution> {
+        const { matrix, b, limits } = request;
+        validateMatrix(matrix, limits);
+        const rows = matrix.length;
+        const cols = matrix[0].length;
+        if (rows < cols) {
+            throw new InvalidMatrixError(
+                `The system must have at least as many equations (rows) as unknowns (columns); the matrix is ${rows}x${cols}.`
+            );
+        }
+        const rightHandSides = this.toColumns(b, rows);
+        validateMatrix(rightHandSides, limits);
+        this.metrics?.observeMatrixSize(rows, cols);
+
+        const { R, Q } = await this.fetchQR(matrix);
+        const warnings: string[] = [];
+        let rank = qrRank(R, rows, cols);
+        let X: Matrix;
+        if (rank === cols) {
+            X = qrSolve({ Q, R }, rightHandSides);
+        } else {
+            // R₁ es singular: la sustitución hacia atrás no determina una solución única.
+            // El rango de la SVD es más fiable que el de R (sin pivoteo de columnas).
+            ({ X, rank } = minimumNormSolve(matrix, rightHandSides));
+        }
+        if (rank < cols) {
+            warnings.push(
+                `The matrix is rank deficient (rank ${rank} < ${cols} columns): the solution is not unique; `
+                + 'the minimum-norm least-squares solution is returned.'
+            );
+        }
+
+        return {
+            method: rows === cols && rank === cols ? 'exact' : 'least-squares',
+            x: Array.isArray(b[0]) ? X : X.map(row => row[0]),
+            residualNorms: residualNorms(matrix, X, rightHandSides),
+            rank,
+            rankDeficient: rank < cols,
+            warnings,
+        };
+    }
+
+    /**
+     * Normaliza b a una matriz de m x k (un lado derecho por columna).
+     * @throws {InvalidMatrixError} Si b no es un vector de m números ni una matriz de m filas.
+     */
+    private toColumns(b: number[] | Matrix, rows: number): Matrix {
+        if (!Array.isArray(b) || b.length === 0) {
+            throw new InvalidMatrixError('b must be an array of numbers (one right-hand side) or a matrix with one right-hand side per column.');
+        }
+        const columns = Array.isArray(b[0]) ? b as Matrix : (b as number[]).map(value => [value]);
+        if (columns.length !== rows) {
+            throw new InvalidMatrixError(`b must have one row per equation: the matrix has ${rows} rows and b has ${columns.length}.`);
+        }
+        return columns;
+    }
+
+    private async fetchQR(matrix: Matrix): Promise<QRFactorization> {
+        try {
+            const { qr } = await this.goApiGateway.decompose(matrix, ['qr']);
+            if (!qr) {
+                throw new GoApiError('Go API response is missing the QR factorization.');
+            }
+            return qr;
+        } catch (error: unknown) {
+            if (error instanceof AppError) {
+                throw error;
+            }
+            // Errores sin mapear del cliente HTTP (ej. la respuesta 400 original de Go)
+            const response = isGoApiErrorResponse(error) ? error.response : undefined;
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new GoApiError(
+                response?.data?.details || `Fallo al conectar o error desconocido de la API de Go: ${reason}`,
+                response?.data?.error || 'NETWORK_ERROR',
+                response?.status
+            );
+        }
+    }
+}
@@ -0,0 +1,100 @@
+// src/config/app-config.ts
+
+import { LogLevel } from '@shared/logging/logger';
+import { MatrixLimits } from '@domain/entities/matrix';
+import { RateLimitPolicy } from '@domain/entities/rate-limit';
+import { UserRole } from '@domain/entities/user';
+
+// Perfil de ejecución (NODE_ENV)
+export type ConfigProfile = 'development' | 'test' | 'production';
+
+export const CONFIG_PROFILES: ConfigProfile[] = ['development', 'test', 'production'];
+
+// Backend que ejecuta la rotación y la factorización QR
+export type MatrixBackend = 'go' | 'local' | 'go-with-local-fallback';
+
+export const MATRIX_BACKENDS: MatrixBackend[] = ['go', 'local', 'go-with-local-fallback'];
+
+// Qué hacer cuando la factorización QR devuelta no pasa la verificación numérica
+export type QRVerificationMode = 'reject' | 'flag';
+
+export const QR_VERIFICATION_MODES: QRVerificationMode[] = ['reject', 'flag'];
+
+/**
+ * @interface AppConfig
+ * @description Configuración de la aplicación, ya convertida y validada (ver `loadConfig`).
+ */
+export interface AppConfig {
+    profile: ConfigProfile; // Perfil de NODE_ENV: ajusta los valores por defecto y, en producción, exige secretos robustos
+    nodeApiPort: number;
+    logLevel: LogLevel; // Nivel mínimo del log estructurado (debug, info, warn, error)
+    trustProxyHops: number; // Proxies (balanceadores) delante de la API; determina la IP del cliente en `req.ip`
+    matrixBackend: MatrixBackend;
+    goApiBaseUrl: string;
+    goApiAppAccessToken: string;
+    goApiTimeoutMs: number;
+    goApiRetry: {
+        maxRetries: number;   // Reintentos ante errores transitorios (5xx, timeouts, conexión reiniciada)
+        baseDelayMs: number;  // Retardo base del backoff exponencial
+        maxDelayMs: number;   // Retardo máximo entre reintentos
+    };
+    goApiCircuitBreaker: {
+        failureThreshold: number; // Fallos consecutivos para abrir el circuito
+        cooldownMs: number;       // Tiempo abierto antes de probar de nuevo (half-open)
+    };
+    goApiHealthCheck: {
+        path: string;      // Ruta de la API de Go que consulta /health/ready (relativa a GO_API_BASE_URL)
+        timeoutMs: number;
+    };
+    health: {
+        cacheTtlMs: number; // Tiempo durante el que se reutiliza el resultado de /health/ready
+    };
+    shutdown: {
+        timeoutMs: number; // Plazo para terminar las solicitudes y los trabajos en curso al apagar (SIGTERM)
+    };
+    resultCache: {
+        enabled: boolean;
+        maxEntries: number;
+        ttlMs: number;
+        maxBytes: number; // Tope de memoria (estimada) del caché
+    };
+    matrixJobs: {
+        concurrency: number;   // Trabajos asíncronos ejecutándose a la vez
+        maxQueueDepth: number; // Trabajos en espera antes de responder 503 QUEUE_FULL
+        retentionMs: number;   // Tiempo que se conserva un trabajo terminado
+    };
+    matrixBatch: {
+        concurrency: number;  // Matrices de un lote procesadas en paralelo
+        maxBatchSize: number; // Matrices máximas por solicitud de lote
+    };
+    matrixLimits: Record<UserRole, MatrixLimits>; // Tamaño máximo de las matrices según el rol
+    qrVerification: {
+        enabled: boolean;
+        tolerance: number;        // Residuo relativo máximo admitido
+        mode: QRVerificationMode; // 'reject' -> 502 QR_VERIFICATION_FAILED; 'flag' -> se reporta en el resultado
+    };
+    jwtSecret: string;    // Clave de firma de los JWT
+    jwtExpiresIn: string; // Vigencia de los JWT (ej. '1h', '30m')
+    auth: {
+        refreshTokenTtlMs: number;      // Vigencia de cada refresh token (se rota en cada uso)
+        userStoreFile: string;          // Archivo JSON donde se guardan los usuarios
+        registrationEnabled: boolean;   // Permite el registro público en POST /api/auth/register
+        bootstrapAdminUsername: string; // Administrador que se crea al arrancar si aún no existe
+        bootstrapAdminPassword: string;
+    };
+    metrics: {
+        enabled: boolean; // Expone GET /metrics en formato Prometheus
+        token: string;    // Si se define, /metrics exige `Authorization: Bearer <token>`
+    };
+    rateLimit: {
+        enabled: boolean;
+        login: RateLimitPolicy;  // Por IP en POST /api/auth/login (protección contra fuerza bruta)
+        matrix: RateLimitPolicy; // Por usuario (o API key de un usuario) en /api/matrix/*, salvo la consulta de trabajos
+        jobs: RateLimitPolicy;   // Por usuario en GET /api/matrix/jobs/:id (consulta del estado de los trabajos)
+    };
+    apiKeys: {
+        storeFile: string;  // Archivo JSON donde se guardan las API keys (solo sus hashes)
+        maxPerUser: number; // API keys activas por usuario
+    };
+    internalApiToken: string; // Token de servicio que la API de Go usa para llamar a las rutas internas
+}
@@ -0,0 +1,281 @@
+// src/config/config.loader.ts
+
+import { AppConfig, CONFIG_PROFILES, ConfigProfile, MATRIX_BACKENDS, QR_VERIFICATION_MODES } from '@config/app-config';
+import { ENV_VARIABLES, EnvValue, EnvVariable } from '@config/env-variables';
+
+import { InvalidConfigError } from '@domain/errors/app.errors';
+import { LOG_LEVELS } from '@shared/logging/logger';
+import { MatrixLimits } from '@domain/entities/matrix';
+import { readFileSync } from 'fs';
+import { validateSchema } from '@shared/validation/json-schema';
+
+// Secretos de ejemplo (documentación, perfiles de desarrollo y pruebas) que nunca se aceptan en producción
+const KNOWN_WEAK_SECRETS = [
+    'supersecretjwtkeyforexample',
+    'development-only-insecure-jwt-secret',
+    'test-only-insecure-jwt-secret',
+    'secret',
+    'changeme',
+    'password',
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const getPath = (target: object, path: string): unknown =>
+    path.split('.').reduce<unknown>((value, key) => (isRecord(value) ? value[key] : undefined), target);
+
+const profileOf = (value: unknown): ConfigProfile | undefined => CONFIG_PROFILES.find(profile => profile === value);
+
+/**
+ * Convierte el texto de la variable al tipo de su esquema.
+ * @returns El valor convertido, o un mensaje de error si el texto no es del tipo esperado.
+ */
+const parseValue = (variable: EnvVariable, raw: string): { value: EnvValue } | { error: string } => {
+    switch (variable.schema.type) {
+        case 'integer':
+        case 'number': {
+            const value = Number(raw);
+            const valid = raw.trim() !== '' && (variable.schema.type === 'integer' ? Number.isInteger(value) : Number.isFinite(value));
+            return valid ? { value } : { error: `${variable.name} must be ${variable.schema.type === 'integer' ? 'an integer' : 'a number'} (received "${raw}").` };
+        }
+        case 'boolean': {
+            const normalized = raw.trim().toLowerCase();
+            if (normalized === 'true' || normalized === 'false') return { value: normalized === 'true' };
+            return { error: `${variable.name} must be "true" or "false" (received "${raw}").` };
+        }
+        default:
+            return { value: raw };
+    }
+};
+
+/**
+ * Lee el texto de una variable: de `<NOMBRE>_FILE` si es un secreto y se indicó un archivo, o de la propia variable.
+ * Las variables vacías se consideran no definidas.
+ */
+const readRaw = (variable: EnvVariable, env: NodeJS.ProcessEnv): { raw?: string; error?: string } => {
+    const filePath = variable.secret ? env[`${variable.name}_FILE`] : undefined;
+    if (filePath) {
+        if (env[variable.name]) {
+            return { error: `Set only one of ${variable.name} and ${variable.name}_FILE.` };
+        }
+        try {
+            // Los archivos de secretos suelen terminar en salto de línea
+            return { raw: readFileSync(filePath, 'utf8').replace(/\r?\n$/, '') };
+        } catch (error: unknown) {
+            const reason = isRecord(error) ? error.code ?? error.message : error;
+            return { error: `${variable.name}_FILE could not be read (${reason}).` };
+        }
+    }
+    return { raw: env[variable.name] || undefined };
+};
+
+/**
+ * Reglas que relacionan varias variables o dependen del perfil. Una regla solo se comprueba si todas sus variables
+ * tienen un valor válido: los valores inválidos ya están entre los problemas.
+ * @param values Valores de las variables, por nombre.
+ * @param invalid Nombres de las variables sin valor válido.
+ */
+const checkRules = (profile: unknown, values: Map<string, unknown>, invalid: Set<string>): string[] => {
+    const problems: string[] = [];
+    const valid = (...names: string[]) => names.every(name => !invalid.has(name));
+
+    // El token de Go solo es obligatorio si el backend usa la API de Go
+    if (valid('MATRIX_BACKEND', 'GO_API_APP_ACCESS_TOKEN') && values.get('MATRIX_BACKEND') !== 'local' && !values.get('GO_API_APP_ACCESS_TOKEN')) {
+        problems.push('GO_API_APP_ACCESS_TOKEN is required unless MATRIX_BACKEND=local.');
+    }
+    if (valid('GO_API_RETRY_BASE_DELAY_MS', 'GO_API_RETRY_MAX_DELAY_MS')
+        && Number(values.get('GO_API_RETRY_BASE_DELAY_MS')) > Number(values.get('GO_API_RETRY_MAX_DELAY_MS'))) {
+        problems.push('GO_API_RETRY_BASE_DELAY_MS must not be greater than GO_API_RETRY_MAX_DELAY_MS.');
+    }
+    if (valid('BOOTSTRAP_ADMIN_USERNAME', 'BOOTSTRAP_ADMIN_PASSWORD')
+        && Boolean(values.get('BOOTSTRAP_ADMIN_USERNAME')) !== Boolean(values.get('BOOTSTRAP_ADMIN_PASSWORD'))) {
+        problems.push('BOOTSTRAP_ADMIN_USERNAME and BOOTSTRAP_ADMIN_PASSWORD must be set together.');
+    }
+
+    // En producción no se aceptan secretos cortos ni de ejemplo
+    if (profile === 'production') {
+        for (const variable of ENV_VARIABLES) {
+            const value = values.get(variable.name);
+            if (!variable.secret || !valid(variable.name) || typeof value !== 'string' || value === '') continue;
+            if (KNOWN_WEAK_SECRETS.includes(value.toLowerCase())) {
+                problems.push(`${variable.name} uses a default or example value, which is not allowed in production.`);
+            } else if (value.length < variable.secret.minLength) {
+                problems.push(`${variable.name} must be at least ${variable.secret.minLength} characters long in production.`);
+            }
+        }
+    }
+
+    return problems;
+};
+
+/**
+ * Valida cada variable contra su esquema y, después, las reglas entre variables, para reportar todos los problemas
+ * a la vez (ej. un puerto inválido y un JWT_SECRET corto en producción).
+ * @param values Valores de las variables, por nombre.
+ * @param skipped Variables que no llegaron a convertirse (ya reportadas).
+ */
+const collectProblems = (profile: unknown, values: Map<string, unknown>, skipped: Set<string>): string[] => {
+    const problems: string[] = [];
+    const invalid = new Set(skipped);
+    if (!profileOf(profile)) {
+        problems.push(`NODE_ENV must be one of: ${CONFIG_PROFILES.join(', ')}.`);
+    }
+    for (const variable of ENV_VARIABLES) {
+        if (skipped.has(variable.name)) continue;
+        const value = values.get(variable.name);
+        if (value === undefined) {
+            problems.push(`${variable.name} is required.`);
+            invalid.add(variable.name);
+            continue;
+        }
+        const errors = validateSchema(variable.schema, value, variable.name);
+        if (errors.length > 0) {
+            errors.forEach(({ field, message }) => problems.push(`${field} ${message}.`));
+            invalid.add(variable.name);
+        }
+    }
+    return [...problems, ...checkRules(profile, values, invalid)];
+};
+
+/**
+ * Estrecha los valores ya validados a su tipo. Un valor ausente o de otro tipo solo puede deberse a un campo de
+ * AppConfig sin su variable en ENV_VARIABLES: es un error de programación, no de configuración.
+ */
+const valueReader = (values: Map<string, unknown>) => {
+    const read = <T>(name: string, is: (value: unknown) => value is T): T => {
+        const value = values.get(name);
+        if (!is(value)) {
+            throw new Error(`The configuration variable ${name} has no value of the expected type.`);
+        }
+        return value;
+    };
+    return {
+        number: (name: string) => read(name, (value): value is number => typeof value === 'number'),
+        string: (name: string) => read(name, (value): value is string => typeof value === 'string'),
+        flag: (name: string) => read(name, (value): value is boolean => typeof value === 'boolean'),
+        oneOf: <T extends string>(name: string, options: T[]) => read(name, (value): value is T => options.some(option => option === value)),
+    };
+};
+
+/**
+ * Construye la configuración a partir de los valores ya validados de las variables.
+ */
+const buildConfig = (profile: ConfigProfile, values: Map<string, unknown>): AppConfig => {
+    const { number, string, flag, oneOf } = valueReader(values);
+    const matrixLimits = (role: string): MatrixLimits => ({
+        maxDimension: number(`MATRIX_LIMITS_${role}_MAX_DIMENSION`),
+        maxElements: number(`MATRIX_LIMITS_${role}_MAX_ELEMENTS`),
+        maxComputeDimension: number(`MATRIX_LIMITS_${role}_MAX_COMPUTE_DIMENSION`),
+    });
+    return {
+        profile,
+        nodeApiPort: number('NODE_API_PORT'),
+        logLevel: oneOf('LOG_LEVEL', LOG_LEVELS),
+        trustProxyHops: number('TRUST_PROXY_HOPS'),
+        matrixBackend: oneOf('MATRIX_BACKEND', MATRIX_BACKENDS),
+        goApiBaseUrl: string('GO_API_BASE_URL'),
+        goApiAppAccessToken: string('GO_API_APP_ACCESS_TOKEN'),
+        goApiTimeoutMs: number('GO_API_TIMEOUT_MS'),
+        goApiRetry: {
+            maxRetries: number('GO_API_RETRY_MAX_RETRIES'),
+            baseDelayMs: number('GO_API_RETRY_BASE_DELAY_MS'),
+            maxDelayMs: number('GO_API_RETRY_MAX_DELAY_MS'),
+        },
+        goApiCircuitBreaker: {
+            failureThreshold: number('GO_API_CIRCUIT_FAILURE_THRESHOLD'),
+            cooldownMs: number('GO_API_CIRCUIT_COOLDOWN_MS'),
+        },
+        goApiHealthCheck: { path: string('GO_API_HEALTH_PATH'), timeoutMs: number('GO_API_HEALTH_TIMEOUT_MS') },
+        health: { cacheTtlMs: number('HEALTH_CACHE_TTL_MS') },
+        shutdown: { timeoutMs: number('SHUTDOWN_TIMEOUT_MS') },
+        resultCache: {
+            enabled: flag('RESULT_CACHE_ENABLED'),
+            maxEntries: number('RESULT_CACHE_MAX_ENTRIES'),
+            ttlMs: number('RESULT_CACHE_TTL_MS'),
+            maxBytes: number('RESULT_CACHE_MAX_BYTES'),
+        },
+        matrixJobs: {
+            concurrency: number('MATRIX_JOBS_CONCURRENCY'),
+            maxQueueDepth: number('MATRIX_JOBS_MAX_QUEUE_DEPTH'),
+            retentionMs: number('MATRIX_JOBS_RETENTION_MS'),
+        },
+        matrixBatch: { concurrency: number('MATRIX_BATCH_CONCURRENCY'), maxBatchSize: number('MATRIX_BATCH_MAX_SIZE') },
+        matrixLimits: { user: matrixLimits('USER'), pro: matrixLimits('PRO'), admin: matrixLimits('ADMIN') },
+        qrVerification: {
+            enabled: flag('QR_VERIFICATION_ENABLED'),
+            tolerance: number('QR_VERIFICATION_TOLERANCE'),
+            mode: oneOf('QR_VERIFICATION_MODE', QR_VERIFICATION_MODES),
+        },
+        jwtSecret: string('JWT_SECRET'),
+        jwtExpiresIn: string('JWT_EXPIRES_IN'),
+        auth: {
+            refreshTokenTtlMs: number('REFRESH_TOKEN_TTL_MS'),
+            userStoreFile: string('USER_STORE_FILE'),
+            registrationEnabled: flag('AUTH_REGISTRATION_ENABLED'),
+            bootstrapAdminUsername: string('BOOTSTRAP_ADMIN_USERNAME'),
+            bootstrapAdminPassword: string('BOOTSTRAP_ADMIN_PASSWORD'),
+        },
+        metrics: { enabled: flag('METRICS_ENABLED'), token: string('METRICS_TOKEN') },
+        rateLimit: {
+            enabled: flag('RATE_LIMIT_ENABLED'),
+            login: { limit: number('RATE_LIMIT_LOGIN_LIMIT'), windowMs: number('RATE_LIMIT_LOGIN_WINDOW_MS') },
+            matrix: { limit: number('RATE_LIMIT_MATRIX_LIMIT'), windowMs: number('RATE_LIMIT_MATRIX_WINDOW_MS') },
+            jobs: { limit: number('RATE_LIMIT_JOBS_LIMIT'), windowMs: number('RATE_LIMIT_JOBS_WINDOW_MS') },
+        },
+        apiKeys: { storeFile: string('API_KEY_STORE_FILE'), maxPerUser: number('API_KEYS_MAX_PER_USER') },
+        internalApiToken: string('INTERNAL_API_TOKEN'),
+    };
+};
+
+/**
+ * @function validateConfig
+ * @description Valida una configuración ya cargada contra el esquema de las variables y las reglas del perfil.
+ * @returns Los problemas encontrados (vacío si es válida).
+ */
+export const validateConfig = (config: AppConfig): string[] =>
+    collectProblems(config.profile, new Map(ENV_VARIABLES.map(variable => [variable.name, getPath(config, variable.path)])), new Set());
+
+/**
+ * @function loadConfig
+ * @description Construye la configuración a partir de las variables de entorno:
+ * 1. El perfil sale de NODE_ENV (`development` por defecto) y determina los valores por defecto.
+ * 2. Los secretos pueden leerse de `<NOMBRE>_FILE`.
+ * 3. Cada valor se convierte al tipo de su esquema y se valida, junto con las reglas entre variables.
+ * No tiene efectos secundarios (no termina el proceso): el llamador decide qué hacer con el error.
+ * @param env Las variables de entorno (por defecto, `process.env`).
+ * @throws {InvalidConfigError} Con TODOS los problemas encontrados, si hay alguno.
+ */
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): AppConfig => {
+    const profileName = env.NODE_ENV || 'development';
+    const profile = profileOf(profileName);
+    const values = new Map<string, unknown>();
+    const problems: string[] = [];
+    const skipped = new Set<string>();
+
+    for (const variable of ENV_VARIABLES) {
+        const { raw, error } = readRaw(variable, env);
+        if (error) {
+            problems.push(error);
+            skipped.add(variable.name);
+            continue;
+        }
+        if (raw === undefined) {
+            const fallback = (profile && variable.profileDefaults?.[profile]) ?? variable.default;
+            if (fallback !== undefined) values.set(variable.name, fallback);
+            continue;
+        }
+        const parsed = parseValue(variable, raw);
+        if ('error' in parsed) {
+            problems.push(parsed.error);
+            skipped.add(variable.name);
+        } else {
+            values.set(variable.name, parsed.value);
+        }
+    }
+
+    problems.push(...collectProblems(profileName, values, skipped));
+    if (problems.length > 0 || !profile) {
+        throw new InvalidConfigError(problems);
+    }
+    return buildConfig(profile, values);
+};
@@ -0,0 +1,121 @@
+// src/config/env-variables.ts
+
+import { ConfigProfile, MATRIX_BACKENDS, QR_VERIFICATION_MODES } from '@config/app-config';
+
+import { JsonSchema } from '@shared/validation/json-schema';
+import { LOG_LEVELS } from '@shared/logging/logger';
+
+export type EnvValue = string | number | boolean;
+
+/**
+ * @interface EnvVariable
+ * @description Define una variable de entorno de la configuración: dónde se guarda en `AppConfig`,
+ * el esquema que debe cumplir su valor (ya convertido al tipo del esquema) y su valor por defecto.
+ * Sin valor por defecto (ni del perfil), la variable es obligatoria.
+ */
+export interface EnvVariable {
+    name: string;
+    path: string;     // Ruta en AppConfig (ej. 'goApiRetry.maxRetries')
+    schema: JsonSchema & { type: 'string' | 'number' | 'integer' | 'boolean' };
+    default?: EnvValue;
+    profileDefaults?: Partial<Record<ConfigProfile, EnvValue>>; // Reemplazan a `default` en ese perfil
+    secret?: {
+        minLength: number; // Longitud mínima exigida en producción
+    };
+}
+
+const port: EnvVariable['schema'] = { type: 'integer', minimum: 1, maximum: 65535 };
+const positiveInteger: EnvVariable['schema'] = { type: 'integer', minimum: 1 };
+const nonNegativeInteger: EnvVariable['schema'] = { type: 'integer', minimum: 0 };
+const flag: EnvVariable['schema'] = { type: 'boolean' };
+const text: EnvVariable['schema'] = { type: 'string' };
+
+/**
+ * Variables de entorno de la aplicación. Los secretos (`secret`) también pueden leerse de un archivo
+ * indicado en `<NOMBRE>_FILE` (ej. `JWT_SECRET_FILE=/run/secrets/jwt`), como los secretos de Docker o Kubernetes.
+ */
+export const ENV_VARIABLES: EnvVariable[] = [
+    { name: 'NODE_API_PORT', path: 'nodeApiPort', schema: port, default: 3000 },
+    {
+        name: 'LOG_LEVEL',
+        path: 'logLevel',
+        schema: { type: 'string', enum: LOG_LEVELS },
+        default: 'info',
+        profileDefaults: { development: 'debug', test: 'warn' },
+    },
+    { name: 'TRUST_PROXY_HOPS', path: 'trustProxyHops', schema: nonNegativeInteger, default: 0 },
+
+    // --- Backend de matrices y API de Go ---
+    { name: 'MATRIX_BACKEND', path: 'matrixBackend', schema: { type: 'string', enum: MATRIX_BACKENDS }, default: 'go' },
+    { name: 'GO_API_BASE_URL', path: 'goApiBaseUrl', schema: { type: 'string', pattern: '^https?://' }, default: 'http://localhost:8080/api' },
+    // Obligatorio salvo con MATRIX_BACKEND=local (ver las reglas de `validateConfig`)
+    { name: 'GO_API_APP_ACCESS_TOKEN', path: 'goApiAppAccessToken', schema: text, default: '', secret: { minLength: 16 } },
+    { name: 'GO_API_TIMEOUT_MS', path: 'goApiTimeoutMs', schema: positiveInteger, default: 10000 },
+    { name: 'GO_API_RETRY_MAX_RETRIES', path: 'goApiRetry.maxRetries', schema: nonNegativeInteger, default: 2 },
+    { name: 'GO_API_RETRY_BASE_DELAY_MS', path: 'goApiRetry.baseDelayMs', schema: nonNegativeInteger, default: 200 },
+    { name: 'GO_API_RETRY_MAX_DELAY_MS', path: 'goApiRetry.maxDelayMs', schema: nonNegativeInteger, default: 2000 },
+    { name: 'GO_API_CIRCUIT_FAILURE_THRESHOLD', path: 'goApiCircuitBreaker.failureThreshold', schema: positiveInteger, default: 5 },
+    { name: 'GO_API_CIRCUIT_COOLDOWN_MS', path: 'goApiCircuitBreaker.cooldownMs', schema: positiveInteger, default: 30000 },
+    { name: 'GO_API_HEALTH_PATH', path: 'goApiHealthCheck.path', schema: { type: 'string', pattern: '^/' }, default: '/health' },
+    { name: 'GO_API_HEALTH_TIMEOUT_MS', path: 'goApiHealthCheck.timeoutMs', schema: positiveInteger, default: 2000 },
+    { name: 'HEALTH_CACHE_TTL_MS', path: 'health.cacheTtlMs', schema: nonNegativeInteger, default: 5000 },
+    // Menor que el periodo de gracia del orquestador (30 s en Kubernetes), para cerrar antes de un SIGKILL
+    { name: 'SHUTDOWN_TIMEOUT_MS', path: 'shutdown.timeoutMs', schema: positiveInteger, default: 25000 },
+
+    // --- Caché, lotes y trabajos asíncronos ---
+    { name: 'RESULT_CACHE_ENABLED', path: 'resultCache.enabled', schema: flag, default: true },
+    { name: 'RESULT_CACHE_MAX_ENTRIES', path: 'resultCache.maxEntries', schema: positiveInteger, default: 500 },
+    { name: 'RESULT_CACHE_TTL_MS', path: 'resultCache.ttlMs', schema: positiveInteger, default: 600000 }, // 10 minutos
+    { name: 'RESULT_CACHE_MAX_BYTES', path: 'resultCache.maxBytes', schema: positiveInteger, default: 52428800 }, // 50 MB
+    { name: 'MATRIX_JOBS_CONCURRENCY', path: 'matrixJobs.concurrency', schema: positiveInteger, default: 2 },
+    { name: 'MATRIX_JOBS_MAX_QUEUE_DEPTH', path: 'matrixJobs.maxQueueDepth', schema: positiveInteger, default: 100 },
+    { name: 'MATRIX_JOBS_RETENTION_MS', path: 'matrixJobs.retentionMs', schema: positiveInteger, default: 3600000 }, // 1 hora
+    { name: 'MATRIX_BATCH_CONCURRENCY', path: 'matrixBatch.concurrency', schema: positiveInteger, default: 4 },
+    { name: 'MATRIX_BATCH_MAX_SIZE', path: 'matrixBatch.maxBatchSize', schema: positiveInteger, default: 500 },
+
+    // --- Límites de tamaño de las matrices por rol ---
+    { name: 'MATRIX_LIMITS_USER_MAX_DIMENSION', path: 'matrixLimits.user.maxDimension', schema: positiveInteger, default: 100 },
+    { name: 'MATRIX_LIMITS_USER_MAX_ELEMENTS', path: 'matrixLimits.user.maxElements', schema: positiveInteger, default: 10000 },
+    { name: 'MATRIX_LIMITS_USER_MAX_COMPUTE_DIMENSION', path: 'matrixLimits.user.maxComputeDimension', schema: positiveInteger, default: 100 },
+    { name: 'MATRIX_LIMITS_PRO_MAX_DIMENSION', path: 'matrixLimits.pro.maxDimension', schema: positiveInteger, default: 1000 },
+    { name: 'MATRIX_LIMITS_PRO_MAX_ELEMENTS', path: 'matrixLimits.pro.maxElements', schema: positiveInteger, default: 1000000 },
+    { name: 'MATRIX_LIMITS_PRO_MAX_COMPUTE_DIMENSION', path: 'matrixLimits.pro.maxComputeDimension', schema: positiveInteger, default: 1000 },
+    { name: 'MATRIX_LIMITS_ADMIN_MAX_DIMENSION', path: 'matrixLimits.admin.maxDimension', schema: positiveInteger, default: 5000 },
+    { name: 'MATRIX_LIMITS_ADMIN_MAX_ELEMENTS', path: 'matrixLimits.admin.maxElements', schema: positiveInteger, default: 25000000 },
+    { name: 'MATRIX_LIMITS_ADMIN_MAX_COMPUTE_DIMENSION', path: 'matrixLimits.admin.maxComputeDimension', schema: positiveInteger, default: 1000 },
+
+    // --- Verificación de la factorización QR ---
+    { name: 'QR_VERIFICATION_ENABLED', path: 'qrVerification.enabled', schema: flag, default: true },
+    { name: 'QR_VERIFICATION_TOLERANCE', path: 'qrVerification.tolerance', schema: { type: 'number', minimum: 0 }, default: 1e-6 },
+    { name: 'QR_VERIFICATION_MODE', path: 'qrVerification.mode', schema: { type: 'string', enum: QR_VERIFICATION_MODES }, default: 'flag' },
+
+    // --- Autenticación ---
+    // Sin valor por defecto en producción: el secreto de ejemplo solo se admite en desarrollo y pruebas
+    {
+        name: 'JWT_SECRET',
+        path: 'jwtSecret',
+        schema: { type: 'string', minLength: 1 },
+        profileDefaults: { development: 'development-only-insecure-jwt-secret', test: 'test-only-insecure-jwt-secret' },
+        secret: { minLength: 32 },
+    },
+    { name: 'JWT_EXPIRES_IN', path: 'jwtExpiresIn', schema: { type: 'string', pattern: '^\\d+\\s*(ms|s|m|h|d|w|y)?$' }, default: '1h' },
+    { name: 'REFRESH_TOKEN_TTL_MS', path: 'auth.refreshTokenTtlMs', schema: positiveInteger, default: 2592000000 }, // 30 días
+    { name: 'USER_STORE_FILE', path: 'auth.userStoreFile', schema: { type: 'string', minLength: 1 }, default: './data/users.json' },
+    { name: 'AUTH_REGISTRATION_ENABLED', path: 'auth.registrationEnabled', schema: flag, default: true },
+    { name: 'BOOTSTRAP_ADMIN_USERNAME', path: 'auth.bootstrapAdminUsername', schema: text, default: '' },
+    { name: 'BOOTSTRAP_ADMIN_PASSWORD', path: 'auth.bootstrapAdminPassword', schema: text, default: '', secret: { minLength: 12 } },
+    { name: 'API_KEY_STORE_FILE', path: 'apiKeys.storeFile', schema: { type: 'string', minLength: 1 }, default: './data/api-keys.json' },
+    { name: 'API_KEYS_MAX_PER_USER', path: 'apiKeys.maxPerUser', schema: positiveInteger, default: 20 },
+    { name: 'INTERNAL_API_TOKEN', path: 'internalApiToken', schema: text, default: '', secret: { minLength: 32 } },
+
+    // --- Métricas y límites de solicitudes ---
+    { name: 'METRICS_ENABLED', path: 'metrics.enabled', schema: flag, default: true },
+    { name: 'METRICS_TOKEN', path: 'metrics.token', schema: text, default: '', secret: { minLength: 32 } },
+    { name: 'RATE_LIMIT_ENABLED', path: 'rateLimit.enabled', schema: flag, default: true },
+    { name: 'RATE_LIMIT_LOGIN_LIMIT', path: 'rateLimit.login.limit', schema: positiveInteger, default: 10 },
+    { name: 'RATE_LIMIT_LOGIN_WINDOW_MS', path: 'rateLimit.login.windowMs', schema: positiveInteger, default: 900000 }, // 15 minutos
+    { name: 'RATE_LIMIT_MATRIX_LIMIT', path: 'rateLimit.matrix.limit', schema: positiveInteger, default: 60 },
+    { name: 'RATE_LIMIT_MATRIX_WINDOW_MS', path: 'rateLimit.matrix.windowMs', schema: positiveInteger, default: 60000 }, // 1 minuto
+    { name: 'RATE_LIMIT_JOBS_LIMIT', path: 'rateLimit.jobs.limit', schema: positiveInteger, default: 300 },
+    { name: 'RATE_LIMIT_JOBS_WINDOW_MS', path: 'rateLimit.jobs.windowMs', schema: positiveInteger, default: 60000 }, // 1 minuto
+];
@@ -0,0 +1,42 @@
+// src/domain/entities/api-key.ts
+
+/**
+ * @typedef ApiKeyScope
+ * @description Permisos que puede tener una API key. Una key solo puede usar las rutas de sus scopes;
+ * los JWT de usuario no tienen restricción de scopes.
+ */
+export type ApiKeyScope = 'matrix:process' | 'matrix:batch' | 'matrix:jobs' | 'cache:admin';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['matrix:process', 'matrix:batch', 'matrix:jobs', 'cache:admin'];
+
+/**
+ * @interface ApiKey
+ * @description API key de larga duración para clientes máquina a máquina.
+ * Solo se guarda el hash SHA-256 de la key; la key en claro se muestra una única vez al crearla.
+ */
+export interface ApiKey {
+    id: string;
+    ownerId: string;           // Usuario en cuyo nombre actúa la key (hereda sus roles)
+    label: string;
+    keyHash: string;
+    prefix: string;            // Primeros caracteres de la key, para reconocerla en los listados
+    scopes: ApiKeyScope[];
+    createdAt: string;         // ISO 8601
+    expiresAt: string | null;  // ISO 8601; null si no expira
+    lastUsedAt: string | null; // ISO 8601 (aproximado: se actualiza como mucho una vez por minuto)
+    revokedAt: string | null;  // ISO 8601
+}
+
+/**
+ * @typedef PublicApiKey
+ * @description Vista de una API key que se puede devolver al cliente (sin el hash).
+ */
+export type PublicApiKey = Omit<ApiKey, 'keyHash'>;
+
+export const toPublicApiKey = ({ keyHash, ...apiKey }: ApiKey): PublicApiKey => apiKey;
+
+/**
+ * Indica si una key puede usarse en el instante indicado (no revocada ni expirada).
+ */
+export const isApiKeyActive = (apiKey: ApiKey, now: Date = new Date()): boolean =>
+    !apiKey.revokedAt && (!apiKey.expiresAt || Date.parse(apiKey.expiresAt) > now.getTime());
@@ -0,0 +1,30 @@
+// src/domain/entities/health.ts
+
+/**
+ * @typedef HealthStatus
+ * @description Estado de una dependencia:
+ * - `up`: funciona con normalidad.
+ * - `degraded`: la API puede atender solicitudes, pero con capacidad reducida (ej. motor local en lugar de Go).
+ * - `down`: la API no puede atender las solicitudes que dependen de ella.
+ */
+export type HealthStatus = 'up' | 'degraded' | 'down';
+
+/**
+ * @interface DependencyHealth
+ * @description Resultado de comprobar una dependencia.
+ */
+export interface DependencyHealth {
+    status: HealthStatus;
+    latencyMs?: number; // Duración de la comprobación (si implica una llamada remota)
+    message?: string;   // Motivo del fallo o de la degradación
+}
+
+/**
+ * @interface HealthReport
+ * @description Estado agregado de la API y desglose por dependencia (respuesta de `/health/ready`).
+ */
+export interface HealthReport {
+    status: HealthStatus; // El peor estado de las dependencias
+    checkedAt: string;    // ISO 8601 (las comprobaciones se cachean durante un intervalo corto)
+    dependencies: Record<string, DependencyHealth>;
+}
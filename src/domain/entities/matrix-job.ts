@@ -0,0 +1,26 @@
+// src/domain/entities/matrix-job.ts
+
+import { ErrorResponseBody } from '@domain/errors/app.errors';
+import { ProcessedMatrixResult } from '@domain/entities/matrix';
+
+/**
+ * @typedef {'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'} MatrixJobStatus
+ * @description Estados posibles de un trabajo asíncrono de procesamiento de matrices.
+ */
+export type MatrixJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * @interface MatrixJob
+ * @description Trabajo asíncrono de procesamiento de una matriz.
+ * Pertenece al usuario que lo creó (`ownerId`); ningún otro usuario puede consultarlo ni cancelarlo.
+ */
+export interface MatrixJob {
+    id: string;
+    ownerId: string;
+    status: MatrixJobStatus;
+    createdAt: string;   // ISO 8601
+    startedAt?: string;  // ISO 8601
+    finishedAt?: string; // ISO 8601
+    result?: ProcessedMatrixResult; // Presente si status === 'succeeded'
+    error?: ErrorResponseBody;      // Presente si status === 'failed' (mismo formato que las respuestas de error HTTP)
+}
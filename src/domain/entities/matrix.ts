@@ -1,5 +1,7 @@
 // src/domain/entities/matrix.ts
 
+import { ErrorResponseBody } from '@domain/errors/app.errors';
+
 /**
  * @typedef {number[][]} Matrix
  * @description Define un tipo para representar una matriz como un array de arrays de números.
@@ -16,6 +18,91 @@ export interface QRFactorization {
     R: Matrix;
 }
 
+/**
+ * @typedef DecompositionName
+ * @description Descomposiciones que se pueden solicitar (ver `MatrixDecompositionRegistry`).
+ */
+export type DecompositionName = 'qr' | 'lu' | 'cholesky' | 'svd' | 'eigen';
+
+/**
+ * @interface LUDecomposition
+ * @description Descomposición LU con pivoteo parcial de una matriz cuadrada: P · A = L · U.
+ */
+export interface LUDecomposition {
+    L: Matrix; // Triangular inferior con unos en la diagonal
+    U: Matrix; // Triangular superior (un cero en la diagonal indica que la matriz es singular)
+    P: Matrix; // Matriz de permutación de las filas
+}
+
+/**
+ * @interface CholeskyDecomposition
+ * @description Descomposición de Cholesky de una matriz simétrica definida positiva: A = L · Lᵀ.
+ */
+export interface CholeskyDecomposition {
+    L: Matrix; // Triangular inferior con diagonal positiva
+}
+
+/**
+ * @interface SVDDecomposition
+ * @description Descomposición en valores singulares reducida de una matriz de m x n, con k = min(m, n):
+ * A = U · diag(S) · Vᵀ.
+ */
+export interface SVDDecomposition {
+    U: Matrix;   // m x k, columnas ortonormales
+    S: number[]; // Valores singulares, de mayor a menor
+    V: Matrix;   // n x k, columnas ortonormales
+}
+
+/**
+ * @interface EigenDecomposition
+ * @description Valores propios de una matriz cuadrada; el i-ésimo es `real[i] + imaginary[i]·i`.
+ * Los vectores propios solo se devuelven para matrices simétricas (valores reales y vectores ortonormales).
+ */
+export interface EigenDecomposition {
+    real: number[];
+    imaginary: number[];
+    vectors: Matrix | null; // La columna i es el vector propio de real[i]; null si la matriz no es simétrica
+}
+
+/**
+ * @interface MatrixDecompositions
+ * @description Descomposiciones calculadas sobre una matriz, indexadas por nombre. Solo están las solicitadas.
+ */
+export interface MatrixDecompositions {
+    qr?: QRFactorization;
+    lu?: LUDecomposition;
+    cholesky?: CholeskyDecomposition;
+    svd?: SVDDecomposition;
+    eigen?: EigenDecomposition;
+}
+
+/**
+ * @interface QRVerificationReport
+ * @description Resultado de la verificación numérica de la factorización QR devuelta por el backend.
+ * Los residuos son relativos (normas de Frobenius) y valen `null` si las dimensiones de Q y R no permiten calcularlos.
+ */
+export interface QRVerificationReport {
+    passed: boolean;
+    tolerance: number;
+    residuals: {
+        orthogonality: number | null;  // ||QᵀQ - I||
+        triangularity: number | null;  // ||tril(R, -1)|| / ||R||
+        reconstruction: number | null; // ||Q·R - A|| / ||A||
+    };
+    failures: string[]; // Comprobaciones fallidas: 'dimensions', 'orthogonality', 'triangularity', 'reconstruction', 'originalMatrix'
+}
+
+/**
+ * @interface CacheStatus
+ * @description Indica si un resultado se sirvió desde el caché de resultados.
+ * Las solicitudes concurrentes idénticas que comparten una única llamada en curso se reportan como `hit`,
+ * ya que no generaron una llamada adicional a la API de Go.
+ */
+export interface CacheStatus {
+    hit: boolean;
+    key: string; // Hash canónico de la matriz (se usa para invalidar la entrada)
+}
+
 /**
  * @interface GoApiResponseData
  * @description Define la estructura de la respuesta de datos exitosa esperada de la API de Go
@@ -29,6 +116,7 @@ export interface GoApiResponseData {
     original_matrix: Matrix;
     rotated_matrix: Matrix;
     qr_factorization: QRFactorization;
+    cache?: CacheStatus; // Lo añade el decorador de caché; la API de Go no lo envía
 }
 
 /**
@@ -53,6 +141,23 @@ export interface GoApiResponse {
     details?: string; // Detalles adicionales para errores
 }
 
+/**
+ * @typedef MatrixOperation
+ * @description Transformación que se aplica a la matriz (el resultado se devuelve como `rotatedMatrix`):
+ * - `rotate`: rotación de 90, 180 o 270 grados, en sentido horario o antihorario.
+ * - `transpose`: traspuesta.
+ * - `flip`: volteo `horizontal` (invierte cada fila, espejo izquierda-derecha) o `vertical` (invierte el orden de las filas).
+ * Sin operación se aplica la rotación histórica de la API de Go: 90 grados en sentido horario.
+ */
+export type MatrixOperation =
+    | { type: 'rotate'; degrees: RotationDegrees; direction: RotationDirection }
+    | { type: 'transpose' }
+    | { type: 'flip'; axis: FlipAxis };
+
+export type RotationDegrees = 90 | 180 | 270;
+export type RotationDirection = 'clockwise' | 'counterclockwise';
+export type FlipAxis = 'horizontal' | 'vertical';
+
 /**
  * @interface MatrixProcessingRequest
  * @description Define la estructura esperada para la solicitud de procesamiento de una matriz
@@ -60,6 +165,20 @@ export interface GoApiResponse {
  */
 export interface MatrixProcessingRequest {
     matrix: Matrix;
+    stats?: string[]; // Estadísticas por matriz solicitadas (ver `StatisticName`); 'all' para todas
+    limits?: MatrixLimits; // Límites de tamaño del solicitante; sin límites si no se indican
+    operation?: MatrixOperation; // Operación a aplicar; por defecto, rotación de 90 grados en sentido horario
+    decompositions?: string[]; // Descomposiciones adicionales de la matriz original (ver `DecompositionName`)
+}
+
+/**
+ * @interface MatrixLimits
+ * @description Límites de tamaño de las matrices que puede enviar un usuario (dependen de sus roles).
+ */
+export interface MatrixLimits {
+    maxDimension: number;        // Máximo de filas y de columnas
+    maxElements: number;         // Máximo de elementos (filas x columnas)
+    maxComputeDimension: number; // Máximo de filas y de columnas en las operaciones de coste O(n³) (ver `checkComputeLimits`)
 }
 
 /**
@@ -89,6 +208,42 @@ export interface MatrixStatistics {
     isDiagonalRotated: boolean;  // Indica si la matriz rotada es diagonal
 }
 
+/**
+ * @typedef StatisticName
+ * @description Nombres de las estadísticas integradas del motor de estadísticas.
+ * El motor admite registrar estadísticas adicionales con otros nombres.
+ */
+export type StatisticName =
+    | 'max' | 'min' | 'sum' | 'average' | 'median' | 'variance' | 'standardDeviation'
+    | 'trace' | 'determinant' | 'rank'
+    | 'frobeniusNorm' | 'oneNorm' | 'infinityNorm' | 'conditionNumber'
+    | 'isDiagonal' | 'isSymmetric' | 'isUpperTriangular' | 'isLowerTriangular' | 'isIdentity' | 'isOrthogonal'
+    | 'density';
+
+/**
+ * @typedef StatisticValue
+ * @description Valor de una estadística. `null` indica que no aplica a la matriz
+ * (ej. el determinante de una matriz no cuadrada) o que es infinita (número de condición de una matriz singular).
+ */
+export type StatisticValue = number | boolean | null;
+
+/**
+ * @typedef MatrixStatisticsReport
+ * @description Estadísticas calculadas sobre UNA matriz, indexadas por nombre.
+ */
+export type MatrixStatisticsReport = Record<string, StatisticValue>;
+
+/**
+ * @interface PerMatrixStatistics
+ * @description Estadísticas reportadas por separado para cada matriz del resultado.
+ */
+export interface PerMatrixStatistics {
+    original: MatrixStatisticsReport;
+    rotated: MatrixStatisticsReport;
+    q: MatrixStatisticsReport;
+    r: MatrixStatisticsReport;
+}
+
 /**
  * @interface MatrixStatsResponse
  * @description Define la estructura de la respuesta JSON que la API de Node.js enviará
@@ -117,7 +272,126 @@ export interface MatrixStatsResponse {
  */
 export interface ProcessedMatrixResult {
     originalMatrix: Matrix;
-    rotatedMatrix: Matrix;
+    rotatedMatrix: Matrix; // Resultado de la operación aplicada (no necesariamente una rotación)
+    operation: MatrixOperation; // La operación aplicada, con los valores por defecto resueltos
     qrFactorization: QRFactorization;
-    statistics: MatrixStatistics;
-}
\ No newline at end of file
+    statistics: MatrixStatistics; // Resumen agregado de la original y la rotada (compatibilidad)
+    matrixStatistics: PerMatrixStatistics; // Estadísticas seleccionadas, por matriz
+    decompositions?: MatrixDecompositions; // Presente solo si se solicitaron descomposiciones
+    qrVerification?: QRVerificationReport; // Presente solo si la verificación de QR está habilitada
+    cache?: CacheStatus; // Presente solo si el caché de resultados está habilitado
+}
+
+/**
+ * @interface MatrixDecompositionRequest
+ * @description Solicitud de descomposición de una matriz (`/api/matrix/decompose`).
+ */
+export interface MatrixDecompositionRequest {
+    matrix: Matrix;
+    decompositions: string[]; // Nombres solicitados (ver `DecompositionName`); 'all' para todas
+    limits?: MatrixLimits; // Límites de tamaño del solicitante; sin límites si no se indican
+}
+
+/**
+ * @interface LinearSystemRequest
+ * @description Solicitud de resolución del sistema A · x = b (`/api/matrix/solve`).
+ */
+export interface LinearSystemRequest {
+    matrix: Matrix; // A, de m x n con m >= n (cuadrado o sobredeterminado)
+    b: number[] | Matrix; // Un lado derecho (m valores) o varios, como columnas de una matriz de m x k
+    limits?: MatrixLimits; // Límites de tamaño del solicitante; sin límites si no se indican
+}
+
+/**
+ * @typedef LinearSystemMethod
+ * @description `exact` para un sistema cuadrado de rango completo; `least-squares` en cualquier otro caso.
+ */
+export type LinearSystemMethod = 'exact' | 'least-squares';
+
+/**
+ * @interface LinearSystemSolution
+ * @description Solución de A · x = b. `x` tiene la misma forma que `b`: un vector o una columna por lado derecho.
+ */
+export interface LinearSystemSolution {
+    method: LinearSystemMethod;
+    x: number[] | Matrix;
+    residualNorms: number[]; // ||A · x - b|| de cada lado derecho
+    rank: number; // Rango numérico de A
+    rankDeficient: boolean; // Si es true, la solución no es única: se devuelve la de norma mínima
+    warnings: string[];
+}
+
+/**
+ * @typedef MatrixArithmeticOperation
+ * @description Operaciones aritméticas de `/api/matrix/ops`.
+ */
+export type MatrixArithmeticOperation =
+    | 'add' | 'subtract' | 'scalarMultiply' | 'multiply' | 'transpose' | 'inverse' | 'power' | 'kronecker';
+
+/**
+ * @typedef MatrixArithmeticRequest
+ * @description Solicitud de una operación aritmética: dos matrices (`a` y `b`) en las operaciones binarias,
+ * una (`matrix`) en las unarias, más el escalar o el exponente cuando corresponde.
+ */
+export type MatrixArithmeticRequest = { limits?: MatrixLimits } & (
+    | { operation: 'add' | 'subtract' | 'multiply' | 'kronecker'; a: Matrix; b: Matrix }
+    | { operation: 'scalarMultiply'; matrix: Matrix; scalar: number }
+    | { operation: 'transpose' | 'inverse'; matrix: Matrix }
+    | { operation: 'power'; matrix: Matrix; exponent: number }
+);
+
+/**
+ * @interface MatrixArithmeticResult
+ * @description Resultado de una operación aritmética.
+ */
+export interface MatrixArithmeticResult {
+    operation: MatrixArithmeticOperation;
+    result: Matrix;
+}
+
+/**
+ * @interface MatrixBatchRequest
+ * @description Solicitud de procesamiento por lotes: varias matrices en una sola petición HTTP.
+ */
+export interface MatrixBatchRequest {
+    matrices: Matrix[];
+    stats?: string[]; // Estadísticas por matriz solicitadas, aplicadas a todos los elementos
+    limits?: MatrixLimits; // Límites de tamaño aplicados a cada matriz del lote
+    operation?: MatrixOperation; // Operación aplicada a todas las matrices del lote
+}
+
+/**
+ * @typedef MatrixBatchItemResult
+ * @description Resultado de un elemento del lote, en la misma posición (`index`) que en la solicitud.
+ * Un elemento inválido no hace fallar al resto del lote: se reporta con `status: 'failed'`.
+ */
+export type MatrixBatchItemResult =
+    | { index: number; status: 'succeeded'; result: ProcessedMatrixResult }
+    | { index: number; status: 'failed'; error: ErrorResponseBody };
+
+/**
+ * @interface MatrixBatchSummary
+ * @description Resumen agregado del lote. Las estadísticas se calculan sobre todos los valores
+ * (matriz original y rotada) de los elementos procesados con éxito; se omiten si ninguno tuvo éxito.
+ */
+export interface MatrixBatchSummary {
+    total: number;
+    succeeded: number;
+    failed: number;
+    statistics?: {
+        maxValue: number;
+        minValue: number;
+        average: number;
+        totalSum: number;
+        elementCount: number;
+    };
+}
+
+/**
+ * @interface MatrixBatchResult
+ * @description Resultado completo del procesamiento por lotes.
+ */
+export interface MatrixBatchResult {
+    items: MatrixBatchItemResult[];
+    summary: MatrixBatchSummary;
+}
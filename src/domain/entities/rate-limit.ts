@@ -0,0 +1,74 @@
+// src/domain/entities/rate-limit.ts
+
+/**
+ * @interface RateLimitPolicy
+ * @description Política de un limitador token bucket: el cubo admite ráfagas de hasta `limit` solicitudes
+ * y se rellena de forma continua a razón de `limit` tokens por `windowMs`.
+ */
+export interface RateLimitPolicy {
+    limit: number;
+    windowMs: number;
+}
+
+/**
+ * @interface TokenBucketState
+ * @description Estado guardado de un cubo: tokens disponibles en el instante `updatedAt` (ms epoch).
+ */
+export interface TokenBucketState {
+    tokens: number;
+    updatedAt: number;
+}
+
+/**
+ * @interface RateLimitDecision
+ * @description Resultado de consumir un token; alimenta las cabeceras `RateLimit-*` y `Retry-After`.
+ */
+export interface RateLimitDecision {
+    allowed: boolean;
+    limit: number;
+    remaining: number;    // Tokens enteros que quedan tras esta solicitud
+    resetMs: number;      // Tiempo hasta que el cubo vuelva a estar lleno
+    retryAfterMs: number; // Tiempo hasta que haya un token disponible (0 si se admitió)
+}
+
+/**
+ * @interface TokenBucketTake
+ * @description Resultado de `takeTokens`: el nuevo estado del cubo, hasta cuándo hay que guardarlo y la decisión.
+ */
+export interface TokenBucketTake {
+    state: TokenBucketState;
+    expiresAt: number; // Después de este instante el cubo estaría lleno y el estado se puede descartar
+    decision: RateLimitDecision;
+}
+
+/**
+ * @function takeTokens
+ * @description Rellena el cubo por el tiempo transcurrido desde `state.updatedAt` e intenta retirar `cost` tokens.
+ * Es una función pura: cada almacén la aplica de forma atómica sobre el estado que guarda.
+ * @param state Estado guardado del cubo (`undefined` si no existe o venció: el cubo está lleno).
+ * @param cost Tokens que consume la solicitud.
+ * @param policy Capacidad y ventana de relleno.
+ * @param now Instante de la solicitud (ms epoch).
+ */
+export const takeTokens = (state: TokenBucketState | undefined, cost: number, policy: RateLimitPolicy, now: number): TokenBucketTake => {
+    const { limit, windowMs } = policy;
+    const refillPerMs = limit / windowMs;
+    const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+    const available = state ? Math.min(limit, state.tokens + elapsed * refillPerMs) : limit;
+
+    const allowed = available >= cost;
+    const tokens = allowed ? available - cost : available;
+    const resetMs = Math.ceil((limit - tokens) / refillPerMs);
+
+    return {
+        state: { tokens, updatedAt: now },
+        expiresAt: now + resetMs,
+        decision: {
+            allowed,
+            limit,
+            remaining: Math.floor(tokens),
+            resetMs,
+            retryAfterMs: allowed ? 0 : Math.ceil((cost - tokens) / refillPerMs),
+        },
+    };
+};
@@ -0,0 +1,36 @@
+// src/domain/entities/session.ts
+
+import { AuthenticatedUser } from '@domain/entities/user';
+
+/**
+ * @interface AccessTokenClaims
+ * @description Contenido verificado de un token de acceso.
+ */
+export interface AccessTokenClaims extends AuthenticatedUser {
+    jti: string;       // Identificador único del token (para revocarlo individualmente)
+    sessionId: string; // Sesión (familia de refresh tokens) a la que pertenece
+    expiresAt: number; // Epoch en ms
+}
+
+/**
+ * @interface RefreshTokenRecord
+ * @description Refresh token guardado. Solo se guarda el hash SHA-256 del token, nunca el token en claro.
+ * Todos los refresh tokens que se obtienen rotando uno mismo forman una sesión (`sessionId`).
+ */
+export interface RefreshTokenRecord {
+    tokenHash: string;
+    userId: string;
+    sessionId: string;
+    issuedAt: number;  // Epoch en ms
+    expiresAt: number; // Epoch en ms
+    usedAt?: number;   // Momento en que se rotó; volver a presentarlo se considera reutilización
+}
+
+/**
+ * @interface SessionTokens
+ * @description Tokens emitidos al iniciar sesión o al refrescarla.
+ */
+export interface SessionTokens {
+    token: string;        // Token de acceso (JWT)
+    refreshToken: string; // Token opaco de un solo uso
+}
@@ -0,0 +1,46 @@
+// src/domain/entities/user.ts
+
+/**
+ * @typedef UserRole
+ * @description Roles que puede tener un usuario:
+ * - `admin`: administra usuarios y el caché, y tiene los límites de matrices más altos.
+ * - `pro`: plan de pago, con límites de matrices ampliados.
+ * - `user`: plan gratuito (rol por defecto al registrarse).
+ */
+export type UserRole = 'admin' | 'pro' | 'user';
+
+export const USER_ROLES: UserRole[] = ['admin', 'pro', 'user'];
+
+/**
+ * @interface User
+ * @description Usuario registrado. La contraseña solo se guarda como hash (scrypt).
+ */
+export interface User {
+    id: string;
+    username: string;
+    passwordHash: string;
+    roles: UserRole[];
+    disabled: boolean;
+    createdAt: string; // ISO 8601
+    updatedAt: string; // ISO 8601
+}
+
+/**
+ * @typedef PublicUser
+ * @description Vista de un usuario que se puede devolver al cliente (sin el hash de la contraseña).
+ */
+export type PublicUser = Omit<User, 'passwordHash'>;
+
+/**
+ * @interface AuthenticatedUser
+ * @description Identidad del usuario autenticado: lo que viaja en el JWT y se expone en `req.user`.
+ */
+export interface AuthenticatedUser {
+    id: string;
+    username: string;
+    roles: UserRole[];
+}
+
+export const toPublicUser = ({ passwordHash, ...user }: User): PublicUser => user;
+
+export const toAuthenticatedUser = ({ id, username, roles }: User): AuthenticatedUser => ({ id, username, roles });
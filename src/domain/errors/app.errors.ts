@@ -15,12 +15,43 @@ export class AppError extends Error {
     }
 }
 
+export class BadRequestError extends AppError {
+    constructor(details?: string) {
+        super('The request is invalid.', 400, 'BAD_REQUEST', details);
+    }
+}
+
+/**
+ * @interface FieldError
+ * @description Error de validación de un campo concreto de la solicitud (ej. `body.matrix[0][1]`).
+ */
+export interface FieldError {
+    field: string;
+    message: string;
+}
+
+export class ValidationError extends AppError {
+    public readonly fields: FieldError[];
+
+    constructor(fields: FieldError[]) {
+        super('The request does not match the expected schema.', 400, 'VALIDATION_ERROR',
+            fields.map(({ field, message }) => `${field} ${message}`).join('; '));
+        this.fields = fields;
+    }
+}
+
 export class InvalidMatrixError extends AppError {
     constructor(details?: string) {
         super('Invalid matrix provided.', 400, 'INVALID_MATRIX', details);
     }
 }
 
+export class MatrixTooLargeError extends AppError {
+    constructor(details?: string) {
+        super('The matrix exceeds the size limits for your role.', 413, 'MATRIX_TOO_LARGE', details);
+    }
+}
+
 export class GoApiError extends AppError {
     constructor(message: string = 'Error communicating with Go API.', details?: string, statusCode: number = 500) {
         super(message, statusCode, 'GO_API_ERROR', details);
@@ -33,8 +64,106 @@ export class UnauthorizedError extends AppError {
     }
 }
 
+export class ForbiddenError extends AppError {
+    constructor(details?: string) {
+        super('You do not have permission to perform this action.', 403, 'FORBIDDEN', details);
+    }
+}
+
+export class NotFoundError extends AppError {
+    constructor(details?: string) {
+        super('The requested resource was not found.', 404, 'NOT_FOUND', details);
+    }
+}
+
+export class NotAcceptableError extends AppError {
+    constructor(details?: string) {
+        super('None of the requested response formats is available.', 406, 'NOT_ACCEPTABLE', details);
+    }
+}
+
+export class UnsupportedMediaTypeError extends AppError {
+    constructor(details?: string) {
+        super('The Content-Type of the request is not supported.', 415, 'UNSUPPORTED_MEDIA_TYPE', details);
+    }
+}
+
+export class ConflictError extends AppError {
+    constructor(details?: string) {
+        super('The request conflicts with the current state of the resource.', 409, 'CONFLICT', details);
+    }
+}
+
+export class QueueFullError extends AppError {
+    constructor(details?: string) {
+        super('The job queue is full. Please try again later.', 503, 'QUEUE_FULL', details);
+    }
+}
+
+export class ShuttingDownError extends AppError {
+    constructor(details?: string) {
+        super('The server is shutting down. Please try again later.', 503, 'SHUTTING_DOWN', details);
+    }
+}
+
+export class RateLimitExceededError extends AppError {
+    constructor(details?: string) {
+        super('Too many requests. Please try again later.', 429, 'RATE_LIMIT_EXCEEDED', details);
+    }
+}
+
 export class InternalServerError extends AppError {
     constructor(details?: string) {
         super('An unexpected internal server error occurred.', 500, 'INTERNAL_SERVER_ERROR', details);
     }
-}
\ No newline at end of file
+}
+
+export class CircuitOpenError extends AppError {
+    constructor(details?: string) {
+        super('Go API is temporarily unavailable (circuit open).', 503, 'GO_API_CIRCUIT_OPEN', details);
+    }
+}
+
+export class QRVerificationError extends AppError {
+    constructor(details?: string) {
+        super('The QR factorization returned by the matrix backend failed numerical verification.', 502, 'QR_VERIFICATION_FAILED', details);
+    }
+}
+
+export class InvalidConfigError extends AppError {
+    public readonly problems: string[];
+
+    constructor(problems: string[]) {
+        super('The configuration is invalid.', 500, 'ENV_CONFIG_ERROR', problems.join('; '));
+        this.problems = problems;
+    }
+}
+
+/**
+ * @interface ErrorResponseBody
+ * @description Formato JSON con el que la API reporta un error (respuestas HTTP, trabajos y lotes).
+ */
+export interface ErrorResponseBody {
+    error: string;
+    details: string;
+    message?: string;
+    fields?: FieldError[]; // Solo en los errores de validación (VALIDATION_ERROR)
+}
+
+/**
+ * Convierte cualquier error en el cuerpo de respuesta estándar. Los errores que no son `AppError`
+ * se reportan de forma genérica para no filtrar detalles internos.
+ */
+export const toErrorResponseBody = (error: unknown): ErrorResponseBody => {
+    if (error instanceof AppError) {
+        // `instanceof ValidationError` no sirve: las subclases fijan el prototipo de AppError
+        const { fields } = error as Partial<ValidationError>;
+        return {
+            error: error.errorCode,
+            details: error.message,
+            ...(error.details && { message: error.details }),
+            ...(fields && { fields }),
+        };
+    }
+    return { error: 'INTERNAL_SERVER_ERROR', details: 'An unexpected error occurred.' };
+};
@@ -0,0 +1,92 @@
+// src/infrastructure/cache/caching.gateway.ts
+
+import { DecompositionName, GoApiResponseData, Matrix, MatrixDecompositions, MatrixOperation } from '@domain/entities/matrix';
+import { MatrixResultCache, MatrixResultCacheStats } from '@application/ports/matrix-result-cache';
+
+import { DependencyHealth } from '@domain/entities/health';
+import { GoApiGateway } from '@application/ports/go-api.gateway';
+import { LruCache } from '@infrastructure/cache/lru-cache';
+import { hashMatrix } from '@infrastructure/cache/matrix-hash';
+
+/**
+ * @interface CachingGatewayOptions
+ * @description Límites del caché de resultados.
+ */
+export interface CachingGatewayOptions {
+    maxEntries: number;
+    ttlMs: number;
+    maxBytes: number;
+}
+
+/**
+ * @class CachingGoApiGateway
+ * @description Decorador de caché para cualquier `GoApiGateway`, direccionado por contenido:
+ * la clave es el hash canónico de la matriz y de la operación. Usa un LRU con TTL y tope de memoria, y agrupa
+ * las solicitudes idénticas concurrentes en una única llamada en curso al gateway decorado.
+ * Cada resultado indica en `cache` si fue un acierto.
+ */
+export class CachingGoApiGateway implements GoApiGateway, MatrixResultCache {
+    private readonly inner: GoApiGateway;
+    private readonly cache: LruCache<GoApiResponseData>;
+    private readonly inFlight = new Map<string, Promise<GoApiResponseData>>();
+
+    constructor(inner: GoApiGateway, options: CachingGatewayOptions) {
+        this.inner = inner;
+        this.cache = new LruCache<GoApiResponseData>({
+            ...options,
+            // Estimación del tamaño en memoria a partir de la serialización JSON
+            sizeOf: value => Buffer.byteLength(JSON.stringify(value)),
+        });
+    }
+
+    async processMatrix(matrix: Matrix, operation: MatrixOperation): Promise<GoApiResponseData> {
+        const key = hashMatrix(matrix, operation);
+
+        const cached = this.cache.get(key);
+        if (cached) {
+            return { ...cached, cache: { hit: true, key } };
+        }
+
+        const pending = this.inFlight.get(key);
+        if (pending) {
+            const shared = await pending;
+            return { ...shared, cache: { hit: true, key } };
+        }
+
+        const request = this.inner.processMatrix(matrix, operation);
+        this.inFlight.set(key, request);
+        try {
+            const result = await request;
+            this.cache.set(key, result);
+            return { ...result, cache: { hit: false, key } };
+        } finally {
+            // Los errores no se cachean: la siguiente solicitud volverá a intentar
+            this.inFlight.delete(key);
+        }
+    }
+
+    decompose(matrix: Matrix, decompositions: DecompositionName[]): Promise<MatrixDecompositions> {
+        // Solo se cachean los resultados de `processMatrix`
+        return this.inner.decompose(matrix, decompositions);
+    }
+
+    healthCheck(): Promise<DependencyHealth> {
+        return this.inner.healthCheck();
+    }
+
+    close(): Promise<void> {
+        return this.inner.close();
+    }
+
+    public invalidate(key: string): boolean {
+        return this.cache.delete(key);
+    }
+
+    public flush(): number {
+        return this.cache.clear();
+    }
+
+    public getStats(): MatrixResultCacheStats {
+        return { ...this.cache.getStats(), inFlight: this.inFlight.size };
+    }
+}
@@ -0,0 +1,111 @@
+// src/infrastructure/cache/lru-cache.ts
+
+/**
+ * @interface LruCacheOptions
+ * @description Límites del caché LRU.
+ */
+export interface LruCacheOptions<V> {
+    maxEntries: number;             // Número máximo de entradas
+    ttlMs: number;                  // Tiempo de vida de cada entrada
+    maxBytes: number;               // Tope de memoria (estimada) de todas las entradas
+    sizeOf: (value: V) => number;   // Estima el tamaño en bytes de un valor
+    now?: () => number;             // Reloj inyectable para pruebas
+}
+
+/**
+ * @interface LruCacheStats
+ * @description Contadores y ocupación del caché.
+ */
+export interface LruCacheStats {
+    entries: number;
+    bytes: number;
+    maxEntries: number;
+    maxBytes: number;
+    hits: number;
+    misses: number;
+    evictions: number;
+}
+
+interface Entry<V> {
+    value: V;
+    size: number;
+    expiresAt: number;
+}
+
+/**
+ * @class LruCache
+ * @description Caché LRU en memoria con TTL y tope de memoria.
+ * Se apoya en el orden de inserción de `Map`: la primera clave es siempre la menos usada recientemente.
+ */
+export class LruCache<V> {
+    private readonly entries = new Map<string, Entry<V>>();
+    private readonly options: LruCacheOptions<V>;
+    private readonly now: () => number;
+    private bytes = 0;
+    private hits = 0;
+    private misses = 0;
+    private evictions = 0;
+
+    constructor(options: LruCacheOptions<V>) {
+        this.options = options;
+        this.now = options.now ?? Date.now;
+    }
+
+    public get(key: string): V | undefined {
+        const entry = this.entries.get(key);
+        if (!entry || entry.expiresAt <= this.now()) {
+            if (entry) this.delete(key);
+            this.misses++;
+            return undefined;
+        }
+        // Reinsertar para marcarla como la más recientemente usada
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        this.hits++;
+        return entry.value;
+    }
+
+    public set(key: string, value: V): void {
+        const size = this.options.sizeOf(value);
+        this.delete(key);
+        if (size > this.options.maxBytes) {
+            // Un valor más grande que todo el caché nunca se almacena
+            return;
+        }
+        this.entries.set(key, { value, size, expiresAt: this.now() + this.options.ttlMs });
+        this.bytes += size;
+
+        while (this.entries.size > this.options.maxEntries || this.bytes > this.options.maxBytes) {
+            const oldestKey = this.entries.keys().next().value as string;
+            this.delete(oldestKey);
+            this.evictions++;
+        }
+    }
+
+    public delete(key: string): boolean {
+        const entry = this.entries.get(key);
+        if (!entry) return false;
+        this.entries.delete(key);
+        this.bytes -= entry.size;
+        return true;
+    }
+
+    public clear(): number {
+        const removed = this.entries.size;
+        this.entries.clear();
+        this.bytes = 0;
+        return removed;
+    }
+
+    public getStats(): LruCacheStats {
+        return {
+            entries: this.entries.size,
+            bytes: this.bytes,
+            maxEntries: this.options.maxEntries,
+            maxBytes: this.options.maxBytes,
+            hits: this.hits,
+            misses: this.misses,
+            evictions: this.evictions,
+        };
+    }
+}
@@ -0,0 +1,25 @@
+// src/infrastructure/cache/matrix-hash.ts
+
+import { Matrix, MatrixOperation } from '@domain/entities/matrix';
+import { createHash } from 'crypto';
+
+/**
+ * @function hashMatrix
+ * @description Calcula un hash canónico (SHA-256, hex) del contenido de una matriz y de la operación que se le aplica.
+ * Dos matrices con las mismas dimensiones y los mismos valores producen siempre la misma clave,
+ * independientemente de cómo se haya serializado el JSON de entrada (espacios, `1.0` vs `1`, `-0` vs `0`).
+ * Las dimensiones forman parte de la clave para que `[[1, 2]]` y `[[1], [2]]` no colisionen.
+ * Los parámetros de la operación se ordenan por nombre, para que no influya el orden de sus propiedades.
+ */
+export const hashMatrix = (matrix: Matrix, operation: MatrixOperation): string => {
+    const rows = matrix.length;
+    const cols = rows > 0 ? matrix[0].length : 0;
+    const parameters = Object.entries(operation).sort(([a], [b]) => a.localeCompare(b)).map(([name, value]) => `${name}=${value}`);
+    const hash = createHash('sha256').update(`${parameters.join(',')}|${rows}x${cols}:`);
+    for (const row of matrix) {
+        // `value + 0` normaliza -0 a 0; String() da la representación más corta y exacta del double
+        hash.update(row.map(value => String(value + 0)).join(','));
+        hash.update(';');
+    }
+    return hash.digest('hex');
+};
@@ -0,0 +1,78 @@
+// src/infrastructure/gateways/fallback.gateway.ts
+
+import { DecompositionName, GoApiResponseData, Matrix, MatrixDecompositions, MatrixOperation } from '@domain/entities/matrix';
+
+import { AppError } from '@domain/errors/app.errors';
+import { DependencyHealth } from '@domain/entities/health';
+import { GoApiGateway } from '@application/ports/go-api.gateway';
+import { logger } from '@shared/logging/logger';
+
+const log = logger.child({ component: 'FallbackGoApiGateway' });
+
+/**
+ * @class FallbackGoApiGateway
+ * @description Decorador que intenta primero con un gateway principal (la API de Go) y,
+ * si este no está disponible, recurre a un gateway de respaldo (el motor local).
+ *
+ * Solo se recurre al respaldo ante fallos de disponibilidad (errores de red o 5xx).
+ * Los errores de validación (4xx) se propagan tal cual, ya que el respaldo daría la misma respuesta
+ * o enmascararía un problema de configuración (ej. token inválido).
+ */
+export class FallbackGoApiGateway implements GoApiGateway {
+    private readonly primary: GoApiGateway;
+    private readonly fallback: GoApiGateway;
+
+    constructor(primary: GoApiGateway, fallback: GoApiGateway) {
+        this.primary = primary;
+        this.fallback = fallback;
+    }
+
+    processMatrix(matrix: Matrix, operation: MatrixOperation): Promise<GoApiResponseData> {
+        return this.withFallback(gateway => gateway.processMatrix(matrix, operation));
+    }
+
+    decompose(matrix: Matrix, decompositions: DecompositionName[]): Promise<MatrixDecompositions> {
+        return this.withFallback(gateway => gateway.decompose(matrix, decompositions));
+    }
+
+    /**
+     * @method healthCheck
+     * @description Si la API de Go no está disponible pero el respaldo sí, las solicitudes se siguen atendiendo:
+     * el estado es `degraded` en lugar de `down`.
+     */
+    async healthCheck(): Promise<DependencyHealth> {
+        const primary = await this.primary.healthCheck();
+        if (primary.status !== 'down') {
+            return primary;
+        }
+        const fallback = await this.fallback.healthCheck();
+        if (fallback.status === 'down') {
+            return primary;
+        }
+        return {
+            status: 'degraded',
+            latencyMs: primary.latencyMs,
+            message: `${primary.message ?? 'Go API unavailable.'} Requests are served by the local matrix engine.`,
+        };
+    }
+
+    async close(): Promise<void> {
+        await Promise.all([this.primary.close(), this.fallback.close()]);
+    }
+
+    private async withFallback<T>(call: (gateway: GoApiGateway) => Promise<T>): Promise<T> {
+        try {
+            return await call(this.primary);
+        } catch (error: unknown) {
+            if (!this.isUnavailable(error)) {
+                throw error;
+            }
+            log.warn('Go API unavailable, using the local matrix engine', { error: error.message });
+            return call(this.fallback);
+        }
+    }
+
+    private isUnavailable(error: unknown): error is AppError {
+        return error instanceof AppError && error.statusCode >= 500;
+    }
+}
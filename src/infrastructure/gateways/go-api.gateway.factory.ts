@@ -0,0 +1,61 @@
+// src/infrastructure/gateways/go-api.gateway.factory.ts
+
+import { GoApiHttpClient, GoApiHttpClientOptions } from '@infrastructure/http-client/go-api.http-client';
+
+import { CircuitState } from '@infrastructure/http-client/circuit-breaker';
+import { FallbackGoApiGateway } from '@infrastructure/gateways/fallback.gateway';
+import { GoApiGateway } from '@application/ports/go-api.gateway';
+import { LocalMatrixEngine } from '@infrastructure/local-engine/local-matrix.engine';
+import { MatrixBackend } from '../../config';
+import { MetricsGoApiGateway } from '@infrastructure/gateways/metrics.gateway';
+import { PrometheusMetrics } from '@infrastructure/metrics/prometheus.metrics';
+
+const CIRCUIT_STATE_VALUES: Record<CircuitState, number> = { closed: 0, 'half-open': 1, open: 2 };
+
+interface GoApiGatewayOptions {
+    matrixBackend: MatrixBackend;
+    goApiBaseUrl: string;
+    goApiAppAccessToken: string;
+    goApiTimeoutMs: number;
+    goApiRetry: GoApiHttpClientOptions['retry'];
+    goApiCircuitBreaker: GoApiHttpClientOptions['circuitBreaker'];
+    goApiHealthCheck: GoApiHttpClientOptions['healthCheck'];
+}
+
+/**
+ * @function createGoApiGateway
+ * @description Construye la implementación de `GoApiGateway` según el backend configurado:
+ * - `go`: solo la API de Go (comportamiento original).
+ * - `local`: solo el motor local en TypeScript, sin llamar a Go.
+ * - `go-with-local-fallback`: la API de Go, con el motor local como respaldo si Go no está disponible.
+ * Si se indican `metrics`, se miden las llamadas a Go y se publica el estado de su circuit breaker.
+ */
+export const createGoApiGateway = (options: GoApiGatewayOptions, metrics?: PrometheusMetrics): GoApiGateway => {
+    const createHttpClient = (): GoApiGateway => {
+        const httpClient = new GoApiHttpClient(options.goApiBaseUrl, options.goApiAppAccessToken, {
+            timeoutMs: options.goApiTimeoutMs,
+            retry: options.goApiRetry,
+            circuitBreaker: options.goApiCircuitBreaker,
+            healthCheck: options.goApiHealthCheck,
+        });
+        if (!metrics) {
+            return httpClient;
+        }
+        metrics.registerGauge({
+            name: 'go_api_circuit_breaker_state',
+            help: 'State of the Go API circuit breaker (0 = closed, 1 = half-open, 2 = open).',
+            collect: () => CIRCUIT_STATE_VALUES[httpClient.getCircuitBreakerState().state],
+        });
+        return new MetricsGoApiGateway(httpClient, metrics);
+    };
+
+    switch (options.matrixBackend) {
+        case 'local':
+            return new LocalMatrixEngine();
+        case 'go-with-local-fallback':
+            return new FallbackGoApiGateway(createHttpClient(), new LocalMatrixEngine());
+        case 'go':
+        default:
+            return createHttpClient();
+    }
+};
@@ -0,0 +1,87 @@
+// src/infrastructure/gateways/metrics.gateway.ts
+
+import { DecompositionName, GoApiResponseData, Matrix, MatrixDecompositions, MatrixOperation } from '@domain/entities/matrix';
+
+import { AppError } from '@domain/errors/app.errors';
+import { DependencyHealth } from '@domain/entities/health';
+import { GO_API_DECOMPOSITIONS } from '@infrastructure/http-client/go-api.http-client';
+import { GoApiGateway } from '@application/ports/go-api.gateway';
+import { MetricsRecorder } from '@application/ports/metrics.recorder';
+import { isAxiosError } from 'axios';
+
+/**
+ * Código con el que se etiqueta un fallo: el `errorCode` de un AppError o el código de error de Go
+ * (las respuestas 400 de dimensiones inválidas llegan como el error HTTP original).
+ */
+const errorCodeOf = (error: unknown): string => {
+    if (error instanceof AppError) {
+        return error.errorCode;
+    }
+    if (isAxiosError<{ error?: string }>(error)) {
+        return error.response?.data?.error ?? 'UNKNOWN';
+    }
+    return 'UNKNOWN';
+};
+
+type Observation = (operation: string, durationSeconds: number, errorCode?: string) => void;
+
+/**
+ * @class MetricsGoApiGateway
+ * @description Decorador que mide la latencia y los errores de las llamadas a la API de Go.
+ * Debe envolver directamente al cliente HTTP, para que las métricas no incluyan el caché ni el motor local.
+ * Las descomposiciones que el cliente calcula en proceso se miden aparte, como cálculos locales.
+ */
+export class MetricsGoApiGateway implements GoApiGateway {
+    private readonly inner: GoApiGateway;
+    private readonly metrics: MetricsRecorder;
+    // Dónde se registra cada medición: llamadas a Go o cálculos en proceso
+    private readonly goApiCall: Observation = (...args) => this.metrics.observeGoApiCall(...args);
+    private readonly localComputation: Observation = (...args) => this.metrics.observeLocalComputation(...args);
+
+    constructor(inner: GoApiGateway, metrics: MetricsRecorder) {
+        this.inner = inner;
+        this.metrics = metrics;
+    }
+
+    processMatrix(matrix: Matrix, operation: MatrixOperation): Promise<GoApiResponseData> {
+        return this.observe(this.goApiCall, 'process_matrix', () => this.inner.processMatrix(matrix, operation));
+    }
+
+    /**
+     * Separa las descomposiciones locales de las de Go, para que solo el viaje a Go cuente como llamada a Go.
+     * Las locales se piden primero, como en el cliente: si la matriz no cumple una precondición, Go no se llama.
+     */
+    async decompose(matrix: Matrix, decompositions: DecompositionName[]): Promise<MatrixDecompositions> {
+        const local = decompositions.filter(name => !GO_API_DECOMPOSITIONS.includes(name));
+        const remote = decompositions.filter(name => GO_API_DECOMPOSITIONS.includes(name));
+        const result = local.length > 0
+            ? await this.observe(this.localComputation, 'decompose', () => this.inner.decompose(matrix, local))
+            : {};
+        if (remote.length > 0) {
+            Object.assign(result, await this.observe(this.goApiCall, 'decompose', () => this.inner.decompose(matrix, remote)));
+        }
+        return result;
+    }
+
+    healthCheck(): Promise<DependencyHealth> {
+        // Las comprobaciones de salud no cuentan como llamadas de procesamiento
+        return this.inner.healthCheck();
+    }
+
+    close(): Promise<void> {
+        return this.inner.close();
+    }
+
+    private async observe<T>(record: Observation, operation: string, call: () => Promise<T>): Promise<T> {
+        const startedAt = process.hrtime.bigint();
+        const elapsedSeconds = () => Number(process.hrtime.bigint() - startedAt) / 1e9;
+        try {
+            const result = await call();
+            record(operation, elapsedSeconds());
+            return result;
+        } catch (error) {
+            record(operation, elapsedSeconds(), errorCodeOf(error));
+            throw error;
+        }
+    }
+}
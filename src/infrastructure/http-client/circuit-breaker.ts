@@ -0,0 +1,124 @@
+// src/infrastructure/http-client/circuit-breaker.ts
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * @interface CircuitBreakerOptions
+ * @description Configuración del circuit breaker.
+ */
+export interface CircuitBreakerOptions {
+    failureThreshold: number; // Fallos consecutivos necesarios para abrir el circuito
+    cooldownMs: number;       // Tiempo en estado abierto antes de permitir una solicitud de prueba
+}
+
+/**
+ * @interface CircuitBreakerSnapshot
+ * @description Estado observable del circuit breaker.
+ */
+export interface CircuitBreakerSnapshot {
+    state: CircuitState;
+    consecutiveFailures: number;
+    openedAt: number | null;      // Epoch ms en que se abrió el circuito
+    nextAttemptAt: number | null; // Epoch ms a partir del cual se permitirá una solicitud de prueba
+}
+
+type StateChangeListener = (snapshot: CircuitBreakerSnapshot, previous: CircuitState) => void;
+
+/**
+ * @class CircuitBreaker
+ * @description Circuit breaker clásico de tres estados:
+ * - `closed`: las solicitudes pasan; los fallos consecutivos se cuentan.
+ * - `open`: las solicitudes fallan de inmediato hasta que transcurre el `cooldownMs`.
+ * - `half-open`: se permite UNA solicitud de prueba; si tiene éxito se cierra, si falla se vuelve a abrir.
+ */
+export class CircuitBreaker {
+    private readonly options: CircuitBreakerOptions;
+    private readonly now: () => number;
+    private readonly listeners: StateChangeListener[] = [];
+    private state: CircuitState = 'closed';
+    private consecutiveFailures = 0;
+    private openedAt: number | null = null;
+    private probeInFlight = false;
+
+    constructor(options: CircuitBreakerOptions, now: () => number = Date.now) {
+        this.options = options;
+        this.now = now;
+    }
+
+    /**
+     * @method tryAcquire
+     * @description Indica si una solicitud puede pasar. En `half-open` solo se concede
+     * un permiso a la vez (la solicitud de prueba).
+     */
+    public tryAcquire(): boolean {
+        if (this.state === 'open') {
+            if (this.now() < (this.openedAt ?? 0) + this.options.cooldownMs) {
+                return false;
+            }
+            this.transitionTo('half-open');
+        }
+        if (this.state === 'half-open') {
+            if (this.probeInFlight) {
+                return false;
+            }
+            this.probeInFlight = true;
+        }
+        return true;
+    }
+
+    /**
+     * @method recordSuccess
+     * @description Registra una solicitud exitosa: reinicia el contador y cierra el circuito.
+     */
+    public recordSuccess(): void {
+        this.probeInFlight = false;
+        this.consecutiveFailures = 0;
+        if (this.state !== 'closed') {
+            this.openedAt = null;
+            this.transitionTo('closed');
+        }
+    }
+
+    /**
+     * @method recordFailure
+     * @description Registra un fallo transitorio. Abre el circuito al alcanzar el umbral,
+     * o inmediatamente si la solicitud de prueba en `half-open` falla.
+     */
+    public recordFailure(): void {
+        this.probeInFlight = false;
+        this.consecutiveFailures++;
+        if (this.state === 'half-open' || (this.state === 'closed' && this.consecutiveFailures >= this.options.failureThreshold)) {
+            this.openedAt = this.now();
+            this.transitionTo('open');
+        }
+    }
+
+    /**
+     * @method getSnapshot
+     * @description Devuelve el estado actual del circuito (para logs, health checks y métricas).
+     */
+    public getSnapshot(): CircuitBreakerSnapshot {
+        return {
+            state: this.state,
+            consecutiveFailures: this.consecutiveFailures,
+            openedAt: this.openedAt,
+            nextAttemptAt: this.openedAt === null ? null : this.openedAt + this.options.cooldownMs,
+        };
+    }
+
+    /**
+     * @method onStateChange
+     * @description Registra un listener que se invoca en cada transición de estado.
+     */
+    public onStateChange(listener: StateChangeListener): void {
+        this.listeners.push(listener);
+    }
+
+    private transitionTo(next: CircuitState): void {
+        const previous = this.state;
+        if (previous === next) return;
+        this.state = next;
+        const snapshot = this.getSnapshot();
+        this.listeners.forEach(listener => listener(snapshot, previous));
+    }
+}
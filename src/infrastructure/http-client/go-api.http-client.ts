@@ -1,21 +1,69 @@
 // src/infrastructure/http-client/go-api.http-client.ts
 
-import { GoApiError, UnauthorizedError } from '@domain/errors/app.errors';
-import { GoApiResponse, GoApiResponseData, Matrix } from '@domain/entities/matrix';
+import { AppError, CircuitOpenError, GoApiError, UnauthorizedError } from '@domain/errors/app.errors';
+import { CircuitBreaker, CircuitBreakerOptions, CircuitBreakerSnapshot } from '@infrastructure/http-client/circuit-breaker';
+import { DecompositionName, GoApiResponse, GoApiResponseData, Matrix, MatrixDecompositions, MatrixOperation } from '@domain/entities/matrix';
+import { RetryPolicy, computeBackoffDelay, delay } from '@infrastructure/http-client/retry-policy';
 import axios, { AxiosError, AxiosInstance } from 'axios';
 
+import { DEFAULT_MATRIX_OPERATION } from '@application/services/matrix-operation';
+import { DependencyHealth } from '@domain/entities/health';
 import { GoApiGateway } from '@application/ports/go-api.gateway';
+import { MatrixDecompositionRegistry } from '@application/services/decompositions/matrix-decomposition.registry';
+import { getRequestContext } from '@shared/logging/request-context';
+import http from 'http';
+import https from 'https';
+import { logger } from '@shared/logging/logger';
+
+const log = logger.child({ component: 'GoApiHttpClient' });
+
+/**
+ * @interface GoApiHttpClientOptions
+ * @description Opciones de resiliencia del cliente HTTP de Go (timeout, reintentos y circuit breaker).
+ */
+export interface GoApiHttpClientOptions {
+    timeoutMs: number;
+    retry: RetryPolicy;
+    circuitBreaker: CircuitBreakerOptions;
+    healthCheck?: {
+        path: string;      // Ruta (relativa a la URL base) que se consulta para comprobar la API de Go
+        timeoutMs: number; // Timeout de la comprobación (menor que el de procesamiento)
+    };
+}
+
+const DEFAULT_OPTIONS: GoApiHttpClientOptions = {
+    timeoutMs: 10000, // 10 segundos de timeout
+    retry: { maxRetries: 2, baseDelayMs: 200, maxDelayMs: 2000 },
+    circuitBreaker: { failureThreshold: 5, cooldownMs: 30000 },
+    healthCheck: { path: '/health', timeoutMs: 2000 },
+};
+
+// Códigos de error de red que consideramos transitorios (timeouts, conexiones reiniciadas o rechazadas)
+const TRANSIENT_NETWORK_CODES = ['ECONNABORTED', 'ETIMEDOUT', 'ECONNRESET', 'ECONNREFUSED', 'EPIPE', 'EAI_AGAIN'];
+
+// Descomposiciones que ofrece la API de Go (QR, como parte de `/process-matrix`); el resto se calculan en proceso
+export const GO_API_DECOMPOSITIONS: DecompositionName[] = ['qr'];
 
 // Ya no necesitamos importar 'config' aquí si los valores se pasan al constructor
 // import { config } from '../../config'; // Elimina o comenta esta línea si pasas los valores por constructor
 
 export class GoApiHttpClient implements GoApiGateway {
     private readonly client: AxiosInstance;
+    // Agentes propios (con keep-alive) para poder cerrar las conexiones con Go al apagar la aplicación
+    private readonly httpAgent = new http.Agent({ keepAlive: true });
+    private readonly httpsAgent = new https.Agent({ keepAlive: true });
+    private readonly retryPolicy: RetryPolicy;
+    private readonly circuitBreaker: CircuitBreaker;
+    private readonly healthCheckOptions: NonNullable<GoApiHttpClientOptions['healthCheck']>;
+    // Errores (ya envueltos en AppError) que provienen de un fallo transitorio y pueden reintentarse
+    private readonly transientErrors = new WeakSet<Error>();
+    // Implementaciones locales de las descomposiciones que Go todavía no ofrece
+    private readonly localDecompositions = new MatrixDecompositionRegistry();
     // Ya no necesitamos 'appAccessToken' como propiedad de la clase si solo se usa en el constructor de Axios
     // private readonly appAccessToken: string;
 
     // EL CONSTRUCTOR DEBE ACEPTAR DOS ARGUMENTOS: baseURL y appAccessToken
-    constructor(baseURL: string, appAccessToken: string) { // <-- ¡ESTO ES LO CLAVE!
+    constructor(baseURL: string, appAccessToken: string, options: GoApiHttpClientOptions = DEFAULT_OPTIONS) { // <-- ¡ESTO ES LO CLAVE!
         if (!baseURL) {
             throw new Error("GoApiHttpClient: baseURL is required.");
         }
@@ -32,7 +80,25 @@ export class GoApiHttpClient implements GoApiGateway {
                 'Content-Type': 'application/json',
                 'Authorization': `Bearer ${appAccessToken}`, // <-- Usa el parámetro appAccessToken
             },
-            timeout: 10000, // 10 segundos de timeout
+            timeout: options.timeoutMs,
+            httpAgent: this.httpAgent,
+            httpsAgent: this.httpsAgent,
+        });
+
+        this.retryPolicy = options.retry;
+        this.healthCheckOptions = options.healthCheck ?? DEFAULT_OPTIONS.healthCheck!;
+        this.circuitBreaker = new CircuitBreaker(options.circuitBreaker);
+        this.circuitBreaker.onStateChange((snapshot, previous) => {
+            log.warn('Circuit breaker state changed', { from: previous, to: snapshot.state, consecutiveFailures: snapshot.consecutiveFailures });
+        });
+
+        // Propaga el id de la solicitud en curso para poder seguirla en los logs de ambos servicios
+        this.client.interceptors.request.use(requestConfig => {
+            const requestId = getRequestContext()?.requestId;
+            if (requestId) {
+                requestConfig.headers.set('X-Request-ID', requestId);
+            }
+            return requestConfig;
         });
 
         // Interceptor para manejar errores de la API de Go de forma consistente
@@ -51,14 +117,21 @@ export class GoApiHttpClient implements GoApiGateway {
                         return Promise.reject(error); // Re-lanzar el error Axios original para que el use case lo procese
                     }
                     // Para otros errores 4xx/5xx de la API de Go
-                    return Promise.reject(new GoApiError(
+                    const goApiError = new GoApiError(
                         errorData.message || errorData.details || `Go API responded with status ${status}`,
                         errorData.error || `HTTP_STATUS_${status}`,
                         status
-                    ));
+                    );
+                    // Los 5xx son fallos transitorios de Go y se pueden reintentar
+                    return Promise.reject(status >= 500 ? this.markTransient(goApiError) : goApiError);
                 } else if (error.request) {
-                    // La solicitud fue hecha pero no se recibió respuesta (ej. red caída, CORS)
-                    return Promise.reject(new GoApiError('No response received from Go API. It might be down or unreachable.', 'NETWORK_ERROR'));
+                    // La solicitud fue hecha pero no se recibió respuesta (ej. red caída, timeout, conexión reiniciada)
+                    const goApiError = error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT'
+                        ? new GoApiError(`Go API request timed out after ${options.timeoutMs}ms.`, 'NETWORK_ERROR')
+                        : new GoApiError('No response received from Go API. It might be down or unreachable.', 'NETWORK_ERROR');
+                    return Promise.reject(
+                        !error.code || TRANSIENT_NETWORK_CODES.includes(error.code) ? this.markTransient(goApiError) : goApiError
+                    );
                 } else {
                     // Algo sucedió al configurar la solicitud que disparó un Error
                     return Promise.reject(new GoApiError(`Error setting up request to Go API: ${error.message}`));
@@ -67,16 +140,107 @@ export class GoApiHttpClient implements GoApiGateway {
         );
     }
 
-    async processMatrix(matrix: Matrix): Promise<GoApiResponseData> {
+    async processMatrix(matrix: Matrix, operation: MatrixOperation): Promise<GoApiResponseData> {
+        // Procesar una matriz no tiene efectos secundarios en Go, por lo que es seguro reintentar
+        const response = await this.executeWithResilience(() => this.client.post<GoApiResponse>('/process-matrix', { matrix, operation }));
+        if (!response.data || !response.data.data) {
+            throw new GoApiError('Go API response data is malformed or missing.');
+        }
+        return response.data.data;
+    }
+
+    /**
+     * @method decompose
+     * @description La API de Go solo ofrece la factorización QR, que se obtiene de `/process-matrix`; las demás
+     * descomposiciones se calculan en proceso. Las locales se calculan primero, para no llamar a Go si la matriz
+     * no cumple alguna precondición.
+     */
+    async decompose(matrix: Matrix, decompositions: DecompositionName[]): Promise<MatrixDecompositions> {
+        const result = this.localDecompositions.compute(matrix, decompositions.filter(name => !GO_API_DECOMPOSITIONS.includes(name)));
+        if (decompositions.includes('qr')) {
+            result.qr = (await this.processMatrix(matrix, DEFAULT_MATRIX_OPERATION)).qr_factorization;
+        }
+        return result;
+    }
+
+    /**
+     * @method healthCheck
+     * @description Consulta la ruta de salud de Go con el token de la aplicación, en un único intento
+     * (sin reintentos) y sin pasar por el circuit breaker, para no alterar su estado.
+     * Un 401/403 indica que Go está disponible pero rechaza el token de la aplicación.
+     */
+    async healthCheck(): Promise<DependencyHealth> {
+        const { path, timeoutMs } = this.healthCheckOptions;
+        const startedAt = Date.now();
         try {
-            const response = await this.client.post<GoApiResponse>('/process-matrix', { matrix });
-            if (!response.data || !response.data.data) {
-                throw new GoApiError('Go API response data is malformed or missing.');
+            await this.client.get(path, { timeout: timeoutMs });
+            return { status: 'up', latencyMs: Date.now() - startedAt };
+        } catch (error: unknown) {
+            const latencyMs = Date.now() - startedAt;
+            if (error instanceof AppError && (error.statusCode === 401 || error.statusCode === 403)) {
+                return { status: 'down', latencyMs, message: 'Go API rejected the application access token.' };
             }
-            return response.data.data;
-        } catch (error) {
-            // El interceptor ya ha envuelto los errores de Axios en AppError, solo re-lanzamos
-            throw error;
+            return { status: 'down', latencyMs, message: error instanceof Error ? error.message : String(error) };
         }
     }
+
+    /**
+     * @method close
+     * @description Cierra las conexiones (keep-alive) abiertas con la API de Go.
+     */
+    async close(): Promise<void> {
+        this.httpAgent.destroy();
+        this.httpsAgent.destroy();
+    }
+
+    /**
+     * @method getCircuitBreakerState
+     * @description Expone el estado actual del circuit breaker hacia la API de Go.
+     */
+    public getCircuitBreakerState(): CircuitBreakerSnapshot {
+        return this.circuitBreaker.getSnapshot();
+    }
+
+    /**
+     * @private
+     * @method executeWithResilience
+     * @description Ejecuta una solicitud idempotente aplicando el circuit breaker y la política de reintentos.
+     * Solo se reintentan (y solo cuentan como fallo para el breaker) los errores transitorios:
+     * respuestas 5xx, timeouts y errores de conexión. Los errores 4xx se propagan de inmediato.
+     * @throws {CircuitOpenError} Si el circuito está abierto.
+     */
+    private async executeWithResilience<T>(request: () => Promise<T>): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            if (!this.circuitBreaker.tryAcquire()) {
+                const { nextAttemptAt } = this.circuitBreaker.getSnapshot();
+                throw new CircuitOpenError(
+                    nextAttemptAt ? `Retry after ${new Date(nextAttemptAt).toISOString()}.` : undefined
+                );
+            }
+
+            try {
+                const result = await request();
+                this.circuitBreaker.recordSuccess();
+                return result;
+            } catch (error: unknown) {
+                if (!(error instanceof Error) || !this.transientErrors.has(error)) {
+                    // La API de Go respondió (ej. 400/401): está disponible aunque la solicitud sea inválida
+                    this.circuitBreaker.recordSuccess();
+                    throw error;
+                }
+                this.circuitBreaker.recordFailure();
+                if (attempt >= this.retryPolicy.maxRetries) {
+                    throw error;
+                }
+                const waitMs = computeBackoffDelay(attempt, this.retryPolicy);
+                log.warn('Transient Go API error, retrying', { error: error.message, retry: attempt + 1, maxRetries: this.retryPolicy.maxRetries, waitMs });
+                await delay(waitMs);
+            }
+        }
+    }
+
+    private markTransient(error: Error): Error {
+        this.transientErrors.add(error);
+        return error;
+    }
 }
\ No newline at end of file
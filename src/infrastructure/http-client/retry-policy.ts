@@ -0,0 +1,31 @@
+// src/infrastructure/http-client/retry-policy.ts
+
+/**
+ * @interface RetryPolicy
+ * @description Política de reintentos para las llamadas a la API de Go.
+ */
+export interface RetryPolicy {
+    maxRetries: number;   // Número máximo de reintentos (0 = sin reintentos)
+    baseDelayMs: number;  // Retardo base para el backoff exponencial
+    maxDelayMs: number;   // Tope del retardo entre intentos
+}
+
+/**
+ * @function computeBackoffDelay
+ * @description Calcula el retardo antes del reintento `attempt` (0 = primer reintento)
+ * usando backoff exponencial con "full jitter": un valor aleatorio entre 0 y
+ * `min(maxDelayMs, baseDelayMs · 2^attempt)`. El jitter evita que muchos clientes
+ * reintenten a la vez contra una API de Go que se está recuperando.
+ * @param attempt Índice del reintento.
+ * @param policy La política de reintentos.
+ * @param random Fuente de aleatoriedad (inyectable para pruebas).
+ */
+export const computeBackoffDelay = (attempt: number, policy: RetryPolicy, random: () => number = Math.random): number => {
+    const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt));
+    return Math.floor(random() * exponential);
+};
+
+/**
+ * Espera `ms` milisegundos.
+ */
+export const delay = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
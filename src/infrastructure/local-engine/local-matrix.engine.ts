@@ -0,0 +1,47 @@
+// src/infrastructure/local-engine/local-matrix.engine.ts
+
+import { DecompositionName, GoApiResponseData, Matrix, MatrixDecompositions, MatrixOperation } from '@domain/entities/matrix';
+
+import { DependencyHealth } from '@domain/entities/health';
+import { GoApiGateway } from '@application/ports/go-api.gateway';
+import { MatrixDecompositionRegistry } from '@application/services/decompositions/matrix-decomposition.registry';
+import { applyMatrixOperation } from '@shared/math/matrix-operations';
+import { cloneMatrix } from '@shared/math/linear-algebra';
+import { householderQR } from '@shared/math/householder-qr';
+
+/**
+ * @class LocalMatrixEngine
+ * @description Implementación en proceso (TypeScript) del `GoApiGateway`.
+ * Aplica la operación (rotación, traspuesta o volteo) y la factorización QR sin llamar a la API de Go, devolviendo
+ * exactamente la misma forma de datos (`GoApiResponseData`) que `GoApiHttpClient`. Las demás descomposiciones
+ * las calcula el registro de descomposiciones.
+ * Útil para desarrollo sin conexión, CI y como respaldo cuando Go no está disponible.
+ */
+export class LocalMatrixEngine implements GoApiGateway {
+    private readonly decompositions: MatrixDecompositionRegistry;
+
+    constructor(decompositions: MatrixDecompositionRegistry = new MatrixDecompositionRegistry()) {
+        this.decompositions = decompositions;
+    }
+
+    async processMatrix(matrix: Matrix, operation: MatrixOperation): Promise<GoApiResponseData> {
+        return {
+            original_matrix: cloneMatrix(matrix),
+            rotated_matrix: applyMatrixOperation(matrix, operation),
+            qr_factorization: householderQR(matrix),
+        };
+    }
+
+    async decompose(matrix: Matrix, decompositions: DecompositionName[]): Promise<MatrixDecompositions> {
+        return this.decompositions.compute(matrix, decompositions);
+    }
+
+    async healthCheck(): Promise<DependencyHealth> {
+        // Se ejecuta en el propio proceso: si el proceso responde, el motor está disponible
+        return { status: 'up', message: 'Local matrix engine (in-process).' };
+    }
+
+    async close(): Promise<void> {
+        // Sin conexiones que liberar
+    }
+}
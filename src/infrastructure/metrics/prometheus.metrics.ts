@@ -0,0 +1,170 @@
+// src/infrastructure/metrics/prometheus.metrics.ts
+
+import { AuthMethod, AuthOutcome, MetricsRecorder } from '@application/ports/metrics.recorder';
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+
+// Latencias en segundos: de 5 ms a 30 s
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+/**
+ * @interface CollectedMetric
+ * @description Métrica cuyo valor se lee de un componente (caché, cola, circuit breaker) en cada scrape.
+ */
+export interface CollectedMetric {
+    name: string;
+    help: string;
+    collect: () => number;
+}
+
+/**
+ * @class PrometheusMetrics
+ * @description Registro de métricas en formato Prometheus. Implementa `MetricsRecorder` para la aplicación
+ * y permite a los componentes con estado (caché, cola de trabajos, circuit breaker) publicar sus valores
+ * en el mismo registro con `registerGauge` / `registerCounter`.
+ */
+export class PrometheusMetrics implements MetricsRecorder {
+    public readonly registry: Registry;
+    private readonly httpRequests: Counter<'method' | 'route' | 'status'>;
+    private readonly httpRequestDuration: Histogram<'method' | 'route' | 'status'>;
+    private readonly goApiRequestDuration: Histogram<'operation' | 'outcome'>;
+    private readonly goApiErrors: Counter<'operation' | 'error_code'>;
+    private readonly localComputationDuration: Histogram<'operation' | 'outcome'>;
+    private readonly authAttempts: Counter<'method' | 'outcome'>;
+    private readonly matrixDimension: Histogram<'axis'>;
+    private readonly matrixElements: Histogram;
+
+    /**
+     * @constructor
+     * @param options.collectDefaults Incluye las métricas del proceso de Node.js (CPU, memoria, event loop…).
+     */
+    constructor(options: { collectDefaults: boolean } = { collectDefaults: true }) {
+        this.registry = new Registry();
+        if (options.collectDefaults) {
+            collectDefaultMetrics({ register: this.registry });
+        }
+        const registers = [this.registry];
+
+        this.httpRequests = new Counter({
+            name: 'http_requests_total',
+            help: 'HTTP requests handled, by method, route template and status code.',
+            labelNames: ['method', 'route', 'status'],
+            registers,
+        });
+        this.httpRequestDuration = new Histogram({
+            name: 'http_request_duration_seconds',
+            help: 'HTTP request latency in seconds, by method, route template and status code.',
+            labelNames: ['method', 'route', 'status'],
+            buckets: LATENCY_BUCKETS,
+            registers,
+        });
+        this.goApiRequestDuration = new Histogram({
+            name: 'go_api_request_duration_seconds',
+            help: 'Latency of the calls to the Go API in seconds (including retries), by operation and outcome.',
+            labelNames: ['operation', 'outcome'],
+            buckets: LATENCY_BUCKETS,
+            registers,
+        });
+        this.goApiErrors = new Counter({
+            name: 'go_api_errors_total',
+            help: 'Failed calls to the Go API, by operation and error code.',
+            labelNames: ['operation', 'error_code'],
+            registers,
+        });
+        this.localComputationDuration = new Histogram({
+            name: 'local_computation_duration_seconds',
+            help: 'Time spent in Node.js computing what the Go API does not offer (e.g. LU, SVD), by operation and outcome.',
+            labelNames: ['operation', 'outcome'],
+            buckets: LATENCY_BUCKETS,
+            registers,
+        });
+        this.authAttempts = new Counter({
+            name: 'auth_attempts_total',
+            help: 'Authentication attempts, by method (password, refresh_token, jwt, api_key) and outcome.',
+            labelNames: ['method', 'outcome'],
+            registers,
+        });
+        this.matrixDimension = new Histogram({
+            name: 'matrix_dimension',
+            help: 'Rows and columns of the matrices processed.',
+            labelNames: ['axis'],
+            buckets: [1, 2, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000],
+            registers,
+        });
+        this.matrixElements = new Histogram({
+            name: 'matrix_elements',
+            help: 'Number of elements of the matrices processed.',
+            buckets: [1, 10, 100, 1_000, 10_000, 100_000, 1_000_000, 10_000_000],
+            registers,
+        });
+    }
+
+    public observeHttpRequest(method: string, route: string, status: number, durationSeconds: number): void {
+        const labels = { method, route, status: String(status) };
+        this.httpRequests.inc(labels);
+        this.httpRequestDuration.observe(labels, durationSeconds);
+    }
+
+    public observeGoApiCall(operation: string, durationSeconds: number, errorCode?: string): void {
+        this.goApiRequestDuration.observe({ operation, outcome: errorCode ? 'error' : 'success' }, durationSeconds);
+        if (errorCode) {
+            this.goApiErrors.inc({ operation, error_code: errorCode });
+        }
+    }
+
+    public observeLocalComputation(operation: string, durationSeconds: number, errorCode?: string): void {
+        this.localComputationDuration.observe({ operation, outcome: errorCode ? 'error' : 'success' }, durationSeconds);
+    }
+
+    public recordAuthAttempt(method: AuthMethod, outcome: AuthOutcome): void {
+        this.authAttempts.inc({ method, outcome });
+    }
+
+    public observeMatrixSize(rows: number, columns: number): void {
+        this.matrixDimension.observe({ axis: 'rows' }, rows);
+        this.matrixDimension.observe({ axis: 'columns' }, columns);
+        this.matrixElements.observe(rows * columns);
+    }
+
+    /**
+     * @method registerGauge
+     * @description Publica un valor instantáneo de un componente (ej. trabajos en cola).
+     */
+    public registerGauge({ name, help, collect }: CollectedMetric): void {
+        new Gauge({
+            name,
+            help,
+            registers: [this.registry],
+            collect() {
+                this.set(collect());
+            },
+        });
+    }
+
+    /**
+     * @method registerCounter
+     * @description Publica un contador que mantiene un componente (ej. aciertos del caché). `collect` debe ser monótono.
+     */
+    public registerCounter({ name, help, collect }: CollectedMetric): void {
+        new Counter({
+            name,
+            help,
+            registers: [this.registry],
+            collect() {
+                this.reset();
+                this.inc(collect());
+            },
+        });
+    }
+
+    /**
+     * @method render
+     * @description Devuelve todas las métricas en el formato de texto de Prometheus.
+     */
+    public render(): Promise<string> {
+        return this.registry.metrics();
+    }
+
+    public get contentType(): string {
+        return this.registry.contentType;
+    }
+}
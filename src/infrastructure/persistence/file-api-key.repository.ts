@@ -0,0 +1,55 @@
+// src/infrastructure/persistence/file-api-key.repository.ts
+
+import { ApiKey } from '@domain/entities/api-key';
+import { ApiKeyRepository } from '@application/ports/api-key.repository';
+import { JsonFileCollection } from '@infrastructure/persistence/json-file.collection';
+import { NotFoundError } from '@domain/errors/app.errors';
+
+const copy = (apiKey: ApiKey): ApiKey => ({ ...apiKey, scopes: [...apiKey.scopes] });
+
+/**
+ * @class FileApiKeyRepository
+ * @description Repositorio de API keys respaldado por un archivo JSON (ver `JsonFileCollection`).
+ */
+export class FileApiKeyRepository implements ApiKeyRepository {
+    private readonly apiKeys: JsonFileCollection<ApiKey>;
+
+    constructor(filePath: string) {
+        this.apiKeys = new JsonFileCollection<ApiKey>(filePath, 'apiKeys');
+    }
+
+    public async findById(id: string): Promise<ApiKey | undefined> {
+        const apiKey = (await this.apiKeys.read()).get(id);
+        return apiKey && copy(apiKey);
+    }
+
+    public async findByHash(keyHash: string): Promise<ApiKey | undefined> {
+        for (const apiKey of (await this.apiKeys.read()).values()) {
+            if (apiKey.keyHash === keyHash) {
+                return copy(apiKey);
+            }
+        }
+        return undefined;
+    }
+
+    public async listByOwner(ownerId: string): Promise<ApiKey[]> {
+        return Array.from((await this.apiKeys.read()).values())
+            .filter(apiKey => apiKey.ownerId === ownerId)
+            .map(copy);
+    }
+
+    public create(apiKey: ApiKey): Promise<void> {
+        return this.apiKeys.mutate(apiKeys => {
+            apiKeys.set(apiKey.id, copy(apiKey));
+        });
+    }
+
+    public update(apiKey: ApiKey): Promise<void> {
+        return this.apiKeys.mutate(apiKeys => {
+            if (!apiKeys.has(apiKey.id)) {
+                throw new NotFoundError(`API key ${apiKey.id} not found.`);
+            }
+            apiKeys.set(apiKey.id, copy(apiKey));
+        });
+    }
+}
@@ -0,0 +1,61 @@
+// src/infrastructure/persistence/file-user.repository.ts
+
+import { ConflictError, NotFoundError } from '@domain/errors/app.errors';
+
+import { JsonFileCollection } from '@infrastructure/persistence/json-file.collection';
+import { User } from '@domain/entities/user';
+import { UserRepository } from '@application/ports/user.repository';
+
+const normalize = (username: string): string => username.trim().toLowerCase();
+
+const copy = (user: User): User => ({ ...user, roles: [...user.roles] });
+
+/**
+ * @class FileUserRepository
+ * @description Repositorio de usuarios respaldado por un archivo JSON (ver `JsonFileCollection`).
+ */
+export class FileUserRepository implements UserRepository {
+    private readonly users: JsonFileCollection<User>;
+
+    constructor(filePath: string) {
+        this.users = new JsonFileCollection<User>(filePath, 'users');
+    }
+
+    public async findById(id: string): Promise<User | undefined> {
+        const user = (await this.users.read()).get(id);
+        return user && copy(user);
+    }
+
+    public async findByUsername(username: string): Promise<User | undefined> {
+        const wanted = normalize(username);
+        for (const user of (await this.users.read()).values()) {
+            if (normalize(user.username) === wanted) {
+                return copy(user);
+            }
+        }
+        return undefined;
+    }
+
+    public async list(): Promise<User[]> {
+        return Array.from((await this.users.read()).values(), copy);
+    }
+
+    public create(user: User): Promise<void> {
+        return this.users.mutate(users => {
+            const wanted = normalize(user.username);
+            if (Array.from(users.values()).some(existing => normalize(existing.username) === wanted)) {
+                throw new ConflictError(`Username "${user.username}" is already taken.`);
+            }
+            users.set(user.id, copy(user));
+        });
+    }
+
+    public update(user: User): Promise<void> {
+        return this.users.mutate(users => {
+            if (!users.has(user.id)) {
+                throw new NotFoundError(`User ${user.id} not found.`);
+            }
+            users.set(user.id, copy(user));
+        });
+    }
+}
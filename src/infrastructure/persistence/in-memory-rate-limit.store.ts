@@ -0,0 +1,41 @@
+// src/infrastructure/persistence/in-memory-rate-limit.store.ts
+
+import { RateLimitDecision, RateLimitPolicy, TokenBucketState, takeTokens } from '@domain/entities/rate-limit';
+
+import { RateLimitStore } from '@application/ports/rate-limit.store';
+
+interface RateLimitEntry {
+    state: TokenBucketState;
+    expiresAt: number;
+}
+
+const PRUNE_INTERVAL_MS = 60_000;
+
+/**
+ * @class InMemoryRateLimitStore
+ * @description Almacén en memoria de los cubos de los limitadores. Las entradas vencidas se descartan de forma
+ * perezosa (como mucho una vez por minuto, al escribir).
+ * `take` es atómico porque lee y escribe el cubo sin ceder el event loop entre medias.
+ * No se comparte entre instancias: con varias instancias cada una aplica el límite por separado.
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+    private readonly entries = new Map<string, RateLimitEntry>();
+    private lastPruneAt = 0;
+
+    public async take(key: string, cost: number, policy: RateLimitPolicy, now: number): Promise<RateLimitDecision> {
+        this.prune(now);
+        const entry = this.entries.get(key);
+        const { state, expiresAt, decision } = takeTokens(entry && entry.expiresAt > now ? entry.state : undefined, cost, policy, now);
+        this.entries.set(key, { state, expiresAt });
+        return decision;
+    }
+
+    private prune(now: number): void {
+        if (now - this.lastPruneAt < PRUNE_INTERVAL_MS) return;
+        this.lastPruneAt = now;
+
+        this.entries.forEach((entry, key) => {
+            if (entry.expiresAt <= now) this.entries.delete(key);
+        });
+    }
+}
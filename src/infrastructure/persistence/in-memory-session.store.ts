@@ -0,0 +1,97 @@
+// src/infrastructure/persistence/in-memory-session.store.ts
+
+import { RefreshTokenRecord } from '@domain/entities/session';
+import { SessionStore } from '@application/ports/session.store';
+
+interface SessionEntry {
+    userId: string;
+    expiresAt: number; // Vencimiento del refresh token más reciente de la sesión
+    revoked: boolean;
+}
+
+const PRUNE_INTERVAL_MS = 60_000;
+
+/**
+ * @class InMemorySessionStore
+ * @description Almacén de sesiones en memoria. Las entradas vencidas se descartan de forma perezosa
+ * (como mucho una vez por minuto, al escribir).
+ * Al reiniciar el proceso se pierden las sesiones (los usuarios deben volver a iniciar sesión) y no se
+ * comparte entre instancias; para varias instancias haría falta un almacén compartido.
+ */
+export class InMemorySessionStore implements SessionStore {
+    private readonly refreshTokens = new Map<string, RefreshTokenRecord>();
+    private readonly sessions = new Map<string, SessionEntry>();
+    private readonly revokedAccessTokens = new Map<string, number>(); // jti -> expiresAt
+    private lastPruneAt = 0;
+
+    public async saveRefreshToken(record: RefreshTokenRecord): Promise<void> {
+        this.prune(Date.now());
+        this.refreshTokens.set(record.tokenHash, { ...record });
+
+        const session = this.sessions.get(record.sessionId);
+        if (session) {
+            session.expiresAt = Math.max(session.expiresAt, record.expiresAt);
+        } else {
+            this.sessions.set(record.sessionId, { userId: record.userId, expiresAt: record.expiresAt, revoked: false });
+        }
+    }
+
+    public async findRefreshToken(tokenHash: string): Promise<RefreshTokenRecord | undefined> {
+        const record = this.refreshTokens.get(tokenHash);
+        return record && { ...record };
+    }
+
+    public async markRefreshTokenUsed(tokenHash: string, usedAt: number): Promise<boolean> {
+        const record = this.refreshTokens.get(tokenHash);
+        if (!record || record.usedAt !== undefined) {
+            return false;
+        }
+        record.usedAt = usedAt;
+        return true;
+    }
+
+    public async revokeSession(sessionId: string): Promise<void> {
+        const session = this.sessions.get(sessionId);
+        if (session) {
+            session.revoked = true;
+        }
+    }
+
+    public async revokeUserSessions(userId: string): Promise<void> {
+        for (const session of this.sessions.values()) {
+            if (session.userId === userId) {
+                session.revoked = true;
+            }
+        }
+    }
+
+    public async isSessionRevoked(sessionId: string): Promise<boolean> {
+        // Una sesión desconocida (ej. tras un reinicio) no se considera revocada: sus tokens de acceso
+        // siguen siendo válidos hasta que expiren, pero ya no se pueden refrescar.
+        return this.sessions.get(sessionId)?.revoked ?? false;
+    }
+
+    public async revokeAccessToken(jti: string, expiresAt: number): Promise<void> {
+        this.prune(Date.now());
+        this.revokedAccessTokens.set(jti, expiresAt);
+    }
+
+    public async isAccessTokenRevoked(jti: string): Promise<boolean> {
+        return this.revokedAccessTokens.has(jti);
+    }
+
+    private prune(now: number): void {
+        if (now - this.lastPruneAt < PRUNE_INTERVAL_MS) return;
+        this.lastPruneAt = now;
+
+        this.refreshTokens.forEach((record, hash) => {
+            if (record.expiresAt <= now) this.refreshTokens.delete(hash);
+        });
+        this.sessions.forEach((session, id) => {
+            if (session.expiresAt <= now) this.sessions.delete(id);
+        });
+        this.revokedAccessTokens.forEach((expiresAt, jti) => {
+            if (expiresAt <= now) this.revokedAccessTokens.delete(jti);
+        });
+    }
+}
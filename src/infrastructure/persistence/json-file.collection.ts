@@ -0,0 +1,77 @@
+// src/infrastructure/persistence/json-file.collection.ts
+
+import { dirname, resolve } from 'path';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+
+/**
+ * @class JsonFileCollection
+ * @description Colección de registros (indexados por `id`) persistida en un archivo JSON `{ "<name>": [...] }`.
+ * - El archivo se lee una sola vez y los registros se mantienen en memoria.
+ * - Las escrituras se serializan y se hacen de forma atómica (archivo temporal + rename),
+ *   para que una caída a mitad de escritura no corrompa el archivo.
+ * Pensada para una sola instancia de la API; varias instancias necesitarían una base de datos compartida.
+ */
+export class JsonFileCollection<T extends { id: string }> {
+    private readonly filePath: string;
+    private readonly name: string;
+    private loading?: Promise<Map<string, T>>;
+    private writes: Promise<void> = Promise.resolve();
+
+    /**
+     * @param filePath Ruta del archivo. Si no existe, la colección empieza vacía.
+     * @param name Clave del array de registros dentro del archivo (ej. 'users').
+     */
+    constructor(filePath: string, name: string) {
+        this.filePath = resolve(filePath);
+        this.name = name;
+    }
+
+    /**
+     * @method read
+     * @description Devuelve los registros actuales. No deben mutarse: para cambiar algo se usa `mutate`.
+     */
+    public read(): Promise<Map<string, T>> {
+        if (!this.loading) {
+            this.loading = readFile(this.filePath, 'utf8')
+                .then(content => (JSON.parse(content)[this.name] ?? []) as T[])
+                .catch((error: NodeJS.ErrnoException): T[] => {
+                    if (error.code === 'ENOENT') return [];
+                    throw error;
+                })
+                .then(records => new Map(records.map(record => [record.id, record])));
+            // Si la lectura falla (ej. JSON corrupto) se reintenta en la siguiente llamada
+            this.loading.catch(() => { this.loading = undefined; });
+        }
+        return this.loading;
+    }
+
+    /**
+     * @method mutate
+     * @description Aplica un cambio y lo persiste, en orden con los demás cambios. Si `change` o la
+     * escritura fallan, el estado en memoria se restaura.
+     */
+    public mutate(change: (records: Map<string, T>) => void): Promise<void> {
+        const run = this.writes.then(async () => {
+            const records = await this.read();
+            const snapshot = new Map(records);
+            change(records);
+            try {
+                await this.persist(records);
+            } catch (error) {
+                records.clear();
+                snapshot.forEach((record, id) => records.set(id, record));
+                throw error;
+            }
+        });
+        // La cadena sigue aunque este cambio falle
+        this.writes = run.catch(() => undefined);
+        return run;
+    }
+
+    private async persist(records: Map<string, T>): Promise<void> {
+        const tempPath = `${this.filePath}.${process.pid}.tmp`;
+        await mkdir(dirname(this.filePath), { recursive: true });
+        await writeFile(tempPath, JSON.stringify({ [this.name]: Array.from(records.values()) }, null, 2), { encoding: 'utf8', mode: 0o600 });
+        await rename(tempPath, this.filePath);
+    }
+}
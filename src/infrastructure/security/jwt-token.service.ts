@@ -0,0 +1,69 @@
+// src/infrastructure/security/jwt-token.service.ts
+
+import { AuthenticatedUser, USER_ROLES } from '@domain/entities/user';
+
+import { AccessTokenClaims } from '@domain/entities/session';
+import { TokenService } from '@application/ports/token.service';
+import { UnauthorizedError } from '@domain/errors/app.errors';
+import jwt from 'jsonwebtoken';
+import { randomUUID } from 'crypto';
+
+/**
+ * @interface JwtTokenServiceOptions
+ * @description Configuración de la firma de los JWT.
+ */
+export interface JwtTokenServiceOptions {
+    jwtSecret: string;
+    jwtExpiresIn: string; // ej. '1h', '30m', '7d'
+}
+
+/**
+ * @class JwtTokenService
+ * @description Emite y verifica los tokens de acceso (JWT firmados con HS256).
+ * El payload lleva el id, el nombre de usuario, los roles, la sesión (`sid`) y un `jti` único por token.
+ */
+export class JwtTokenService implements TokenService {
+    private readonly options: JwtTokenServiceOptions;
+
+    constructor(options: JwtTokenServiceOptions) {
+        this.options = options;
+    }
+
+    public issueAccessToken({ id, username, roles }: AuthenticatedUser, sessionId: string): string {
+        return jwt.sign({ id, username, roles, sid: sessionId }, this.options.jwtSecret, {
+            expiresIn: this.options.jwtExpiresIn as jwt.SignOptions['expiresIn'],
+            jwtid: randomUUID(),
+        });
+    }
+
+    public verifyAccessToken(token: string): AccessTokenClaims {
+        let decoded: jwt.JwtPayload | string;
+        try {
+            decoded = jwt.verify(token, this.options.jwtSecret, { algorithms: ['HS256'] });
+        } catch (err: unknown) {
+            if (err instanceof jwt.TokenExpiredError) {
+                throw new UnauthorizedError('Token expired. Please log in again.');
+            }
+            if (err instanceof jwt.JsonWebTokenError) {
+                throw new UnauthorizedError('Invalid token.');
+            }
+            // Otros errores inesperados al verificar el token
+            throw new UnauthorizedError('Authentication failed.');
+        }
+
+        // Tokens emitidos antes de que existieran los roles y las sesiones (o con un payload ajeno) no se aceptan
+        if (typeof decoded === 'string' || typeof decoded.id !== 'string' || typeof decoded.username !== 'string'
+            || !Array.isArray(decoded.roles) || !decoded.roles.every(role => USER_ROLES.includes(role))
+            || typeof decoded.jti !== 'string' || typeof decoded.sid !== 'string' || typeof decoded.exp !== 'number') {
+            throw new UnauthorizedError('Invalid token.');
+        }
+        return {
+            id: decoded.id,
+            username: decoded.username,
+            roles: decoded.roles,
+            jti: decoded.jti,
+            sessionId: decoded.sid,
+            expiresAt: decoded.exp * 1000,
+        };
+    }
+}
@@ -0,0 +1,66 @@
+// src/infrastructure/security/scrypt-password.hasher.ts
+
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+import { PasswordHasher } from '@application/ports/password-hasher';
+
+/**
+ * @interface ScryptParameters
+ * @description Parámetros de coste de scrypt. Se guardan junto a cada hash, así que se pueden
+ * endurecer sin invalidar los hashes existentes.
+ */
+export interface ScryptParameters {
+    cost: number;            // N (potencia de 2)
+    blockSize: number;       // r
+    parallelization: number; // p
+}
+
+const DEFAULT_PARAMETERS: ScryptParameters = { cost: 16384, blockSize: 8, parallelization: 1 };
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+const deriveKey = (password: string, salt: Buffer, { cost, blockSize, parallelization }: ScryptParameters): Promise<Buffer> =>
+    new Promise((resolve, reject) => {
+        scrypt(password, salt, KEY_LENGTH, { N: cost, r: blockSize, p: parallelization, maxmem: 256 * cost * blockSize }, (err, key) =>
+            err ? reject(err) : resolve(key)
+        );
+    });
+
+/**
+ * @class ScryptPasswordHasher
+ * @description Hashea contraseñas con scrypt y una sal aleatoria por contraseña.
+ * Formato del hash: `scrypt$N$r$p$<sal base64>$<clave base64>`.
+ */
+export class ScryptPasswordHasher implements PasswordHasher {
+    private readonly parameters: ScryptParameters;
+
+    constructor(parameters: ScryptParameters = DEFAULT_PARAMETERS) {
+        this.parameters = parameters;
+    }
+
+    public async hash(password: string): Promise<string> {
+        const salt = randomBytes(SALT_LENGTH);
+        const key = await deriveKey(password, salt, this.parameters);
+        const { cost, blockSize, parallelization } = this.parameters;
+        return ['scrypt', cost, blockSize, parallelization, salt.toString('base64'), key.toString('base64')].join('$');
+    }
+
+    /**
+     * @method verify
+     * @description Compara en tiempo constante. Un hash mal formado nunca verifica.
+     */
+    public async verify(password: string, passwordHash: string): Promise<boolean> {
+        const parts = passwordHash.split('$');
+        if (parts.length !== 6 || parts[0] !== 'scrypt') {
+            return false;
+        }
+
+        const [cost, blockSize, parallelization] = parts.slice(1, 4).map(part => parseInt(part, 10));
+        if (![cost, blockSize, parallelization].every(Number.isInteger)) {
+            return false;
+        }
+        const expected = Buffer.from(parts[5], 'base64');
+        const actual = await deriveKey(password, Buffer.from(parts[4], 'base64'), { cost, blockSize, parallelization });
+        return expected.length === actual.length && timingSafeEqual(expected, actual);
+    }
+}
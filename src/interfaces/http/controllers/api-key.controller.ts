@@ -0,0 +1,64 @@
+// src/interfaces/http/controllers/api-key.controller.ts
+
+import { NextFunction, Request, Response } from 'express';
+
+import { CreateApiKeyUseCase } from '@application/use-cases/api-keys/create-api-key.usecase';
+import { ListApiKeysUseCase } from '@application/use-cases/api-keys/list-api-keys.usecase';
+import { RevokeApiKeyUseCase } from '@application/use-cases/api-keys/revoke-api-key.usecase';
+
+/**
+ * @class ApiKeyController
+ * @description Maneja las API keys del usuario autenticado.
+ */
+export class ApiKeyController {
+    private readonly createApiKeyUseCase: CreateApiKeyUseCase;
+    private readonly listApiKeysUseCase: ListApiKeysUseCase;
+    private readonly revokeApiKeyUseCase: RevokeApiKeyUseCase;
+
+    constructor(createApiKeyUseCase: CreateApiKeyUseCase, listApiKeysUseCase: ListApiKeysUseCase, revokeApiKeyUseCase: RevokeApiKeyUseCase) {
+        this.createApiKeyUseCase = createApiKeyUseCase;
+        this.listApiKeysUseCase = listApiKeysUseCase;
+        this.revokeApiKeyUseCase = revokeApiKeyUseCase;
+    }
+
+    /**
+     * @method create
+     * @description Crea una API key (espera `label`, `scopes` y opcionalmente `expiresAt` en el body).
+     * La key en claro solo se devuelve en esta respuesta.
+     */
+    public async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const { label, scopes, expiresAt } = req.body ?? {};
+            const created = await this.createApiKeyUseCase.execute({ ownerId: req.user!.id, label, scopes, expiresAt });
+            res.status(201).json({ message: 'API key created. Store it now: it will not be shown again.', data: created });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @method list
+     * @description Lista las API keys del usuario autenticado.
+     */
+    public async list(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const apiKeys = await this.listApiKeysUseCase.execute(req.user!.id);
+            res.status(200).json({ data: apiKeys });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @method revoke
+     * @description Revoca una API key del usuario autenticado.
+     */
+    public async revoke(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const apiKey = await this.revokeApiKeyUseCase.execute({ ownerId: req.user!.id, apiKeyId: String(req.params.id) });
+            res.status(200).json({ message: 'API key revoked successfully.', data: apiKey });
+        } catch (error) {
+            next(error);
+        }
+    }
+}
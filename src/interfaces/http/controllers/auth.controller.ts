@@ -1,33 +1,140 @@
 // src/interfaces/http/controllers/auth.controller.ts
 
+import { AppError, ForbiddenError } from '@domain/errors/app.errors';
+import { AuthMethod, MetricsRecorder } from '@application/ports/metrics.recorder';
 import { NextFunction, Request, Response } from 'express';
 
-import { UnauthorizedError } from '@domain/errors/app.errors';
-import { config } from '../../../config'; // Relative path is fine, or use @config alias if configured for this file
-import jwt from 'jsonwebtoken'; // Already imported
+import { ChangePasswordUseCase } from '@application/use-cases/auth/change-password.usecase';
+import { LoginUseCase } from '@application/use-cases/auth/login.usecase';
+import { LogoutUseCase } from '@application/use-cases/auth/logout.usecase';
+import { RefreshSessionUseCase } from '@application/use-cases/auth/refresh-session.usecase';
+import { RegisterUserUseCase } from '@application/use-cases/auth/register-user.usecase';
 
+/**
+ * @interface AuthControllerOptions
+ * @description Opciones del controlador de autenticación.
+ */
+export interface AuthControllerOptions {
+    registrationEnabled: boolean; // Si es false, POST /register responde 403
+}
+
+/**
+ * @class AuthController
+ * @description Maneja el inicio y cierre de sesión, la renovación de tokens, el registro de usuarios
+ * y el cambio de contraseña.
+ */
 export class AuthController {
-    public login(req: Request, res: Response, next: NextFunction) {
-        const { username, password } = req.body;
-
-        // --- Simulación de verificación de credenciales ---
-        if (username === 'testuser' && password === 'testpass') {
-            // Usuario y contraseña válidos
-            const payload = { id: 'user123', username: 'testuser' };
-
-            const token = jwt.sign(
-                payload,
-                config.jwtSecret,
-                {
-                    // Explicitly cast expiresIn to its expected type
-                    expiresIn: config.jwtExpiresIn as jwt.SignOptions['expiresIn']
-                }
-            );
-
-            return res.status(200).json({ token });
-        } else {
-            // Credenciales inválidas
-            return next(new UnauthorizedError('Invalid username or password.'));
+    private readonly loginUseCase: LoginUseCase;
+    private readonly refreshSessionUseCase: RefreshSessionUseCase;
+    private readonly logoutUseCase: LogoutUseCase;
+    private readonly registerUserUseCase: RegisterUserUseCase;
+    private readonly changePasswordUseCase: ChangePasswordUseCase;
+    private readonly options: AuthControllerOptions;
+    private readonly metrics?: MetricsRecorder;
+
+    constructor(
+        loginUseCase: LoginUseCase,
+        refreshSessionUseCase: RefreshSessionUseCase,
+        logoutUseCase: LogoutUseCase,
+        registerUserUseCase: RegisterUserUseCase,
+        changePasswordUseCase: ChangePasswordUseCase,
+        options: AuthControllerOptions,
+        metrics?: MetricsRecorder
+    ) {
+        this.loginUseCase = loginUseCase;
+        this.refreshSessionUseCase = refreshSessionUseCase;
+        this.logoutUseCase = logoutUseCase;
+        this.registerUserUseCase = registerUserUseCase;
+        this.changePasswordUseCase = changePasswordUseCase;
+        this.options = options;
+        this.metrics = metrics;
+    }
+
+    /**
+     * @method login
+     * @description Verifica las credenciales contra el repositorio de usuarios y devuelve un JWT y un refresh token.
+     */
+    public async login(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const { username, password } = req.body ?? {};
+            const { token, refreshToken, user } = await this.loginUseCase.execute({ username, password });
+            this.recordAuthAttempt('password');
+            res.status(200).json({ token, refreshToken, user });
+        } catch (error) {
+            this.recordAuthAttempt('password', error);
+            next(error);
+        }
+    }
+
+    /**
+     * @method refresh
+     * @description Canjea un refresh token por un nuevo JWT y un nuevo refresh token (el anterior deja de servir).
+     */
+    public async refresh(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const { refreshToken } = req.body ?? {};
+            const tokens = await this.refreshSessionUseCase.execute({ refreshToken });
+            this.recordAuthAttempt('refresh_token');
+            res.status(200).json(tokens);
+        } catch (error) {
+            this.recordAuthAttempt('refresh_token', error);
+            next(error);
+        }
+    }
+
+    /**
+     * @method logout
+     * @description Revoca el JWT presentado y su sesión.
+     */
+    public async logout(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            await this.logoutUseCase.execute(req.accessToken!);
+            res.status(204).send();
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @method register
+     * @description Registra un usuario con el rol `user`.
+     */
+    public async register(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            if (!this.options.registrationEnabled) {
+                throw new ForbiddenError('Self-service registration is disabled.');
+            }
+            const { username, password } = req.body ?? {};
+            const user = await this.registerUserUseCase.execute({ username, password });
+            res.status(201).json({ message: 'User registered successfully.', data: user });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @method changePassword
+     * @description Cambia la contraseña del usuario autenticado (requiere la contraseña actual).
+     */
+    public async changePassword(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const { currentPassword, newPassword } = req.body ?? {};
+            await this.changePasswordUseCase.execute({ userId: req.user!.id, currentPassword, newPassword });
+            res.status(204).send();
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Registra el intento de autenticación. Solo los rechazos (401/403) cuentan como fallo;
+     * las solicitudes mal formadas no son intentos de autenticación.
+     */
+    private recordAuthAttempt(method: AuthMethod, error?: unknown): void {
+        if (!error) {
+            this.metrics?.recordAuthAttempt(method, 'success');
+        } else if (error instanceof AppError && (error.statusCode === 401 || error.statusCode === 403)) {
+            this.metrics?.recordAuthAttempt(method, 'failure');
         }
     }
-}
\ No newline at end of file
+}
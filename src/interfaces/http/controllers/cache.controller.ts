@@ -0,0 +1,48 @@
+// src/interfaces/http/controllers/cache.controller.ts
+
+import { NextFunction, Request, Response } from 'express';
+
+import { MatrixResultCache } from '@application/ports/matrix-result-cache';
+import { NotFoundError } from '@domain/errors/app.errors';
+
+/**
+ * @class CacheController
+ * @description Administración del caché de resultados de matrices: estadísticas,
+ * invalidación de una entrada (por su clave de contenido) y vaciado completo.
+ */
+export class CacheController {
+    private readonly matrixResultCache: MatrixResultCache;
+
+    constructor(matrixResultCache: MatrixResultCache) {
+        this.matrixResultCache = matrixResultCache;
+    }
+
+    /**
+     * @method getStats
+     * @description Devuelve la ocupación y los contadores del caché.
+     */
+    public getStats(req: Request, res: Response): void {
+        res.status(200).json({ data: this.matrixResultCache.getStats() });
+    }
+
+    /**
+     * @method invalidate
+     * @description Elimina la entrada cuya clave (`cache.key` en las respuestas) se indica en la ruta.
+     */
+    public invalidate(req: Request, res: Response, next: NextFunction): void {
+        const key = req.params.key as string;
+        if (!this.matrixResultCache.invalidate(key)) {
+            return next(new NotFoundError(`No cache entry found for key '${key}'.`));
+        }
+        res.status(204).send();
+    }
+
+    /**
+     * @method flush
+     * @description Vacía el caché por completo.
+     */
+    public flush(req: Request, res: Response): void {
+        const removed = this.matrixResultCache.flush();
+        res.status(200).json({ message: 'Cache flushed successfully.', data: { removed } });
+    }
+}
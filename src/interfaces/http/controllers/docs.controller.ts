@@ -0,0 +1,24 @@
+// src/interfaces/http/controllers/docs.controller.ts
+
+import { Request, Response } from 'express';
+
+/**
+ * @class DocsController
+ * @description Publica la documentación de la API: el documento OpenAPI generado a partir de los esquemas
+ * de las rutas, para generar clientes a partir de él.
+ */
+export class DocsController {
+    private readonly openApiDocument: Record<string, unknown>;
+
+    constructor(openApiDocument: Record<string, unknown>) {
+        this.openApiDocument = openApiDocument;
+    }
+
+    /**
+     * @method getOpenApiDocument
+     * @description Devuelve el documento OpenAPI 3 de la API.
+     */
+    public getOpenApiDocument(req: Request, res: Response): void {
+        res.status(200).json(this.openApiDocument);
+    }
+}
@@ -0,0 +1,42 @@
+// src/interfaces/http/controllers/health.controller.ts
+
+import { NextFunction, Request, Response } from 'express';
+
+import { HealthService } from '@application/services/health.service';
+
+/**
+ * @class HealthController
+ * @description Sondas de salud para el orquestador:
+ * - liveness: el proceso está vivo y atiende solicitudes (no comprueba dependencias, para no reiniciar
+ *   el contenedor por una caída de Go).
+ * - readiness: la API puede atender solicitudes (configuración válida y backend de matrices disponible).
+ */
+export class HealthController {
+    private readonly healthService: HealthService;
+
+    constructor(healthService: HealthService) {
+        this.healthService = healthService;
+    }
+
+    /**
+     * @method live
+     * @description Responde siempre 200 mientras el proceso atienda solicitudes.
+     */
+    public live(req: Request, res: Response): void {
+        res.status(200).json({ status: 'up', uptimeSeconds: Math.round(process.uptime()) });
+    }
+
+    /**
+     * @method ready
+     * @description Responde 200 si todas las dependencias están `up` o `degraded`, y 503 si alguna está `down`,
+     * con el desglose por dependencia.
+     */
+    public async ready(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const report = await this.healthService.checkReadiness();
+            res.status(report.status === 'down' ? 503 : 200).json(report);
+        } catch (error) {
+            next(error);
+        }
+    }
+}
@@ -0,0 +1,77 @@
+// src/interfaces/http/controllers/internal-matrix.controller.ts
+
+import { AppError, InvalidMatrixError } from '@domain/errors/app.errors';
+import { GoToNodeReceivedData, Matrix, MatrixStatsResponse } from '@domain/entities/matrix';
+import { NextFunction, Request, Response } from 'express';
+
+import { CalculateMatrixStatsUseCase } from '@application/use-cases/matrix/calculate-matrix-stats.usecase';
+import { logger } from '@shared/logging/logger';
+
+const log = logger.child({ component: 'InternalMatrixController' });
+
+/**
+ * Verifica que un valor sea un array (no vacío) de arrays de números.
+ */
+const isNumericMatrix = (value: unknown): value is Matrix =>
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every(row => Array.isArray(row) && row.every(item => typeof item === 'number'));
+
+/**
+ * @class InternalMatrixController
+ * @description Maneja el callback interno que realiza la API de Go hacia Node.js.
+ * Go envía la matriz original, la rotada y la factorización QR; Node.js calcula
+ * las estadísticas y responde con un `MatrixStatsResponse`.
+ */
+export class InternalMatrixController {
+    private readonly calculateMatrixStatsUseCase: CalculateMatrixStatsUseCase;
+
+    constructor(calculateMatrixStatsUseCase: CalculateMatrixStatsUseCase) {
+        this.calculateMatrixStatsUseCase = calculateMatrixStatsUseCase;
+    }
+
+    /**
+     * @method calculateStats
+     * @description Endpoint interno para calcular estadísticas sobre los resultados de Go.
+     * @param req Objeto de solicitud de Express (espera un `GoToNodeReceivedData` en el body).
+     * @param res Objeto de respuesta de Express.
+     * @param next Función para pasar el control al siguiente middleware de error.
+     */
+    public async calculateStats(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const { original_matrix, rotated_matrix, qr_factorization } = (req.body ?? {}) as GoToNodeReceivedData;
+
+            if (!isNumericMatrix(original_matrix)) {
+                throw new InvalidMatrixError('original_matrix must be a non-empty array of arrays of numbers.');
+            }
+            if (!isNumericMatrix(rotated_matrix)) {
+                throw new InvalidMatrixError('rotated_matrix must be a non-empty array of arrays of numbers.');
+            }
+            if (!qr_factorization || !Array.isArray(qr_factorization.Q) || !Array.isArray(qr_factorization.R)) {
+                throw new InvalidMatrixError('qr_factorization must contain the Q and R matrices.');
+            }
+
+            const statistics = this.calculateMatrixStatsUseCase.execute({ original_matrix, rotated_matrix, qr_factorization });
+
+            const response: MatrixStatsResponse = {
+                message: 'Matrix statistics calculated successfully.',
+                data: {
+                    originalMatrix: original_matrix,
+                    rotatedMatrix: rotated_matrix,
+                    qrFactorization: qr_factorization,
+                    statistics,
+                },
+            };
+            res.status(200).json(response);
+
+        } catch (error: unknown) {
+            if (error instanceof AppError) {
+                next(error);
+            } else {
+                log.error('Unexpected error while calculating matrix statistics', { error });
+                const details = error instanceof Error ? error.message : undefined;
+                next(new AppError('An unexpected error occurred while calculating matrix statistics.', 500, 'INTERNAL_SERVER_ERROR', details));
+            }
+        }
+    }
+}
@@ -0,0 +1,34 @@
+// src/interfaces/http/controllers/linear-system.controller.ts
+
+import { NextFunction, Request, Response } from 'express';
+
+import { LinearSystemRequest } from '@domain/entities/matrix';
+import { SolveLinearSystemUseCase } from '@application/use-cases/matrix/solve-linear-system.usecase';
+
+/**
+ * @class LinearSystemController
+ * @description Maneja las solicitudes de resolución de sistemas lineales (exactos y de mínimos cuadrados).
+ */
+export class LinearSystemController {
+    private readonly solveLinearSystemUseCase: SolveLinearSystemUseCase;
+
+    constructor(solveLinearSystemUseCase: SolveLinearSystemUseCase) {
+        this.solveLinearSystemUseCase = solveLinearSystemUseCase;
+    }
+
+    /**
+     * @method solve
+     * @description Resuelve A · x = b para uno o varios lados derechos. Una matriz sin rango completo no es un error:
+     * la respuesta lo indica en `rankDeficient` y `warnings`.
+     */
+    public async solve(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const { matrix, b } = req.body as LinearSystemRequest;
+            const solution = await this.solveLinearSystemUseCase.execute({ matrix, b, limits: req.matrixLimits });
+
+            res.status(200).json({ message: 'Linear system solved successfully.', data: solution });
+        } catch (error) {
+            next(error);
+        }
+    }
+}
@@ -0,0 +1,39 @@
+// src/interfaces/http/controllers/matrix-arithmetic.controller.ts
+
+import { MatrixArithmeticOperation, MatrixArithmeticRequest } from '@domain/entities/matrix';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+
+import { ApplyMatrixArithmeticUseCase } from '@application/use-cases/matrix/apply-matrix-arithmetic.usecase';
+
+/**
+ * @class MatrixArithmeticController
+ * @description Maneja las operaciones aritméticas de `/api/matrix/ops` (suma, producto, inversa, potencia, etc.).
+ */
+export class MatrixArithmeticController {
+    private readonly applyMatrixArithmeticUseCase: ApplyMatrixArithmeticUseCase;
+
+    constructor(applyMatrixArithmeticUseCase: ApplyMatrixArithmeticUseCase) {
+        this.applyMatrixArithmeticUseCase = applyMatrixArithmeticUseCase;
+    }
+
+    /**
+     * @method handle
+     * @description Devuelve el manejador de una operación. El formato del cuerpo (`a` y `b`, o `matrix` con `scalar`
+     * o `exponent`) ya lo validó el middleware `validateRequest` con el esquema de la operación.
+     */
+    public handle(operation: MatrixArithmeticOperation): RequestHandler {
+        return (req: Request, res: Response, next: NextFunction): void => {
+            try {
+                const result = this.applyMatrixArithmeticUseCase.execute({
+                    ...req.body,
+                    operation,
+                    limits: req.matrixLimits,
+                } as MatrixArithmeticRequest);
+
+                res.status(200).json({ message: 'Matrix operation applied successfully.', data: result });
+            } catch (error) {
+                next(error);
+            }
+        };
+    }
+}
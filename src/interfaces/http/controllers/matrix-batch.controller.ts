@@ -0,0 +1,45 @@
+// src/interfaces/http/controllers/matrix-batch.controller.ts
+
+import { NextFunction, Request, Response } from 'express';
+
+import { MatrixBatchRequest } from '@domain/entities/matrix';
+import { ProcessMatrixBatchUseCase } from '@application/use-cases/matrix/process-matrix-batch.usecase';
+import { parseMatrixOperation } from '@interfaces/http/utils/matrix-operation';
+import { parseStatsSelection } from '@interfaces/http/utils/stats-selection';
+
+/**
+ * @class MatrixBatchController
+ * @description Maneja el procesamiento por lotes: recibe un array de matrices y devuelve
+ * un resultado (o error) por matriz junto con un resumen agregado.
+ */
+export class MatrixBatchController {
+    private readonly processMatrixBatchUseCase: ProcessMatrixBatchUseCase;
+
+    constructor(processMatrixBatchUseCase: ProcessMatrixBatchUseCase) {
+        this.processMatrixBatchUseCase = processMatrixBatchUseCase;
+    }
+
+    /**
+     * @method processBatch
+     * @description Endpoint de procesamiento por lotes. Responde 200 aunque algunos elementos fallen;
+     * el estado de cada uno se indica en `items[i].status`.
+     */
+    public async processBatch(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const { matrices } = (req.body ?? {}) as MatrixBatchRequest;
+            const result = await this.processMatrixBatchUseCase.execute({
+                matrices,
+                stats: parseStatsSelection(req),
+                limits: req.matrixLimits,
+                operation: parseMatrixOperation(req),
+            });
+
+            res.status(200).json({
+                message: `Batch processed: ${result.summary.succeeded} succeeded, ${result.summary.failed} failed.`,
+                data: result,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+}
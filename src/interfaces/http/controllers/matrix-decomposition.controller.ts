@@ -0,0 +1,39 @@
+// src/interfaces/http/controllers/matrix-decomposition.controller.ts
+
+import { NextFunction, Request, Response } from 'express';
+
+import { DecomposeMatrixUseCase } from '@application/use-cases/matrix/decompose-matrix.usecase';
+import { MatrixDecompositionRequest } from '@domain/entities/matrix';
+import { parseDecompositionSelection } from '@interfaces/http/utils/decomposition-selection';
+
+/**
+ * @class MatrixDecompositionController
+ * @description Maneja las solicitudes de descomposición de matrices (QR, LU, Cholesky, SVD y valores propios).
+ */
+export class MatrixDecompositionController {
+    private readonly decomposeMatrixUseCase: DecomposeMatrixUseCase;
+
+    constructor(decomposeMatrixUseCase: DecomposeMatrixUseCase) {
+        this.decomposeMatrixUseCase = decomposeMatrixUseCase;
+    }
+
+    /**
+     * @method decompose
+     * @description Devuelve las descomposiciones solicitadas (`decompositions` en el body o la query), indexadas por nombre.
+     * Las precondiciones incumplidas (ej. Cholesky de una matriz no simétrica) responden `400 INVALID_MATRIX`.
+     */
+    public async decompose(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const { matrix } = req.body as MatrixDecompositionRequest;
+            const decompositions = await this.decomposeMatrixUseCase.execute({
+                matrix,
+                decompositions: parseDecompositionSelection(req) ?? [],
+                limits: req.matrixLimits,
+            });
+
+            res.status(200).json({ message: 'Matrix decomposed successfully.', data: decompositions });
+        } catch (error) {
+            next(error);
+        }
+    }
+}
@@ -0,0 +1,77 @@
+// src/interfaces/http/controllers/matrix-job.controller.ts
+
+import { NextFunction, Request, Response } from 'express';
+
+import { MatrixJobQueue } from '@application/services/matrix-job.queue';
+import { MatrixProcessingRequest } from '@domain/entities/matrix';
+import { parseDecompositionSelection } from '@interfaces/http/utils/decomposition-selection';
+import { parseMatrixOperation } from '@interfaces/http/utils/matrix-operation';
+import { parseStatsSelection } from '@interfaces/http/utils/stats-selection';
+
+/**
+ * @class MatrixJobController
+ * @description Maneja el modo asíncrono de procesamiento de matrices:
+ * envío de trabajos (202 + id), consulta de estado/resultado y cancelación.
+ * Todas las operaciones se limitan a los trabajos del usuario autenticado (`req.user`).
+ */
+export class MatrixJobController {
+    private readonly matrixJobQueue: MatrixJobQueue;
+
+    constructor(matrixJobQueue: MatrixJobQueue) {
+        this.matrixJobQueue = matrixJobQueue;
+    }
+
+    /**
+     * @method submit
+     * @description Encola una matriz para su procesamiento y responde de inmediato con `202 Accepted`.
+     * El formato del cuerpo ya lo validó el middleware `validateRequest`; la cola valida el resto
+     * (forma, límites, operación, estadísticas y descomposiciones) antes de encolar el trabajo.
+     */
+    public submit(req: Request, res: Response, next: NextFunction): void {
+        try {
+            const { matrix } = req.body as MatrixProcessingRequest;
+            const job = this.matrixJobQueue.submit(req.user!.id, {
+                matrix,
+                stats: parseStatsSelection(req),
+                limits: req.matrixLimits,
+                operation: parseMatrixOperation(req),
+                decompositions: parseDecompositionSelection(req),
+            });
+
+            res.status(202)
+                .location(`${req.baseUrl}/jobs/${job.id}`)
+                .json({
+                    message: 'Matrix processing job accepted.',
+                    data: job,
+                });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @method getJob
+     * @description Devuelve el estado del trabajo y, si terminó con éxito, el `ProcessedMatrixResult`.
+     */
+    public getJob(req: Request, res: Response, next: NextFunction): void {
+        try {
+            const job = this.matrixJobQueue.get(req.params.id as string, req.user!.id);
+            res.status(200).json({ data: job });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @method cancelJob
+     * @description Cancela un trabajo en espera o en ejecución.
+     */
+    public cancelJob(req: Request, res: Response, next: NextFunction): void {
+        try {
+            const job = this.matrixJobQueue.cancel(req.params.id as string, req.user!.id);
+            res.status(200).json({ message: 'Job cancelled.', data: job });
+        } catch (error) {
+            next(error);
+        }
+    }
+}
@@ -1,24 +1,34 @@
 // src/interfaces/http/controllers/matrix.controller.ts
 
-import { AppError, InvalidMatrixError } from '@domain/errors/app.errors';
+import { AppError } from '@domain/errors/app.errors';
 import { NextFunction, Request, Response } from 'express';
 
 import { MatrixProcessingRequest } from '@domain/entities/matrix';
 import { ProcessMatrixAndGetStatsUseCase } from '@application/use-cases/matrix/process-matrix-and-get-stats.usecase';
+import { ResultFormatterRegistry } from '@interfaces/http/formats/result-formatter.registry';
+import { logger } from '@shared/logging/logger';
+import { parseDecompositionSelection } from '@interfaces/http/utils/decomposition-selection';
+import { parseMatrixOperation } from '@interfaces/http/utils/matrix-operation';
+import { parseStatsSelection } from '@interfaces/http/utils/stats-selection';
+
+const log = logger.child({ component: 'MatrixController' });
 
 /**
  * @class MatrixController
  * @description Maneja las solicitudes HTTP relacionadas con operaciones de matrices.
  * Recibe una matriz del cliente, delega su procesamiento a un caso de uso,
- * y devuelve el resultado completo, incluyendo las estadísticas.
+ * y devuelve el resultado completo, incluyendo las estadísticas, en el formato negociado con el cliente.
  */
 export class MatrixController {
     private readonly processMatrixAndGetStatsUseCase: ProcessMatrixAndGetStatsUseCase;
+    private readonly resultFormatters: ResultFormatterRegistry;
 
     constructor(
-        processMatrixAndGetStatsUseCase: ProcessMatrixAndGetStatsUseCase
+        processMatrixAndGetStatsUseCase: ProcessMatrixAndGetStatsUseCase,
+        resultFormatters: ResultFormatterRegistry = new ResultFormatterRegistry()
     ) {
         this.processMatrixAndGetStatsUseCase = processMatrixAndGetStatsUseCase;
+        this.resultFormatters = resultFormatters;
     }
 
     /**
@@ -26,41 +36,46 @@ export class MatrixController {
      * @description Endpoint principal para procesar una matriz.
      * 1. Recibe la matriz del cuerpo de la solicitud.
      * 2. Delega la lógica de negocio al caso de uso.
-     * 3. Envía la respuesta con la matriz procesada y estadísticas.
-     * @param req Objeto de solicitud de Express (espera 'matrix' en el body).
+     * 3. Envía la respuesta con la matriz procesada y estadísticas, en el formato elegido con `Accept` o `?format=`
+     *    (JSON por defecto; ver `ResultFormatterRegistry`).
+     * @param req Objeto de solicitud de Express (espera 'matrix' en el body y, opcionalmente, 'stats', 'operation' y 'decompositions'
+     * en el body o la query).
      * @param res Objeto de respuesta de Express.
      * @param next Función para pasar el control al siguiente middleware de error.
      */
     public async processMatrix(req: Request, res: Response, next: NextFunction): Promise<void> {
         try {
+            // El formato del cuerpo ya lo validó el middleware `validateRequest` (ver `matrixOperations.processMatrix`)
             const { matrix } = req.body as MatrixProcessingRequest;
 
-            // Validaciones básicas de entrada directamente en el controlador antes de pasar al caso de uso
-            if (!matrix) {
-                throw new InvalidMatrixError('Matrix is required in the request body.');
-            }
-            if (!Array.isArray(matrix)) {
-                throw new InvalidMatrixError('Matrix must be an array.');
-            }
-            if (matrix.length === 0 || !Array.isArray(matrix[0])) {
-                throw new InvalidMatrixError('Matrix is empty or malformed.');
-            }
+            // Se negocia antes de procesar, para no llamar a Go si el formato pedido no está disponible
+            const { formatter, matrices } = this.resultFormatters.negotiate(req);
 
             // Delegar el procesamiento y cálculo de estadísticas al caso de uso
-            const result = await this.processMatrixAndGetStatsUseCase.execute({ matrix });
+            const stats = parseStatsSelection(req);
+            const operation = parseMatrixOperation(req);
+            const decompositions = parseDecompositionSelection(req);
+            const result = await this.processMatrixAndGetStatsUseCase.execute({ matrix, stats, operation, decompositions, limits: req.matrixLimits });
 
-            res.status(200).json({
-                message: 'Matrix processed and statistics generated successfully.',
-                data: result, // result ya contiene originalMatrix, rotatedMatrix, qrFactorization y statistics
-            });
+            if (result.cache) {
+                res.setHeader('X-Cache', result.cache.hit ? 'HIT' : 'MISS');
+            }
+
+            // result ya contiene originalMatrix, rotatedMatrix, qrFactorization y statistics
+            const body = formatter.format(result, matrices);
+            res.vary('Accept');
+            if (formatter.fileExtension) {
+                res.attachment(`matrix-result.${formatter.fileExtension}`);
+            }
+            res.status(200).type(formatter.contentType).send(body);
 
         } catch (error: any) {
-            console.error('Error in MatrixController.processMatrix:', error);
             // Pasa el error al middleware de manejo de errores centralizado
             if (error instanceof AppError) {
                 next(error);
             } else {
                 // Envuelve errores inesperados en un AppError genérico
+                log.error('Unexpected error during matrix processing', { error });
                 next(new AppError('An unexpected error occurred during matrix processing.', 500, 'INTERNAL_SERVER_ERROR', error.message));
             }
         }
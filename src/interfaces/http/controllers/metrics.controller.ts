@@ -0,0 +1,30 @@
+// src/interfaces/http/controllers/metrics.controller.ts
+
+import { NextFunction, Request, Response } from 'express';
+
+import { PrometheusMetrics } from '@infrastructure/metrics/prometheus.metrics';
+
+/**
+ * @class MetricsController
+ * @description Expone las métricas de la aplicación para que Prometheus las recoja.
+ */
+export class MetricsController {
+    private readonly metrics: PrometheusMetrics;
+
+    constructor(metrics: PrometheusMetrics) {
+        this.metrics = metrics;
+    }
+
+    /**
+     * @method getMetrics
+     * @description Devuelve todas las métricas en el formato de texto de Prometheus.
+     */
+    public async getMetrics(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const body = await this.metrics.render();
+            res.status(200).type(this.metrics.contentType).send(body);
+        } catch (error) {
+            next(error);
+        }
+    }
+}
@@ -0,0 +1,74 @@
+// src/interfaces/http/controllers/user.controller.ts
+
+import { NextFunction, Request, Response } from 'express';
+
+import { ListUsersUseCase } from '@application/use-cases/auth/list-users.usecase';
+import { SetUserDisabledUseCase } from '@application/use-cases/auth/set-user-disabled.usecase';
+import { SetUserRolesUseCase } from '@application/use-cases/auth/set-user-roles.usecase';
+
+/**
+ * @class UserController
+ * @description Maneja la administración de cuentas de usuario.
+ */
+export class UserController {
+    private readonly listUsersUseCase: ListUsersUseCase;
+    private readonly setUserRolesUseCase: SetUserRolesUseCase;
+    private readonly setUserDisabledUseCase: SetUserDisabledUseCase;
+
+    constructor(listUsersUseCase: ListUsersUseCase, setUserRolesUseCase: SetUserRolesUseCase, setUserDisabledUseCase: SetUserDisabledUseCase) {
+        this.listUsersUseCase = listUsersUseCase;
+        this.setUserRolesUseCase = setUserRolesUseCase;
+        this.setUserDisabledUseCase = setUserDisabledUseCase;
+    }
+
+    /**
+     * @method list
+     * @description Lista los usuarios registrados.
+     */
+    public async list(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const users = await this.listUsersUseCase.execute();
+            res.status(200).json({ data: users });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @method setRoles
+     * @description Reemplaza los roles de un usuario (espera `roles` en el body).
+     */
+    public async setRoles(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const user = await this.setUserRolesUseCase.execute({ userId: String(req.params.id), roles: req.body?.roles });
+            res.status(200).json({ message: 'User roles updated successfully.', data: user });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @method disable
+     * @description Deshabilita una cuenta (la propia, o cualquiera si es administrador).
+     */
+    public async disable(req: Request, res: Response, next: NextFunction): Promise<void> {
+        await this.setDisabled(req, res, next, true);
+    }
+
+    /**
+     * @method enable
+     * @description Vuelve a habilitar una cuenta (solo administradores).
+     */
+    public async enable(req: Request, res: Response, next: NextFunction): Promise<void> {
+        await this.setDisabled(req, res, next, false);
+    }
+
+    private async setDisabled(req: Request, res: Response, next: NextFunction, disabled: boolean): Promise<void> {
+        try {
+            const user = await this.setUserDisabledUseCase.execute({ actor: req.user!, userId: String(req.params.id), disabled });
+            res.status(200).json({ message: `User ${disabled ? 'disabled' : 'enabled'} successfully.`, data: user });
+        } catch (error) {
+            next(error);
+        }
+    }
+}
@@ -0,0 +1,102 @@
+// src/interfaces/http/formats/csv-matrix.parser.ts
+
+import { InvalidMatrixError, MatrixTooLargeError } from '@domain/errors/app.errors';
+import { Matrix } from '@domain/entities/matrix';
+
+/**
+ * @interface CsvMatrixOptions
+ * @description Opciones de lectura de una matriz en CSV.
+ */
+export interface CsvMatrixOptions {
+    delimiter: string;  // Un único carácter (ej. `,`, `;`, `\t`)
+    hasHeader: boolean; // Si la primera línea (no vacía) es una cabecera y se descarta
+    maxElements?: number; // Si se indica, la lectura se detiene en cuanto la matriz lo supera
+}
+
+export const DEFAULT_CSV_MATRIX_OPTIONS: CsvMatrixOptions = { delimiter: ',', hasHeader: false };
+
+/**
+ * Separa una línea en campos. Admite campos entre comillas dobles (RFC 4180), sin saltos de línea dentro.
+ */
+const splitFields = (line: string, delimiter: string, lineNumber: number): string[] => {
+    const fields: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quoted) {
+            if (char === '"' && line[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field.trim() === '') {
+            quoted = true;
+            field = '';
+        } else if (char === delimiter) {
+            fields.push(field);
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (quoted) {
+        throw new InvalidMatrixError(`Line ${lineNumber}, column ${fields.length + 1}: unterminated quoted field.`);
+    }
+    fields.push(field);
+    return fields;
+};
+
+/**
+ * @function parseCsvMatrix
+ * @description Convierte un CSV numérico (ej. `DataFrame.to_csv(index=False)` de pandas o `writematrix` de MATLAB)
+ * en una matriz: una fila por línea y una columna por campo. Se ignoran las líneas vacías y el BOM inicial.
+ * @throws {InvalidMatrixError} Con la línea y la columna del primer campo inválido, o si las filas no tienen
+ * todas el mismo número de columnas.
+ * @throws {MatrixTooLargeError} Si la matriz supera `maxElements` (antes de convertir el resto del texto).
+ */
+export const parseCsvMatrix = (text: string, options: CsvMatrixOptions = DEFAULT_CSV_MATRIX_OPTIONS): Matrix => {
+    const matrix: Matrix = [];
+    let headerSkipped = !options.hasHeader;
+    let elements = 0;
+
+    text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((line, index) => {
+        const lineNumber = index + 1;
+        if (line.trim() === '') return;
+        if (!headerSkipped) {
+            headerSkipped = true;
+            return;
+        }
+
+        const fields = splitFields(line, options.delimiter, lineNumber);
+        elements += fields.length;
+        if (options.maxElements !== undefined && elements > options.maxElements) {
+            throw new MatrixTooLargeError(`The CSV has more than ${options.maxElements} values; the maximum for your plan is ${options.maxElements}.`);
+        }
+        const row = fields.map((field, column) => {
+            const value = field.trim();
+            const number = Number(value);
+            if (value === '') {
+                throw new InvalidMatrixError(`Line ${lineNumber}, column ${column + 1}: empty value.`);
+            }
+            if (!Number.isFinite(number)) {
+                throw new InvalidMatrixError(`Line ${lineNumber}, column ${column + 1}: "${value}" is not a finite number.`);
+            }
+            return number;
+        });
+
+        if (matrix.length > 0 && row.length !== matrix[0].length) {
+            throw new InvalidMatrixError(`Line ${lineNumber}: expected ${matrix[0].length} columns, found ${row.length}.`);
+        }
+        matrix.push(row);
+    });
+
+    if (matrix.length === 0) {
+        throw new InvalidMatrixError('The CSV does not contain any row of values.');
+    }
+    return matrix;
+};
@@ -0,0 +1,159 @@
+// src/interfaces/http/formats/matrix-market.parser.ts
+
+import { InvalidMatrixError, MatrixTooLargeError } from '@domain/errors/app.errors';
+
+import { Matrix } from '@domain/entities/matrix';
+
+/**
+ * @interface MatrixMarketOptions
+ */
+export interface MatrixMarketOptions {
+    // Elementos máximos de la matriz densa resultante. Se comprueba con el tamaño declarado, antes de reservar
+    // memoria: un archivo `coordinate` pequeño puede declarar una matriz enorme.
+    maxElements?: number;
+}
+
+type MatrixMarketFormat = 'coordinate' | 'array';
+type MatrixMarketField = 'real' | 'double' | 'integer' | 'pattern';
+type MatrixMarketSymmetry = 'general' | 'symmetric' | 'skew-symmetric';
+
+const FORMATS: MatrixMarketFormat[] = ['coordinate', 'array'];
+const FIELDS: MatrixMarketField[] = ['real', 'double', 'integer', 'pattern'];
+const SYMMETRIES: MatrixMarketSymmetry[] = ['general', 'symmetric', 'skew-symmetric'];
+
+interface DataLine {
+    lineNumber: number;
+    tokens: string[];
+}
+
+const fail = (lineNumber: number, column: number | undefined, message: string): never => {
+    throw new InvalidMatrixError(column === undefined ? `Line ${lineNumber}: ${message}` : `Line ${lineNumber}, column ${column}: ${message}`);
+};
+
+const parseNumber = (token: string, line: DataLine, column: number): number => {
+    const value = Number(token);
+    return Number.isFinite(value) ? value : fail(line.lineNumber, column, `"${token}" is not a finite number.`);
+};
+
+const parseIndex = (token: string, line: DataLine, column: number, size: number): number => {
+    const value = Number(token);
+    return Number.isInteger(value) && value >= 1 && value <= size
+        ? value - 1
+        : fail(line.lineNumber, column, `index "${token}" must be an integer between 1 and ${size}.`);
+};
+
+/**
+ * Lee la cabecera `%%MatrixMarket matrix <formato> <campo> <simetría>`.
+ */
+const parseBanner = (banner: string | undefined) => {
+    const [marker, object, format, field, symmetry] = (banner ?? '').trim().toLowerCase().split(/\s+/);
+    if (marker !== '%%matrixmarket' || object !== 'matrix') {
+        fail(1, undefined, 'expected the header "%%MatrixMarket matrix <format> <field> <symmetry>".');
+    }
+    if (!FORMATS.includes(format as MatrixMarketFormat)) {
+        fail(1, undefined, `unsupported format "${format}" (expected ${FORMATS.join(' or ')}).`);
+    }
+    if (!FIELDS.includes(field as MatrixMarketField)) {
+        fail(1, undefined, `unsupported field "${field}" (expected ${FIELDS.join(', ')}; complex matrices are not supported).`);
+    }
+    if (!SYMMETRIES.includes(symmetry as MatrixMarketSymmetry)) {
+        fail(1, undefined, `unsupported symmetry "${symmetry}" (expected ${SYMMETRIES.join(', ')}).`);
+    }
+    if (format === 'array' && field === 'pattern') {
+        fail(1, undefined, 'the pattern field is only valid with the coordinate format.');
+    }
+    return {
+        format: format as MatrixMarketFormat,
+        field: field as MatrixMarketField,
+        symmetry: symmetry as MatrixMarketSymmetry,
+    };
+};
+
+/**
+ * Coloca un valor y, si la matriz es simétrica o antisimétrica, su reflejo.
+ */
+const place = (matrix: Matrix, row: number, column: number, value: number, symmetry: MatrixMarketSymmetry): void => {
+    matrix[row][column] = value;
+    if (symmetry === 'symmetric') {
+        matrix[column][row] = value;
+    } else if (symmetry === 'skew-symmetric' && row !== column) {
+        matrix[column][row] = -value;
+    }
+};
+
+/**
+ * @function parseMatrixMarket
+ * @description Convierte un archivo Matrix Market (`.mtx`, ej. `mmwrite` de MATLAB o `scipy.io.mmwrite`) en una
+ * matriz densa. Admite los formatos `coordinate` (disperso, índices desde 1) y `array` (denso, por columnas),
+ * los campos `real`, `double`, `integer` y `pattern`, y las simetrías `general`, `symmetric` y `skew-symmetric`
+ * (de las que el archivo solo guarda el triángulo inferior).
+ * @throws {InvalidMatrixError} Con la línea (y la columna, si aplica) del primer error.
+ * @throws {MatrixTooLargeError} Si la matriz declarada supera `maxElements`.
+ */
+export const parseMatrixMarket = (text: string, options: MatrixMarketOptions = {}): Matrix => {
+    const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+    const { format, field, symmetry } = parseBanner(lines[0]);
+
+    // Las líneas de datos: sin comentarios (`%`) ni líneas vacías
+    const dataLines: DataLine[] = lines
+        .map((line, index) => ({ lineNumber: index + 1, tokens: line.trim().split(/\s+/) }))
+        .slice(1)
+        .filter(line => line.tokens[0] !== '' && !line.tokens[0].startsWith('%'));
+
+    const sizeLine = dataLines.shift() ?? fail(lines.length, undefined, 'missing the size line.');
+    const expectedSizeTokens = format === 'coordinate' ? 3 : 2;
+    if (sizeLine.tokens.length !== expectedSizeTokens) {
+        fail(sizeLine.lineNumber, undefined, `the size line must have ${expectedSizeTokens} values (${format === 'coordinate' ? 'rows, columns and entries' : 'rows and columns'}).`);
+    }
+    const [rows, columns, entries] = sizeLine.tokens.map((token, index) => {
+        const value = Number(token);
+        return Number.isInteger(value) && value >= (index < 2 ? 1 : 0)
+            ? value
+            : fail(sizeLine.lineNumber, index + 1, `"${token}" must be a ${index < 2 ? 'positive' : 'non-negative'} integer.`);
+    });
+    if (symmetry !== 'general' && rows !== columns) {
+        fail(sizeLine.lineNumber, undefined, `a ${symmetry} matrix must be square (declared ${rows}x${columns}).`);
+    }
+    if (options.maxElements !== undefined && rows * columns > options.maxElements) {
+        throw new MatrixTooLargeError(`Matrix has ${rows * columns} elements; the maximum for your plan is ${options.maxElements}.`);
+    }
+
+    const matrix: Matrix = Array.from({ length: rows }, () => new Array<number>(columns).fill(0));
+
+    if (format === 'coordinate') {
+        const tokensPerEntry = field === 'pattern' ? 2 : 3;
+        if (dataLines.length !== entries) {
+            fail(dataLines[dataLines.length - 1]?.lineNumber ?? sizeLine.lineNumber, undefined, `expected ${entries} entries, found ${dataLines.length}.`);
+        }
+        for (const line of dataLines) {
+            if (line.tokens.length !== tokensPerEntry) {
+                fail(line.lineNumber, undefined, `expected ${tokensPerEntry} values per entry, found ${line.tokens.length}.`);
+            }
+            const row = parseIndex(line.tokens[0], line, 1, rows);
+            const column = parseIndex(line.tokens[1], line, 2, columns);
+            const value = field === 'pattern' ? 1 : parseNumber(line.tokens[2], line, 3);
+            place(matrix, row, column, value, symmetry);
+        }
+        return matrix;
+    }
+
+    // Formato array: un valor por línea, por columnas; con simetría, solo el triángulo inferior
+    const positions: Array<[number, number]> = [];
+    for (let column = 0; column < columns; column++) {
+        const firstRow = symmetry === 'general' ? 0 : symmetry === 'symmetric' ? column : column + 1;
+        for (let row = firstRow; row < rows; row++) {
+            positions.push([row, column]);
+        }
+    }
+    if (dataLines.length !== positions.length) {
+        fail(dataLines[dataLines.length - 1]?.lineNumber ?? sizeLine.lineNumber, undefined, `expected ${positions.length} values, found ${dataLines.length}.`);
+    }
+    dataLines.forEach((line, index) => {
+        if (line.tokens.length !== 1) {
+            fail(line.lineNumber, undefined, `expected 1 value per line, found ${line.tokens.length}.`);
+        }
+        const [row, column] = positions[index];
+        place(matrix, row, column, parseNumber(line.tokens[0], line, 1), symmetry);
+    });
+    return matrix;
+};
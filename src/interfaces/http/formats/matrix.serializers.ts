@@ -0,0 +1,86 @@
+// src/interfaces/http/formats/matrix.serializers.ts
+
+import { Matrix } from '@domain/entities/matrix';
+
+/**
+ * Serializadores de UNA matriz a los formatos de texto y binarios que ofrece la API.
+ * Los números se escriben con la representación más corta que se lee de vuelta al mismo valor.
+ */
+
+/**
+ * @function toCsv
+ * @description Una fila por línea, con los valores separados por `delimiter` (la inversa de `parseCsvMatrix`).
+ */
+export const toCsv = (matrix: Matrix, delimiter: string = ','): string =>
+    matrix.map(row => row.map(String).join(delimiter)).join('\n') + '\n';
+
+/**
+ * @function toMatrixMarket
+ * @description Archivo Matrix Market denso (`array real general`, por columnas), que se lee con `mmread`
+ * de MATLAB o `scipy.io.mmread`.
+ * @param comment Comentario opcional tras la cabecera (ej. el nombre de la matriz).
+ */
+export const toMatrixMarket = (matrix: Matrix, comment?: string): string => {
+    const rows = matrix.length;
+    const columns = matrix[0]?.length ?? 0;
+    const lines = ['%%MatrixMarket matrix array real general'];
+    if (comment) {
+        lines.push(...comment.split('\n').map(line => `% ${line}`));
+    }
+    lines.push(`${rows} ${columns}`);
+    for (let column = 0; column < columns; column++) {
+        for (let row = 0; row < rows; row++) {
+            lines.push(String(matrix[row][column]));
+        }
+    }
+    return lines.join('\n') + '\n';
+};
+
+/**
+ * @function toNpy
+ * @description Archivo `.npy` de NumPy (versión 1.0): float64 little-endian, por filas, que se lee con `numpy.load`.
+ */
+export const toNpy = (matrix: Matrix): Buffer => {
+    const rows = matrix.length;
+    const columns = matrix[0]?.length ?? 0;
+
+    // La cabecera es un dict de Python rellenado con espacios para que los datos empiecen alineados a 64 bytes
+    const dict = `{'descr': '<f8', 'fortran_order': False, 'shape': (${rows}, ${columns}), }`;
+    const preambleLength = 10; // Magic (6) + versión (2) + longitud de la cabecera (2)
+    const headerLength = Math.ceil((preambleLength + dict.length + 1) / 64) * 64 - preambleLength;
+    const header = dict.padEnd(headerLength - 1, ' ') + '\n';
+
+    const buffer = Buffer.alloc(preambleLength + headerLength + rows * columns * 8);
+    buffer.write('\x93NUMPY', 0, 'latin1');
+    buffer.writeUInt8(1, 6);
+    buffer.writeUInt8(0, 7);
+    buffer.writeUInt16LE(headerLength, 8);
+    buffer.write(header, preambleLength, 'latin1');
+
+    let offset = preambleLength + headerLength;
+    for (const row of matrix) {
+        for (const value of row) {
+            buffer.writeDoubleLE(value, offset);
+            offset += 8;
+        }
+    }
+    return buffer;
+};
+
+/**
+ * Escribe un número para LaTeX; la notación exponencial (`1e-17`) pasa a `1 \times 10^{-17}`.
+ */
+const toLatexNumber = (value: number): string => {
+    const [mantissa, exponent] = String(value).split('e');
+    return exponent === undefined ? mantissa : `${mantissa} \\times 10^{${Number(exponent)}}`;
+};
+
+/**
+ * @function toLatexBmatrix
+ * @description Entorno `bmatrix` de amsmath con los valores de la matriz.
+ */
+export const toLatexBmatrix = (matrix: Matrix): string => [
+    '\\begin{bmatrix}',
+    matrix.map(row => '    ' + row.map(toLatexNumber).join(' & ')).join(' \\\\\n'),
+    '\\end{bmatrix}',
+].join('\n');
@@ -0,0 +1,81 @@
+// src/interfaces/http/formats/result-formatter.registry.ts
+
+import { BUILT_IN_RESULT_FORMATTERS, RESULT_MATRIX_NAMES, ResultFormatter, ResultMatrixName } from '@interfaces/http/formats/result-formatters';
+import { BadRequestError, NotAcceptableError } from '@domain/errors/app.errors';
+
+import { Request } from 'express';
+
+/**
+ * @interface NegotiatedResultFormat
+ * @description Formato elegido para una respuesta y las matrices que incluye.
+ */
+export interface NegotiatedResultFormat {
+    formatter: ResultFormatter;
+    matrices: ResultMatrixName[];
+}
+
+/**
+ * @class ResultFormatterRegistry
+ * @description Formatos en los que se puede devolver el resultado de `/process-matrix`. Elige uno por solicitud:
+ * - `?format=<nombre>` (ej. `?format=npy`) tiene prioridad, para clientes que no controlan la cabecera `Accept`.
+ * - Si no, se negocia con `Accept`. Sin `Accept`, se usa el primero registrado (JSON).
+ */
+export class ResultFormatterRegistry {
+    private readonly formatters = new Map<string, ResultFormatter>();
+
+    constructor(formatters: ResultFormatter[] = BUILT_IN_RESULT_FORMATTERS) {
+        formatters.forEach(formatter => this.register(formatter));
+    }
+
+    /**
+     * @method register
+     * @description Registra (o reemplaza) un formato.
+     */
+    public register(formatter: ResultFormatter): void {
+        this.formatters.set(formatter.name, formatter);
+    }
+
+    /**
+     * @method listFormatters
+     * @description Devuelve los formatos disponibles.
+     */
+    public listFormatters(): ResultFormatter[] {
+        return Array.from(this.formatters.values());
+    }
+
+    /**
+     * @method negotiate
+     * @description Elige el formato de la respuesta y las matrices a incluir (`?matrix=`; por defecto todas,
+     * o la rotada en los formatos de una sola matriz).
+     * @throws {NotAcceptableError} Si el formato pedido no existe o ningún tipo de `Accept` está disponible.
+     * @throws {BadRequestError} Si `matrix` no es el nombre de una matriz del resultado.
+     */
+    public negotiate(req: Request): NegotiatedResultFormat {
+        const { format, matrix } = (req.query ?? {}) as Record<string, unknown>;
+        const formatters = this.listFormatters();
+
+        let formatter: ResultFormatter | undefined;
+        if (format !== undefined) {
+            formatter = this.formatters.get(String(format));
+            if (!formatter) {
+                throw new NotAcceptableError(`Unknown format "${format}". Available: ${formatters.map(({ name }) => name).join(', ')}.`);
+            }
+        } else if (!req.headers?.accept) {
+            formatter = formatters[0];
+        } else {
+            const accepted = req.accepts(formatters.map(({ contentType }) => contentType));
+            formatter = accepted ? formatters.find(({ contentType }) => contentType === accepted) : undefined;
+            if (!formatter) {
+                throw new NotAcceptableError(`Accept one of ${formatters.map(({ contentType }) => contentType).join(', ')}, or use the format query parameter.`);
+            }
+        }
+
+        if (matrix !== undefined && !RESULT_MATRIX_NAMES.includes(matrix as ResultMatrixName)) {
+            throw new BadRequestError(`"matrix" must be one of ${RESULT_MATRIX_NAMES.join(', ')}.`);
+        }
+        const matrices: ResultMatrixName[] = matrix !== undefined
+            ? [matrix as ResultMatrixName]
+            : formatter.singleMatrix ? ['rotated'] : RESULT_MATRIX_NAMES;
+        return { formatter, matrices };
+    }
+}
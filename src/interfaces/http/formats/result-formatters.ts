@@ -0,0 +1,96 @@
+// src/interfaces/http/formats/result-formatters.ts
+
+import { Matrix, ProcessedMatrixResult } from '@domain/entities/matrix';
+import { toCsv, toLatexBmatrix, toMatrixMarket, toNpy } from '@interfaces/http/formats/matrix.serializers';
+
+import { createZipArchive } from '@shared/archive/zip';
+
+/**
+ * @typedef ResultMatrixName
+ * @description Matrices de un resultado que se pueden exportar (`?matrix=`).
+ */
+export type ResultMatrixName = 'original' | 'rotated' | 'q' | 'r';
+
+export const RESULT_MATRIX_NAMES: ResultMatrixName[] = ['original', 'rotated', 'q', 'r'];
+
+/**
+ * @interface ResultFormatter
+ * @description Una representación del resultado de `/process-matrix`. Para ofrecer un formato nuevo basta con
+ * registrar otro formatter (ver `ResultFormatterRegistry`).
+ */
+export interface ResultFormatter {
+    name: string;            // Valor de `?format=` (ej. `csv`)
+    contentType: string;     // Tipo MIME que se negocia con la cabecera `Accept`
+    description: string;
+    fileExtension?: string;  // Si se indica, la respuesta se sirve como adjunto `matrix-result.<extensión>`
+    singleMatrix?: boolean;  // Solo representa una matriz: la de `?matrix=` o, por defecto, la rotada
+    binary?: boolean;        // `format` devuelve un Buffer binario (no texto)
+    format(result: ProcessedMatrixResult, matrices: ResultMatrixName[]): string | Buffer;
+}
+
+const matrixOf = (result: ProcessedMatrixResult, name: ResultMatrixName): Matrix => ({
+    original: result.originalMatrix,
+    rotated: result.rotatedMatrix,
+    q: result.qrFactorization.Q,
+    r: result.qrFactorization.R,
+})[name];
+
+const LATEX_SYMBOLS: Record<ResultMatrixName, string> = {
+    original: 'A',
+    rotated: 'A_{\\mathrm{rot}}',
+    q: 'Q',
+    r: 'R',
+};
+
+/**
+ * Formatos integrados. Los que no son JSON solo llevan las matrices (sin estadísticas ni verificación).
+ */
+export const BUILT_IN_RESULT_FORMATTERS: ResultFormatter[] = [
+    {
+        name: 'json',
+        contentType: 'application/json',
+        description: 'The JSON envelope with the matrices, the QR factorization and the statistics.',
+        format: result => JSON.stringify({ message: 'Matrix processed and statistics generated successfully.', data: result }),
+    },
+    {
+        name: 'csv',
+        contentType: 'text/csv',
+        description: 'One CSV section per matrix, each preceded by a "# <name>" line and separated by a blank line.',
+        fileExtension: 'csv',
+        format: (result, matrices) => matrices.map(name => `# ${name}\n${toCsv(matrixOf(result, name))}`).join('\n'),
+    },
+    {
+        name: 'zip',
+        contentType: 'application/zip',
+        description: 'A zip bundle with one CSV file per matrix (original.csv, rotated.csv, q.csv, r.csv).',
+        fileExtension: 'zip',
+        binary: true,
+        format: (result, matrices) => createZipArchive(matrices.map(name => ({ name: `${name}.csv`, content: toCsv(matrixOf(result, name)) }))),
+    },
+    {
+        name: 'mtx',
+        contentType: 'application/x-matrix-market',
+        description: 'A dense Matrix Market file (array real general) with one matrix.',
+        fileExtension: 'mtx',
+        singleMatrix: true,
+        format: (result, [name]) => toMatrixMarket(matrixOf(result, name), `${name} matrix`),
+    },
+    {
+        name: 'npy',
+        contentType: 'application/x-npy',
+        description: 'A NumPy .npy file (float64, C order) with one matrix.',
+        fileExtension: 'npy',
+        singleMatrix: true,
+        binary: true,
+        format: (result, [name]) => toNpy(matrixOf(result, name)),
+    },
+    {
+        name: 'latex',
+        contentType: 'application/x-latex',
+        description: 'One amsmath bmatrix equation per matrix (e.g. "Q = \\begin{bmatrix} ... \\end{bmatrix}").',
+        fileExtension: 'tex',
+        format: (result, matrices) => matrices
+            .map(name => `${LATEX_SYMBOLS[name]} = ${toLatexBmatrix(matrixOf(result, name))}\n`)
+            .join('\n'),
+    },
+];
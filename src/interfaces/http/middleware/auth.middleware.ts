@@ -1,44 +1,78 @@
 // src/interfaces/http/middleware/auth.middleware.ts
 
-import { NextFunction, Request, Response } from 'express';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
 
+import { AccessTokenClaims } from '@domain/entities/session';
+import { ApiKeyAuthenticator } from '@application/services/api-key.authenticator';
+import { ApiKeyScope } from '@domain/entities/api-key';
+import { AuthSessionService } from '@application/services/auth-session.service';
+import { AuthenticatedUser } from '@domain/entities/user';
+import { MetricsRecorder } from '@application/ports/metrics.recorder';
 import { UnauthorizedError } from '@domain/errors/app.errors';
-import { config } from '../../../config'; // Usamos el alias para la configuración
-import jwt from 'jsonwebtoken';
+import { bindRequestContext } from '@shared/logging/request-context';
 
 // Extender el Request de Express para añadir la información del usuario
 declare global {
   namespace Express {
     interface Request {
-      user?: { // Puedes definir un tipo más específico para tu usuario si lo necesitas
-        id: string;
-        username: string;
-      };
+      user?: AuthenticatedUser;                          // id, username y roles del usuario autenticado
+      accessToken?: AccessTokenClaims;                   // Claims del JWT presentado (jti, sesión, expiración)
+      apiKey?: { id: string; scopes: ApiKeyScope[] };    // API key presentada (si se autenticó con `X-API-Key`)
     }
   }
 }
 
-export const authMiddleware = (req: Request, res: Response, next: NextFunction) => {
-  const authHeader = req.headers.authorization;
+/**
+ * Crea el middleware que exige un JWT de acceso válido y no revocado (`Authorization: Bearer <token>`)
+ * y expone la identidad del usuario en `req.user`.
+ * Si se indica un `apiKeyAuthenticator`, también acepta una API key en la cabecera `X-API-Key`
+ * (que tiene prioridad sobre el JWT); `req.user` se rellena igual, con el propietario de la key.
+ * @param authSessionService El servicio que verifica los tokens de acceso y su revocación.
+ * @param apiKeyAuthenticator El servicio que verifica las API keys (opcional).
+ * @param metrics Donde se registran los intentos de autenticación (opcional).
+ */
+export const createAuthMiddleware = (
+  authSessionService: AuthSessionService,
+  apiKeyAuthenticator?: ApiKeyAuthenticator,
+  metrics?: MetricsRecorder
+): RequestHandler =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    const apiKeyHeader = req.headers['x-api-key'];
 
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return next(new UnauthorizedError('No token provided or malformed token.'));
-  }
+    if (apiKeyAuthenticator && apiKeyHeader !== undefined) {
+      if (typeof apiKeyHeader !== 'string' || apiKeyHeader.length === 0) {
+        return next(new UnauthorizedError('Malformed API key.'));
+      }
+      try {
+        const { user, apiKey } = await apiKeyAuthenticator.authenticate(apiKeyHeader);
+        req.user = user;
+        req.apiKey = { id: apiKey.id, scopes: apiKey.scopes };
+        bindRequestContext({ userId: user.id });
+        metrics?.recordAuthAttempt('api_key', 'success');
+        return next();
+      } catch (err) {
+        metrics?.recordAuthAttempt('api_key', 'failure');
+        return next(err);
+      }
+    }
 
-  const token = authHeader.split(' ')[1];
+    const authHeader = req.headers.authorization;
 
-  try {
-    const decoded = jwt.verify(token, config.jwtSecret) as { id: string; username: string };
-    req.user = decoded;
-    next();
-  } catch (err: any) {
-    if (err.name === 'TokenExpiredError') {
-      return next(new UnauthorizedError('Token expired. Please log in again.'));
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return next(new UnauthorizedError('No token provided or malformed token.'));
     }
-    if (err.name === 'JsonWebTokenError') {
-      return next(new UnauthorizedError('Invalid token.'));
+
+    const token = authHeader.split(' ')[1];
+
+    try {
+      const claims = await authSessionService.verifyAccessToken(token);
+      req.user = { id: claims.id, username: claims.username, roles: claims.roles };
+      req.accessToken = claims;
+      bindRequestContext({ userId: claims.id });
+      metrics?.recordAuthAttempt('jwt', 'success');
+      next();
+    } catch (err) {
+      metrics?.recordAuthAttempt('jwt', 'failure');
+      next(err);
     }
-    // Otros errores inesperados al verificar el token
-    return next(new UnauthorizedError('Authentication failed.'));
-  }
-};
\ No newline at end of file
+  };
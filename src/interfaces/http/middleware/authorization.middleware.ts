@@ -0,0 +1,60 @@
+// src/interfaces/http/middleware/authorization.middleware.ts
+
+import { ForbiddenError, UnauthorizedError } from '@domain/errors/app.errors';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+
+import { ApiKeyScope } from '@domain/entities/api-key';
+import { MatrixLimits } from '@domain/entities/matrix';
+import { MatrixLimitsPolicy } from '@application/services/matrix-limits.policy';
+import { UserRole } from '@domain/entities/user';
+
+declare global {
+  namespace Express {
+    interface Request {
+      matrixLimits?: MatrixLimits; // Límites de tamaño de matrices del usuario autenticado
+    }
+  }
+}
+
+/**
+ * Crea un middleware que exige que el usuario autenticado tenga al menos uno de los roles indicados.
+ * Debe montarse después del middleware de autenticación.
+ * @example router.get('/', requireRoles('admin'), handler)
+ */
+export const requireRoles = (...roles: UserRole[]): RequestHandler =>
+  (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return next(new UnauthorizedError('Authentication required.'));
+    }
+    if (!req.user.roles.some(role => roles.includes(role))) {
+      return next(new ForbiddenError(`This action requires one of the roles: ${roles.join(', ')}.`));
+    }
+    next();
+  };
+
+/**
+ * Crea un middleware que exige que una petición autenticada con API key tenga todos los scopes indicados.
+ * Las peticiones autenticadas con JWT de usuario no están limitadas por scopes.
+ * Debe montarse después del middleware de autenticación.
+ * @example app.use('/api/matrix/jobs', requireScopes('matrix:jobs'))
+ */
+export const requireScopes = (...scopes: ApiKeyScope[]): RequestHandler =>
+  (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return next(new UnauthorizedError('Authentication required.'));
+    }
+    if (req.apiKey && !scopes.every(scope => req.apiKey!.scopes.includes(scope))) {
+      return next(new ForbiddenError(`This API key lacks the required scopes: ${scopes.join(', ')}.`));
+    }
+    next();
+  };
+
+/**
+ * Crea el middleware que resuelve los límites de matrices del usuario autenticado y los expone en `req.matrixLimits`.
+ * @param policy La política que asigna límites según los roles.
+ */
+export const createMatrixLimitsMiddleware = (policy: MatrixLimitsPolicy): RequestHandler =>
+  (req: Request, res: Response, next: NextFunction) => {
+    req.matrixLimits = policy.forRoles(req.user?.roles ?? []);
+    next();
+  };
@@ -0,0 +1,35 @@
+// src/interfaces/http/middleware/http-metrics.middleware.ts
+
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+
+import { MetricsRecorder } from '@application/ports/metrics.recorder';
+
+// Prefijo de montaje del último router en el que entró cada solicitud (ver `recordRouteBaseUrl`)
+const routeBaseUrls = new WeakMap<Request, string>();
+
+/**
+ * Middleware que se monta delante de cada router para recordar su prefijo (`req.baseUrl`).
+ * Express restaura `req.baseUrl` al salir de un router, así que en una solicitud que falla con `next(error)`
+ * ya no es el del router de la ruta cuando la respuesta termina; el prefijo recordado sí lo es.
+ */
+export const recordRouteBaseUrl: RequestHandler = (req: Request, res: Response, next: NextFunction) => {
+  routeBaseUrls.set(req, req.baseUrl);
+  next();
+};
+
+/**
+ * Crea el middleware que registra cada solicitud (método, plantilla de ruta, estado y latencia).
+ * Se usa la plantilla de la ruta (ej. `/api/matrix/jobs/:id`) y no la URL, para acotar las series;
+ * las solicitudes que no coinciden con ninguna ruta se agrupan como `unmatched`.
+ * Debe montarse antes que las rutas, y los routers con `recordRouteBaseUrl` delante.
+ * @param metrics Donde se registran las métricas.
+ */
+export const createHttpMetricsMiddleware = (metrics: MetricsRecorder): RequestHandler =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const startedAt = process.hrtime.bigint();
+    res.on('finish', () => {
+      const route = req.route ? `${routeBaseUrls.get(req) ?? req.baseUrl}${req.route.path}` : 'unmatched';
+      metrics.observeHttpRequest(req.method, route, res.statusCode, Number(process.hrtime.bigint() - startedAt) / 1e9);
+    });
+    next();
+  };
@@ -0,0 +1,58 @@
+// src/interfaces/http/middleware/in-flight.middleware.ts
+
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+
+/**
+ * @class InFlightRequestTracker
+ * @description Cuenta las solicitudes HTTP en curso, para que el apagado ordenado pueda esperar a que terminen.
+ */
+export class InFlightRequestTracker {
+    private active = 0;
+    private draining = false;
+    private readonly idleWaiters: Array<() => void> = [];
+
+    public get count(): number {
+        return this.active;
+    }
+
+    public get isDraining(): boolean {
+        return this.draining;
+    }
+
+    public begin(): void {
+        this.active++;
+    }
+
+    public end(): void {
+        this.active--;
+        if (this.active === 0) {
+            this.idleWaiters.splice(0).forEach(resolve => resolve());
+        }
+    }
+
+    /**
+     * @method drain
+     * @description Marca el inicio del apagado y espera a que no quede ninguna solicitud en curso.
+     */
+    public drain(): Promise<void> {
+        this.draining = true;
+        if (this.active === 0) return Promise.resolve();
+        return new Promise(resolve => this.idleWaiters.push(resolve));
+    }
+}
+
+/**
+ * Crea el middleware que registra cada solicitud en `tracker` hasta que su respuesta termina (o se aborta).
+ * Durante el apagado, las respuestas llevan `Connection: close`, para que los clientes con keep-alive
+ * abran su próxima conexión contra otra instancia. Debe montarse antes que las rutas.
+ * @param tracker El contador de solicitudes en curso.
+ */
+export const createInFlightTrackingMiddleware = (tracker: InFlightRequestTracker): RequestHandler =>
+  (req: Request, res: Response, next: NextFunction) => {
+    tracker.begin();
+    res.once('close', () => tracker.end());
+    if (tracker.isDraining) {
+      res.setHeader('Connection', 'close');
+    }
+    next();
+  };
@@ -0,0 +1,42 @@
+// src/interfaces/http/middleware/internal-auth.middleware.ts
+
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+
+import { UnauthorizedError } from '@domain/errors/app.errors';
+
+/**
+ * Compara dos tokens en tiempo constante. Se comparan los hashes SHA-256 para que
+ * ambos buffers tengan siempre la misma longitud y no se filtre el tamaño del token.
+ */
+const tokensMatch = (provided: string, expected: string): boolean => {
+  const providedDigest = createHash('sha256').update(provided).digest();
+  const expectedDigest = createHash('sha256').update(expected).digest();
+  return timingSafeEqual(providedDigest, expectedDigest);
+};
+
+/**
+ * Crea el middleware de autenticación servicio-a-servicio para las rutas internas.
+ * La API de Go debe enviar `Authorization: Bearer <INTERNAL_API_TOKEN>`.
+ * Este token es independiente de los JWT de usuario: un JWT válido NO da acceso a estas rutas.
+ * @param serviceToken El token compartido con la API de Go. Si está vacío, se rechazan todas las solicitudes.
+ */
+export const createInternalAuthMiddleware = (serviceToken: string): RequestHandler => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!serviceToken) {
+      return next(new UnauthorizedError('Internal API token is not configured.'));
+    }
+
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return next(new UnauthorizedError('No service token provided or malformed token.'));
+    }
+
+    const token = authHeader.split(' ')[1];
+    if (!token || !tokensMatch(token, serviceToken)) {
+      return next(new UnauthorizedError('Invalid service token.'));
+    }
+
+    next();
+  };
+};
@@ -0,0 +1,62 @@
+// src/interfaces/http/middleware/matrix-body.middleware.ts
+
+import { BadRequestError, UnsupportedMediaTypeError } from '@domain/errors/app.errors';
+import { CsvMatrixOptions, parseCsvMatrix } from '@interfaces/http/formats/csv-matrix.parser';
+import express, { NextFunction, Request, RequestHandler, Response } from 'express';
+
+import { createCallerSizedBodyParser } from '@interfaces/http/utils/request-body';
+import { parseMatrixMarket } from '@interfaces/http/formats/matrix-market.parser';
+
+export const CSV_CONTENT_TYPE = 'text/csv';
+export const MATRIX_MARKET_CONTENT_TYPES = ['application/x-matrix-market', 'text/x-matrix-market'];
+
+const SUPPORTED_CONTENT_TYPES = ['application/json', CSV_CONTENT_TYPE, ...MATRIX_MARKET_CONTENT_TYPES];
+
+/**
+ * Lee las opciones del CSV de la query: `delimiter` (un carácter, o `tab`) y `header=true` para descartar la primera línea.
+ * @throws {BadRequestError} Si el delimitador no es válido.
+ */
+const csvOptionsFrom = (req: Request): CsvMatrixOptions => {
+    const { delimiter = ',', header } = req.query as Record<string, unknown>;
+    if (delimiter !== 'tab' && (typeof delimiter !== 'string' || delimiter.length !== 1 || delimiter === '"')) {
+        throw new BadRequestError('"delimiter" must be a single character (other than a double quote) or "tab".');
+    }
+    return {
+        delimiter: delimiter === 'tab' ? '\t' : delimiter,
+        hasHeader: header === 'true',
+        maxElements: req.matrixLimits?.maxElements,
+    };
+};
+
+/**
+ * Crea los middlewares que aceptan la matriz de `/process-matrix` en varios formatos, según el Content-Type:
+ * - `application/json`: `{ "matrix": [[...]], "stats": [...] }` (lo interpreta `express.json`).
+ * - `text/csv`: una fila por línea (ver `csvOptionsFrom`).
+ * - `application/x-matrix-market` o `text/x-matrix-market`: un archivo Matrix Market (`.mtx`).
+ * Los formatos de texto se convierten en `req.body = { matrix }`, para que la validación y el controlador
+ * no distingan el formato; la selección de estadísticas se lee entonces de la query (`?stats=`).
+ * El tamaño máximo del cuerpo de texto es el de los límites de matrices del solicitante, como el del JSON.
+ * @throws {UnsupportedMediaTypeError} Si el cuerpo tiene otro Content-Type.
+ * @throws {InvalidMatrixError} Si el texto no es una matriz válida (con la línea y la columna del error).
+ */
+export const createMatrixBodyParser = (): RequestHandler[] => [
+    createCallerSizedBodyParser(limit => express.text({ type: [CSV_CONTENT_TYPE, ...MATRIX_MARKET_CONTENT_TYPES], limit })),
+    (req: Request, res: Response, next: NextFunction) => {
+        // `req.is` devuelve null si la solicitud no tiene cuerpo
+        if (req.is(SUPPORTED_CONTENT_TYPES) === false) {
+            return next(new UnsupportedMediaTypeError(`Send the matrix as ${SUPPORTED_CONTENT_TYPES.join(', ')}.`));
+        }
+        if (typeof req.body !== 'string') {
+            return next();
+        }
+        try {
+            const matrix = req.is(CSV_CONTENT_TYPE)
+                ? parseCsvMatrix(req.body, csvOptionsFrom(req))
+                : parseMatrixMarket(req.body, { maxElements: req.matrixLimits?.maxElements });
+            req.body = { matrix };
+            next();
+        } catch (error) {
+            next(error);
+        }
+    },
+];
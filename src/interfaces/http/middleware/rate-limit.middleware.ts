@@ -0,0 +1,38 @@
+// src/interfaces/http/middleware/rate-limit.middleware.ts
+
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+
+import { RateLimitExceededError } from '@domain/errors/app.errors';
+import { TokenBucketRateLimiter } from '@application/services/token-bucket.rate-limiter';
+
+/**
+ * Clave del cliente: el usuario autenticado si lo hay, o la IP en caso contrario.
+ */
+const clientKeyOf = (req: Request): string => req.user ? `user:${req.user.id}` : `ip:${req.ip}`;
+
+/**
+ * Crea el middleware que limita las solicitudes de cada cliente (por usuario si está autenticado, por IP si no)
+ * y añade las cabeceras `RateLimit-Limit`, `RateLimit-Remaining` y `RateLimit-Reset` (segundos).
+ * Las solicitudes que exceden el límite se rechazan con `429 RATE_LIMIT_EXCEEDED` y la cabecera `Retry-After`.
+ * Para limitar por usuario, debe montarse después del middleware de autenticación.
+ * @param rateLimiter El limitador con la política de la ruta.
+ */
+export const createRateLimitMiddleware = (rateLimiter: TokenBucketRateLimiter): RequestHandler =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const decision = await rateLimiter.consume(clientKeyOf(req));
+
+      res.setHeader('RateLimit-Limit', decision.limit);
+      res.setHeader('RateLimit-Remaining', decision.remaining);
+      res.setHeader('RateLimit-Reset', Math.ceil(decision.resetMs / 1000));
+
+      if (!decision.allowed) {
+        const retryAfterSeconds = Math.ceil(decision.retryAfterMs / 1000);
+        res.setHeader('Retry-After', retryAfterSeconds);
+        return next(new RateLimitExceededError(`Rate limit of ${decision.limit} requests exceeded. Retry in ${retryAfterSeconds} seconds.`));
+      }
+      next();
+    } catch (err) {
+      next(err);
+    }
+  };
@@ -0,0 +1,62 @@
+// src/interfaces/http/middleware/request-logging.middleware.ts
+
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+
+import { Logger } from '@shared/logging/logger';
+import { randomUUID } from 'crypto';
+import { runWithRequestContext } from '@shared/logging/request-context';
+
+// Un X-Request-ID recibido solo se acepta si es corto y sin caracteres extraños (se reenvía a Go y se escribe en el log)
+const VALID_REQUEST_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+
+declare global {
+  namespace Express {
+    interface Request {
+      requestId?: string; // Id de la solicitud (recibido en X-Request-ID o generado)
+    }
+  }
+}
+
+/**
+ * Crea el middleware que abre el contexto de la solicitud y registra su finalización:
+ * 1. Acepta el `X-Request-ID` recibido (si es válido) o genera uno, y lo devuelve en la respuesta.
+ * 2. Ejecuta el resto de la cadena dentro del contexto, para que todas las entradas del log
+ *    (y las llamadas a la API de Go) lleven el id de la solicitud.
+ * 3. Al terminar, registra el método, la ruta, el estado, la latencia y el usuario.
+ * Debe montarse antes que cualquier otro middleware.
+ * @param logger El logger donde se registran las solicitudes.
+ */
+export const createRequestLoggingMiddleware = (logger: Logger): RequestHandler =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const received = req.get('X-Request-ID');
+    const requestId = received && VALID_REQUEST_ID.test(received) ? received : randomUUID();
+    const path = req.originalUrl.split('?')[0];
+    const startedAt = process.hrtime.bigint();
+
+    req.requestId = requestId;
+    res.setHeader('X-Request-ID', requestId);
+
+    runWithRequestContext({ requestId, method: req.method, path }, () => {
+      res.on('finish', () => {
+        const latencyMs = Number(process.hrtime.bigint() - startedAt) / 1e6;
+        // 'finish' se emite fuera del contexto asíncrono de la solicitud: los campos se pasan explícitamente
+        const fields = {
+          requestId,
+          method: req.method,
+          path,
+          route: req.route ? `${req.baseUrl}${req.route.path}` : undefined,
+          status: res.statusCode,
+          latencyMs: Math.round(latencyMs * 100) / 100,
+          userId: req.user?.id,
+        };
+        if (res.statusCode >= 500) {
+          logger.error('Request completed', fields);
+        } else if (res.statusCode >= 400) {
+          logger.warn('Request completed', fields);
+        } else {
+          logger.info('Request completed', fields);
+        }
+      });
+      next();
+    });
+  };
@@ -0,0 +1,24 @@
+// src/interfaces/http/middleware/validation.middleware.ts
+
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+
+import { ApiOperation } from '@interfaces/http/openapi/api-operation';
+import { ValidationError } from '@domain/errors/app.errors';
+import { validateSchema } from '@shared/validation/json-schema';
+
+/**
+ * Crea un middleware que valida los parámetros de ruta, la query y el cuerpo de la solicitud contra los esquemas
+ * de la operación. Si algo no los cumple, responde 400 `VALIDATION_ERROR` con la lista de campos inválidos.
+ * Debe montarse en la misma ruta que la operación (para que `req.params` esté resuelto).
+ * @example router.post('/login', validateRequest(authOperations.login), handler)
+ */
+export const validateRequest = (operation: ApiOperation): RequestHandler =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const violations = [
+      ...(operation.params ? validateSchema(operation.params, req.params, 'params') : []),
+      ...(operation.query ? validateSchema(operation.query, req.query, 'query') : []),
+      // Sin cuerpo JSON (o sin Content-Type), express.json deja req.body sin definir
+      ...(operation.body ? validateSchema(operation.body, req.body ?? {}, 'body') : []),
+    ];
+    next(violations.length > 0 ? new ValidationError(violations) : undefined);
+  };
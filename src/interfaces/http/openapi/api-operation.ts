@@ -0,0 +1,63 @@
+// src/interfaces/http/openapi/api-operation.ts
+
+import { JsonSchema } from '@shared/validation/json-schema';
+
+/**
+ * @typedef SecuritySchemeName
+ * @description Esquemas de autenticación publicados en el documento OpenAPI:
+ * - `bearerAuth`: JWT de usuario (`Authorization: Bearer <token>`).
+ * - `apiKeyAuth`: API key (`X-API-Key`).
+ * - `metricsToken`: token de `METRICS_TOKEN` para `/metrics`.
+ */
+export type SecuritySchemeName = 'bearerAuth' | 'apiKeyAuth' | 'metricsToken';
+
+/**
+ * @interface ApiResponseSpec
+ * @description Respuesta documentada de una operación. Sin `schema`, la respuesta no tiene cuerpo (ej. 204).
+ */
+export interface ApiResponseSpec {
+    description: string;
+    schema?: JsonSchema;
+    contentType?: string; // Por defecto, application/json
+    // Otras representaciones de la misma respuesta, por Content-Type, elegidas por negociación (ej. `text/csv`)
+    alternatives?: Record<string, ApiAlternativeResponseSpec>;
+}
+
+/**
+ * @interface ApiAlternativeResponseSpec
+ * @description Representación alternativa de una respuesta, en texto o binaria.
+ */
+export interface ApiAlternativeResponseSpec {
+    description: string;
+    binary?: boolean;
+}
+
+/**
+ * @interface ApiTextBodySpec
+ * @description Cuerpo de texto alternativo al JSON (ej. una matriz en CSV), que se convierte antes de validarse.
+ */
+export interface ApiTextBodySpec {
+    description: string;
+    example?: string;
+}
+
+/**
+ * @interface ApiOperation
+ * @description Describe una ruta de la API: sus esquemas de solicitud, que aplica el middleware `validateRequest`,
+ * y sus respuestas. El documento OpenAPI se genera a partir de estas mismas definiciones.
+ */
+export interface ApiOperation {
+    operationId: string;
+    method: 'get' | 'post' | 'put' | 'delete';
+    path: string; // Ruta completa en formato OpenAPI (ej. /api/users/{id})
+    tags: string[];
+    summary: string;
+    description?: string;
+    security?: SecuritySchemeName[]; // Basta con cualquiera de ellos; sin valor, la ruta es pública
+    params?: JsonSchema;  // Esquema (objeto) de los parámetros de la ruta
+    query?: JsonSchema;   // Esquema (objeto) de la query string
+    body?: JsonSchema;    // Esquema del cuerpo JSON
+    // Formatos de texto que la ruta acepta además de JSON, por Content-Type (ej. `text/csv`)
+    textBodies?: Record<string, ApiTextBodySpec>;
+    responses: Record<number, ApiResponseSpec>;
+}
@@ -0,0 +1,132 @@
+// src/interfaces/http/openapi/openapi.document.ts
+
+import { ApiOperation, SecuritySchemeName } from '@interfaces/http/openapi/api-operation';
+
+import { JsonSchema } from '@shared/validation/json-schema';
+
+/**
+ * @interface OpenApiInfo
+ * @description Datos generales del documento OpenAPI (sección `info`).
+ */
+export interface OpenApiInfo {
+    title: string;
+    version: string;
+    description?: string;
+}
+
+type SchemaObject = JsonSchema | { $ref: string };
+
+const SECURITY_SCHEMES: Record<SecuritySchemeName, object> = {
+    bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+    apiKeyAuth: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+    metricsToken: { type: 'http', scheme: 'bearer', description: 'The METRICS_TOKEN of the deployment.' },
+};
+
+/**
+ * Reemplaza los esquemas con `title` por referencias a `#/components/schemas/<title>`, registrándolos en `components`.
+ */
+const toSchemaObject = (schema: JsonSchema, components: Record<string, SchemaObject>, isComponent: boolean = false): SchemaObject => {
+    if (schema.title && !isComponent) {
+        if (!components[schema.title]) {
+            components[schema.title] = {}; // Reserva el nombre antes de recorrerlo
+            components[schema.title] = toSchemaObject(schema, components, true);
+        }
+        return { $ref: `#/components/schemas/${schema.title}` };
+    }
+
+    const { properties, items, additionalProperties, anyOf, ...rest } = schema;
+    const result: Record<string, unknown> = { ...rest };
+    if (properties) {
+        result.properties = Object.fromEntries(
+            Object.entries(properties).map(([name, property]) => [name, toSchemaObject(property, components)])
+        );
+    }
+    if (items) result.items = toSchemaObject(items, components);
+    if (additionalProperties !== undefined) {
+        result.additionalProperties = typeof additionalProperties === 'object'
+            ? toSchemaObject(additionalProperties, components)
+            : additionalProperties;
+    }
+    if (anyOf) result.anyOf = anyOf.map(option => toSchemaObject(option, components));
+    return result as SchemaObject;
+};
+
+/**
+ * Convierte el esquema (objeto) de los parámetros de ruta o de query en parámetros de OpenAPI.
+ */
+const toParameters = (schema: JsonSchema | undefined, location: 'path' | 'query', components: Record<string, SchemaObject>) =>
+    Object.entries(schema?.properties ?? {}).map(([name, property]) => ({
+        name,
+        in: location,
+        required: location === 'path' || (schema?.required ?? []).includes(name),
+        ...(property.description && { description: property.description }),
+        schema: toSchemaObject(property, components),
+    }));
+
+/**
+ * @function buildOpenApiDocument
+ * @description Genera el documento OpenAPI 3.0 de la API a partir de las definiciones de sus operaciones
+ * (las mismas con las que `validateRequest` valida las solicitudes).
+ * @param operations Las operaciones montadas en la aplicación.
+ * @param info Título, versión y descripción del documento.
+ */
+export const buildOpenApiDocument = (operations: ApiOperation[], info: OpenApiInfo): Record<string, unknown> => {
+    const components: Record<string, SchemaObject> = {};
+    const usedSecuritySchemes = new Set<SecuritySchemeName>();
+    const paths: Record<string, Record<string, unknown>> = {};
+
+    for (const operation of operations) {
+        operation.security?.forEach(name => usedSecuritySchemes.add(name));
+        const parameters = [
+            ...toParameters(operation.params, 'path', components),
+            ...toParameters(operation.query, 'query', components),
+        ];
+
+        paths[operation.path] = paths[operation.path] ?? {};
+        paths[operation.path][operation.method] = {
+            operationId: operation.operationId,
+            tags: operation.tags,
+            summary: operation.summary,
+            ...(operation.description && { description: operation.description }),
+            ...(operation.security && { security: operation.security.map(name => ({ [name]: [] })) }),
+            ...(parameters.length > 0 && { parameters }),
+            ...(operation.body && {
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': { schema: toSchemaObject(operation.body, components) },
+                        ...Object.fromEntries(Object.entries(operation.textBodies ?? {}).map(([contentType, { description, example }]) => [
+                            contentType,
+                            { schema: { type: 'string', description, ...(example && { example }) } },
+                        ])),
+                    },
+                },
+            }),
+            responses: Object.fromEntries(Object.entries(operation.responses).map(([statusCode, response]) => [
+                statusCode,
+                {
+                    description: response.description,
+                    ...(response.schema && {
+                        content: {
+                            [response.contentType ?? 'application/json']: { schema: toSchemaObject(response.schema, components) },
+                            ...Object.fromEntries(Object.entries(response.alternatives ?? {}).map(([contentType, { description, binary }]) => [
+                                contentType,
+                                { schema: { type: 'string', ...(binary && { format: 'binary' }), description } },
+                            ])),
+                        },
+                    }),
+                },
+            ])),
+        };
+    }
+
+    return {
+        openapi: '3.0.3',
+        info,
+        paths,
+        components: {
+            schemas: components,
+            securitySchemes: Object.fromEntries([...usedSecuritySchemes].map(name => [name, SECURITY_SCHEMES[name]])),
+        },
+    };
+};
@@ -0,0 +1,70 @@
+// src/interfaces/http/openapi/operations/api-key.operations.ts
+
+import { dataEnvelope, errorResponses, idParamsSchema, publicApiKeySchema } from '@interfaces/http/openapi/schemas';
+
+import { API_KEY_SCOPES } from '@domain/entities/api-key';
+import { ApiOperation } from '@interfaces/http/openapi/api-operation';
+import { MAX_LABEL_LENGTH } from '@application/use-cases/api-keys/create-api-key.usecase';
+
+/**
+ * Operaciones de `/api/api-keys`: las API keys del usuario autenticado (solo con JWT).
+ */
+export const apiKeyOperations = {
+    create: {
+        operationId: 'createApiKey',
+        method: 'post',
+        path: '/api/api-keys',
+        tags: ['API keys'],
+        summary: 'Create an API key',
+        description: 'The plain key is only returned in this response; store it now.',
+        security: ['bearerAuth'],
+        body: {
+            type: 'object',
+            required: ['label', 'scopes'],
+            properties: {
+                label: { type: 'string', minLength: 1, maxLength: MAX_LABEL_LENGTH },
+                scopes: { type: 'array', minItems: 1, items: { type: 'string', enum: API_KEY_SCOPES } },
+                expiresAt: { type: 'string', format: 'date-time', nullable: true, description: 'Expiration date; null or omitted for keys that never expire.' },
+            },
+        },
+        responses: {
+            201: {
+                description: 'API key created.',
+                schema: dataEnvelope({
+                    type: 'object',
+                    required: ['key', 'apiKey'],
+                    properties: {
+                        key: { type: 'string', description: 'The plain key, to send as `X-API-Key`.' },
+                        apiKey: publicApiKeySchema,
+                    },
+                }, true),
+            },
+            ...errorResponses(400, 401),
+        },
+    },
+    list: {
+        operationId: 'listApiKeys',
+        method: 'get',
+        path: '/api/api-keys',
+        tags: ['API keys'],
+        summary: 'List your API keys',
+        security: ['bearerAuth'],
+        responses: {
+            200: { description: 'API keys of the authenticated user.', schema: dataEnvelope({ type: 'array', items: publicApiKeySchema }) },
+            ...errorResponses(401),
+        },
+    },
+    revoke: {
+        operationId: 'revokeApiKey',
+        method: 'delete',
+        path: '/api/api-keys/{id}',
+        tags: ['API keys'],
+        summary: 'Revoke one of your API keys',
+        security: ['bearerAuth'],
+        params: idParamsSchema,
+        responses: {
+            200: { description: 'API key revoked.', schema: dataEnvelope(publicApiKeySchema, true) },
+            ...errorResponses(401, 404),
+        },
+    },
+} satisfies Record<string, ApiOperation>;
@@ -0,0 +1,121 @@
+// src/interfaces/http/openapi/operations/auth.operations.ts
+
+import { PASSWORD_MAX_LENGTH, PASSWORD_MIN_LENGTH, USERNAME_PATTERN } from '@application/use-cases/auth/credential-rules';
+import { dataEnvelope, errorResponses, publicUserSchema } from '@interfaces/http/openapi/schemas';
+
+import { ApiOperation } from '@interfaces/http/openapi/api-operation';
+import { JsonSchema } from '@shared/validation/json-schema';
+
+const sessionTokensSchema: JsonSchema = {
+    title: 'SessionTokens',
+    type: 'object',
+    required: ['token', 'refreshToken'],
+    properties: {
+        token: { type: 'string', description: 'Short-lived JWT to send as `Authorization: Bearer <token>`.' },
+        refreshToken: { type: 'string', description: 'Single-use token to obtain a new pair from /api/auth/refresh.' },
+    },
+};
+
+const newPasswordSchema: JsonSchema = { type: 'string', minLength: PASSWORD_MIN_LENGTH, maxLength: PASSWORD_MAX_LENGTH };
+
+/**
+ * Operaciones de `/api/auth`: inicio y cierre de sesión, renovación de tokens, registro y cambio de contraseña.
+ */
+export const authOperations = {
+    login: {
+        operationId: 'login',
+        method: 'post',
+        path: '/api/auth/login',
+        tags: ['Auth'],
+        summary: 'Log in with username and password',
+        body: {
+            type: 'object',
+            required: ['username', 'password'],
+            properties: {
+                username: { type: 'string', minLength: 1 },
+                password: { type: 'string', minLength: 1 },
+            },
+        },
+        responses: {
+            200: {
+                description: 'Session opened.',
+                schema: {
+                    type: 'object',
+                    required: ['token', 'refreshToken', 'user'],
+                    properties: { ...sessionTokensSchema.properties, user: publicUserSchema },
+                },
+            },
+            ...errorResponses(400, 401, 403, 429),
+        },
+    },
+    refresh: {
+        operationId: 'refreshSession',
+        method: 'post',
+        path: '/api/auth/refresh',
+        tags: ['Auth'],
+        summary: 'Exchange a refresh token for a new token pair',
+        description: 'The refresh token is rotated: the one sent stops working. Reusing it revokes the whole session.',
+        body: {
+            type: 'object',
+            required: ['refreshToken'],
+            properties: { refreshToken: { type: 'string', minLength: 1 } },
+        },
+        responses: {
+            200: { description: 'New token pair.', schema: sessionTokensSchema },
+            ...errorResponses(400, 401, 403),
+        },
+    },
+    register: {
+        operationId: 'register',
+        method: 'post',
+        path: '/api/auth/register',
+        tags: ['Auth'],
+        summary: 'Register a user with the "user" role',
+        description: 'Returns 403 when self-service registration is disabled.',
+        body: {
+            type: 'object',
+            required: ['username', 'password'],
+            properties: {
+                username: { type: 'string', pattern: USERNAME_PATTERN.source },
+                password: newPasswordSchema,
+            },
+        },
+        responses: {
+            201: { description: 'User registered.', schema: dataEnvelope(publicUserSchema, true) },
+            ...errorResponses(400, 403, 409),
+        },
+    },
+    logout: {
+        operationId: 'logout',
+        method: 'post',
+        path: '/api/auth/logout',
+        tags: ['Auth'],
+        summary: 'Revoke the current access token and its session',
+        security: ['bearerAuth'],
+        responses: {
+            204: { description: 'Session closed.' },
+            ...errorResponses(401),
+        },
+    },
+    changePassword: {
+        operationId: 'changePassword',
+        method: 'post',
+        path: '/api/auth/password',
+        tags: ['Auth'],
+        summary: 'Change the password of the authenticated user',
+        description: 'Revokes every session of the user.',
+        security: ['bearerAuth'],
+        body: {
+            type: 'object',
+            required: ['currentPassword', 'newPassword'],
+            properties: {
+                currentPassword: { type: 'string', minLength: 1 },
+                newPassword: newPasswordSchema,
+            },
+        },
+        responses: {
+            204: { description: 'Password changed.' },
+            ...errorResponses(400, 401),
+        },
+    },
+} satisfies Record<string, ApiOperation>;
@@ -0,0 +1,67 @@
+// src/interfaces/http/openapi/operations/cache.operations.ts
+
+import { dataEnvelope, errorResponses } from '@interfaces/http/openapi/schemas';
+
+import { ApiOperation } from '@interfaces/http/openapi/api-operation';
+
+/**
+ * Operaciones de `/api/matrix/cache`: administración del caché de resultados (solo administradores).
+ */
+export const cacheOperations = {
+    getStats: {
+        operationId: 'getCacheStats',
+        method: 'get',
+        path: '/api/matrix/cache/stats',
+        tags: ['Cache'],
+        summary: 'Get the occupancy and counters of the result cache',
+        security: ['bearerAuth', 'apiKeyAuth'],
+        responses: {
+            200: {
+                description: 'Cache statistics.',
+                schema: dataEnvelope({
+                    type: 'object',
+                    properties: {
+                        entries: { type: 'integer' },
+                        bytes: { type: 'integer' },
+                        maxEntries: { type: 'integer' },
+                        maxBytes: { type: 'integer' },
+                        hits: { type: 'integer' },
+                        misses: { type: 'integer' },
+                        evictions: { type: 'integer' },
+                        inFlight: { type: 'integer' },
+                    },
+                }),
+            },
+            ...errorResponses(401, 403),
+        },
+    },
+    flush: {
+        operationId: 'flushCache',
+        method: 'delete',
+        path: '/api/matrix/cache',
+        tags: ['Cache'],
+        summary: 'Remove every entry of the result cache',
+        security: ['bearerAuth', 'apiKeyAuth'],
+        responses: {
+            200: {
+                description: 'Cache flushed.',
+                schema: dataEnvelope({ type: 'object', properties: { removed: { type: 'integer' } } }, true),
+            },
+            ...errorResponses(401, 403),
+        },
+    },
+    invalidate: {
+        operationId: 'invalidateCacheEntry',
+        method: 'delete',
+        path: '/api/matrix/cache/{key}',
+        tags: ['Cache'],
+        summary: 'Remove one entry of the result cache',
+        description: 'The key is the `cache.key` of a matrix processing response.',
+        security: ['bearerAuth', 'apiKeyAuth'],
+        params: { type: 'object', required: ['key'], properties: { key: { type: 'string', minLength: 1 } } },
+        responses: {
+            204: { description: 'Entry removed.' },
+            ...errorResponses(401, 403, 404),
+        },
+    },
+} satisfies Record<string, ApiOperation>;
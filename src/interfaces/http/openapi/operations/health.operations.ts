@@ -0,0 +1,58 @@
+// src/interfaces/http/openapi/operations/health.operations.ts
+
+import { ApiOperation } from '@interfaces/http/openapi/api-operation';
+import { JsonSchema } from '@shared/validation/json-schema';
+
+const healthStatusSchema: JsonSchema = { type: 'string', enum: ['up', 'degraded', 'down'] };
+
+const healthReportSchema: JsonSchema = {
+    title: 'HealthReport',
+    type: 'object',
+    required: ['status', 'checkedAt', 'dependencies'],
+    properties: {
+        status: healthStatusSchema,
+        checkedAt: { type: 'string', format: 'date-time' },
+        dependencies: {
+            type: 'object',
+            additionalProperties: {
+                type: 'object',
+                required: ['status'],
+                properties: {
+                    status: healthStatusSchema,
+                    latencyMs: { type: 'number' },
+                    message: { type: 'string' },
+                },
+            },
+        },
+    },
+};
+
+/**
+ * Operaciones de `/health`: sondas de liveness y readiness.
+ */
+export const healthOperations = {
+    live: {
+        operationId: 'getLiveness',
+        method: 'get',
+        path: '/health/live',
+        tags: ['Health'],
+        summary: 'Liveness probe (does not check dependencies)',
+        responses: {
+            200: {
+                description: 'The process is serving requests.',
+                schema: { type: 'object', properties: { status: healthStatusSchema, uptimeSeconds: { type: 'integer' } } },
+            },
+        },
+    },
+    ready: {
+        operationId: 'getReadiness',
+        method: 'get',
+        path: '/health/ready',
+        tags: ['Health'],
+        summary: 'Readiness probe (configuration and Go API)',
+        responses: {
+            200: { description: 'Every dependency is up or degraded.', schema: healthReportSchema },
+            503: { description: 'At least one dependency is down.', schema: healthReportSchema },
+        },
+    },
+} satisfies Record<string, ApiOperation>;
@@ -0,0 +1,83 @@
+// src/interfaces/http/openapi/operations/matrix-arithmetic.operations.ts
+
+import { dataEnvelope, errorResponses, matrixSchema } from '@interfaces/http/openapi/schemas';
+
+import { ApiOperation } from '@interfaces/http/openapi/api-operation';
+import { JsonSchema } from '@shared/validation/json-schema';
+
+const matrixPairSchema: JsonSchema = {
+    title: 'MatrixPairRequest',
+    type: 'object',
+    required: ['a', 'b'],
+    properties: { a: matrixSchema, b: matrixSchema },
+};
+
+const singleMatrixSchema: JsonSchema = {
+    title: 'SingleMatrixRequest',
+    type: 'object',
+    required: ['matrix'],
+    properties: { matrix: matrixSchema },
+};
+
+const arithmeticResultSchema: JsonSchema = {
+    title: 'MatrixArithmeticResult',
+    type: 'object',
+    required: ['operation', 'result'],
+    properties: {
+        operation: {
+            type: 'string',
+            enum: ['add', 'subtract', 'scalarMultiply', 'multiply', 'transpose', 'inverse', 'power', 'kronecker'],
+        },
+        result: matrixSchema,
+    },
+};
+
+/**
+ * Campos comunes de las operaciones de `/api/matrix/ops/*`.
+ */
+const arithmeticOperation = (operationId: string, path: string, summary: string, body: JsonSchema, description?: string): ApiOperation => ({
+    operationId,
+    method: 'post',
+    path: `/api/matrix/ops/${path}`,
+    tags: ['Matrix arithmetic'],
+    summary,
+    description: `API keys need the matrix:process scope. Computed by Node.js, without the Go API.${description ? ` ${description}` : ''}`,
+    security: ['bearerAuth', 'apiKeyAuth'],
+    body,
+    responses: {
+        200: { description: 'The resulting matrix.', schema: dataEnvelope(arithmeticResultSchema, true) },
+        ...errorResponses(400, 401, 403, 413, 429),
+    },
+});
+
+/**
+ * Operaciones de `/api/matrix/ops`: aritmética de matrices.
+ */
+export const matrixArithmeticOperations = {
+    add: arithmeticOperation('addMatrices', 'add', 'Add two matrices element-wise (a + b)', matrixPairSchema,
+        'Both matrices must have the same dimensions.'),
+    subtract: arithmeticOperation('subtractMatrices', 'subtract', 'Subtract two matrices element-wise (a - b)', matrixPairSchema,
+        'Both matrices must have the same dimensions.'),
+    scalarMultiply: arithmeticOperation('scalarMultiplyMatrix', 'scalar-multiply', 'Multiply every element of a matrix by a scalar', {
+        title: 'ScalarMultiplyRequest',
+        type: 'object',
+        required: ['matrix', 'scalar'],
+        properties: { matrix: matrixSchema, scalar: { type: 'number', example: 2 } },
+    }),
+    multiply: arithmeticOperation('multiplyMatrices', 'multiply', 'Multiply two matrices (a · b)', matrixPairSchema,
+        'The number of columns of a must match the number of rows of b.'),
+    transpose: arithmeticOperation('transposeMatrix', 'transpose', 'Transpose a matrix', singleMatrixSchema),
+    inverse: arithmeticOperation('invertMatrix', 'inverse', 'Invert a square matrix', singleMatrixSchema,
+        'A singular matrix is rejected with INVALID_MATRIX.'),
+    power: arithmeticOperation('raiseMatrixToPower', 'power', 'Raise a square matrix to an integer power', {
+        title: 'MatrixPowerRequest',
+        type: 'object',
+        required: ['matrix', 'exponent'],
+        properties: {
+            matrix: matrixSchema,
+            exponent: { type: 'integer', description: '0 gives the identity; a negative exponent raises the inverse.', example: 3 },
+        },
+    }),
+    kronecker: arithmeticOperation('kroneckerProduct', 'kronecker', 'Kronecker product of two matrices (a ⊗ b)', matrixPairSchema,
+        'The result (mp x nq) is subject to the same size limits as the input matrices.'),
+} satisfies Record<string, ApiOperation>;
@@ -0,0 +1,297 @@
+// src/interfaces/http/openapi/operations/matrix.operations.ts
+
+import { BUILT_IN_RESULT_FORMATTERS, RESULT_MATRIX_NAMES } from '@interfaces/http/formats/result-formatters';
+import {
+    dataEnvelope,
+    decompositionSelectionSchema,
+    errorResponseSchema,
+    errorResponses,
+    idParamsSchema,
+    matrixDecompositionsSchema,
+    matrixJobSchema,
+    matrixOperationSchema,
+    matrixSchema,
+    processedMatrixResultSchema,
+    statsSelectionSchema,
+} from '@interfaces/http/openapi/schemas';
+
+import { ApiOperation } from '@interfaces/http/openapi/api-operation';
+import { JsonSchema } from '@shared/validation/json-schema';
+
+const statsQuerySchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        stats: { type: 'string', description: 'Comma-separated statistics (e.g. median,trace). The body takes precedence.' },
+        operation: {
+            type: 'string',
+            description: 'Operation in shorthand form (e.g. rotate:180:counterclockwise, transpose, flip:vertical). The body takes precedence.',
+        },
+    },
+};
+
+const processMatrixQuerySchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        ...statsQuerySchema.properties,
+        decompositions: { type: 'string', description: 'Comma-separated decompositions (e.g. lu,svd). The body takes precedence.' },
+        delimiter: { type: 'string', pattern: '^(.|tab)$', description: 'text/csv only: field delimiter (one character, or "tab"). Defaults to ",".' },
+        header: { type: 'string', enum: ['true', 'false'], description: 'text/csv only: "true" skips the first line (a header row).' },
+        format: {
+            type: 'string',
+            description: `Response format, instead of the Accept header: ${BUILT_IN_RESULT_FORMATTERS.map(({ name }) => name).join(', ')}.`,
+        },
+        matrix: {
+            type: 'string',
+            enum: RESULT_MATRIX_NAMES,
+            description: 'Non-JSON formats only: export just this matrix. Single-matrix formats (mtx, npy) default to rotated.',
+        },
+    },
+};
+
+/**
+ * Representaciones del resultado además del JSON (ver `ResultFormatterRegistry`).
+ */
+const processedMatrixAlternatives = Object.fromEntries(BUILT_IN_RESULT_FORMATTERS
+    .filter(({ contentType }) => contentType !== 'application/json')
+    .map(({ name, contentType, description, binary }) => [contentType, { description: `format=${name}. ${description}`, binary }]));
+
+const matrixRequestSchema: JsonSchema = {
+    title: 'MatrixProcessingRequest',
+    type: 'object',
+    required: ['matrix'],
+    properties: {
+        matrix: matrixSchema,
+        stats: statsSelectionSchema,
+        operation: matrixOperationSchema,
+        decompositions: decompositionSelectionSchema,
+    },
+};
+
+const linearSystemSolutionSchema: JsonSchema = {
+    title: 'LinearSystemSolution',
+    type: 'object',
+    required: ['method', 'x', 'residualNorms', 'rank', 'rankDeficient', 'warnings'],
+    properties: {
+        method: {
+            type: 'string',
+            enum: ['exact', 'least-squares'],
+            description: 'exact for a square system of full rank; least-squares otherwise.',
+        },
+        x: {
+            description: 'Same shape as b: a vector, or one solution per column.',
+            anyOf: [
+                { type: 'array', items: { type: 'number' } },
+                { type: 'array', items: { type: 'array', items: { type: 'number' } } },
+            ],
+        },
+        residualNorms: { type: 'array', items: { type: 'number' }, description: '||A·x - b|| of each right-hand side.' },
+        rank: { type: 'integer', minimum: 0 },
+        rankDeficient: { type: 'boolean', description: 'When true the solution is not unique; x is the minimum-norm least-squares solution.' },
+        warnings: { type: 'array', items: { type: 'string' } },
+    },
+};
+
+const batchResultSchema: JsonSchema = {
+    title: 'MatrixBatchResult',
+    type: 'object',
+    required: ['items', 'summary'],
+    properties: {
+        items: {
+            type: 'array',
+            description: 'One entry per matrix, in the order of the request. Invalid matrices fail individually.',
+            items: {
+                type: 'object',
+                required: ['index', 'status'],
+                properties: {
+                    index: { type: 'integer' },
+                    status: { type: 'string', enum: ['succeeded', 'failed'] },
+                    result: processedMatrixResultSchema,
+                    error: errorResponseSchema,
+                },
+            },
+        },
+        summary: {
+            type: 'object',
+            required: ['total', 'succeeded', 'failed'],
+            properties: {
+                total: { type: 'integer' },
+                succeeded: { type: 'integer' },
+                failed: { type: 'integer' },
+                statistics: {
+                    type: 'object',
+                    description: 'Computed over the successful items; omitted when none succeeded.',
+                    properties: {
+                        maxValue: { type: 'number' },
+                        minValue: { type: 'number' },
+                        average: { type: 'number' },
+                        totalSum: { type: 'number' },
+                        elementCount: { type: 'integer' },
+                    },
+                },
+            },
+        },
+    },
+};
+
+/**
+ * Operaciones de `/api/matrix`: procesamiento síncrono, por lotes y asíncrono (trabajos).
+ * Aceptan JWT de usuario o API keys con el scope correspondiente.
+ */
+export const matrixOperations = {
+    processMatrix: {
+        operationId: 'processMatrix',
+        method: 'post',
+        path: '/api/matrix/process-matrix',
+        tags: ['Matrix'],
+        summary: 'Rotate, transpose or flip a matrix, factorize it (QR) and compute its statistics',
+        description: 'API keys need the matrix:process scope. The response carries `X-Cache: HIT|MISS` when the result cache is enabled. '
+            + 'Besides JSON, the matrix can be sent as CSV or Matrix Market text (select the statistics with the `stats` query parameter); '
+            + 'parse errors report the line and column.',
+        security: ['bearerAuth', 'apiKeyAuth'],
+        query: processMatrixQuerySchema,
+        body: matrixRequestSchema,
+        textBodies: {
+            'text/csv': {
+                description: 'One row per line (e.g. pandas `to_csv(index=False)`). See the `delimiter` and `header` query parameters.',
+                example: '1,2\n3,4\n',
+            },
+            'application/x-matrix-market': {
+                description: 'Matrix Market file (.mtx), coordinate or array format; real, integer or pattern; general, symmetric or skew-symmetric. '
+                    + 'text/x-matrix-market is also accepted.',
+                example: '%%MatrixMarket matrix coordinate real general\n2 2 2\n1 1 1.5\n2 2 -3\n',
+            },
+        },
+        responses: {
+            200: {
+                description: 'Matrix processed. The format is negotiated with the Accept header or the format query parameter.',
+                schema: dataEnvelope(processedMatrixResultSchema, true),
+                alternatives: processedMatrixAlternatives,
+            },
+            ...errorResponses(400, 401, 403, 406, 413, 415, 429, 502, 503),
+        },
+    },
+    processBatch: {
+        operationId: 'processMatrixBatch',
+        method: 'post',
+        path: '/api/matrix/process-batch',
+        tags: ['Matrix'],
+        summary: 'Process many matrices in one request',
+        description: 'API keys need the matrix:batch scope. Each matrix is validated on its own: an invalid one is reported in its item without failing the batch.',
+        security: ['bearerAuth', 'apiKeyAuth'],
+        query: statsQuerySchema,
+        body: {
+            type: 'object',
+            required: ['matrices'],
+            properties: {
+                matrices: { type: 'array', minItems: 1, items: { type: 'array' } },
+                stats: statsSelectionSchema,
+                operation: matrixOperationSchema,
+            },
+        },
+        responses: {
+            200: { description: 'Batch processed (check the status of each item).', schema: dataEnvelope(batchResultSchema, true) },
+            ...errorResponses(400, 401, 403, 429),
+        },
+    },
+    decompose: {
+        operationId: 'decomposeMatrix',
+        method: 'post',
+        path: '/api/matrix/decompose',
+        tags: ['Matrix'],
+        summary: 'Compute QR, LU, Cholesky, SVD or eigenvalue decompositions of a matrix',
+        description: 'API keys need the matrix:process scope. QR comes from the Go API; the other decompositions are computed by Node.js. '
+            + 'A matrix that does not meet the preconditions of a decomposition (e.g. not square, not positive definite) is rejected with INVALID_MATRIX.',
+        security: ['bearerAuth', 'apiKeyAuth'],
+        query: {
+            type: 'object',
+            properties: {
+                decompositions: { type: 'string', description: 'Comma-separated decompositions (e.g. lu,svd). The body takes precedence.' },
+            },
+        },
+        body: {
+            title: 'MatrixDecompositionRequest',
+            type: 'object',
+            required: ['matrix'],
+            properties: {
+                matrix: matrixSchema,
+                decompositions: decompositionSelectionSchema,
+            },
+        },
+        responses: {
+            200: { description: 'The requested decompositions.', schema: dataEnvelope(matrixDecompositionsSchema, true) },
+            ...errorResponses(400, 401, 403, 413, 429, 503),
+        },
+    },
+    solve: {
+        operationId: 'solveLinearSystem',
+        method: 'post',
+        path: '/api/matrix/solve',
+        tags: ['Matrix'],
+        summary: 'Solve A·x = b, exactly or in the least-squares sense, with the QR factorization of A',
+        description: 'API keys need the matrix:process scope. A must have at least as many rows as columns: square systems are solved '
+            + 'exactly and overdetermined ones in the least-squares sense. A rank-deficient A is not an error: the response flags it '
+            + 'and returns the minimum-norm least-squares solution.',
+        security: ['bearerAuth', 'apiKeyAuth'],
+        body: {
+            title: 'LinearSystemRequest',
+            type: 'object',
+            required: ['matrix', 'b'],
+            properties: {
+                matrix: matrixSchema,
+                b: {
+                    description: 'One right-hand side (m numbers) or several, as the columns of an m x k matrix.',
+                    anyOf: [
+                        { type: 'array', minItems: 1, items: { type: 'number' } },
+                        { type: 'array', minItems: 1, items: { type: 'array', minItems: 1, items: { type: 'number' } } },
+                    ],
+                    example: [1, 2, 2],
+                },
+            },
+        },
+        responses: {
+            200: { description: 'The solution, with the residual norm of each right-hand side.', schema: dataEnvelope(linearSystemSolutionSchema, true) },
+            ...errorResponses(400, 401, 403, 413, 429, 503),
+        },
+    },
+    submitJob: {
+        operationId: 'submitMatrixJob',
+        method: 'post',
+        path: '/api/matrix/jobs',
+        tags: ['Matrix jobs'],
+        summary: 'Queue a matrix to be processed in the background',
+        description: 'API keys need the matrix:jobs scope. Poll the job at the URL of the Location header.',
+        security: ['bearerAuth', 'apiKeyAuth'],
+        query: statsQuerySchema,
+        body: matrixRequestSchema,
+        responses: {
+            202: { description: 'Job accepted.', schema: dataEnvelope(matrixJobSchema, true) },
+            ...errorResponses(400, 401, 403, 413, 429, 503),
+        },
+    },
+    getJob: {
+        operationId: 'getMatrixJob',
+        method: 'get',
+        path: '/api/matrix/jobs/{id}',
+        tags: ['Matrix jobs'],
+        summary: 'Get the status and, once finished, the result of a job',
+        security: ['bearerAuth', 'apiKeyAuth'],
+        params: idParamsSchema,
+        responses: {
+            200: { description: 'The job.', schema: dataEnvelope(matrixJobSchema) },
+            ...errorResponses(401, 403, 404),
+        },
+    },
+    cancelJob: {
+        operationId: 'cancelMatrixJob',
+        method: 'delete',
+        path: '/api/matrix/jobs/{id}',
+        tags: ['Matrix jobs'],
+        summary: 'Cancel a queued or running job',
+        security: ['bearerAuth', 'apiKeyAuth'],
+        params: idParamsSchema,
+        responses: {
+            200: { description: 'Job cancelled.', schema: dataEnvelope(matrixJobSchema, true) },
+            ...errorResponses(401, 403, 404),
+        },
+    },
+} satisfies Record<string, ApiOperation>;
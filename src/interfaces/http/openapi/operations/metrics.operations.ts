@@ -0,0 +1,23 @@
+// src/interfaces/http/openapi/operations/metrics.operations.ts
+
+import { ApiOperation } from '@interfaces/http/openapi/api-operation';
+import { errorResponses } from '@interfaces/http/openapi/schemas';
+
+/**
+ * Operaciones de `/metrics`: métricas en el formato de texto de Prometheus.
+ */
+export const metricsOperations = {
+    getMetrics: {
+        operationId: 'getMetrics',
+        method: 'get',
+        path: '/metrics',
+        tags: ['Metrics'],
+        summary: 'Prometheus metrics',
+        description: 'Requires `Authorization: Bearer <METRICS_TOKEN>` when a metrics token is configured.',
+        security: ['metricsToken'],
+        responses: {
+            200: { description: 'Metrics in the Prometheus text format.', schema: { type: 'string' }, contentType: 'text/plain' },
+            ...errorResponses(401),
+        },
+    },
+} satisfies Record<string, ApiOperation>;
@@ -0,0 +1,69 @@
+// src/interfaces/http/openapi/operations/user.operations.ts
+
+import { dataEnvelope, errorResponses, idParamsSchema, publicUserSchema } from '@interfaces/http/openapi/schemas';
+
+import { ApiOperation } from '@interfaces/http/openapi/api-operation';
+import { USER_ROLES } from '@domain/entities/user';
+
+/**
+ * Operaciones de `/api/users`: administración de cuentas.
+ */
+export const userOperations = {
+    list: {
+        operationId: 'listUsers',
+        method: 'get',
+        path: '/api/users',
+        tags: ['Users'],
+        summary: 'List the registered users (admins only)',
+        security: ['bearerAuth'],
+        responses: {
+            200: { description: 'Registered users.', schema: dataEnvelope({ type: 'array', items: publicUserSchema }) },
+            ...errorResponses(401, 403),
+        },
+    },
+    setRoles: {
+        operationId: 'setUserRoles',
+        method: 'put',
+        path: '/api/users/{id}/roles',
+        tags: ['Users'],
+        summary: 'Replace the roles of a user (admins only)',
+        description: 'Revokes every session of the user, so tokens with the previous roles stop working.',
+        security: ['bearerAuth'],
+        params: idParamsSchema,
+        body: {
+            type: 'object',
+            required: ['roles'],
+            properties: { roles: { type: 'array', minItems: 1, items: { type: 'string', enum: USER_ROLES } } },
+        },
+        responses: {
+            200: { description: 'Roles updated.', schema: dataEnvelope(publicUserSchema, true) },
+            ...errorResponses(400, 401, 403, 404),
+        },
+    },
+    disable: {
+        operationId: 'disableUser',
+        method: 'post',
+        path: '/api/users/{id}/disable',
+        tags: ['Users'],
+        summary: 'Disable an account (your own, or any account as an admin)',
+        security: ['bearerAuth'],
+        params: idParamsSchema,
+        responses: {
+            200: { description: 'Account disabled.', schema: dataEnvelope(publicUserSchema, true) },
+            ...errorResponses(401, 403, 404),
+        },
+    },
+    enable: {
+        operationId: 'enableUser',
+        method: 'post',
+        path: '/api/users/{id}/enable',
+        tags: ['Users'],
+        summary: 'Enable an account (admins only)',
+        security: ['bearerAuth'],
+        params: idParamsSchema,
+        responses: {
+            200: { description: 'Account enabled.', schema: dataEnvelope(publicUserSchema, true) },
+            ...errorResponses(401, 403, 404),
+        },
+    },
+} satisfies Record<string, ApiOperation>;
@@ -0,0 +1,297 @@
+// src/interfaces/http/openapi/schemas.ts
+
+import { FLIP_AXES, MATRIX_OPERATION_TYPES, ROTATION_DEGREES, ROTATION_DIRECTIONS } from '@application/services/matrix-operation';
+
+import { API_KEY_SCOPES } from '@domain/entities/api-key';
+import { ApiResponseSpec } from '@interfaces/http/openapi/api-operation';
+import { DECOMPOSITION_NAMES } from '@application/services/decompositions/matrix-decomposition.registry';
+import { JsonSchema } from '@shared/validation/json-schema';
+import { USER_ROLES } from '@domain/entities/user';
+
+/**
+ * Esquemas compartidos por varias operaciones. Los que tienen `title` se publican como componentes
+ * del documento OpenAPI, para que los clientes generados tengan tipos con nombre.
+ */
+
+export const matrixSchema: JsonSchema = {
+    title: 'Matrix',
+    description: 'Non-empty array of rows; every row is a non-empty array of finite numbers.',
+    type: 'array',
+    minItems: 1,
+    items: { type: 'array', minItems: 1, items: { type: 'number' } },
+    example: [[1, 2], [3, 4]],
+};
+
+export const statsSelectionSchema: JsonSchema = {
+    description: 'Per-matrix statistics to compute: an array of names or a comma-separated string. Use "all" for every statistic.',
+    anyOf: [
+        { type: 'array', items: { type: 'string' } },
+        { type: 'string' },
+    ],
+    example: ['median', 'trace', 'rank'],
+};
+
+const matrixOperationObjectSchema: JsonSchema = {
+    title: 'MatrixOperation',
+    type: 'object',
+    required: ['type'],
+    properties: {
+        type: { type: 'string', enum: MATRIX_OPERATION_TYPES },
+        degrees: { type: 'integer', enum: ROTATION_DEGREES, description: 'rotate only.' },
+        direction: { type: 'string', enum: ROTATION_DIRECTIONS, description: 'rotate only.' },
+        axis: { type: 'string', enum: FLIP_AXES, description: 'flip only: horizontal reverses each row, vertical the order of the rows.' },
+    },
+    example: { type: 'rotate', degrees: 180, direction: 'counterclockwise' },
+};
+
+export const matrixOperationSchema: JsonSchema = {
+    description: 'Operation applied to the matrix: an object or a shorthand string such as "rotate:180:counterclockwise", '
+        + '"transpose" or "flip:vertical". A rotation defaults to 90 degrees clockwise; a flip requires the axis. '
+        + 'Defaults to a 90-degree clockwise rotation.',
+    anyOf: [matrixOperationObjectSchema, { type: 'string' }],
+};
+
+export const errorResponseSchema: JsonSchema = {
+    title: 'ErrorResponse',
+    type: 'object',
+    required: ['error', 'details'],
+    properties: {
+        error: { type: 'string', description: 'Machine-readable error code.', example: 'VALIDATION_ERROR' },
+        details: { type: 'string', description: 'Human-readable summary of the error.' },
+        message: { type: 'string', description: 'Additional details, when available.' },
+        fields: {
+            type: 'array',
+            description: 'Field-level errors (only for VALIDATION_ERROR).',
+            items: {
+                type: 'object',
+                required: ['field', 'message'],
+                properties: {
+                    field: { type: 'string', example: 'body.matrix[0][1]' },
+                    message: { type: 'string', example: 'must be of type number (received string)' },
+                },
+            },
+        },
+    },
+};
+
+const qrFactorizationSchema: JsonSchema = {
+    title: 'QRFactorization',
+    type: 'object',
+    required: ['Q', 'R'],
+    properties: { Q: matrixSchema, R: matrixSchema },
+};
+
+export const decompositionSelectionSchema: JsonSchema = {
+    description: `Decompositions of the original matrix to compute: an array of names or a comma-separated string (${DECOMPOSITION_NAMES.join(', ')}). `
+        + 'Use "all" for every decomposition.',
+    anyOf: [
+        { type: 'array', items: { type: 'string' } },
+        { type: 'string' },
+    ],
+    example: ['lu', 'svd'],
+};
+
+export const matrixDecompositionsSchema: JsonSchema = {
+    title: 'MatrixDecompositions',
+    type: 'object',
+    description: 'Only the requested decompositions are present.',
+    properties: {
+        qr: qrFactorizationSchema,
+        lu: {
+            title: 'LUDecomposition',
+            type: 'object',
+            description: 'P·A = L·U, with partial pivoting.',
+            required: ['L', 'U', 'P'],
+            properties: { L: matrixSchema, U: matrixSchema, P: matrixSchema },
+        },
+        cholesky: {
+            title: 'CholeskyDecomposition',
+            type: 'object',
+            description: 'A = L·Lᵀ.',
+            required: ['L'],
+            properties: { L: matrixSchema },
+        },
+        svd: {
+            title: 'SVDDecomposition',
+            type: 'object',
+            description: 'Reduced SVD: A = U·diag(S)·Vᵀ, with k = min(m, n) singular values in descending order.',
+            required: ['U', 'S', 'V'],
+            properties: { U: matrixSchema, S: { type: 'array', items: { type: 'number' } }, V: matrixSchema },
+        },
+        eigen: {
+            title: 'EigenDecomposition',
+            type: 'object',
+            description: 'The i-th eigenvalue is real[i] + imaginary[i]·i. Eigenvectors (columns) only for symmetric matrices.',
+            required: ['real', 'imaginary', 'vectors'],
+            properties: {
+                real: { type: 'array', items: { type: 'number' } },
+                imaginary: { type: 'array', items: { type: 'number' } },
+                vectors: { type: 'array', items: { type: 'array', items: { type: 'number' } }, nullable: true },
+            },
+        },
+    },
+};
+
+const statisticsReportSchema: JsonSchema = {
+    title: 'MatrixStatisticsReport',
+    type: 'object',
+    description: 'Selected statistics by name. null when a statistic does not apply to the matrix.',
+    additionalProperties: { anyOf: [{ type: 'number' }, { type: 'boolean' }], nullable: true },
+};
+
+export const processedMatrixResultSchema: JsonSchema = {
+    title: 'ProcessedMatrixResult',
+    type: 'object',
+    required: ['originalMatrix', 'rotatedMatrix', 'operation', 'qrFactorization', 'statistics', 'matrixStatistics'],
+    properties: {
+        originalMatrix: matrixSchema,
+        rotatedMatrix: matrixSchema,
+        operation: matrixOperationObjectSchema,
+        qrFactorization: qrFactorizationSchema,
+        decompositions: matrixDecompositionsSchema,
+        statistics: {
+            title: 'MatrixStatistics',
+            type: 'object',
+            description: 'Pooled summary of the original and rotated matrices.',
+            required: ['maxValue', 'minValue', 'average', 'totalSum', 'isDiagonalOriginal', 'isDiagonalRotated'],
+            properties: {
+                maxValue: { type: 'number' },
+                minValue: { type: 'number' },
+                average: { type: 'number' },
+                totalSum: { type: 'number' },
+                isDiagonalOriginal: { type: 'boolean' },
+                isDiagonalRotated: { type: 'boolean' },
+            },
+        },
+        matrixStatistics: {
+            title: 'PerMatrixStatistics',
+            type: 'object',
+            required: ['original', 'rotated', 'q', 'r'],
+            properties: {
+                original: statisticsReportSchema,
+                rotated: statisticsReportSchema,
+                q: statisticsReportSchema,
+                r: statisticsReportSchema,
+            },
+        },
+        qrVerification: {
+            title: 'QRVerificationReport',
+            type: 'object',
+            description: 'Present only when QR verification is enabled.',
+            required: ['passed', 'tolerance', 'residuals', 'failures'],
+            properties: {
+                passed: { type: 'boolean' },
+                tolerance: { type: 'number' },
+                residuals: {
+                    type: 'object',
+                    properties: {
+                        orthogonality: { type: 'number', nullable: true },
+                        triangularity: { type: 'number', nullable: true },
+                        reconstruction: { type: 'number', nullable: true },
+                    },
+                },
+                failures: { type: 'array', items: { type: 'string', enum: ['dimensions', 'orthogonality', 'triangularity', 'reconstruction'] } },
+            },
+        },
+        cache: {
+            type: 'object',
+            description: 'Present only when the result cache is enabled.',
+            required: ['hit', 'key'],
+            properties: {
+                hit: { type: 'boolean' },
+                key: { type: 'string', description: 'Canonical hash of the matrix, used to invalidate the cache entry.' },
+            },
+        },
+    },
+};
+
+export const matrixJobSchema: JsonSchema = {
+    title: 'MatrixJob',
+    type: 'object',
+    required: ['id', 'ownerId', 'status', 'createdAt'],
+    properties: {
+        id: { type: 'string' },
+        ownerId: { type: 'string' },
+        status: { type: 'string', enum: ['queued', 'running', 'succeeded', 'failed', 'cancelled'] },
+        createdAt: { type: 'string', format: 'date-time' },
+        startedAt: { type: 'string', format: 'date-time' },
+        finishedAt: { type: 'string', format: 'date-time' },
+        result: processedMatrixResultSchema,
+        error: errorResponseSchema,
+    },
+};
+
+export const publicUserSchema: JsonSchema = {
+    title: 'User',
+    type: 'object',
+    required: ['id', 'username', 'roles', 'disabled', 'createdAt', 'updatedAt'],
+    properties: {
+        id: { type: 'string' },
+        username: { type: 'string' },
+        roles: { type: 'array', items: { type: 'string', enum: USER_ROLES } },
+        disabled: { type: 'boolean' },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+    },
+};
+
+export const publicApiKeySchema: JsonSchema = {
+    title: 'ApiKey',
+    type: 'object',
+    required: ['id', 'ownerId', 'label', 'prefix', 'scopes', 'createdAt', 'expiresAt', 'lastUsedAt', 'revokedAt'],
+    properties: {
+        id: { type: 'string' },
+        ownerId: { type: 'string' },
+        label: { type: 'string' },
+        prefix: { type: 'string', description: 'First characters of the key, to recognize it in listings.' },
+        scopes: { type: 'array', items: { type: 'string', enum: API_KEY_SCOPES } },
+        createdAt: { type: 'string', format: 'date-time' },
+        expiresAt: { type: 'string', format: 'date-time', nullable: true },
+        lastUsedAt: { type: 'string', format: 'date-time', nullable: true },
+        revokedAt: { type: 'string', format: 'date-time', nullable: true },
+    },
+};
+
+/**
+ * Esquema de un objeto `{ data: <schema> }` (opcionalmente con `message`), el envoltorio de las respuestas de la API.
+ */
+export const dataEnvelope = (schema: JsonSchema, withMessage: boolean = false): JsonSchema => ({
+    type: 'object',
+    required: withMessage ? ['message', 'data'] : ['data'],
+    properties: {
+        ...(withMessage && { message: { type: 'string' } }),
+        data: schema,
+    },
+});
+
+/**
+ * Esquema de los parámetros de las rutas con un `{id}`.
+ */
+export const idParamsSchema: JsonSchema = {
+    type: 'object',
+    required: ['id'],
+    properties: { id: { type: 'string', minLength: 1 } },
+};
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+    400: 'Invalid request (VALIDATION_ERROR with field-level errors, BAD_REQUEST or INVALID_MATRIX).',
+    401: 'Missing, invalid, expired or revoked credentials.',
+    403: 'The caller lacks the required role or API key scope, or the account is disabled.',
+    404: 'The resource does not exist or does not belong to the caller.',
+    406: 'None of the response formats in the Accept header (or the format query parameter) is available.',
+    409: 'The request conflicts with the current state of the resource (e.g. a username already taken).',
+    413: 'The matrix exceeds the size limits of the caller\'s roles.',
+    415: 'The Content-Type of the request body is not supported.',
+    429: 'Rate limit exceeded; see the Retry-After header.',
+    502: 'The QR factorization returned by the matrix backend failed numerical verification.',
+    503: 'The Go API or the job queue is temporarily unavailable, or the server is shutting down.',
+};
+
+/**
+ * Respuestas de error documentadas de una operación, todas con el formato `ErrorResponse`.
+ */
+export const errorResponses = (...statusCodes: number[]): Record<number, ApiResponseSpec> =>
+    Object.fromEntries(statusCodes.map(statusCode => [
+        statusCode,
+        { description: ERROR_DESCRIPTIONS[statusCode], schema: errorResponseSchema },
+    ]));
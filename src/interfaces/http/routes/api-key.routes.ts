@@ -0,0 +1,27 @@
+// src/interfaces/http/routes/api-key.routes.ts
+
+import { ApiKeyController } from '@interfaces/http/controllers/api-key.controller';
+import { Router } from 'express';
+import { apiKeyOperations } from '@interfaces/http/openapi/operations/api-key.operations';
+import { validateRequest } from '@interfaces/http/middleware/validation.middleware';
+
+/**
+ * @class ApiKeyRoutes
+ * @description Define las rutas de gestión de API keys del usuario autenticado.
+ */
+export class ApiKeyRoutes {
+    public router: Router;
+    private readonly apiKeyController: ApiKeyController;
+
+    constructor(apiKeyController: ApiKeyController) {
+        this.apiKeyController = apiKeyController;
+        this.router = Router();
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes(): void {
+        this.router.post('/', validateRequest(apiKeyOperations.create), this.apiKeyController.create.bind(this.apiKeyController));
+        this.router.get('/', this.apiKeyController.list.bind(this.apiKeyController));
+        this.router.delete('/:id', this.apiKeyController.revoke.bind(this.apiKeyController));
+    }
+}
@@ -1,19 +1,29 @@
 // src/interfaces/http/routes/auth.routes.ts
 
+import { RequestHandler, Router } from 'express';
+
 import { AuthController } from '@interfaces/http/controllers/auth.controller'; // Usamos el alias
-import { Router } from 'express';
+import { authOperations } from '@interfaces/http/openapi/operations/auth.operations';
+import { validateRequest } from '@interfaces/http/middleware/validation.middleware';
 
 export class AuthRoutes {
     public router: Router;
     private readonly authController: AuthController;
+    private readonly authMiddleware: RequestHandler;
 
-    constructor(authController: AuthController) {
+    constructor(authController: AuthController, authMiddleware: RequestHandler) {
         this.authController = authController;
+        this.authMiddleware = authMiddleware;
         this.router = Router();
         this.initializeRoutes();
     }
 
     private initializeRoutes(): void {
-        this.router.post('/login', this.authController.login.bind(this.authController));
+        this.router.post('/login', validateRequest(authOperations.login), this.authController.login.bind(this.authController));
+        this.router.post('/refresh', validateRequest(authOperations.refresh), this.authController.refresh.bind(this.authController));
+        this.router.post('/register', validateRequest(authOperations.register), this.authController.register.bind(this.authController));
+        // Cerrar sesión y cambiar la contraseña requieren estar autenticado
+        this.router.post('/logout', this.authMiddleware, this.authController.logout.bind(this.authController));
+        this.router.post('/password', this.authMiddleware, validateRequest(authOperations.changePassword), this.authController.changePassword.bind(this.authController));
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,25 @@
+// src/interfaces/http/routes/cache.routes.ts
+
+import { CacheController } from '@interfaces/http/controllers/cache.controller';
+import { Router } from 'express';
+
+/**
+ * @class CacheRoutes
+ * @description Define las rutas de administración del caché de resultados de matrices.
+ */
+export class CacheRoutes {
+    public router: Router;
+    private readonly cacheController: CacheController;
+
+    constructor(cacheController: CacheController) {
+        this.cacheController = cacheController;
+        this.router = Router();
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes(): void {
+        this.router.get('/stats', this.cacheController.getStats.bind(this.cacheController));
+        this.router.delete('/', this.cacheController.flush.bind(this.cacheController));
+        this.router.delete('/:key', this.cacheController.invalidate.bind(this.cacheController));
+    }
+}
@@ -0,0 +1,23 @@
+// src/interfaces/http/routes/docs.routes.ts
+
+import { DocsController } from '@interfaces/http/controllers/docs.controller';
+import { Router } from 'express';
+
+/**
+ * @class DocsRoutes
+ * @description Define las rutas de documentación de la API (`/api/docs/openapi.json`). Son públicas.
+ */
+export class DocsRoutes {
+    public router: Router;
+    private readonly docsController: DocsController;
+
+    constructor(docsController: DocsController) {
+        this.docsController = docsController;
+        this.router = Router();
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes(): void {
+        this.router.get('/openapi.json', this.docsController.getOpenApiDocument.bind(this.docsController));
+    }
+}
@@ -0,0 +1,24 @@
+// src/interfaces/http/routes/health.routes.ts
+
+import { HealthController } from '@interfaces/http/controllers/health.controller';
+import { Router } from 'express';
+
+/**
+ * @class HealthRoutes
+ * @description Define las sondas de salud (`/health/live` y `/health/ready`). Son públicas: no exponen datos sensibles.
+ */
+export class HealthRoutes {
+    public router: Router;
+    private readonly healthController: HealthController;
+
+    constructor(healthController: HealthController) {
+        this.healthController = healthController;
+        this.router = Router();
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes(): void {
+        this.router.get('/live', this.healthController.live.bind(this.healthController));
+        this.router.get('/ready', this.healthController.ready.bind(this.healthController));
+    }
+}
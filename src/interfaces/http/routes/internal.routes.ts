@@ -0,0 +1,25 @@
+// src/interfaces/http/routes/internal.routes.ts
+
+import { InternalMatrixController } from '@interfaces/http/controllers/internal-matrix.controller';
+import { Router } from 'express';
+
+/**
+ * @class InternalRoutes
+ * @description Define las rutas internas (servicio-a-servicio) que consume la API de Go.
+ * Estas rutas no están pensadas para clientes finales.
+ */
+export class InternalRoutes {
+    public router: Router;
+    private readonly internalMatrixController: InternalMatrixController;
+
+    constructor(internalMatrixController: InternalMatrixController) {
+        this.internalMatrixController = internalMatrixController;
+        this.router = Router();
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes(): void {
+        // Callback de Go: recibe original, rotada y QR, y devuelve las estadísticas calculadas
+        this.router.post('/matrix-stats', this.internalMatrixController.calculateStats.bind(this.internalMatrixController));
+    }
+}
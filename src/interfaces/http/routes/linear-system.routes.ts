@@ -0,0 +1,26 @@
+// src/interfaces/http/routes/linear-system.routes.ts
+
+import { LinearSystemController } from '@interfaces/http/controllers/linear-system.controller';
+import { Router } from 'express';
+import { matrixOperations } from '@interfaces/http/openapi/operations/matrix.operations';
+import { validateRequest } from '@interfaces/http/middleware/validation.middleware';
+
+/**
+ * @class LinearSystemRoutes
+ * @description Define la ruta de resolución de sistemas lineales.
+ */
+export class LinearSystemRoutes {
+    public router: Router;
+    private readonly linearSystemController: LinearSystemController;
+
+    constructor(linearSystemController: LinearSystemController) {
+        this.linearSystemController = linearSystemController;
+        this.router = Router();
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes(): void {
+        // Resuelve A · x = b con la factorización QR de A
+        this.router.post('/solve', validateRequest(matrixOperations.solve), this.linearSystemController.solve.bind(this.linearSystemController));
+    }
+}
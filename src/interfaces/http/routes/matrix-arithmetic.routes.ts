@@ -0,0 +1,37 @@
+// src/interfaces/http/routes/matrix-arithmetic.routes.ts
+
+import { MatrixArithmeticController } from '@interfaces/http/controllers/matrix-arithmetic.controller';
+import { Router } from 'express';
+import { matrixArithmeticOperations } from '@interfaces/http/openapi/operations/matrix-arithmetic.operations';
+import { validateRequest } from '@interfaces/http/middleware/validation.middleware';
+
+/**
+ * @class MatrixArithmeticRoutes
+ * @description Define las rutas de las operaciones aritméticas sobre matrices (`/ops/*`).
+ */
+export class MatrixArithmeticRoutes {
+    public router: Router;
+    private readonly matrixArithmeticController: MatrixArithmeticController;
+
+    constructor(matrixArithmeticController: MatrixArithmeticController) {
+        this.matrixArithmeticController = matrixArithmeticController;
+        this.router = Router();
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes(): void {
+        const { add, subtract, scalarMultiply, multiply, transpose, inverse, power, kronecker } = matrixArithmeticOperations;
+        const controller = this.matrixArithmeticController;
+
+        // Operaciones binarias: { a, b }
+        this.router.post('/ops/add', validateRequest(add), controller.handle('add'));
+        this.router.post('/ops/subtract', validateRequest(subtract), controller.handle('subtract'));
+        this.router.post('/ops/multiply', validateRequest(multiply), controller.handle('multiply'));
+        this.router.post('/ops/kronecker', validateRequest(kronecker), controller.handle('kronecker'));
+        // Operaciones sobre una matriz: { matrix } (más `scalar` o `exponent`)
+        this.router.post('/ops/scalar-multiply', validateRequest(scalarMultiply), controller.handle('scalarMultiply'));
+        this.router.post('/ops/transpose', validateRequest(transpose), controller.handle('transpose'));
+        this.router.post('/ops/inverse', validateRequest(inverse), controller.handle('inverse'));
+        this.router.post('/ops/power', validateRequest(power), controller.handle('power'));
+    }
+}
@@ -0,0 +1,26 @@
+// src/interfaces/http/routes/matrix-batch.routes.ts
+
+import { MatrixBatchController } from '@interfaces/http/controllers/matrix-batch.controller';
+import { Router } from 'express';
+import { matrixOperations } from '@interfaces/http/openapi/operations/matrix.operations';
+import { validateRequest } from '@interfaces/http/middleware/validation.middleware';
+
+/**
+ * @class MatrixBatchRoutes
+ * @description Define la ruta de procesamiento por lotes de matrices.
+ */
+export class MatrixBatchRoutes {
+    public router: Router;
+    private readonly matrixBatchController: MatrixBatchController;
+
+    constructor(matrixBatchController: MatrixBatchController) {
+        this.matrixBatchController = matrixBatchController;
+        this.router = Router();
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes(): void {
+        // Procesa un array de matrices en una sola solicitud
+        this.router.post('/process-batch', validateRequest(matrixOperations.processBatch), this.matrixBatchController.processBatch.bind(this.matrixBatchController));
+    }
+}
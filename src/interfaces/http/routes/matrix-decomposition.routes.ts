@@ -0,0 +1,26 @@
+// src/interfaces/http/routes/matrix-decomposition.routes.ts
+
+import { MatrixDecompositionController } from '@interfaces/http/controllers/matrix-decomposition.controller';
+import { Router } from 'express';
+import { matrixOperations } from '@interfaces/http/openapi/operations/matrix.operations';
+import { validateRequest } from '@interfaces/http/middleware/validation.middleware';
+
+/**
+ * @class MatrixDecompositionRoutes
+ * @description Define la ruta de descomposición de matrices.
+ */
+export class MatrixDecompositionRoutes {
+    public router: Router;
+    private readonly matrixDecompositionController: MatrixDecompositionController;
+
+    constructor(matrixDecompositionController: MatrixDecompositionController) {
+        this.matrixDecompositionController = matrixDecompositionController;
+        this.router = Router();
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes(): void {
+        // Calcula una o varias descomposiciones de una matriz
+        this.router.post('/decompose', validateRequest(matrixOperations.decompose), this.matrixDecompositionController.decompose.bind(this.matrixDecompositionController));
+    }
+}
@@ -0,0 +1,30 @@
+// src/interfaces/http/routes/matrix-job.routes.ts
+
+import { MatrixJobController } from '@interfaces/http/controllers/matrix-job.controller';
+import { Router } from 'express';
+import { matrixOperations } from '@interfaces/http/openapi/operations/matrix.operations';
+import { validateRequest } from '@interfaces/http/middleware/validation.middleware';
+
+/**
+ * @class MatrixJobRoutes
+ * @description Define las rutas del modo asíncrono de procesamiento de matrices (trabajos).
+ */
+export class MatrixJobRoutes {
+    public router: Router;
+    private readonly matrixJobController: MatrixJobController;
+
+    constructor(matrixJobController: MatrixJobController) {
+        this.matrixJobController = matrixJobController;
+        this.router = Router();
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes(): void {
+        // Envía una matriz a procesar en segundo plano (responde 202 con el id del trabajo)
+        this.router.post('/jobs', validateRequest(matrixOperations.submitJob), this.matrixJobController.submit.bind(this.matrixJobController));
+        // Consulta el estado y el resultado de un trabajo
+        this.router.get('/jobs/:id', this.matrixJobController.getJob.bind(this.matrixJobController));
+        // Cancela un trabajo en espera o en ejecución
+        this.router.delete('/jobs/:id', this.matrixJobController.cancelJob.bind(this.matrixJobController));
+    }
+}
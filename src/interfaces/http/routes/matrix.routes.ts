@@ -2,6 +2,9 @@
 
 import { MatrixController } from '@interfaces/http/controllers/matrix.controller';
 import { Router } from 'express';
+import { createMatrixBodyParser } from '@interfaces/http/middleware/matrix-body.middleware';
+import { matrixOperations } from '@interfaces/http/openapi/operations/matrix.operations';
+import { validateRequest } from '@interfaces/http/middleware/validation.middleware';
 
 /**
  * @class MatrixRoutes
@@ -19,7 +22,12 @@ export class MatrixRoutes {
     }
 
     private initializeRoutes(): void {
-        // Endpoint para que el cliente envíe una matriz a procesar
-        this.router.post('/process-matrix', this.matrixController.processMatrix.bind(this.matrixController));
+        // Endpoint para que el cliente envíe una matriz a procesar (en JSON, CSV o Matrix Market)
+        this.router.post(
+            '/process-matrix',
+            createMatrixBodyParser(),
+            validateRequest(matrixOperations.processMatrix),
+            this.matrixController.processMatrix.bind(this.matrixController)
+        );
     }
 }
\ No newline at end of file
@@ -0,0 +1,23 @@
+// src/interfaces/http/routes/metrics.routes.ts
+
+import { MetricsController } from '@interfaces/http/controllers/metrics.controller';
+import { Router } from 'express';
+
+/**
+ * @class MetricsRoutes
+ * @description Define la ruta de métricas de Prometheus (`GET /metrics`).
+ */
+export class MetricsRoutes {
+    public router: Router;
+    private readonly metricsController: MetricsController;
+
+    constructor(metricsController: MetricsController) {
+        this.metricsController = metricsController;
+        this.router = Router();
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes(): void {
+        this.router.get('/', this.metricsController.getMetrics.bind(this.metricsController));
+    }
+}
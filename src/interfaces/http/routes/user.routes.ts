@@ -0,0 +1,31 @@
+// src/interfaces/http/routes/user.routes.ts
+
+import { Router } from 'express';
+import { UserController } from '@interfaces/http/controllers/user.controller';
+import { requireRoles } from '@interfaces/http/middleware/authorization.middleware';
+import { userOperations } from '@interfaces/http/openapi/operations/user.operations';
+import { validateRequest } from '@interfaces/http/middleware/validation.middleware';
+
+/**
+ * @class UserRoutes
+ * @description Define las rutas de administración de cuentas de usuario.
+ * Todas son exclusivas de administradores, salvo deshabilitar la propia cuenta.
+ */
+export class UserRoutes {
+    public router: Router;
+    private readonly userController: UserController;
+
+    constructor(userController: UserController) {
+        this.userController = userController;
+        this.router = Router();
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes(): void {
+        this.router.get('/', requireRoles('admin'), this.userController.list.bind(this.userController));
+        this.router.put('/:id/roles', requireRoles('admin'), validateRequest(userOperations.setRoles), this.userController.setRoles.bind(this.userController));
+        // El caso de uso permite a cada usuario deshabilitar su propia cuenta
+        this.router.post('/:id/disable', this.userController.disable.bind(this.userController));
+        this.router.post('/:id/enable', requireRoles('admin'), this.userController.enable.bind(this.userController));
+    }
+}
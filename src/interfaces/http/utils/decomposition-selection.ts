@@ -0,0 +1,26 @@
+// src/interfaces/http/utils/decomposition-selection.ts
+
+import { Request } from 'express';
+
+import { BadRequestError } from '@domain/errors/app.errors';
+
+/**
+ * @function parseDecompositionSelection
+ * @description Lee las descomposiciones solicitadas. Se aceptan en el body (`decompositions`, como array de nombres
+ * o string separado por comas) o en la query (`?decompositions=lu,svd`); el body tiene prioridad.
+ * @returns Los nombres solicitados, o `undefined` si el cliente no eligió ninguno.
+ * @throws {BadRequestError} Si `decompositions` no es un string ni un array de strings.
+ */
+export const parseDecompositionSelection = (req: Request): string[] | undefined => {
+    const raw: unknown = req.body?.decompositions ?? req.query?.decompositions;
+    if (raw === undefined || raw === null) {
+        return undefined;
+    }
+
+    const parts = typeof raw === 'string' ? raw.split(',') : raw;
+    if (!Array.isArray(parts) || !parts.every(part => typeof part === 'string')) {
+        throw new BadRequestError('"decompositions" must be an array of decomposition names or a comma-separated string.');
+    }
+    const names = parts.map(part => part.trim()).filter(part => part.length > 0);
+    return names.length > 0 ? names : undefined;
+};
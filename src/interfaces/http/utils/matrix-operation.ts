@@ -0,0 +1,18 @@
+// src/interfaces/http/utils/matrix-operation.ts
+
+import { MatrixOperation } from '@domain/entities/matrix';
+import { Request } from 'express';
+
+import { resolveMatrixOperation } from '@application/services/matrix-operation';
+
+/**
+ * @function parseMatrixOperation
+ * @description Lee la operación de una solicitud: en el body (`operation`, como objeto o en forma abreviada)
+ * o en la query (`?operation=rotate:180:counterclockwise`); el body tiene prioridad.
+ * @returns La operación validada y completa, o `undefined` si el cliente no eligió ninguna (se usa la rotación por defecto).
+ * @throws {BadRequestError} Si el descriptor no es válido.
+ */
+export const parseMatrixOperation = (req: Request): MatrixOperation | undefined => {
+    const raw: unknown = req.body?.operation ?? req.query?.operation;
+    return raw === undefined || raw === null ? undefined : resolveMatrixOperation(raw);
+};
@@ -0,0 +1,61 @@
+// src/interfaces/http/utils/request-body.ts
+
+import { AppError, BadRequestError, MatrixTooLargeError } from '@domain/errors/app.errors';
+
+import { MatrixLimits } from '@domain/entities/matrix';
+import { RequestHandler } from 'express';
+
+// Caracteres de un número en el peor caso (ej. `-2.2250738585072014e-308`), más el separador
+const MAX_BYTES_PER_ELEMENT = 25;
+// Margen para el resto del cuerpo (selección de estadísticas, operación, corchetes de las filas...)
+const BODY_OVERHEAD_BYTES = 64 * 1024;
+// Límite por defecto de body-parser, para las solicitudes sin límites de matrices resueltos
+const DEFAULT_BODY_LIMIT = 100 * 1024;
+
+/**
+ * @function matrixBodyLimit
+ * @description Tamaño máximo del cuerpo, en bytes, para los límites de matrices del solicitante: el cuerpo no debe
+ * rechazarse antes de que la validación aplique esos límites, pero tampoco aceptar más de lo que pueden ocupar.
+ */
+export const matrixBodyLimit = (limits?: MatrixLimits): number =>
+    limits ? limits.maxElements * MAX_BYTES_PER_ELEMENT + BODY_OVERHEAD_BYTES : DEFAULT_BODY_LIMIT;
+
+/**
+ * @function createCallerSizedBodyParser
+ * @description Envuelve un parser de cuerpo de Express (`express.json`, `express.text`...) para que su límite sea
+ * el de los límites de matrices del solicitante (`req.matrixLimits`). Debe montarse después del middleware que
+ * los resuelve. Se crea un parser por cada límite distinto (uno por rol) y se reutiliza.
+ */
+export const createCallerSizedBodyParser = (create: (limit: number) => RequestHandler): RequestHandler => {
+    const parsers = new Map<number, RequestHandler>();
+    return (req, res, next) => {
+        const limit = matrixBodyLimit(req.matrixLimits);
+        let parser = parsers.get(limit);
+        if (!parser) {
+            parser = create(limit);
+            parsers.set(limit, parser);
+        }
+        parser(req, res, next);
+    };
+};
+
+/**
+ * @function fromBodyParserError
+ * @description Traduce los errores de los parsers de cuerpo de Express (body-parser) a errores de la aplicación.
+ * @returns El error equivalente, o `undefined` si el error no viene de un parser de cuerpo.
+ */
+export const fromBodyParserError = (error: unknown): AppError | undefined => {
+    if (typeof error !== 'object' || error === null || !('type' in error)) {
+        return undefined;
+    }
+    if (error.type === 'entity.too.large') {
+        const limit = 'limit' in error ? error.limit : undefined;
+        return new MatrixTooLargeError(`The request body exceeds the maximum of ${limit} bytes.`);
+    }
+    // JSON mal formado: body-parser lanza un SyntaxError con status 400, que no es un AppError
+    if (error.type === 'entity.parse.failed') {
+        const reason = error instanceof Error ? `: ${error.message}` : '.';
+        return new BadRequestError(`The request body is not valid JSON${reason}`);
+    }
+    return undefined;
+};
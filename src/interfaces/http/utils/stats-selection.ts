@@ -0,0 +1,26 @@
+// src/interfaces/http/utils/stats-selection.ts
+
+import { Request } from 'express';
+
+import { BadRequestError } from '@domain/errors/app.errors';
+
+/**
+ * @function parseStatsSelection
+ * @description Lee la selección de estadísticas de una solicitud. Se acepta en el body (`stats`, como array
+ * de nombres o string separado por comas) o en la query (`?stats=median,trace`); el body tiene prioridad.
+ * @returns Los nombres solicitados, o `undefined` si el cliente no eligió ninguno (se usan los por defecto).
+ * @throws {BadRequestError} Si `stats` no es un string ni un array de strings.
+ */
+export const parseStatsSelection = (req: Request): string[] | undefined => {
+    const raw: unknown = req.body?.stats ?? req.query?.stats;
+    if (raw === undefined || raw === null) {
+        return undefined;
+    }
+
+    const parts = typeof raw === 'string' ? raw.split(',') : raw;
+    if (!Array.isArray(parts) || !parts.every(part => typeof part === 'string')) {
+        throw new BadRequestError('"stats" must be an array of statistic names or a comma-separated string.');
+    }
+    const names = parts.map(part => part.trim()).filter(part => part.length > 0);
+    return names.length > 0 ? names : undefined;
+};
@@ -0,0 +1,102 @@
+// src/shared/archive/zip.ts
+
+import { deflateRawSync } from 'zlib';
+
+/**
+ * @interface ZipEntry
+ * @description Un archivo dentro del ZIP.
+ */
+export interface ZipEntry {
+    name: string; // Ruta dentro del archivo (UTF-8, con `/` como separador)
+    content: Buffer | string;
+}
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    return c >>> 0;
+});
+
+/**
+ * Calcula el CRC-32 (el de ZIP y gzip) de un buffer.
+ */
+export const crc32 = (data: Buffer): number => {
+    let crc = 0xFFFFFFFF;
+    for (const byte of data) {
+        crc = CRC32_TABLE[(crc ^ byte) & 0xFF] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+/**
+ * Fecha y hora en formato MS-DOS (resolución de 2 segundos), como las guarda ZIP.
+ */
+const toDosDateTime = (date: Date) => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/**
+ * @function createZipArchive
+ * @description Empaqueta los archivos en un ZIP en memoria (comprimidos con deflate). Pensado para respuestas
+ * pequeñas: no admite ZIP64, así que cada archivo y el total deben ocupar menos de 4 GiB.
+ * @param entries Los archivos, en el orden en que aparecerán.
+ * @param modifiedAt Fecha de modificación de todos los archivos (por defecto, ahora).
+ */
+export const createZipArchive = (entries: ZipEntry[], modifiedAt: Date = new Date()): Buffer => {
+    const { time, date } = toDosDateTime(modifiedAt);
+    const localParts: Buffer[] = [];
+    const centralParts: Buffer[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = Buffer.from(entry.name, 'utf8');
+        const content = typeof entry.content === 'string' ? Buffer.from(entry.content, 'utf8') : entry.content;
+        const compressed = deflateRawSync(content);
+        const checksum = crc32(content);
+
+        // Cabecera local: versión 2.0, nombre en UTF-8 (bit 11), método 8 (deflate)
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034B50, 0);
+        local.writeUInt16LE(20, 4);
+        local.writeUInt16LE(0x0800, 6);
+        local.writeUInt16LE(8, 8);
+        local.writeUInt16LE(time, 10);
+        local.writeUInt16LE(date, 12);
+        local.writeUInt32LE(checksum, 14);
+        local.writeUInt32LE(compressed.length, 18);
+        local.writeUInt32LE(content.length, 22);
+        local.writeUInt16LE(name.length, 26);
+        local.writeUInt16LE(0, 28);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014B50, 0);
+        central.writeUInt16LE(20, 4);
+        central.writeUInt16LE(20, 6);
+        central.writeUInt16LE(0x0800, 8);
+        central.writeUInt16LE(8, 10);
+        central.writeUInt16LE(time, 12);
+        central.writeUInt16LE(date, 14);
+        central.writeUInt32LE(checksum, 16);
+        central.writeUInt32LE(compressed.length, 20);
+        central.writeUInt32LE(content.length, 24);
+        central.writeUInt16LE(name.length, 28);
+        central.writeUInt32LE(offset, 42); // Los campos extra, comentario, disco y atributos quedan a 0
+
+        localParts.push(local, name, compressed);
+        centralParts.push(central, name);
+        offset += local.length + name.length + compressed.length;
+    }
+
+    const centralDirectory = Buffer.concat(centralParts);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054B50, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralDirectory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...localParts, centralDirectory, end]);
+};
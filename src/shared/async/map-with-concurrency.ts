@@ -0,0 +1,27 @@
+// src/shared/async/map-with-concurrency.ts
+
+/**
+ * @function mapWithConcurrency
+ * @description Aplica `mapper` a cada elemento con, como máximo, `concurrency` llamadas en curso a la vez.
+ * Los resultados conservan el orden de entrada. Si `mapper` rechaza, la promesa devuelta rechaza
+ * (los llamadores que necesiten tolerar fallos deben capturarlos dentro de `mapper`).
+ */
+export const mapWithConcurrency = async <T, R>(
+    items: readonly T[],
+    concurrency: number,
+    mapper: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+    const results = new Array<R>(items.length);
+    let nextIndex = 0;
+
+    const worker = async (): Promise<void> => {
+        while (nextIndex < items.length) {
+            const index = nextIndex++;
+            results[index] = await mapper(items[index], index);
+        }
+    };
+
+    const workers = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker);
+    await Promise.all(workers);
+    return results;
+};
@@ -0,0 +1,15 @@
+// src/shared/async/settle-within.ts
+
+/**
+ * @function settleWithin
+ * @description Espera a que `promise` termine, como mucho `timeoutMs` milisegundos.
+ * @returns `true` si terminó a tiempo (aunque haya rechazado), `false` si se agotó el plazo.
+ */
+export const settleWithin = (promise: Promise<unknown>, timeoutMs: number): Promise<boolean> =>
+    new Promise(resolve => {
+        const timer = setTimeout(() => resolve(false), timeoutMs);
+        promise.then(() => true, () => true).then(settled => {
+            clearTimeout(timer);
+            resolve(settled);
+        });
+    });
@@ -0,0 +1,90 @@
+// src/shared/logging/logger.ts
+
+import { getRequestContext } from '@shared/logging/request-context';
+import { redact } from '@shared/logging/redact';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+export type LogFields = Record<string, unknown>;
+
+interface LoggerSettings {
+    level: LogLevel;
+}
+
+/**
+ * @class Logger
+ * @description Logger estructurado: escribe una línea JSON por entrada con `timestamp`, `level`, `message`,
+ * el contexto de la solicitud en curso (`requestId`, `userId`, `method`, `path`), los campos fijos del logger
+ * (ej. `component`) y los campos de la entrada. Todos los campos pasan por `redact` (sin tokens ni matrices).
+ * Las entradas `warn` y `error` se escriben en stderr; el resto, en stdout.
+ */
+export class Logger {
+    private readonly bindings: LogFields;
+    // Compartido con los loggers hijos: cambiar el nivel del raíz afecta a todos
+    private readonly settings: LoggerSettings;
+
+    constructor(bindings: LogFields = {}, settings: LoggerSettings = { level: 'info' }) {
+        this.bindings = bindings;
+        this.settings = settings;
+    }
+
+    /**
+     * @method child
+     * @description Crea un logger que añade `bindings` a todas sus entradas.
+     * @example const log = logger.child({ component: 'GoApiHttpClient' });
+     */
+    public child(bindings: LogFields): Logger {
+        return new Logger({ ...this.bindings, ...bindings }, this.settings);
+    }
+
+    public setLevel(level: LogLevel): void {
+        this.settings.level = level;
+    }
+
+    public isLevelEnabled(level: LogLevel): boolean {
+        return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.settings.level);
+    }
+
+    public debug(message: string, fields?: LogFields): void {
+        this.write('debug', message, fields);
+    }
+
+    public info(message: string, fields?: LogFields): void {
+        this.write('info', message, fields);
+    }
+
+    public warn(message: string, fields?: LogFields): void {
+        this.write('warn', message, fields);
+    }
+
+    public error(message: string, fields?: LogFields): void {
+        this.write('error', message, fields);
+    }
+
+    private write(level: LogLevel, message: string, fields: LogFields = {}): void {
+        if (!this.isLevelEnabled(level)) return;
+
+        const entry = {
+            timestamp: new Date().toISOString(),
+            level,
+            message,
+            ...(redact({ ...getRequestContext(), ...this.bindings, ...fields }) as LogFields),
+        };
+        const line = JSON.stringify(entry);
+
+        if (level === 'error') {
+            console.error(line);
+        } else if (level === 'warn') {
+            console.warn(line);
+        } else {
+            console.log(line);
+        }
+    }
+}
+
+/**
+ * Logger raíz de la aplicación. Su nivel se configura al arrancar (`LOG_LEVEL`).
+ */
+export const logger = new Logger();
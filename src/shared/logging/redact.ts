@@ -0,0 +1,55 @@
+// src/shared/logging/redact.ts
+
+// Campos cuyo valor nunca se escribe en el log (tokens, contraseñas, API keys, cabeceras de autenticación)
+const SENSITIVE_KEY = /authorization|token|password|secret|api[-_]?key|cookie/i;
+
+const MAX_DEPTH = 6;
+
+const isMatrixLike = (value: unknown): value is unknown[][] =>
+    Array.isArray(value) && value.length > 0 && value.every(Array.isArray);
+
+/**
+ * Serializa un error con su nombre, mensaje y (si es un AppError) su código y estado HTTP.
+ */
+const serializeError = (error: Error & { errorCode?: string; statusCode?: number; details?: string }, depth: number) => ({
+    name: error.name,
+    message: error.message,
+    ...(error.errorCode && { errorCode: error.errorCode }),
+    ...(error.statusCode && { statusCode: error.statusCode }),
+    ...(error.details && { details: redact(error.details, depth + 1) }),
+    ...(error.stack && { stack: error.stack }),
+});
+
+/**
+ * @function redact
+ * @description Prepara un valor para escribirlo en el log:
+ * - Los campos sensibles (tokens, contraseñas, API keys…) se reemplazan por `[REDACTED]`.
+ * - Las matrices (arrays de arrays) se reemplazan por sus dimensiones, ej. `[matrix 3x4]`, para no volcar los datos.
+ * - Los errores se serializan con su nombre, mensaje, código y stack.
+ */
+export const redact = (value: unknown, depth: number = 0): unknown => {
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+    if (depth >= MAX_DEPTH) {
+        return '[truncated]';
+    }
+    if (value instanceof Error) {
+        return serializeError(value, depth);
+    }
+    if (isMatrixLike(value)) {
+        return `[matrix ${value.length}x${value[0].length}]`;
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => redact(item, depth + 1));
+    }
+    if (value instanceof Date) {
+        return value.toISOString();
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(value)) {
+        result[key] = SENSITIVE_KEY.test(key) ? '[REDACTED]' : redact(field, depth + 1);
+    }
+    return result;
+};
@@ -0,0 +1,37 @@
+// src/shared/logging/request-context.ts
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * @interface RequestContext
+ * @description Contexto de la solicitud HTTP en curso. Se propaga por todas las llamadas asíncronas
+ * de la solicitud (incluidos los trabajos que encola) y se añade a cada entrada del log.
+ */
+export interface RequestContext {
+    requestId: string;
+    method?: string;
+    path?: string;
+    userId?: string; // Se añade al autenticar la solicitud
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Ejecuta `callback` (y todo lo que encadene de forma asíncrona) dentro del contexto indicado.
+ */
+export const runWithRequestContext = <T>(context: RequestContext, callback: () => T): T => storage.run(context, callback);
+
+/**
+ * Devuelve el contexto de la solicitud en curso, o `undefined` fuera de una solicitud (ej. al arrancar).
+ */
+export const getRequestContext = (): RequestContext | undefined => storage.getStore();
+
+/**
+ * Añade campos al contexto de la solicitud en curso (ej. el usuario, una vez autenticado).
+ */
+export const bindRequestContext = (fields: Partial<RequestContext>): void => {
+    const context = storage.getStore();
+    if (context) {
+        Object.assign(context, fields);
+    }
+};
@@ -0,0 +1,37 @@
+// src/shared/math/cholesky.ts
+
+import { Matrix } from '@domain/entities/matrix';
+import { createMatrix } from '@shared/math/linear-algebra';
+
+/**
+ * @function choleskyDecompose
+ * @description Descomposición de Cholesky de una matriz simétrica definida positiva: A = L · Lᵀ.
+ * Solo se lee el triángulo inferior de la matriz; la simetría la debe comprobar quien llama.
+ * @param matrix Matriz cuadrada de n x n.
+ * @returns L (triangular inferior, con diagonal positiva), o `null` si la matriz no es definida positiva.
+ */
+export const choleskyDecompose = (matrix: Matrix): Matrix | null => {
+    const n = matrix.length;
+    const L = createMatrix(n, n);
+
+    for (let j = 0; j < n; j++) {
+        let diagonal = matrix[j][j];
+        for (let k = 0; k < j; k++) {
+            diagonal -= L[j][k] * L[j][k];
+        }
+        // También descarta NaN: `!(x > 0)` es verdadero para NaN
+        if (!(diagonal > 0)) {
+            return null;
+        }
+        L[j][j] = Math.sqrt(diagonal);
+
+        for (let i = j + 1; i < n; i++) {
+            let sum = matrix[i][j];
+            for (let k = 0; k < j; k++) {
+                sum -= L[i][k] * L[j][k];
+            }
+            L[i][j] = sum / L[j][j];
+        }
+    }
+    return L;
+};
@@ -0,0 +1,239 @@
+// src/shared/math/eigenvalues.ts
+
+import { InvalidMatrixError } from '@domain/errors/app.errors';
+import { Matrix } from '@domain/entities/matrix';
+import { cloneMatrix } from '@shared/math/linear-algebra';
+
+/**
+ * @interface EigenvaluesResult
+ * @description Valores propios (posiblemente complejos) de una matriz real: el i-ésimo es `real[i] + imaginary[i]·i`.
+ * Los pares complejos conjugados aparecen consecutivos, con la parte imaginaria positiva primero.
+ */
+export interface EigenvaluesResult {
+    real: number[];
+    imaginary: number[];
+}
+
+// Presupuesto total de iteraciones QR por valor propio, como el `itn = 30 * n` de EISPACK `hqr`
+const MAX_ITERATIONS_PER_EIGENVALUE = 30;
+
+/**
+ * Reduce `h` a forma de Hessenberg superior con reflexiones de Householder (JAMA `orthes`),
+ * una transformación de semejanza ortogonal que conserva los valores propios.
+ */
+const reduceToHessenberg = (h: number[][]): void => {
+    const n = h.length;
+    const ort = new Array<number>(n).fill(0);
+    for (let m = 1; m < n - 1; m++) {
+        let scale = 0;
+        for (let i = m; i < n; i++) scale += Math.abs(h[i][m - 1]);
+        if (scale === 0) continue;
+
+        // Vector de Householder u (en ort[m..n-1]) que anula la columna m - 1 bajo la subdiagonal
+        let norm2 = 0;
+        for (let i = n - 1; i >= m; i--) {
+            ort[i] = h[i][m - 1] / scale;
+            norm2 += ort[i] * ort[i];
+        }
+        const g = ort[m] > 0 ? -Math.sqrt(norm2) : Math.sqrt(norm2);
+        norm2 -= ort[m] * g;
+        ort[m] -= g;
+
+        // H = (I - u·uᵀ / |u|²) · H · (I - u·uᵀ / |u|²)
+        for (let j = m; j < n; j++) {
+            let f = 0;
+            for (let i = n - 1; i >= m; i--) f += ort[i] * h[i][j];
+            f /= norm2;
+            for (let i = m; i < n; i++) h[i][j] -= f * ort[i];
+        }
+        for (let i = 0; i < n; i++) {
+            let f = 0;
+            for (let j = n - 1; j >= m; j--) f += ort[j] * h[i][j];
+            f /= norm2;
+            for (let j = m; j < n; j++) h[i][j] -= f * ort[j];
+        }
+        h[m][m - 1] = scale * g;
+        for (let i = m + 1; i < n; i++) h[i][m - 1] = 0;
+    }
+};
+
+/**
+ * @function eigenvalues
+ * @description Valores propios de una matriz cuadrada real (no necesariamente simétrica): reducción a Hessenberg
+ * con Householder y algoritmo QR con doble desplazamiento de Francis. Adaptado de `orthes` y `hqr2` de JAMA
+ * (A Java Matrix Package, MathWorks y NIST, de dominio público), a su vez derivados de los procedimientos de
+ * EISPACK; se omite la acumulación de los vectores propios. Para matrices simétricas conviene `symmetricEigen`,
+ * que además devuelve los vectores propios.
+ * @param matrix Matriz cuadrada de n x n.
+ * @throws {InvalidMatrixError} Si la iteración QR no converge (no ocurre en la práctica con valores finitos).
+ */
+export const eigenvalues = (matrix: Matrix): EigenvaluesResult => {
+    const size = matrix.length;
+    const h = cloneMatrix(matrix);
+    reduceToHessenberg(h);
+
+    const real = new Array<number>(size).fill(0);
+    const imaginary = new Array<number>(size).fill(0);
+
+    let norm = 0;
+    for (let i = 0; i < size; i++) {
+        for (let j = Math.max(i - 1, 0); j < size; j++) norm += Math.abs(h[i][j]);
+    }
+
+    const maxIterations = MAX_ITERATIONS_PER_EIGENVALUE * size;
+    let totalIterations = 0;
+    let iteration = 0; // Iteraciones desde el último valor propio encontrado
+    let exceptionalShift = 0; // Desplazamientos excepcionales acumulados
+    let n = size - 1; // Último índice del bloque activo
+    let p = 0, q = 0, r = 0, s = 0, w = 0, x = 0, y = 0, z = 0;
+
+    while (n >= 0) {
+        // Busca un elemento subdiagonal despreciable que separe el problema
+        let l = n;
+        while (l > 0) {
+            s = Math.abs(h[l - 1][l - 1]) + Math.abs(h[l][l]);
+            if (s === 0) s = norm;
+            if (Math.abs(h[l][l - 1]) < Number.EPSILON * s) break;
+            l--;
+        }
+
+        if (l === n) {
+            // Una raíz aislada
+            real[n] = h[n][n] + exceptionalShift;
+            imaginary[n] = 0;
+            n--;
+            iteration = 0;
+        } else if (l === n - 1) {
+            // Un bloque de 2 x 2: dos raíces reales o un par complejo conjugado
+            w = h[n][n - 1] * h[n - 1][n];
+            p = (h[n - 1][n - 1] - h[n][n]) / 2;
+            q = p * p + w;
+            z = Math.sqrt(Math.abs(q));
+            x = h[n][n] + exceptionalShift;
+            if (q >= 0) {
+                z = p >= 0 ? p + z : p - z;
+                real[n - 1] = x + z;
+                real[n] = z !== 0 ? x - w / z : x + z;
+                imaginary[n - 1] = 0;
+                imaginary[n] = 0;
+            } else {
+                real[n - 1] = x + p;
+                real[n] = x + p;
+                imaginary[n - 1] = z;
+                imaginary[n] = -z;
+            }
+            n -= 2;
+            iteration = 0;
+        } else {
+            if (totalIterations === maxIterations) {
+                throw new InvalidMatrixError(
+                    `The QR iteration for the eigenvalues did not converge after ${maxIterations} iterations.`
+                );
+            }
+            x = h[n][n];
+            y = h[n - 1][n - 1];
+            w = h[n][n - 1] * h[n - 1][n];
+
+            if (iteration === 10) {
+                // Desplazamiento excepcional de Wilkinson, para salir de ciclos
+                exceptionalShift += x;
+                for (let i = 0; i <= n; i++) h[i][i] -= x;
+                s = Math.abs(h[n][n - 1]) + Math.abs(h[n - 1][n - 2]);
+                x = y = 0.75 * s;
+                w = -0.4375 * s * s;
+            }
+            if (iteration === 30) {
+                // Desplazamiento excepcional de MATLAB
+                s = (y - x) / 2;
+                s = s * s + w;
+                if (s > 0) {
+                    s = Math.sqrt(s);
+                    if (y < x) s = -s;
+                    s = x - w / ((y - x) / 2 + s);
+                    for (let i = 0; i <= n; i++) h[i][i] -= s;
+                    exceptionalShift += s;
+                    x = y = w = 0.964;
+                }
+            }
+            iteration++;
+            totalIterations++;
+
+            // Busca dos elementos subdiagonales consecutivos pequeños
+            let m = n - 2;
+            while (m >= l) {
+                z = h[m][m];
+                r = x - z;
+                s = y - z;
+                p = (r * s - w) / h[m + 1][m] + h[m][m + 1];
+                q = h[m + 1][m + 1] - z - r - s;
+                r = h[m + 2][m + 1];
+                s = Math.abs(p) + Math.abs(q) + Math.abs(r);
+                p /= s;
+                q /= s;
+                r /= s;
+                if (m === l) break;
+                const coupling = Math.abs(h[m][m - 1]) * (Math.abs(q) + Math.abs(r));
+                const scale = Math.abs(p) * (Math.abs(h[m - 1][m - 1]) + Math.abs(z) + Math.abs(h[m + 1][m + 1]));
+                if (coupling < Number.EPSILON * scale) break;
+                m--;
+            }
+            for (let i = m + 2; i <= n; i++) {
+                h[i][i - 2] = 0;
+                if (i > m + 2) h[i][i - 3] = 0;
+            }
+
+            // Paso QR de doble desplazamiento sobre las filas l..n y las columnas m..n
+            for (let k = m; k <= n - 1; k++) {
+                const notLast = k !== n - 1;
+                if (k !== m) {
+                    p = h[k][k - 1];
+                    q = h[k + 1][k - 1];
+                    r = notLast ? h[k + 2][k - 1] : 0;
+                    x = Math.abs(p) + Math.abs(q) + Math.abs(r);
+                    if (x === 0) continue;
+                    p /= x;
+                    q /= x;
+                    r /= x;
+                }
+                s = Math.sqrt(p * p + q * q + r * r);
+                if (p < 0) s = -s;
+                if (s === 0) continue;
+
+                if (k !== m) {
+                    h[k][k - 1] = -s * x;
+                } else if (l !== m) {
+                    h[k][k - 1] = -h[k][k - 1];
+                }
+                p += s;
+                x = p / s;
+                y = q / s;
+                z = r / s;
+                q /= p;
+                r /= p;
+
+                // Modificación de las filas
+                for (let j = k; j < size; j++) {
+                    p = h[k][j] + q * h[k + 1][j];
+                    if (notLast) {
+                        p += r * h[k + 2][j];
+                        h[k + 2][j] -= p * z;
+                    }
+                    h[k][j] -= p * x;
+                    h[k + 1][j] -= p * y;
+                }
+                // Modificación de las columnas
+                for (let i = 0; i <= Math.min(n, k + 3); i++) {
+                    p = x * h[i][k] + y * h[i][k + 1];
+                    if (notLast) {
+                        p += z * h[i][k + 2];
+                        h[i][k + 2] -= p * r;
+                    }
+                    h[i][k] -= p;
+                    h[i][k + 1] -= p * q;
+                }
+            }
+        }
+    }
+
+    return { real, imaginary };
+};
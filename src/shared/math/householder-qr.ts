@@ -0,0 +1,80 @@
+// src/shared/math/householder-qr.ts
+
+import { Matrix, QRFactorization } from '@domain/entities/matrix';
+import { cloneMatrix, identity } from '@shared/math/linear-algebra';
+
+/**
+ * @function householderQR
+ * @description Calcula la factorización QR completa de una matriz de m x n mediante reflexiones de Householder.
+ * Devuelve Q (m x m, ortogonal) y R (m x n, triangular superior) tales que A = Q · R.
+ *
+ * Se usa el signo `alpha = -sign(x0) · ||x||` para evitar cancelación numérica, lo que produce
+ * la misma convención de signos que la API de Go (diagonal de R negativa para columnas positivas).
+ * @param matrix La matriz a factorizar (debe ser rectangular y no vacía).
+ * @returns La factorización QR.
+ */
+export const householderQR = (matrix: Matrix): QRFactorization => {
+    const m = matrix.length;
+    const n = matrix[0].length;
+    const R = cloneMatrix(matrix);
+    const Q = identity(m);
+
+    const steps = Math.min(m - 1, n);
+    for (let k = 0; k < steps; k++) {
+        // Vector x = R[k..m-1][k]
+        let norm = 0;
+        for (let i = k; i < m; i++) {
+            norm += R[i][k] * R[i][k];
+        }
+        norm = Math.sqrt(norm);
+        if (norm === 0) continue;
+
+        const alpha = R[k][k] >= 0 ? -norm : norm;
+
+        // v = x - alpha · e1, normalizado
+        const v = new Array<number>(m - k);
+        for (let i = k; i < m; i++) {
+            v[i - k] = R[i][k];
+        }
+        v[0] -= alpha;
+        let vNorm = 0;
+        for (const value of v) {
+            vNorm += value * value;
+        }
+        vNorm = Math.sqrt(vNorm);
+        if (vNorm === 0) continue;
+        for (let i = 0; i < v.length; i++) {
+            v[i] /= vNorm;
+        }
+
+        // R = H · R, con H = I - 2vvᵀ (solo afecta a las filas k..m-1)
+        for (let j = k; j < n; j++) {
+            let dot = 0;
+            for (let i = k; i < m; i++) {
+                dot += v[i - k] * R[i][j];
+            }
+            for (let i = k; i < m; i++) {
+                R[i][j] -= 2 * v[i - k] * dot;
+            }
+        }
+
+        // Q = Q · H (solo afecta a las columnas k..m-1)
+        for (let i = 0; i < m; i++) {
+            let dot = 0;
+            for (let j = k; j < m; j++) {
+                dot += Q[i][j] * v[j - k];
+            }
+            for (let j = k; j < m; j++) {
+                Q[i][j] -= 2 * dot * v[j - k];
+            }
+        }
+
+        // Los elementos bajo la diagonal son exactamente cero por construcción
+        R[k][k] = alpha;
+        for (let i = k + 1; i < m; i++) {
+            R[i][k] = 0;
+        }
+    }
+
+    return { Q, R };
+};
@@ -0,0 +1,81 @@
+// src/shared/math/least-squares.ts
+
+import { Matrix, QRFactorization } from '@domain/entities/matrix';
+import { createMatrix, multiply } from '@shared/math/linear-algebra';
+
+import { svdDecompose } from '@shared/math/svd';
+
+/**
+ * @function qrRank
+ * @description Rango numérico de una matriz de m x n (m >= n) a partir de la diagonal de su factor R:
+ * cuenta los pivotes |rii| mayores que max(m, n) · ε · max|rii|. Sin pivoteo de columnas la cuenta puede
+ * no coincidir con el rango exacto, pero cualquier pivote nulo indica deficiencia de rango.
+ */
+export const qrRank = (R: Matrix, rows: number, cols: number): number => {
+    const pivots = Array.from({ length: cols }, (_, i) => Math.abs(R[i][i]));
+    const tolerance = Math.max(rows, cols) * Number.EPSILON * Math.max(...pivots);
+    return pivots.filter(pivot => pivot > tolerance).length;
+};
+
+/**
+ * @function qrSolve
+ * @description Resuelve A · X = B (o, si m > n, minimiza ||A · X - B|| por columnas) con la factorización QR de A:
+ * X = R₁⁻¹ · Q₁ᵀ · B por sustitución hacia atrás, donde Q₁ son las primeras n columnas de Q y R₁ las primeras
+ * n filas de R. Admite tanto la QR completa (Q de m x m) como la reducida (Q de m x n).
+ * @param qr La factorización de A (m x n, con m >= n y rango completo).
+ * @param B Lados derechos como columnas (m x k).
+ * @returns X (n x k).
+ */
+export const qrSolve = ({ Q, R }: QRFactorization, B: Matrix): Matrix => {
+    const m = Q.length;
+    const n = R[0].length;
+    const k = B[0].length;
+    const X = createMatrix(n, k);
+
+    for (let c = 0; c < k; c++) {
+        // y = Q₁ᵀ · b
+        const y = Array.from({ length: n }, (_, i) => {
+            let dot = 0;
+            for (let r = 0; r < m; r++) dot += Q[r][i] * B[r][c];
+            return dot;
+        });
+        for (let i = n - 1; i >= 0; i--) {
+            let sum = y[i];
+            for (let j = i + 1; j < n; j++) {
+                sum -= R[i][j] * X[j][c];
+            }
+            X[i][c] = sum / R[i][i];
+        }
+    }
+    return X;
+};
+
+/**
+ * @function minimumNormSolve
+ * @description Solución de mínimos cuadrados de norma mínima, X = A⁺ · B, con la pseudoinversa obtenida de la SVD.
+ * Es la solución que se devuelve cuando A no tiene rango completo y QR no determina una única.
+ * @returns X (n x k) y el rango numérico de A (valores singulares no nulos).
+ */
+export const minimumNormSolve = (A: Matrix, B: Matrix): { X: Matrix; rank: number } => {
+    const { U, S, V } = svdDecompose(A);
+    const rank = S.filter(value => value > 0).length;
+    const k = B[0].length;
+
+    // Uᵀ · B, escalado por 1 / σ en los valores singulares no nulos
+    const projected = S.map((sigma, s) => Array.from({ length: k }, (_, c) => {
+        if (sigma === 0) return 0;
+        let dot = 0;
+        for (let r = 0; r < U.length; r++) dot += U[r][s] * B[r][c];
+        return dot / sigma;
+    }));
+    return { X: multiply(V, projected), rank };
+};
+
+/**
+ * @function residualNorms
+ * @description Norma euclídea del residuo A · x - b de cada columna.
+ */
+export const residualNorms = (A: Matrix, X: Matrix, B: Matrix): number[] => {
+    const AX = multiply(A, X);
+    return B[0].map((_, c) => Math.sqrt(B.reduce((sum, row, r) => sum + (AX[r][c] - row[c]) ** 2, 0)));
+};
@@ -0,0 +1,170 @@
+// src/shared/math/linear-algebra.ts
+
+import { Matrix } from '@domain/entities/matrix';
+
+/**
+ * Utilidades de álgebra lineal puras (sin dependencias externas) usadas por el motor local
+ * y por los servicios que necesitan operar sobre matrices en Node.js.
+ * Todas las funciones devuelven matrices nuevas y nunca mutan sus argumentos.
+ */
+
+/**
+ * Crea una matriz de `rows` x `cols` rellena con `value`.
+ */
+export const createMatrix = (rows: number, cols: number, value: number = 0): Matrix =>
+    Array.from({ length: rows }, () => new Array<number>(cols).fill(value));
+
+/**
+ * Crea la matriz identidad de tamaño `size` x `size`.
+ */
+export const identity = (size: number): Matrix => {
+    const result = createMatrix(size, size);
+    for (let i = 0; i < size; i++) {
+        result[i][i] = 1;
+    }
+    return result;
+};
+
+/**
+ * Devuelve una copia profunda de la matriz.
+ */
+export const cloneMatrix = (matrix: Matrix): Matrix => matrix.map(row => row.slice());
+
+/**
+ * Devuelve todos los elementos de la matriz en un único array, fila por fila.
+ */
+export const flatten = (matrix: Matrix): number[] => {
+    const values: number[] = [];
+    for (const row of matrix) {
+        for (const value of row) {
+            values.push(value);
+        }
+    }
+    return values;
+};
+
+/**
+ * Devuelve la transpuesta de la matriz.
+ */
+export const transpose = (matrix: Matrix): Matrix => {
+    const rows = matrix.length;
+    const cols = rows > 0 ? matrix[0].length : 0;
+    const result = createMatrix(cols, rows);
+    for (let i = 0; i < rows; i++) {
+        for (let j = 0; j < cols; j++) {
+            result[j][i] = matrix[i][j];
+        }
+    }
+    return result;
+};
+
+/**
+ * Multiplica dos matrices (a · b). Se asume que las dimensiones son compatibles.
+ */
+export const multiply = (a: Matrix, b: Matrix): Matrix => {
+    const rows = a.length;
+    const inner = b.length;
+    const cols = inner > 0 ? b[0].length : 0;
+    const result = createMatrix(rows, cols);
+    for (let i = 0; i < rows; i++) {
+        for (let k = 0; k < inner; k++) {
+            const aik = a[i][k];
+            if (aik === 0) continue;
+            for (let j = 0; j < cols; j++) {
+                result[i][j] += aik * b[k][j];
+            }
+        }
+    }
+    return result;
+};
+
+/**
+ * Suma elemento a elemento (a + b). Se asume que ambas matrices tienen las mismas dimensiones.
+ */
+export const add = (a: Matrix, b: Matrix): Matrix => a.map((row, i) => row.map((value, j) => value + b[i][j]));
+
+/**
+ * Resta elemento a elemento (a - b). Se asume que ambas matrices tienen las mismas dimensiones.
+ */
+export const subtract = (a: Matrix, b: Matrix): Matrix => a.map((row, i) => row.map((value, j) => value - b[i][j]));
+
+/**
+ * Multiplica cada elemento de la matriz por un escalar.
+ */
+export const scale = (matrix: Matrix, scalar: number): Matrix => matrix.map(row => row.map(value => value * scalar));
+
+/**
+ * Potencia entera no negativa de una matriz cuadrada por exponenciación binaria: O(log k) productos.
+ * El exponente 0 devuelve la identidad.
+ */
+export const power = (matrix: Matrix, exponent: number): Matrix => {
+    let result = identity(matrix.length);
+    let base = matrix;
+    for (let k = exponent; k > 0; k = Math.floor(k / 2)) {
+        if (k % 2 === 1) {
+            result = multiply(result, base);
+        }
+        if (k > 1) {
+            base = multiply(base, base);
+        }
+    }
+    return result;
+};
+
+/**
+ * Producto de Kronecker (a ⊗ b): la matriz de bloques aij · b. Si a es de m x n y b de p x q, el resultado es de mp x nq.
+ */
+export const kronecker = (a: Matrix, b: Matrix): Matrix => {
+    const p = b.length;
+    const q = b[0].length;
+    const result = createMatrix(a.length * p, a[0].length * q);
+    a.forEach((row, i) => row.forEach((aij, j) => {
+        for (let k = 0; k < p; k++) {
+            for (let l = 0; l < q; l++) {
+                result[i * p + k][j * q + l] = aij * b[k][l];
+            }
+        }
+    }));
+    return result;
+};
+
+/**
+ * Rota la matriz 90 grados en sentido horario (misma convención que la API de Go).
+ * Una matriz de m x n produce una matriz de n x m.
+ */
+export const rotateClockwise = (matrix: Matrix): Matrix => {
+    const rows = matrix.length;
+    const cols = rows > 0 ? matrix[0].length : 0;
+    const result = createMatrix(cols, rows);
+    for (let i = 0; i < rows; i++) {
+        for (let j = 0; j < cols; j++) {
+            result[j][rows - 1 - i] = matrix[i][j];
+        }
+    }
+    return result;
+};
+
+/**
+ * Rota la matriz 90 grados en sentido antihorario. Una matriz de m x n produce una matriz de n x m.
+ */
+export const rotateCounterClockwise = (matrix: Matrix): Matrix => {
+    const rows = matrix.length;
+    const cols = rows > 0 ? matrix[0].length : 0;
+    const result = createMatrix(cols, rows);
+    for (let i = 0; i < rows; i++) {
+        for (let j = 0; j < cols; j++) {
+            result[cols - 1 - j][i] = matrix[i][j];
+        }
+    }
+    return result;
+};
+
+/**
+ * Voltea la matriz horizontalmente (espejo izquierda-derecha): invierte el orden de cada fila.
+ */
+export const flipHorizontal = (matrix: Matrix): Matrix => matrix.map(row => row.slice().reverse());
+
+/**
+ * Voltea la matriz verticalmente (espejo arriba-abajo): invierte el orden de las filas.
+ */
+export const flipVertical = (matrix: Matrix): Matrix => cloneMatrix(matrix).reverse();
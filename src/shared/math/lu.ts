@@ -0,0 +1,119 @@
+// src/shared/math/lu.ts
+
+import { cloneMatrix, createMatrix, identity } from '@shared/math/linear-algebra';
+
+import { Matrix } from '@domain/entities/matrix';
+import { defaultTolerance } from '@shared/math/matrix-analysis';
+
+/**
+ * @interface LUResult
+ * @description Resultado de la descomposición LU con pivoteo parcial: P · A = L · U.
+ */
+export interface LUResult {
+    L: Matrix;             // Triangular inferior con unos en la diagonal
+    U: Matrix;             // Triangular superior
+    P: Matrix;             // Matriz de permutación
+    permutation: number[]; // permutation[i] = fila de A que quedó en la posición i
+    swaps: number;         // Número de intercambios de filas (determina el signo del determinante)
+}
+
+/**
+ * @function luDecompose
+ * @description Descomposición LU de una matriz cuadrada con pivoteo parcial (algoritmo de Doolittle).
+ * Las matrices singulares no lanzan error: el pivote nulo queda como cero en la diagonal de U.
+ * @param matrix Matriz cuadrada de n x n.
+ */
+export const luDecompose = (matrix: Matrix): LUResult => {
+    const n = matrix.length;
+    const U = cloneMatrix(matrix);
+    const L = identity(n);
+    const permutation = Array.from({ length: n }, (_, i) => i);
+    let swaps = 0;
+
+    for (let k = 0; k < n; k++) {
+        // Pivoteo parcial: la fila con el mayor valor absoluto en la columna k
+        let pivotRow = k;
+        for (let i = k + 1; i < n; i++) {
+            if (Math.abs(U[i][k]) > Math.abs(U[pivotRow][k])) {
+                pivotRow = i;
+            }
+        }
+
+        if (pivotRow !== k) {
+            [U[k], U[pivotRow]] = [U[pivotRow], U[k]];
+            [permutation[k], permutation[pivotRow]] = [permutation[pivotRow], permutation[k]];
+            // Intercambiar también los multiplicadores ya calculados de L
+            for (let j = 0; j < k; j++) {
+                [L[k][j], L[pivotRow][j]] = [L[pivotRow][j], L[k][j]];
+            }
+            swaps++;
+        }
+
+        const pivot = U[k][k];
+        if (pivot === 0) continue; // Columna nula: no hay nada que eliminar
+
+        for (let i = k + 1; i < n; i++) {
+            const factor = U[i][k] / pivot;
+            L[i][k] = factor;
+            U[i][k] = 0;
+            for (let j = k + 1; j < n; j++) {
+                U[i][j] -= factor * U[k][j];
+            }
+        }
+    }
+
+    const P = createMatrix(n, n);
+    permutation.forEach((row, i) => { P[i][row] = 1; });
+
+    return { L, U, P, permutation, swaps };
+};
+
+/**
+ * @function determinant
+ * @description Determinante de una matriz cuadrada a partir de su descomposición LU.
+ */
+export const determinant = (matrix: Matrix): number => {
+    const { U, swaps } = luDecompose(matrix);
+    let det = swaps % 2 === 0 ? 1 : -1;
+    for (let i = 0; i < U.length; i++) {
+        det *= U[i][i];
+    }
+    // Evitar -0 en la salida
+    return det + 0;
+};
+
+/**
+ * @function inverse
+ * @description Inversa de una matriz cuadrada a partir de su descomposición LU: resuelve L · U · X = P columna a columna.
+ * @param tolerance Valor por debajo del cual un pivote de U se considera cero.
+ * @returns La inversa, o `null` si la matriz es (numéricamente) singular.
+ */
+export const inverse = (matrix: Matrix, tolerance: number = defaultTolerance(matrix)): Matrix | null => {
+    const n = matrix.length;
+    const { L, U, P } = luDecompose(matrix);
+    for (let i = 0; i < n; i++) {
+        if (Math.abs(U[i][i]) <= tolerance) {
+            return null;
+        }
+    }
+
+    const X = createMatrix(n, n);
+    for (let c = 0; c < n; c++) {
+        // L · y = P · e_c (sustitución hacia adelante; L tiene unos en la diagonal)
+        const y = P.map(row => row[c]);
+        for (let i = 0; i < n; i++) {
+            for (let j = 0; j < i; j++) {
+                y[i] -= L[i][j] * y[j];
+            }
+        }
+        // U · x = y (sustitución hacia atrás)
+        for (let i = n - 1; i >= 0; i--) {
+            let sum = y[i];
+            for (let j = i + 1; j < n; j++) {
+                sum -= U[i][j] * X[j][c];
+            }
+            X[i][c] = sum / U[i][i];
+        }
+    }
+    return X;
+};
@@ -0,0 +1,116 @@
+// src/shared/math/matrix-analysis.ts
+
+import { cloneMatrix, multiply, transpose } from '@shared/math/linear-algebra';
+
+import { Matrix } from '@domain/entities/matrix';
+import { symmetricEigen } from '@shared/math/symmetric-eigen';
+
+/**
+ * Tolerancia por defecto para decidir si un valor es numéricamente cero en una matriz,
+ * relativa a su mayor valor absoluto: max(m, n) · ε · max|aij|.
+ */
+export const defaultTolerance = (matrix: Matrix): number => {
+    let maxAbs = 0;
+    for (const row of matrix) {
+        for (const value of row) {
+            maxAbs = Math.max(maxAbs, Math.abs(value));
+        }
+    }
+    const rows = matrix.length;
+    const cols = rows > 0 ? matrix[0].length : 0;
+    return Math.max(rows, cols) * Number.EPSILON * maxAbs;
+};
+
+/**
+ * @function rank
+ * @description Rango de la matriz mediante eliminación gaussiana con pivoteo parcial.
+ * @param tolerance Valor por debajo del cual un pivote se considera cero.
+ */
+export const rank = (matrix: Matrix, tolerance: number = defaultTolerance(matrix)): number => {
+    const A = cloneMatrix(matrix);
+    const rows = A.length;
+    const cols = rows > 0 ? A[0].length : 0;
+    let currentRank = 0;
+
+    for (let col = 0; col < cols && currentRank < rows; col++) {
+        let pivotRow = currentRank;
+        for (let i = currentRank + 1; i < rows; i++) {
+            if (Math.abs(A[i][col]) > Math.abs(A[pivotRow][col])) {
+                pivotRow = i;
+            }
+        }
+        if (Math.abs(A[pivotRow][col]) <= tolerance) continue;
+
+        [A[currentRank], A[pivotRow]] = [A[pivotRow], A[currentRank]];
+        for (let i = currentRank + 1; i < rows; i++) {
+            const factor = A[i][col] / A[currentRank][col];
+            for (let j = col; j < cols; j++) {
+                A[i][j] -= factor * A[currentRank][j];
+            }
+        }
+        currentRank++;
+    }
+    return currentRank;
+};
+
+/**
+ * Norma de Frobenius: raíz de la suma de los cuadrados de todos los elementos.
+ */
+export const frobeniusNorm = (matrix: Matrix): number => {
+    let sum = 0;
+    for (const row of matrix) {
+        for (const value of row) {
+            sum += value * value;
+        }
+    }
+    return Math.sqrt(sum);
+};
+
+/**
+ * Norma 1: máxima suma absoluta por columna.
+ */
+export const oneNorm = (matrix: Matrix): number => {
+    const cols = matrix.length > 0 ? matrix[0].length : 0;
+    let max = 0;
+    for (let j = 0; j < cols; j++) {
+        let sum = 0;
+        for (const row of matrix) {
+            sum += Math.abs(row[j]);
+        }
+        max = Math.max(max, sum);
+    }
+    return max;
+};
+
+/**
+ * Norma infinito: máxima suma absoluta por fila.
+ */
+export const infinityNorm = (matrix: Matrix): number =>
+    matrix.reduce((max, row) => Math.max(max, row.reduce((sum, value) => sum + Math.abs(value), 0)), 0);
+
+/**
+ * @function singularValues
+ * @description Valores singulares (de mayor a menor) como raíces de los valores propios de AᵀA
+ * (o de AAᵀ, la menor de las dos). Devuelve min(m, n) valores.
+ */
+export const singularValues = (matrix: Matrix): number[] => {
+    const rows = matrix.length;
+    const cols = rows > 0 ? matrix[0].length : 0;
+    const gram = rows >= cols ? multiply(transpose(matrix), matrix) : multiply(matrix, transpose(matrix));
+    return symmetricEigen(gram).values.map(value => Math.sqrt(Math.max(0, value)));
+};
+
+/**
+ * @function conditionNumber
+ * @description Número de condición en norma 2 (σmax / σmin).
+ * @returns `null` si la matriz es singular (número de condición infinito).
+ */
+export const conditionNumber = (matrix: Matrix): number | null => {
+    // AᵀA pierde precisión en los valores singulares pequeños, así que la singularidad se decide con el rango
+    if (rank(matrix) < Math.min(matrix.length, matrix[0].length)) {
+        return null;
+    }
+    const sigma = singularValues(matrix);
+    const sigmaMin = sigma[sigma.length - 1];
+    return sigmaMin === 0 ? null : sigma[0] / sigmaMin;
+};
@@ -0,0 +1,24 @@
+// src/shared/math/matrix-operations.ts
+
+import { Matrix, MatrixOperation } from '@domain/entities/matrix';
+import { flipHorizontal, flipVertical, rotateClockwise, rotateCounterClockwise, transpose } from '@shared/math/linear-algebra';
+
+/**
+ * @function applyMatrixOperation
+ * @description Aplica una operación (ver `MatrixOperation`) y devuelve una matriz nueva.
+ * Las rotaciones se reducen a cuartos de vuelta en sentido horario: 270 grados horarios equivalen a 90 antihorarios.
+ */
+export const applyMatrixOperation = (matrix: Matrix, operation: MatrixOperation): Matrix => {
+    switch (operation.type) {
+        case 'transpose':
+            return transpose(matrix);
+        case 'flip':
+            return operation.axis === 'horizontal' ? flipHorizontal(matrix) : flipVertical(matrix);
+        case 'rotate': {
+            const quarterTurns = (operation.direction === 'clockwise' ? operation.degrees : 360 - operation.degrees) / 90;
+            if (quarterTurns === 1) return rotateClockwise(matrix);
+            if (quarterTurns === 3) return rotateCounterClockwise(matrix);
+            return flipVertical(flipHorizontal(matrix)); // 180 grados en cualquier sentido
+        }
+    }
+};
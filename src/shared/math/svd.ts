@@ -0,0 +1,117 @@
+// src/shared/math/svd.ts
+
+import { cloneMatrix, identity, transpose } from '@shared/math/linear-algebra';
+
+import { Matrix } from '@domain/entities/matrix';
+
+/**
+ * @interface SVDResult
+ * @description Descomposición en valores singulares reducida de una matriz de m x n, con k = min(m, n):
+ * A = U · diag(S) · Vᵀ.
+ */
+export interface SVDResult {
+    U: Matrix;   // m x k, columnas ortonormales
+    S: number[]; // k valores singulares, de mayor a menor
+    V: Matrix;   // n x k, columnas ortonormales
+}
+
+const MAX_SWEEPS = 60;
+
+/**
+ * Completa la columna `column` de `U` (m x k) con un vector unitario ortogonal a las columnas anteriores.
+ * Se usa para los valores singulares nulos, cuya columna de U no queda determinada por A.
+ */
+const completeColumn = (U: Matrix, column: number): void => {
+    const m = U.length;
+    let best: number[] = [];
+    let bestNorm = 0;
+    // El vector de la base canónica con mayor componente fuera del espacio generado (Gram-Schmidt)
+    for (let e = 0; e < m; e++) {
+        const candidate = Array.from({ length: m }, (_, i): number => (i === e ? 1 : 0));
+        for (let pass = 0; pass < 2; pass++) {
+            for (let j = 0; j < column; j++) {
+                let dot = 0;
+                for (let i = 0; i < m; i++) dot += U[i][j] * candidate[i];
+                for (let i = 0; i < m; i++) candidate[i] -= dot * U[i][j];
+            }
+        }
+        const norm = Math.sqrt(candidate.reduce((sum, value) => sum + value * value, 0));
+        if (norm > bestNorm) {
+            best = candidate;
+            bestNorm = norm;
+        }
+    }
+    for (let i = 0; i < m; i++) {
+        U[i][column] = best[i] / bestNorm;
+    }
+};
+
+/**
+ * @function svdDecompose
+ * @description Calcula la SVD reducida con el método de Jacobi de un solo lado (Hestenes): rota pares de columnas
+ * hasta que son ortogonales entre sí. Es más lento que Golub-Kahan, pero simple y muy preciso en los valores
+ * singulares pequeños. Una matriz con más columnas que filas se descompone a través de su traspuesta.
+ * @param matrix Matriz de m x n (rectangular y no vacía).
+ */
+export const svdDecompose = (matrix: Matrix): SVDResult => {
+    const m = matrix.length;
+    const n = matrix[0].length;
+    if (m < n) {
+        // Aᵀ = U' · S · V'ᵀ  =>  A = V' · S · U'ᵀ
+        const { U, S, V } = svdDecompose(transpose(matrix));
+        return { U: V, S, V: U };
+    }
+
+    const W = cloneMatrix(matrix); // Sus columnas convergen a U · diag(S)
+    const V = identity(n);
+
+    for (let sweep = 0; sweep < MAX_SWEEPS; sweep++) {
+        let rotated = false;
+        for (let p = 0; p < n - 1; p++) {
+            for (let q = p + 1; q < n; q++) {
+                let alpha = 0;
+                let beta = 0;
+                let gamma = 0;
+                for (let i = 0; i < m; i++) {
+                    alpha += W[i][p] * W[i][p];
+                    beta += W[i][q] * W[i][q];
+                    gamma += W[i][p] * W[i][q];
+                }
+                if (Math.abs(gamma) <= Number.EPSILON * Math.sqrt(alpha * beta)) continue;
+                rotated = true;
+
+                // Rotación de Jacobi que hace ortogonales las columnas p y q
+                const zeta = (beta - alpha) / (2 * gamma);
+                const t = Math.sign(zeta || 1) / (Math.abs(zeta) + Math.sqrt(1 + zeta * zeta));
+                const c = 1 / Math.sqrt(1 + t * t);
+                const s = c * t;
+                for (let i = 0; i < m; i++) {
+                    const wp = W[i][p];
+                    const wq = W[i][q];
+                    W[i][p] = c * wp - s * wq;
+                    W[i][q] = s * wp + c * wq;
+                }
+                for (let i = 0; i < n; i++) {
+                    const vp = V[i][p];
+                    const vq = V[i][q];
+                    V[i][p] = c * vp - s * vq;
+                    V[i][q] = s * vp + c * vq;
+                }
+            }
+        }
+        if (!rotated) break;
+    }
+
+    const norms = Array.from({ length: n }, (_, j) => Math.sqrt(W.reduce((sum, row) => sum + row[j] * row[j], 0)));
+    const order = Array.from({ length: n }, (_, j) => j).sort((a, b) => norms[b] - norms[a]);
+    // Por debajo de esta tolerancia el valor singular es ruido de redondeo de una columna dependiente
+    const tolerance = Math.max(m, n) * Number.EPSILON * (norms[order[0]] || 0);
+
+    const S = order.map(j => (norms[j] > tolerance ? norms[j] : 0));
+    const U = W.map(row => order.map((j, k) => (S[k] > 0 ? row[j] / S[k] : 0)));
+    S.forEach((sigma, k) => {
+        if (sigma === 0) completeColumn(U, k);
+    });
+
+    return { U, S, V: V.map(row => order.map(j => row[j])) };
+};
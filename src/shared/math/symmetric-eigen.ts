@@ -0,0 +1,83 @@
+// src/shared/math/symmetric-eigen.ts
+
+import { Matrix } from '@domain/entities/matrix';
+import { cloneMatrix, identity } from '@shared/math/linear-algebra';
+
+/**
+ * @interface SymmetricEigenResult
+ * @description Valores y vectores propios de una matriz simétrica, ordenados de mayor a menor.
+ */
+export interface SymmetricEigenResult {
+    values: number[];
+    vectors: Matrix; // La columna i es el vector propio asociado a values[i]
+}
+
+const MAX_SWEEPS = 100;
+
+/**
+ * @function symmetricEigen
+ * @description Calcula los valores y vectores propios de una matriz simétrica con el método
+ * cíclico de Jacobi. Es incondicionalmente estable y muy preciso para matrices simétricas.
+ * @param matrix Matriz simétrica de n x n (solo se usa su parte simétrica).
+ */
+export const symmetricEigen = (matrix: Matrix): SymmetricEigenResult => {
+    const n = matrix.length;
+    const A = cloneMatrix(matrix);
+    const V = identity(n);
+    // Criterio de parada relativo a la escala de la matriz: (ε · ||A||_F)², para que una matriz con
+    // elementos pequeños (ej. 1e-9) no se dé por diagonal antes de rotarla
+    let frobeniusSquared = 0;
+    for (const row of A) {
+        for (const value of row) {
+            frobeniusSquared += value * value;
+        }
+    }
+    const threshold = Number.EPSILON * Number.EPSILON * frobeniusSquared;
+
+    for (let sweep = 0; sweep < MAX_SWEEPS; sweep++) {
+        let offDiagonal = 0;
+        for (let p = 0; p < n; p++) {
+            for (let q = p + 1; q < n; q++) {
+                offDiagonal += A[p][q] * A[p][q];
+            }
+        }
+        if (offDiagonal <= threshold) break;
+
+        for (let p = 0; p < n - 1; p++) {
+            for (let q = p + 1; q < n; q++) {
+                if (A[p][q] === 0) continue;
+
+                // Rotación de Jacobi que anula A[p][q]
+                const theta = (A[q][q] - A[p][p]) / (2 * A[p][q]);
+                const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+                const c = 1 / Math.sqrt(t * t + 1);
+                const s = t * c;
+
+                for (let k = 0; k < n; k++) {
+                    const akp = A[k][p];
+                    const akq = A[k][q];
+                    A[k][p] = c * akp - s * akq;
+                    A[k][q] = s * akp + c * akq;
+                }
+                for (let k = 0; k < n; k++) {
+                    const apk = A[p][k];
+                    const aqk = A[q][k];
+                    A[p][k] = c * apk - s * aqk;
+                    A[q][k] = s * apk + c * aqk;
+                }
+                for (let k = 0; k < n; k++) {
+                    const vkp = V[k][p];
+                    const vkq = V[k][q];
+                    V[k][p] = c * vkp - s * vkq;
+                    V[k][q] = s * vkp + c * vkq;
+                }
+            }
+        }
+    }
+
+    const order = Array.from({ length: n }, (_, i) => i).sort((a, b) => A[b][b] - A[a][a]);
+    return {
+        values: order.map(i => A[i][i]),
+        vectors: V.map(row => order.map(i => row[i])),
+    };
+};
@@ -0,0 +1,165 @@
+// src/shared/validation/json-schema.ts
+
+/**
+ * @interface JsonSchema
+ * @description Subconjunto de JSON Schema (dialecto de OpenAPI 3.0) con el que se describen las solicitudes
+ * y respuestas de la API. Los mismos objetos se usan para validar y para generar el documento OpenAPI.
+ * Los esquemas con `title` se publican como componentes reutilizables (`#/components/schemas/<title>`).
+ */
+export interface JsonSchema {
+    type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+    title?: string;
+    description?: string;
+    example?: unknown;
+    nullable?: boolean;
+    enum?: unknown[];
+    // Objetos
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean | JsonSchema;
+    // Arrays
+    items?: JsonSchema;
+    minItems?: number;
+    maxItems?: number;
+    // Strings
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    format?: 'date-time' | 'uuid';
+    // Números
+    minimum?: number;
+    maximum?: number;
+    // Composición: el valor debe cumplir al menos uno de los esquemas
+    anyOf?: JsonSchema[];
+}
+
+/**
+ * @interface SchemaViolation
+ * @description Un valor que no cumple el esquema, con la ruta del campo (ej. `matrix[1][0]`).
+ */
+export interface SchemaViolation {
+    field: string;
+    message: string;
+}
+
+// Máximo de errores reportados: una matriz grande mal formada no debe generar miles de errores
+const MAX_VIOLATIONS = 20;
+
+const typeOf = (value: unknown): string => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+};
+
+const matchesType = (type: NonNullable<JsonSchema['type']>, value: unknown): boolean => {
+    switch (type) {
+        case 'integer':
+            return Number.isInteger(value);
+        case 'number':
+            return typeof value === 'number' && Number.isFinite(value);
+        case 'array':
+            return Array.isArray(value);
+        case 'object':
+            return typeOf(value) === 'object';
+        default:
+            return typeof value === type;
+    }
+};
+
+const joinField = (parent: string, key: string): string => (parent ? `${parent}.${key}` : key);
+
+const walk = (schema: JsonSchema, value: unknown, field: string, violations: SchemaViolation[]): void => {
+    if (violations.length >= MAX_VIOLATIONS) return;
+    const report = (message: string) => violations.push({ field: field || '(root)', message });
+
+    if (value === null && schema.nullable) return;
+
+    if (schema.anyOf) {
+        const matches = schema.anyOf.some(option => validateSchema(option, value).length === 0);
+        if (!matches) {
+            report('does not match any of the allowed formats');
+        }
+        return;
+    }
+
+    if (schema.type && !matchesType(schema.type, value)) {
+        report(`must be of type ${schema.type} (received ${typeOf(value)})`);
+        return;
+    }
+    if (schema.enum && !schema.enum.includes(value)) {
+        report(`must be one of: ${schema.enum.join(', ')}`);
+        return;
+    }
+
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            report(schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters long`);
+        } else if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+            report(`must be at most ${schema.maxLength} characters long`);
+        } else if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+            report(`must match the pattern ${schema.pattern}`);
+        } else if (schema.format === 'date-time' && Number.isNaN(Date.parse(value))) {
+            report('must be an ISO 8601 date');
+        }
+        return;
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            report(`must be greater than or equal to ${schema.minimum}`);
+        } else if (schema.maximum !== undefined && value > schema.maximum) {
+            report(`must be less than or equal to ${schema.maximum}`);
+        }
+        return;
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            report(schema.minItems === 1 ? 'must not be empty' : `must contain at least ${schema.minItems} items`);
+            return;
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+            report(`must contain at most ${schema.maxItems} items`);
+            return;
+        }
+        if (schema.items) {
+            for (let i = 0; i < value.length && violations.length < MAX_VIOLATIONS; i++) {
+                walk(schema.items, value[i], `${field}[${i}]`, violations);
+            }
+        }
+        return;
+    }
+
+    if (typeOf(value) === 'object') {
+        const object = value as Record<string, unknown>;
+        for (const key of schema.required ?? []) {
+            if (object[key] === undefined) {
+                violations.push({ field: joinField(field, key), message: 'is required' });
+            }
+        }
+        for (const [key, propertyValue] of Object.entries(object)) {
+            const propertySchema = schema.properties?.[key];
+            if (propertySchema) {
+                if (propertyValue !== undefined) walk(propertySchema, propertyValue, joinField(field, key), violations);
+            } else if (schema.additionalProperties === false) {
+                violations.push({ field: joinField(field, key), message: 'is not allowed' });
+            } else if (typeof schema.additionalProperties === 'object') {
+                walk(schema.additionalProperties, propertyValue, joinField(field, key), violations);
+            }
+        }
+    }
+};
+
+/**
+ * @function validateSchema
+ * @description Valida un valor contra un esquema y devuelve los errores encontrados (vacío si es válido).
+ * Se reportan como mucho 20 errores.
+ * @param schema El esquema a cumplir.
+ * @param value El valor a validar.
+ * @param field Ruta del valor, que prefija la de cada error (ej. `body`).
+ */
+export const validateSchema = (schema: JsonSchema, value: unknown, field: string = ''): SchemaViolation[] => {
+    const violations: SchemaViolation[] = [];
+    walk(schema, value, field, violations);
+    return violations.slice(0, MAX_VIOLATIONS);
+};
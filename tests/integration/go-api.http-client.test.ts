@@ -0,0 +1,124 @@
+// tests/integration/go-api.http-client.test.ts
+
+import { AddressInfo } from 'net';
+import { DEFAULT_MATRIX_OPERATION } from '@application/services/matrix-operation';
+import { GoApiHttpClient } from '@infrastructure/http-client/go-api.http-client';
+import http from 'http';
+import { runWithRequestContext } from '@shared/logging/request-context';
+
+describe('GoApiHttpClient resilience (Integration Test)', () => {
+    let server: http.Server;
+    let baseURL: string;
+    let responses: Array<{ status: number; body: unknown }>;
+    let requestCount: number;
+    let requestIds: Array<string | undefined>;
+
+    const goResult = {
+        original_matrix: [[1]],
+        rotated_matrix: [[1]],
+        qr_factorization: { Q: [[1]], R: [[1]] },
+    };
+
+    const createClient = (maxRetries: number, failureThreshold: number = 10) => new GoApiHttpClient(baseURL, 'app-token', {
+        timeoutMs: 1_000,
+        retry: { maxRetries, baseDelayMs: 1, maxDelayMs: 5 },
+        circuitBreaker: { failureThreshold, cooldownMs: 60_000 },
+    });
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            requestCount++;
+            requestIds.push(req.headers['x-request-id'] as string | undefined);
+            const next = responses.shift() ?? { status: 200, body: { data: goResult } };
+            res.writeHead(next.status, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(next.body));
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        responses = [];
+        requestCount = 0;
+        requestIds = [];
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it('should retry transient 5xx responses and eventually succeed', async () => {
+        responses = [
+            { status: 503, body: { error: 'unavailable', details: 'warming up' } },
+            { status: 502, body: { error: 'bad_gateway', details: 'upstream' } },
+        ];
+
+        await expect(createClient(2).processMatrix([[1]], DEFAULT_MATRIX_OPERATION)).resolves.toEqual(goResult);
+        expect(requestCount).toBe(3);
+    });
+
+    it('should not retry client errors', async () => {
+        responses = [{ status: 422, body: { error: 'unprocessable', details: 'nope' } }];
+
+        await expect(createClient(3).processMatrix([[1]], DEFAULT_MATRIX_OPERATION)).rejects.toHaveProperty('statusCode', 422);
+        expect(requestCount).toBe(1);
+    });
+
+    it('should open the circuit and fail fast with GO_API_CIRCUIT_OPEN', async () => {
+        responses = Array.from({ length: 5 }, () => ({ status: 500, body: { error: 'boom', details: 'boom' } }));
+        const client = createClient(0, 2);
+
+        await expect(client.processMatrix([[1]], DEFAULT_MATRIX_OPERATION)).rejects.toHaveProperty('statusCode', 500);
+        await expect(client.processMatrix([[1]], DEFAULT_MATRIX_OPERATION)).rejects.toHaveProperty('statusCode', 500);
+        expect(client.getCircuitBreakerState().state).toBe('open');
+
+        await expect(client.processMatrix([[1]], DEFAULT_MATRIX_OPERATION)).rejects.toEqual(expect.objectContaining({
+            errorCode: 'GO_API_CIRCUIT_OPEN',
+            statusCode: 503,
+        }));
+        expect(requestCount).toBe(2);
+    });
+
+    it('should forward the id of the current request on every attempt', async () => {
+        responses = [{ status: 503, body: { error: 'unavailable', details: 'warming up' } }];
+        const client = createClient(1);
+
+        await runWithRequestContext({ requestId: 'trace-123' }, () => client.processMatrix([[1]], DEFAULT_MATRIX_OPERATION));
+        await client.processMatrix([[1]], DEFAULT_MATRIX_OPERATION);
+
+        expect(requestIds).toEqual(['trace-123', 'trace-123', undefined]);
+    });
+
+    it('should take QR from the Go API and compute the decompositions Go does not offer locally', async () => {
+        const client = createClient(0);
+
+        await expect(client.decompose([[2, 0], [0, 3]], ['lu', 'cholesky'])).resolves.toEqual({
+            lu: { L: [[1, 0], [0, 1]], U: [[2, 0], [0, 3]], P: [[1, 0], [0, 1]] },
+            cholesky: { L: [[Math.SQRT2, 0], [0, Math.sqrt(3)]] },
+        });
+        expect(requestCount).toBe(0);
+
+        await expect(client.decompose([[1]], ['qr'])).resolves.toEqual({ qr: goResult.qr_factorization });
+        expect(requestCount).toBe(1);
+    });
+
+    it('should report the Go API health in a single attempt without touching the circuit breaker', async () => {
+        const client = createClient(3, 1);
+
+        await expect(client.healthCheck()).resolves.toMatchObject({ status: 'up' });
+
+        responses = [{ status: 503, body: { error: 'unavailable', details: 'warming up' } }];
+        await expect(client.healthCheck()).resolves.toMatchObject({ status: 'down' });
+        expect(requestCount).toBe(2);
+        expect(client.getCircuitBreakerState().state).toBe('closed');
+
+        responses = [{ status: 401, body: { error: 'unauthorized', details: 'bad token' } }];
+        await expect(client.healthCheck()).resolves.toMatchObject({
+            status: 'down',
+            message: 'Go API rejected the application access token.',
+        });
+    });
+});
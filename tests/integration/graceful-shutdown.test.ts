@@ -0,0 +1,77 @@
+// tests/integration/graceful-shutdown.test.ts
+
+import { InFlightRequestTracker, createInFlightTrackingMiddleware } from '@interfaces/http/middleware/in-flight.middleware';
+import { mkdtempSync, rmSync } from 'fs';
+
+import { AddressInfo } from 'net';
+import { App } from '../../src/app';
+import express from 'express';
+import { join } from 'path';
+import { loadConfig } from '../../src/config';
+import { tmpdir } from 'os';
+
+const urlOf = (server: { address(): unknown }) => `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+describe('App lifecycle (Integration Test)', () => {
+    let directory: string;
+
+    beforeEach(() => {
+        directory = mkdtempSync(join(tmpdir(), 'app-test-'));
+    });
+
+    afterEach(() => {
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should start on a free port and shut down, refusing new connections', async () => {
+        const app = new App(loadConfig({
+            NODE_ENV: 'test',
+            MATRIX_BACKEND: 'local',
+            METRICS_ENABLED: 'false',
+            USER_STORE_FILE: join(directory, 'users.json'),
+            API_KEY_STORE_FILE: join(directory, 'api-keys.json'),
+            SHUTDOWN_TIMEOUT_MS: '1000',
+        }));
+        const baseUrl = urlOf(await app.listen(0));
+
+        const ready = await fetch(`${baseUrl}/health/ready`); // Leaves an idle keep-alive connection open
+        expect(ready.status).toBe(200);
+        await ready.json();
+
+        await expect(app.shutdown()).resolves.toBe(true);
+        await expect(app.shutdown()).resolves.toBe(true); // Same shutdown when called again
+        await expect(fetch(`${baseUrl}/health/live`)).rejects.toThrow();
+    });
+});
+
+describe('InFlightRequestTracker (Integration Test)', () => {
+    it('should wait for the in-flight requests and close the connections of the late ones', async () => {
+        const tracker = new InFlightRequestTracker();
+        let finishSlowRequest!: () => void;
+        const app = express();
+        app.use(createInFlightTrackingMiddleware(tracker));
+        app.get('/slow', (req, res) => { finishSlowRequest = () => res.json({ done: true }); });
+        app.get('/fast', (req, res) => { res.json({ done: true }); });
+        const server = app.listen(0);
+        await new Promise(resolve => server.once('listening', resolve));
+
+        const slow = fetch(`${urlOf(server)}/slow`);
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(tracker.count).toBe(1);
+
+        let drained = false;
+        const draining = tracker.drain().then(() => { drained = true; });
+        const late = await fetch(`${urlOf(server)}/fast`);
+        expect(late.headers.get('connection')).toBe('close');
+        await late.json();
+        expect(drained).toBe(false);
+
+        finishSlowRequest();
+        await expect((await slow).json()).resolves.toEqual({ done: true });
+        await draining;
+        expect(tracker.count).toBe(0);
+
+        server.closeAllConnections();
+        await new Promise(resolve => server.close(resolve));
+    });
+});
@@ -0,0 +1,92 @@
+// tests/integration/internal-matrix.controller.test.ts
+
+import { NextFunction, Request, Response } from 'express';
+
+import { CalculateMatrixStatsUseCase } from '@application/use-cases/matrix/calculate-matrix-stats.usecase';
+import { GoToNodeReceivedData } from '@domain/entities/matrix';
+import { InternalMatrixController } from '@interfaces/http/controllers/internal-matrix.controller';
+import { createInternalAuthMiddleware } from '@interfaces/http/middleware/internal-auth.middleware';
+
+describe('InternalMatrixController (Integration Test)', () => {
+    let controller: InternalMatrixController;
+    let mockRequest: Partial<Request>;
+    let mockResponse: Partial<Response>;
+    let mockNext: jest.Mock<NextFunction>;
+
+    const goPayload: GoToNodeReceivedData = {
+        original_matrix: [[1, 2], [3, 4]],
+        rotated_matrix: [[3, 1], [4, 2]],
+        qr_factorization: {
+            Q: [[-0.31, -0.95], [-0.95, 0.31]],
+            R: [[-3.16, -4.43], [0.0, -0.63]],
+        },
+    };
+
+    beforeEach(() => {
+        controller = new InternalMatrixController(new CalculateMatrixStatsUseCase());
+        mockRequest = {};
+        mockResponse = {
+            status: jest.fn().mockReturnThis(),
+            json: jest.fn(),
+        };
+        mockNext = jest.fn();
+    });
+
+    it('should calculate statistics for the Go payload and return a MatrixStatsResponse', async () => {
+        mockRequest.body = goPayload;
+
+        await controller.calculateStats(mockRequest as Request, mockResponse as Response, mockNext);
+
+        expect(mockResponse.status).toHaveBeenCalledWith(200);
+        expect(mockResponse.json).toHaveBeenCalledWith({
+            message: 'Matrix statistics calculated successfully.',
+            data: {
+                originalMatrix: goPayload.original_matrix,
+                rotatedMatrix: goPayload.rotated_matrix,
+                qrFactorization: goPayload.qr_factorization,
+                statistics: {
+                    maxValue: 4,
+                    minValue: 1,
+                    average: 2.5,
+                    totalSum: 20,
+                    isDiagonalOriginal: false,
+                    isDiagonalRotated: false,
+                },
+            },
+        });
+        expect(mockNext).not.toHaveBeenCalled();
+    });
+
+    it('should call next with InvalidMatrixError if the QR factorization is missing', async () => {
+        mockRequest.body = { original_matrix: goPayload.original_matrix, rotated_matrix: goPayload.rotated_matrix };
+
+        await controller.calculateStats(mockRequest as Request, mockResponse as Response, mockNext);
+
+        expect(mockResponse.status).not.toHaveBeenCalled();
+        expect(mockNext).toHaveBeenCalledWith(expect.objectContaining({ errorCode: 'INVALID_MATRIX', statusCode: 400 }));
+    });
+
+    describe('internal auth middleware', () => {
+        const unauthorized = expect.objectContaining({ errorCode: 'UNAUTHORIZED', statusCode: 401 });
+        const middleware = createInternalAuthMiddleware('service-token');
+
+        it('should accept the configured service token', () => {
+            const req = { headers: { authorization: 'Bearer service-token' } } as Request;
+            middleware(req, {} as Response, mockNext);
+            expect(mockNext).toHaveBeenCalledWith();
+        });
+
+        it('should reject a wrong or missing service token', () => {
+            middleware({ headers: { authorization: 'Bearer user-jwt' } } as Request, {} as Response, mockNext);
+            middleware({ headers: {} } as Request, {} as Response, mockNext);
+            expect(mockNext).toHaveBeenNthCalledWith(1, unauthorized);
+            expect(mockNext).toHaveBeenNthCalledWith(2, unauthorized);
+        });
+
+        it('should reject every request when no service token is configured', () => {
+            const disabled = createInternalAuthMiddleware('');
+            disabled({ headers: { authorization: 'Bearer ' } } as Request, {} as Response, mockNext);
+            expect(mockNext).toHaveBeenCalledWith(unauthorized);
+        });
+    });
+});
@@ -4,6 +4,7 @@ import { GoApiError, InvalidMatrixError } from '@domain/errors/app.errors';
 import { GoApiResponseData, Matrix } from '@domain/entities/matrix';
 import { NextFunction, Request, Response } from 'express';
 
+import { DEFAULT_MATRIX_OPERATION } from '@application/services/matrix-operation';
 import { GoApiGateway } from '@application/ports/go-api.gateway';
 import { MatrixController } from '@interfaces/http/controllers/matrix.controller';
 import { ProcessMatrixAndGetStatsUseCase } from '@application/use-cases/matrix/process-matrix-and-get-stats.usecase';
@@ -21,6 +22,9 @@ describe('MatrixController (Integration Test)', () => {
     beforeEach(() => {
         mockGoApiGateway = {
             processMatrix: jest.fn(),
+            decompose: jest.fn(),
+            healthCheck: jest.fn(),
+            close: jest.fn(),
         };
         processMatrixAndGetStatsUseCase = new ProcessMatrixAndGetStatsUseCase(mockGoApiGateway);
         matrixController = new MatrixController(processMatrixAndGetStatsUseCase);
@@ -63,7 +67,7 @@ describe('MatrixController (Integration Test)', () => {
 
         // Assertions for Go API gateway interaction
         expect(mockGoApiGateway.processMatrix).toHaveBeenCalledTimes(1);
-        expect(mockGoApiGateway.processMatrix).toHaveBeenCalledWith(inputMatrix);
+        expect(mockGoApiGateway.processMatrix).toHaveBeenCalledWith(inputMatrix, DEFAULT_MATRIX_OPERATION);
 
         // Assertions for HTTP response
         expect(mockResponse.status).toHaveBeenCalledWith(200);
@@ -134,7 +138,7 @@ describe('MatrixController (Integration Test)', () => {
         expect(mockResponse.json).not.toHaveBeenCalled();
 
         expect(mockGoApiGateway.processMatrix).toHaveBeenCalledTimes(1);
-        expect(mockGoApiGateway.processMatrix).toHaveBeenCalledWith(inputMatrix);
+        expect(mockGoApiGateway.processMatrix).toHaveBeenCalledWith(inputMatrix, DEFAULT_MATRIX_OPERATION);
         expect(mockNext).toHaveBeenCalledTimes(1);
         expect(mockNext).toHaveBeenCalledWith(goApiError); // Pass the exact error received
     });
@@ -152,7 +156,7 @@ describe('MatrixController (Integration Test)', () => {
         expect(mockResponse.json).not.toHaveBeenCalled();
 
         expect(mockGoApiGateway.processMatrix).toHaveBeenCalledTimes(1);
-        expect(mockGoApiGateway.processMatrix).toHaveBeenCalledWith(inputMatrix);
+        expect(mockGoApiGateway.processMatrix).toHaveBeenCalledWith(inputMatrix, DEFAULT_MATRIX_OPERATION);
         expect(mockNext).toHaveBeenCalledTimes(1);
         expect(mockNext).toHaveBeenCalledWith(goApiError); // Pass the exact error received
     });
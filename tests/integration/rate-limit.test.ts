@@ -0,0 +1,65 @@
+// tests/integration/rate-limit.test.ts
+
+import { mkdtempSync, rmSync } from 'fs';
+
+import { AddressInfo } from 'net';
+import { App } from '../../src/app';
+import { join } from 'path';
+import { loadConfig } from '../../src/config';
+import { tmpdir } from 'os';
+
+const ADMIN = { username: 'admin', password: 'admin-password-123' };
+
+describe('Rate limits (Integration Test)', () => {
+    let directory: string;
+    let app: App;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+        directory = mkdtempSync(join(tmpdir(), 'rate-limit-test-'));
+        app = new App(loadConfig({
+            NODE_ENV: 'test',
+            MATRIX_BACKEND: 'local',
+            METRICS_ENABLED: 'false',
+            LOG_LEVEL: 'error',
+            RESULT_CACHE_ENABLED: 'false',
+            USER_STORE_FILE: join(directory, 'users.json'),
+            API_KEY_STORE_FILE: join(directory, 'api-keys.json'),
+            BOOTSTRAP_ADMIN_USERNAME: ADMIN.username,
+            BOOTSTRAP_ADMIN_PASSWORD: ADMIN.password,
+            RATE_LIMIT_MATRIX_LIMIT: '2',
+            RATE_LIMIT_JOBS_LIMIT: '5',
+        }));
+        const server = await app.listen(0);
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        await app.shutdown();
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should limit job polling with its own policy, without spending the matrix budget', async () => {
+        const login = await fetch(`${baseUrl}/api/auth/login`, {
+            method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(ADMIN),
+        });
+        const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${(await login.json()).token}` };
+        const post = (path: string) => fetch(`${baseUrl}${path}`, { method: 'POST', headers, body: JSON.stringify({ matrix: [[1, 2], [3, 4]] }) });
+
+        const submitted = await post('/api/matrix/jobs');
+        expect(submitted.status).toBe(202);
+        expect(submitted.headers.get('RateLimit-Remaining')).toBe('1');
+        const { id } = (await submitted.json()).data;
+
+        const polls = [];
+        for (let i = 0; i < 6; i++) {
+            const response = await fetch(`${baseUrl}/api/matrix/jobs/${id}`, { headers });
+            polls.push([response.status, response.headers.get('RateLimit-Limit')]);
+            await response.body?.cancel();
+        }
+        expect(polls).toEqual([...Array(5).fill([200, '5']), [429, '5']]);
+
+        expect((await post('/api/matrix/process-matrix')).status).toBe(200);
+        expect((await post('/api/matrix/process-matrix')).status).toBe(429);
+    });
+});
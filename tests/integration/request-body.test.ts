@@ -0,0 +1,129 @@
+// tests/integration/request-body.test.ts
+
+import { mkdtempSync, rmSync } from 'fs';
+
+import { AddressInfo } from 'net';
+import { App } from '../../src/app';
+import { join } from 'path';
+import { loadConfig } from '../../src/config';
+import { tmpdir } from 'os';
+
+const ADMIN = { username: 'admin', password: 'admin-password-123' };
+
+describe('Request bodies (Integration Test)', () => {
+    let directory: string;
+    let app: App;
+    let baseUrl: string;
+
+    const start = async (env: Record<string, string> = {}) => {
+        app = new App(loadConfig({
+            NODE_ENV: 'test',
+            MATRIX_BACKEND: 'local',
+            METRICS_ENABLED: 'false',
+            LOG_LEVEL: 'error',
+            RESULT_CACHE_ENABLED: 'false',
+            USER_STORE_FILE: join(directory, 'users.json'),
+            API_KEY_STORE_FILE: join(directory, 'api-keys.json'),
+            BOOTSTRAP_ADMIN_USERNAME: ADMIN.username,
+            BOOTSTRAP_ADMIN_PASSWORD: ADMIN.password,
+            ...env,
+        }));
+        const server = await app.listen(0);
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    };
+
+    const post = (path: string, body: string, headers: Record<string, string> = {}) =>
+        fetch(`${baseUrl}${path}`, { method: 'POST', headers: { 'Content-Type': 'application/json', ...headers }, body });
+
+    const adminToken = async (): Promise<string> => {
+        const response = await post('/api/auth/login', JSON.stringify(ADMIN));
+        return (await response.json()).token;
+    };
+
+    beforeEach(() => {
+        directory = mkdtempSync(join(tmpdir(), 'request-body-test-'));
+    });
+
+    afterEach(async () => {
+        await app?.shutdown();
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should accept JSON bodies up to the largest matrix allowed to a role', async () => {
+        await start();
+        const matrix = Array.from({ length: 200 }, (_, i) => Array.from({ length: 200 }, (_, j) => (i * 200 + j) / 7));
+        const body = JSON.stringify({ matrix, stats: ['max'] });
+        expect(body.length).toBeGreaterThan(400 * 1024);
+
+        const response = await post('/api/matrix/process-matrix', body, { Authorization: `Bearer ${await adminToken()}` });
+        expect(response.status).toBe(200);
+        expect((await response.json()).data.matrixStatistics.original.max).toBeCloseTo(39999 / 7, 8);
+    });
+
+    it('should keep the default 100 kB limit outside the matrix routes', async () => {
+        await start();
+        const response = await post('/api/auth/login', JSON.stringify({ ...ADMIN, padding: 'x'.repeat(100 * 1024) }));
+
+        expect(response.status).toBe(413);
+        expect(await response.json()).toMatchObject({ error: 'MATRIX_TOO_LARGE', message: expect.stringContaining('102400 bytes') });
+    });
+
+    it('should size the limit of the matrix routes from the role of the caller, after authenticating it', async () => {
+        await start();
+        const matrix = Array.from({ length: 200 }, (_, i) => Array.from({ length: 200 }, (_, j) => (i * 200 + j) / 7));
+        const body = JSON.stringify({ matrix, stats: ['max'] });
+
+        // The body is not read before the request is authenticated
+        expect((await post('/api/matrix/process-matrix', body)).status).toBe(401);
+
+        const user = { username: 'alice', password: 'alice-password-123' };
+        expect((await post('/api/auth/register', JSON.stringify(user))).status).toBe(201);
+        const { token } = await (await post('/api/auth/login', JSON.stringify(user))).json();
+        const response = await post('/api/matrix/process-matrix', body, { Authorization: `Bearer ${token}` });
+
+        // 10,000 elements for a user: 25 bytes per element plus 64 kB
+        expect(response.status).toBe(413);
+        expect(await response.json()).toMatchObject({ error: 'MATRIX_TOO_LARGE', message: expect.stringContaining('315536 bytes') });
+    });
+
+    it('should accept CSV bodies up to the same limit as JSON bodies', async () => {
+        await start();
+        const csv = Array.from({ length: 200 }, (_, i) => Array.from({ length: 200 }, (_, j) => (i * 200 + j) / 7).join(',')).join('\n');
+        expect(csv.length).toBeGreaterThan(400 * 1024);
+
+        const response = await post('/api/matrix/process-matrix?stats=max', csv, {
+            'Content-Type': 'text/csv',
+            Authorization: `Bearer ${await adminToken()}`,
+        });
+        expect(response.status).toBe(200);
+        expect((await response.json()).data.matrixStatistics.original.max).toBeCloseTo(39999 / 7, 8);
+    });
+
+    it('should size the limit of CSV bodies from the role of the caller too', async () => {
+        await start();
+        const user = { username: 'alice', password: 'alice-password-123' };
+        await post('/api/auth/register', JSON.stringify(user));
+        const { token } = await (await post('/api/auth/login', JSON.stringify(user))).json();
+        const csvRequest = (csv: string) => post('/api/matrix/process-matrix?stats=max', csv, {
+            'Content-Type': 'text/csv',
+            Authorization: `Bearer ${token}`,
+        });
+
+        const oversized = await csvRequest(`${'1,'.repeat(200 * 1024)}1\n`);
+        expect(oversized.status).toBe(413);
+        expect(await oversized.json()).toMatchObject({ error: 'MATRIX_TOO_LARGE', message: expect.stringContaining('315536 bytes') });
+
+        // Within the body limit but over the 10,000 elements of a user: rejected while reading the CSV
+        const tooManyValues = await csvRequest(`${'1,'.repeat(20_000)}1\n`);
+        expect(tooManyValues.status).toBe(413);
+        expect(await tooManyValues.json()).toMatchObject({ error: 'MATRIX_TOO_LARGE', message: expect.stringContaining('more than 10000 values') });
+    });
+
+    it('should reject a malformed JSON body with 400 BAD_REQUEST instead of a 500', async () => {
+        await start();
+        const response = await post('/api/auth/login', '{"username": "admin",');
+
+        expect(response.status).toBe(400);
+        expect(await response.json()).toMatchObject({ error: 'BAD_REQUEST', message: expect.stringContaining('not valid JSON') });
+    });
+});
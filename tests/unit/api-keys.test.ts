@@ -0,0 +1,154 @@
+// tests/unit/api-keys.test.ts
+
+import { NextFunction, Request, Response } from 'express';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+
+import { ApiKeyAuthenticator } from '@application/services/api-key.authenticator';
+import { AuthSessionService } from '@application/services/auth-session.service';
+import { CreateApiKeyUseCase } from '@application/use-cases/api-keys/create-api-key.usecase';
+import { FileApiKeyRepository } from '@infrastructure/persistence/file-api-key.repository';
+import { FileUserRepository } from '@infrastructure/persistence/file-user.repository';
+import { InMemorySessionStore } from '@infrastructure/persistence/in-memory-session.store';
+import { JwtTokenService } from '@infrastructure/security/jwt-token.service';
+import { ListApiKeysUseCase } from '@application/use-cases/api-keys/list-api-keys.usecase';
+import { RevokeApiKeyUseCase } from '@application/use-cases/api-keys/revoke-api-key.usecase';
+import { User } from '@domain/entities/user';
+import { createAuthMiddleware } from '@interfaces/http/middleware/auth.middleware';
+import { join } from 'path';
+import { requireScopes } from '@interfaces/http/middleware/authorization.middleware';
+import { tmpdir } from 'os';
+
+describe('API keys (Unit Test)', () => {
+    const alice: User = {
+        id: 'user-alice', username: 'alice', passwordHash: 'x', roles: ['pro'], disabled: false, createdAt: '2026-01-01T00:00:00.000Z', updatedAt: '2026-01-01T00:00:00.000Z',
+    };
+    let directory: string;
+    let apiKeysFile: string;
+    let userRepository: FileUserRepository;
+    let apiKeyRepository: FileApiKeyRepository;
+    let createApiKey: CreateApiKeyUseCase;
+    let authenticator: ApiKeyAuthenticator;
+
+    beforeEach(async () => {
+        directory = mkdtempSync(join(tmpdir(), 'api-keys-'));
+        apiKeysFile = join(directory, 'api-keys.json');
+        userRepository = new FileUserRepository(join(directory, 'users.json'));
+        apiKeyRepository = new FileApiKeyRepository(apiKeysFile);
+        createApiKey = new CreateApiKeyUseCase(apiKeyRepository, { maxPerUser: 2 });
+        authenticator = new ApiKeyAuthenticator(apiKeyRepository, userRepository);
+        await userRepository.create(alice);
+    });
+
+    afterEach(() => {
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should return the key once and store only its hash', async () => {
+        const { key, apiKey } = await createApiKey.execute({ ownerId: alice.id, label: 'ci', scopes: ['matrix:process'] });
+
+        expect(key).toMatch(/^ak_[A-Za-z0-9_-]{43}$/);
+        expect(apiKey).toMatchObject({ ownerId: alice.id, label: 'ci', scopes: ['matrix:process'], expiresAt: null, revokedAt: null });
+        expect(apiKey).not.toHaveProperty('keyHash');
+        expect(key.startsWith(apiKey.prefix)).toBe(true);
+        expect(readFileSync(apiKeysFile, 'utf8')).not.toContain(key);
+    });
+
+    it('should validate the label, scopes, expiry and the maximum of active keys', async () => {
+        const valid = { ownerId: alice.id, label: 'ci', scopes: ['matrix:process' as const] };
+        const badRequest = { statusCode: 400, errorCode: 'BAD_REQUEST' };
+
+        await expect(createApiKey.execute({ ...valid, label: '  ' })).rejects.toMatchObject(badRequest);
+        await expect(createApiKey.execute({ ...valid, scopes: ['users:admin' as never] })).rejects.toMatchObject(badRequest);
+        await expect(createApiKey.execute({ ...valid, expiresAt: '2000-01-01T00:00:00Z' })).rejects.toMatchObject(badRequest);
+
+        const first = await createApiKey.execute(valid);
+        await createApiKey.execute(valid);
+        await expect(createApiKey.execute(valid)).rejects.toMatchObject(badRequest);
+
+        // Las keys revocadas no cuentan para el máximo
+        await new RevokeApiKeyUseCase(apiKeyRepository).execute({ ownerId: alice.id, apiKeyId: first.apiKey.id });
+        await expect(createApiKey.execute(valid)).resolves.toHaveProperty('key');
+    });
+
+    it('should authenticate a key as its owner with the current roles and record the last use', async () => {
+        const { key, apiKey } = await createApiKey.execute({ ownerId: alice.id, label: 'ci', scopes: ['matrix:jobs'] });
+
+        const result = await authenticator.authenticate(key);
+
+        expect(result.user).toEqual({ id: alice.id, username: 'alice', roles: ['pro'] });
+        expect(result.apiKey.scopes).toEqual(['matrix:jobs']);
+        expect((await apiKeyRepository.findById(apiKey.id))?.lastUsedAt).not.toBeNull();
+    });
+
+    it('should reject unknown, revoked and expired keys and keys of disabled owners', async () => {
+        const unauthorized = { statusCode: 401 };
+        await expect(authenticator.authenticate('ak_unknown')).rejects.toMatchObject(unauthorized);
+
+        const revoked = await createApiKey.execute({ ownerId: alice.id, label: 'revoked', scopes: ['matrix:process'] });
+        await new RevokeApiKeyUseCase(apiKeyRepository).execute({ ownerId: alice.id, apiKeyId: revoked.apiKey.id });
+        await expect(authenticator.authenticate(revoked.key)).rejects.toMatchObject(unauthorized);
+
+        const expiring = await createApiKey.execute({
+            ownerId: alice.id, label: 'expiring', scopes: ['matrix:process'], expiresAt: new Date(Date.now() + 60_000).toISOString(),
+        });
+        await expect(authenticator.authenticate(expiring.key)).resolves.toHaveProperty('user');
+        const stored = await apiKeyRepository.findById(expiring.apiKey.id);
+        await apiKeyRepository.update({ ...stored!, expiresAt: new Date(Date.now() - 1).toISOString() });
+        await expect(authenticator.authenticate(expiring.key)).rejects.toMatchObject(unauthorized);
+
+        const active = await createApiKey.execute({ ownerId: alice.id, label: 'active', scopes: ['matrix:process'] });
+        await userRepository.update({ ...alice, disabled: true });
+        await expect(authenticator.authenticate(active.key)).rejects.toMatchObject(unauthorized);
+    });
+
+    it('should list and revoke only the keys of their owner', async () => {
+        const { apiKey } = await createApiKey.execute({ ownerId: alice.id, label: 'ci', scopes: ['matrix:process'] });
+        const revoke = new RevokeApiKeyUseCase(apiKeyRepository);
+
+        await expect(revoke.execute({ ownerId: 'user-bob', apiKeyId: apiKey.id })).rejects.toMatchObject({ statusCode: 404 });
+        expect(await new ListApiKeysUseCase(apiKeyRepository).execute('user-bob')).toEqual([]);
+
+        const revoked = await revoke.execute({ ownerId: alice.id, apiKeyId: apiKey.id });
+        expect(revoked.revokedAt).not.toBeNull();
+        expect(await new ListApiKeysUseCase(apiKeyRepository).execute(alice.id)).toEqual([revoked]);
+    });
+
+    describe('authentication middleware', () => {
+        const authSessionService = new AuthSessionService(
+            new JwtTokenService({ jwtSecret: 'test-secret', jwtExpiresIn: '1h' }), new InMemorySessionStore(), { refreshTokenTtlMs: 60_000 }
+        );
+        let next: jest.Mock<NextFunction>;
+
+        beforeEach(() => {
+            next = jest.fn();
+        });
+
+        it('should populate req.user from an X-API-Key header and enforce its scopes', async () => {
+            const { key, apiKey } = await createApiKey.execute({ ownerId: alice.id, label: 'ci', scopes: ['matrix:process'] });
+            const req = { headers: { 'x-api-key': key } } as unknown as Request;
+
+            await createAuthMiddleware(authSessionService, authenticator)(req, {} as Response, next);
+
+            expect(next).toHaveBeenCalledWith();
+            expect(req.user).toEqual({ id: alice.id, username: 'alice', roles: ['pro'] });
+            expect(req.apiKey).toEqual({ id: apiKey.id, scopes: ['matrix:process'] });
+
+            requireScopes('matrix:process')(req, {} as Response, next);
+            requireScopes('matrix:jobs')(req, {} as Response, next);
+            expect(next).toHaveBeenNthCalledWith(2);
+            expect(next).toHaveBeenNthCalledWith(3, expect.objectContaining({ statusCode: 403, errorCode: 'FORBIDDEN' }));
+        });
+
+        it('should not limit user JWTs by scopes and ignore X-API-Key when API keys are not accepted', async () => {
+            const { token } = await authSessionService.startSession({ id: alice.id, username: 'alice', roles: ['pro'] });
+            const req = { headers: { authorization: `Bearer ${token}`, 'x-api-key': 'ak_unknown' } } as unknown as Request;
+
+            await createAuthMiddleware(authSessionService)(req, {} as Response, next);
+            requireScopes('cache:admin')(req, {} as Response, next);
+
+            expect(next).toHaveBeenNthCalledWith(1);
+            expect(next).toHaveBeenNthCalledWith(2);
+            expect(req.apiKey).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,114 @@
+// tests/unit/auth-session.service.test.ts
+
+import { AuthSessionService } from '@application/services/auth-session.service';
+import { InMemorySessionStore } from '@infrastructure/persistence/in-memory-session.store';
+import { JwtTokenService } from '@infrastructure/security/jwt-token.service';
+import { RefreshSessionUseCase } from '@application/use-cases/auth/refresh-session.usecase';
+import { User } from '@domain/entities/user';
+import { UserRepository } from '@application/ports/user.repository';
+
+describe('AuthSessionService and RefreshSessionUseCase (Unit Test)', () => {
+    const tokenService = new JwtTokenService({ jwtSecret: 'test-secret', jwtExpiresIn: '15m' });
+    const alice: User = {
+        id: 'user-1',
+        username: 'alice',
+        passwordHash: 'unused',
+        roles: ['user'],
+        disabled: false,
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z',
+    };
+    let sessions: AuthSessionService;
+    let users: Map<string, User>;
+    let refreshSession: RefreshSessionUseCase;
+
+    beforeEach(() => {
+        sessions = new AuthSessionService(tokenService, new InMemorySessionStore(), { refreshTokenTtlMs: 60_000 });
+        users = new Map([[alice.id, { ...alice }]]);
+        const userRepository: UserRepository = {
+            findById: async id => users.get(id),
+            findByUsername: async () => undefined,
+            list: async () => Array.from(users.values()),
+            create: jest.fn(),
+            update: jest.fn(),
+        };
+        refreshSession = new RefreshSessionUseCase(userRepository, sessions);
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should issue access tokens with a unique jti bound to the session', async () => {
+        const first = await sessions.startSession(alice);
+        const second = await sessions.startSession(alice);
+
+        const firstClaims = await sessions.verifyAccessToken(first.token);
+        const secondClaims = await sessions.verifyAccessToken(second.token);
+        expect(firstClaims).toMatchObject({ id: 'user-1', username: 'alice', roles: ['user'] });
+        expect(firstClaims.jti).not.toBe(secondClaims.jti);
+        expect(firstClaims.sessionId).not.toBe(secondClaims.sessionId);
+        expect(first.refreshToken).not.toBe(second.refreshToken);
+    });
+
+    it('should rotate refresh tokens within the same session', async () => {
+        const initial = await sessions.startSession(alice);
+
+        const refreshed = await refreshSession.execute({ refreshToken: initial.refreshToken });
+        const refreshedAgain = await refreshSession.execute({ refreshToken: refreshed.refreshToken });
+
+        expect(refreshed.refreshToken).not.toBe(initial.refreshToken);
+        const initialClaims = await sessions.verifyAccessToken(initial.token);
+        expect((await sessions.verifyAccessToken(refreshedAgain.token)).sessionId).toBe(initialClaims.sessionId);
+    });
+
+    it('should revoke the whole session when a rotated refresh token is reused', async () => {
+        const initial = await sessions.startSession(alice);
+        const refreshed = await refreshSession.execute({ refreshToken: initial.refreshToken });
+
+        await expect(refreshSession.execute({ refreshToken: initial.refreshToken })).rejects.toMatchObject({
+            statusCode: 401,
+            details: expect.stringContaining('reuse detected'),
+        });
+        // El token legítimo más reciente y los tokens de acceso de la sesión también quedan revocados
+        await expect(refreshSession.execute({ refreshToken: refreshed.refreshToken })).rejects.toMatchObject({ statusCode: 401 });
+        await expect(sessions.verifyAccessToken(refreshed.token)).rejects.toMatchObject({ statusCode: 401 });
+    });
+
+    it('should reject unknown refresh tokens', async () => {
+        await expect(refreshSession.execute({ refreshToken: 'not-a-token' })).rejects.toMatchObject({ statusCode: 401 });
+        await expect(refreshSession.execute({ refreshToken: undefined as unknown as string })).rejects.toMatchObject({ statusCode: 401 });
+    });
+
+    it('should revoke the access token and its refresh tokens on logout, leaving other sessions intact', async () => {
+        const session = await sessions.startSession(alice);
+        const otherDevice = await sessions.startSession(alice);
+
+        await sessions.endSession(await sessions.verifyAccessToken(session.token));
+
+        await expect(sessions.verifyAccessToken(session.token)).rejects.toMatchObject({ statusCode: 401 });
+        await expect(refreshSession.execute({ refreshToken: session.refreshToken })).rejects.toMatchObject({ statusCode: 401 });
+        await expect(sessions.verifyAccessToken(otherDevice.token)).resolves.toMatchObject({ id: 'user-1' });
+    });
+
+    it('should revoke every session of a user and refuse to refresh disabled accounts', async () => {
+        const first = await sessions.startSession(alice);
+        const second = await sessions.startSession(alice);
+
+        users.set(alice.id, { ...alice, disabled: true });
+        await expect(refreshSession.execute({ refreshToken: first.refreshToken })).rejects.toMatchObject({ statusCode: 403 });
+
+        await expect(sessions.verifyAccessToken(first.token)).rejects.toMatchObject({ statusCode: 401 });
+        await expect(sessions.verifyAccessToken(second.token)).rejects.toMatchObject({ statusCode: 401 });
+    });
+
+    it('should refresh with the current roles of the user', async () => {
+        const initial = await sessions.startSession(alice);
+        users.set(alice.id, { ...alice, roles: ['admin'] });
+
+        const refreshed = await refreshSession.execute({ refreshToken: initial.refreshToken });
+
+        expect((await sessions.verifyAccessToken(refreshed.token)).roles).toEqual(['admin']);
+    });
+});
@@ -0,0 +1,64 @@
+// tests/unit/authorization.middleware.test.ts
+
+import { NextFunction, Request, Response } from 'express';
+import { createMatrixLimitsMiddleware, requireRoles } from '@interfaces/http/middleware/authorization.middleware';
+
+import { GoApiGateway } from '@application/ports/go-api.gateway';
+import { LocalMatrixEngine } from '@infrastructure/local-engine/local-matrix.engine';
+import { MatrixLimitsPolicy } from '@application/services/matrix-limits.policy';
+import { ProcessMatrixAndGetStatsUseCase } from '@application/use-cases/matrix/process-matrix-and-get-stats.usecase';
+import { UserRole } from '@domain/entities/user';
+
+describe('Role-based authorization and matrix limits (Unit Test)', () => {
+    const policy = new MatrixLimitsPolicy({
+        user: { maxDimension: 10, maxElements: 50, maxComputeDimension: 10 },
+        pro: { maxDimension: 100, maxElements: 5_000, maxComputeDimension: 50 },
+        admin: { maxDimension: 1_000, maxElements: 1_000, maxComputeDimension: 20 },
+    });
+    const requestFor = (roles?: UserRole[]) =>
+        ({ user: roles && { id: 'user-1', username: 'alice', roles } }) as Request;
+    let next: jest.Mock<NextFunction>;
+
+    beforeEach(() => {
+        next = jest.fn();
+    });
+
+    it('should let through users with any of the required roles', () => {
+        requireRoles('admin', 'pro')(requestFor(['pro']), {} as Response, next);
+
+        expect(next).toHaveBeenCalledWith();
+    });
+
+    it('should reject users without the required roles with 403 and anonymous requests with 401', () => {
+        requireRoles('admin')(requestFor(['user', 'pro']), {} as Response, next);
+        requireRoles('admin')(requestFor(), {} as Response, next);
+
+        expect(next).toHaveBeenNthCalledWith(1, expect.objectContaining({ statusCode: 403, errorCode: 'FORBIDDEN' }));
+        expect(next).toHaveBeenNthCalledWith(2, expect.objectContaining({ statusCode: 401 }));
+    });
+
+    it('should resolve the most permissive limits across the roles of the user', () => {
+        expect(policy.forRoles(['user'])).toEqual({ maxDimension: 10, maxElements: 50, maxComputeDimension: 10 });
+        expect(policy.forRoles(['admin', 'pro'])).toEqual({ maxDimension: 1_000, maxElements: 5_000, maxComputeDimension: 50 });
+        expect(policy.forRoles([])).toEqual({ maxDimension: 10, maxElements: 50, maxComputeDimension: 10 });
+
+        const req = requestFor(['pro']);
+        createMatrixLimitsMiddleware(policy)(req, {} as Response, next);
+        expect(req.matrixLimits).toEqual({ maxDimension: 100, maxElements: 5_000, maxComputeDimension: 50 });
+    });
+
+    it('should reject matrices over the limits before calling the matrix backend', async () => {
+        const engine = new LocalMatrixEngine();
+        const gateway: jest.Mocked<GoApiGateway> = { processMatrix: jest.fn((matrix, operation) => engine.processMatrix(matrix, operation)), decompose: jest.fn(), healthCheck: jest.fn(), close: jest.fn() };
+        const useCase = new ProcessMatrixAndGetStatsUseCase(gateway);
+        const limits = policy.forRoles(['user']);
+        const wide = [Array.from({ length: 11 }, (_, i) => i)];
+        const square = Array.from({ length: 8 }, () => Array.from({ length: 8 }, () => 1));
+
+        await expect(useCase.execute({ matrix: wide, limits })).rejects.toMatchObject({ statusCode: 413, errorCode: 'MATRIX_TOO_LARGE' });
+        await expect(useCase.execute({ matrix: square, limits })).rejects.toMatchObject({ statusCode: 413, errorCode: 'MATRIX_TOO_LARGE' });
+        expect(gateway.processMatrix).not.toHaveBeenCalled();
+
+        await expect(useCase.execute({ matrix: [[1, 2], [3, 4]], limits })).resolves.toHaveProperty('statistics');
+    });
+});
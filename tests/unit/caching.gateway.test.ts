@@ -0,0 +1,126 @@
+// tests/unit/caching.gateway.test.ts
+
+import { GoApiResponseData, Matrix, MatrixOperation } from '@domain/entities/matrix';
+
+import { CachingGoApiGateway } from '@infrastructure/cache/caching.gateway';
+import { DEFAULT_MATRIX_OPERATION } from '@application/services/matrix-operation';
+import { GoApiGateway } from '@application/ports/go-api.gateway';
+import { LruCache } from '@infrastructure/cache/lru-cache';
+import { hashMatrix } from '@infrastructure/cache/matrix-hash';
+
+const goResultFor = (matrix: Matrix): GoApiResponseData => ({
+    original_matrix: matrix,
+    rotated_matrix: matrix,
+    qr_factorization: { Q: [[1]], R: [[1]] },
+});
+
+describe('CachingGoApiGateway (Unit Test)', () => {
+    let inner: jest.Mocked<GoApiGateway>;
+    let gateway: CachingGoApiGateway;
+
+    beforeEach(() => {
+        inner = { processMatrix: jest.fn(async (matrix: Matrix, operation: MatrixOperation) => goResultFor(matrix)), decompose: jest.fn(), healthCheck: jest.fn(), close: jest.fn() };
+        gateway = new CachingGoApiGateway(inner, { maxEntries: 10, ttlMs: 60_000, maxBytes: 1_000_000 });
+    });
+
+    it('should report a miss first and serve identical matrices from the cache afterwards', async () => {
+        const first = await gateway.processMatrix([[1, 2], [3, 4]], DEFAULT_MATRIX_OPERATION);
+        const second = await gateway.processMatrix([[1.0, 2], [3, 4.0]], DEFAULT_MATRIX_OPERATION);
+
+        expect(first.cache).toEqual({ hit: false, key: hashMatrix([[1, 2], [3, 4]], DEFAULT_MATRIX_OPERATION) });
+        expect(second.cache).toEqual({ hit: true, key: first.cache!.key });
+        expect(inner.processMatrix).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cache each operation on the same matrix separately', async () => {
+        const flip: MatrixOperation = { type: 'flip', axis: 'horizontal' };
+        const rotated = await gateway.processMatrix([[1, 2]], DEFAULT_MATRIX_OPERATION);
+        const flipped = await gateway.processMatrix([[1, 2]], flip);
+        const reordered = await gateway.processMatrix([[1, 2]], { direction: 'clockwise', degrees: 90, type: 'rotate' } as MatrixOperation);
+
+        expect(flipped.cache).toEqual({ hit: false, key: hashMatrix([[1, 2]], flip) });
+        expect(flipped.cache!.key).not.toBe(rotated.cache!.key);
+        expect(reordered.cache).toEqual({ hit: true, key: rotated.cache!.key });
+        expect(inner.processMatrix).toHaveBeenNthCalledWith(2, [[1, 2]], flip);
+    });
+
+    it('should collapse identical concurrent requests into a single in-flight call', async () => {
+        let resolveInner: (value: GoApiResponseData) => void = () => undefined;
+        inner.processMatrix.mockImplementationOnce(() => new Promise(resolve => { resolveInner = resolve; }));
+
+        const requests = [1, 2, 3].map(() => gateway.processMatrix([[5]], DEFAULT_MATRIX_OPERATION));
+        expect(gateway.getStats().inFlight).toBe(1);
+        resolveInner(goResultFor([[5]]));
+
+        const results = await Promise.all(requests);
+        expect(inner.processMatrix).toHaveBeenCalledTimes(1);
+        expect(results.map(result => result.cache!.hit)).toEqual([false, true, true]);
+        expect(gateway.getStats().inFlight).toBe(0);
+    });
+
+    it('should not cache failures', async () => {
+        inner.processMatrix.mockRejectedValueOnce(new Error('Go is down'));
+
+        await expect(gateway.processMatrix([[7]], DEFAULT_MATRIX_OPERATION)).rejects.toThrow('Go is down');
+        await expect(gateway.processMatrix([[7]], DEFAULT_MATRIX_OPERATION)).resolves.toEqual(expect.objectContaining({ cache: expect.objectContaining({ hit: false }) }));
+        expect(inner.processMatrix).toHaveBeenCalledTimes(2);
+    });
+
+    it('should support invalidating a single key and flushing everything', async () => {
+        const { cache } = await gateway.processMatrix([[1]], DEFAULT_MATRIX_OPERATION);
+        await gateway.processMatrix([[2]], DEFAULT_MATRIX_OPERATION);
+
+        expect(gateway.invalidate(cache!.key)).toBe(true);
+        expect(gateway.invalidate(cache!.key)).toBe(false);
+        expect(gateway.flush()).toBe(1);
+        expect(gateway.getStats().entries).toBe(0);
+    });
+});
+
+describe('LruCache (Unit Test)', () => {
+    let now: number;
+    const createCache = (maxEntries: number, maxBytes: number = 1_000) => new LruCache<string>({
+        maxEntries,
+        maxBytes,
+        ttlMs: 1_000,
+        sizeOf: value => value.length,
+        now: () => now,
+    });
+
+    beforeEach(() => {
+        now = 0;
+    });
+
+    it('should evict the least recently used entry when full', () => {
+        const cache = createCache(2);
+        cache.set('a', 'A');
+        cache.set('b', 'B');
+        cache.get('a'); // 'b' becomes the least recently used entry
+        cache.set('c', 'C');
+
+        expect(cache.get('b')).toBeUndefined();
+        expect(cache.get('a')).toBe('A');
+        expect(cache.get('c')).toBe('C');
+        expect(cache.getStats().evictions).toBe(1);
+    });
+
+    it('should expire entries after the TTL', () => {
+        const cache = createCache(10);
+        cache.set('a', 'A');
+        now = 999;
+        expect(cache.get('a')).toBe('A');
+        now = 1_000;
+        expect(cache.get('a')).toBeUndefined();
+    });
+
+    it('should respect the memory cap', () => {
+        const cache = createCache(10, 10);
+        cache.set('a', '123456');
+        cache.set('b', '123456');
+        expect(cache.get('a')).toBeUndefined();
+        expect(cache.getStats().bytes).toBe(6);
+
+        cache.set('huge', '12345678901');
+        expect(cache.get('huge')).toBeUndefined();
+    });
+});
@@ -3,6 +3,7 @@
 import { GoApiError, InvalidMatrixError } from '@domain/errors/app.errors';
 import { GoApiResponseData, Matrix, ProcessedMatrixResult } from '@domain/entities/matrix';
 
+import { DEFAULT_MATRIX_OPERATION } from '@application/services/matrix-operation';
 import { GoApiGateway } from '@application/ports/go-api.gateway';
 import { ProcessMatrixAndGetStatsUseCase } from '@application/use-cases/matrix/process-matrix-and-get-stats.usecase';
 
@@ -14,6 +15,9 @@ describe('ProcessMatrixAndGetStatsUseCase (Unit Test)', () => {
         // Initialize the mock for the Go API Gateway before each test
         mockGoApiGateway = {
             processMatrix: jest.fn(),
+            decompose: jest.fn(),
+            healthCheck: jest.fn(),
+            close: jest.fn(),
         };
         // Initialize the use case with the mocked gateway
         useCase = new ProcessMatrixAndGetStatsUseCase(mockGoApiGateway);
@@ -50,10 +54,11 @@ describe('ProcessMatrixAndGetStatsUseCase (Unit Test)', () => {
         // Assertions:
         // 1. Verify that the Go API gateway was called correctly
         expect(mockGoApiGateway.processMatrix).toHaveBeenCalledTimes(1);
-        expect(mockGoApiGateway.processMatrix).toHaveBeenCalledWith(inputMatrix);
+        expect(mockGoApiGateway.processMatrix).toHaveBeenCalledWith(inputMatrix, DEFAULT_MATRIX_OPERATION);
 
         // 2. Verify the structure and content of the returned result
         expect(result.originalMatrix).toEqual(inputMatrix);
+        expect(result.operation).toEqual(DEFAULT_MATRIX_OPERATION);
         expect(result.rotatedMatrix).toEqual(mockGoApiResponse.rotated_matrix);
         expect(result.qrFactorization).toEqual(mockGoApiResponse.qr_factorization);
 
@@ -0,0 +1,86 @@
+// tests/unit/circuit-breaker.test.ts
+
+import { CircuitBreaker } from '@infrastructure/http-client/circuit-breaker';
+import { computeBackoffDelay } from '@infrastructure/http-client/retry-policy';
+
+describe('CircuitBreaker (Unit Test)', () => {
+    let now: number;
+    let breaker: CircuitBreaker;
+
+    beforeEach(() => {
+        now = 1_000;
+        breaker = new CircuitBreaker({ failureThreshold: 3, cooldownMs: 5_000 }, () => now);
+    });
+
+    const fail = (times: number) => {
+        for (let i = 0; i < times; i++) {
+            expect(breaker.tryAcquire()).toBe(true);
+            breaker.recordFailure();
+        }
+    };
+
+    it('should open after the configured number of consecutive failures', () => {
+        fail(2);
+        expect(breaker.getSnapshot().state).toBe('closed');
+
+        fail(1);
+        expect(breaker.getSnapshot()).toEqual({
+            state: 'open',
+            consecutiveFailures: 3,
+            openedAt: 1_000,
+            nextAttemptAt: 6_000,
+        });
+        expect(breaker.tryAcquire()).toBe(false);
+    });
+
+    it('should reset the failure count after a success', () => {
+        fail(2);
+        breaker.tryAcquire();
+        breaker.recordSuccess();
+        fail(2);
+        expect(breaker.getSnapshot().state).toBe('closed');
+    });
+
+    it('should allow a single probe after the cooldown and close on success', () => {
+        const listener = jest.fn();
+        breaker.onStateChange(listener);
+        fail(3);
+
+        now += 5_000;
+        expect(breaker.tryAcquire()).toBe(true);
+        expect(breaker.getSnapshot().state).toBe('half-open');
+        expect(breaker.tryAcquire()).toBe(false); // Only one probe at a time
+
+        breaker.recordSuccess();
+        expect(breaker.getSnapshot().state).toBe('closed');
+        expect(listener.mock.calls.map(([snapshot, previous]) => `${previous}->${snapshot.state}`))
+            .toEqual(['closed->open', 'open->half-open', 'half-open->closed']);
+    });
+
+    it('should re-open immediately when the half-open probe fails', () => {
+        fail(3);
+        now += 5_000;
+        breaker.tryAcquire();
+        breaker.recordFailure();
+
+        expect(breaker.getSnapshot()).toEqual(expect.objectContaining({ state: 'open', openedAt: 6_000 }));
+        expect(breaker.tryAcquire()).toBe(false);
+    });
+});
+
+describe('computeBackoffDelay (Unit Test)', () => {
+    const policy = { maxRetries: 5, baseDelayMs: 100, maxDelayMs: 1_000 };
+
+    it('should grow exponentially and be capped by maxDelayMs', () => {
+        const upperBound = () => 0.999999;
+        expect(computeBackoffDelay(0, policy, upperBound)).toBe(99);
+        expect(computeBackoffDelay(1, policy, upperBound)).toBe(199);
+        expect(computeBackoffDelay(3, policy, upperBound)).toBe(799);
+        expect(computeBackoffDelay(10, policy, upperBound)).toBe(999);
+    });
+
+    it('should apply full jitter', () => {
+        expect(computeBackoffDelay(2, policy, () => 0)).toBe(0);
+        expect(computeBackoffDelay(2, policy, () => 0.5)).toBe(200);
+    });
+});
@@ -0,0 +1,176 @@
+// tests/unit/config.loader.test.ts
+
+import { ENV_VARIABLES, loadConfig, validateConfig } from '../../src/config';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+const STRONG_SECRET = 'k3Hq9vT2xLmP8rW4zN6yB1cF5gJ7dS0a';
+
+// Captura los problemas del error de configuración
+const problemsOf = (env: NodeJS.ProcessEnv): string[] => {
+    try {
+        loadConfig(env);
+    } catch (error: any) {
+        expect(error).toMatchObject({ errorCode: 'ENV_CONFIG_ERROR' });
+        return error.problems;
+    }
+    throw new Error('loadConfig should have failed');
+};
+
+describe('loadConfig (Unit Test)', () => {
+    it('should apply the defaults of the development profile', () => {
+        const config = loadConfig({ GO_API_APP_ACCESS_TOKEN: 'token' });
+
+        expect(config).toMatchObject({
+            profile: 'development',
+            nodeApiPort: 3000,
+            logLevel: 'debug',
+            matrixBackend: 'go',
+            resultCache: { enabled: true, maxEntries: 500 },
+            matrixLimits: { user: { maxDimension: 100, maxElements: 10000 } },
+            qrVerification: { tolerance: 1e-6, mode: 'flag' },
+        });
+        expect(config.jwtSecret).not.toBe('supersecretjwtkeyforexample');
+        expect(validateConfig(config)).toEqual([]);
+    });
+
+    it('should parse the typed values of the environment', () => {
+        const config = loadConfig({
+            NODE_ENV: 'test',
+            MATRIX_BACKEND: 'local',
+            NODE_API_PORT: '8081',
+            RESULT_CACHE_ENABLED: 'FALSE',
+            QR_VERIFICATION_TOLERANCE: '0.001',
+            RATE_LIMIT_LOGIN_LIMIT: '3',
+        });
+
+        expect(config).toMatchObject({
+            profile: 'test',
+            logLevel: 'warn',
+            nodeApiPort: 8081,
+            resultCache: { enabled: false },
+            qrVerification: { tolerance: 0.001 },
+            rateLimit: { login: { limit: 3 } },
+        });
+    });
+
+    it('should store the value of each variable at its path of AppConfig', () => {
+        // A distinct valid value per numeric variable, increasing so that the "base <= max" rules hold
+        const numeric = ENV_VARIABLES.filter(variable => variable.schema.type === 'integer' || variable.schema.type === 'number');
+        const env = Object.fromEntries(numeric.map((variable, i) => [variable.name, String(1000 + i)]));
+        const config = loadConfig({ ...env, MATRIX_BACKEND: 'local' });
+
+        numeric.forEach((variable, i) => {
+            const value = variable.path.split('.').reduce<unknown>((object, key) => (object as Record<string, unknown>)[key], config);
+            expect({ [variable.name]: value }).toEqual({ [variable.name]: 1000 + i });
+        });
+        expect(validateConfig(config)).toEqual([]);
+    });
+
+    it('should report every problem at once', () => {
+        const problems = problemsOf({
+            NODE_API_PORT: 'abc',
+            RESULT_CACHE_ENABLED: 'yes',
+            MATRIX_BACKEND: 'python',
+            GO_API_TIMEOUT_MS: '0',
+            JWT_EXPIRES_IN: 'forever',
+        });
+
+        expect(problems).toEqual(expect.arrayContaining([
+            expect.stringContaining('NODE_API_PORT must be an integer'),
+            expect.stringContaining('RESULT_CACHE_ENABLED must be "true" or "false"'),
+            expect.stringContaining('MATRIX_BACKEND must be one of'),
+            expect.stringContaining('GO_API_TIMEOUT_MS must be greater than or equal to 1'),
+            expect.stringContaining('JWT_EXPIRES_IN must match the pattern'),
+        ]));
+    });
+
+    it('should reject an unknown profile', () => {
+        expect(problemsOf({ NODE_ENV: 'staging', MATRIX_BACKEND: 'local' }))
+            .toContain('NODE_ENV must be one of: development, test, production.');
+    });
+
+    it('should require the Go API token unless the backend is local', () => {
+        expect(problemsOf({})).toEqual(['GO_API_APP_ACCESS_TOKEN is required unless MATRIX_BACKEND=local.']);
+        expect(() => loadConfig({ MATRIX_BACKEND: 'local' })).not.toThrow();
+    });
+
+    describe('production profile', () => {
+        const production = { NODE_ENV: 'production', MATRIX_BACKEND: 'local' };
+
+        it('should require JWT_SECRET', () => {
+            expect(problemsOf(production)).toEqual(['JWT_SECRET is required.']);
+        });
+
+        it('should reject default, weak or short secrets', () => {
+            const problems = problemsOf({
+                ...production,
+                JWT_SECRET: 'supersecretjwtkeyforexample',
+                INTERNAL_API_TOKEN: 'changeme',
+                METRICS_TOKEN: 'too-short',
+            });
+
+            expect(problems).toEqual([
+                'JWT_SECRET uses a default or example value, which is not allowed in production.',
+                'INTERNAL_API_TOKEN uses a default or example value, which is not allowed in production.',
+                'METRICS_TOKEN must be at least 32 characters long in production.',
+            ]);
+        });
+
+        it('should check the rules and the secrets even when other variables are invalid', () => {
+            expect(problemsOf({ ...production, NODE_API_PORT: '30O0', JWT_SECRET: 'short-key!' })).toEqual([
+                'NODE_API_PORT must be an integer (received "30O0").',
+                'JWT_SECRET must be at least 32 characters long in production.',
+            ]);
+            // A rule is skipped when one of its variables is invalid, instead of reporting a misleading problem
+            expect(problemsOf({ NODE_ENV: 'production', MATRIX_BACKEND: 'python', GO_API_RETRY_MAX_DELAY_MS: '-1', JWT_SECRET: 'x' })).toEqual([
+                'MATRIX_BACKEND must be one of: go, local, go-with-local-fallback.',
+                'GO_API_RETRY_MAX_DELAY_MS must be greater than or equal to 0.',
+                'JWT_SECRET must be at least 32 characters long in production.',
+            ]);
+        });
+
+        it('should accept strong secrets', () => {
+            const config = loadConfig({ ...production, JWT_SECRET: STRONG_SECRET });
+
+            expect(config).toMatchObject({ profile: 'production', logLevel: 'info', jwtSecret: STRONG_SECRET });
+        });
+    });
+
+    describe('*_FILE secrets', () => {
+        let directory: string;
+
+        beforeEach(() => {
+            directory = mkdtempSync(join(tmpdir(), 'config-test-'));
+        });
+
+        afterEach(() => {
+            rmSync(directory, { recursive: true, force: true });
+        });
+
+        it('should read the secret from the file, without the trailing newline', () => {
+            const secretFile = join(directory, 'jwt_secret');
+            writeFileSync(secretFile, `${STRONG_SECRET}\n`);
+
+            const config = loadConfig({ NODE_ENV: 'production', MATRIX_BACKEND: 'local', JWT_SECRET_FILE: secretFile });
+
+            expect(config.jwtSecret).toBe(STRONG_SECRET);
+        });
+
+        it('should report a missing file and a secret defined twice', () => {
+            const problems = problemsOf({
+                MATRIX_BACKEND: 'local',
+                JWT_SECRET_FILE: join(directory, 'missing'),
+                METRICS_TOKEN: STRONG_SECRET,
+                METRICS_TOKEN_FILE: join(directory, 'metrics_token'),
+            });
+
+            expect(problems).toEqual([
+                'JWT_SECRET_FILE could not be read (ENOENT).',
+                'Set only one of METRICS_TOKEN and METRICS_TOKEN_FILE.',
+            ]);
+        });
+    });
+});
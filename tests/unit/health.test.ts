@@ -0,0 +1,130 @@
+// tests/unit/health.test.ts
+
+import { NextFunction, Request, Response } from 'express';
+
+import { DependencyHealth } from '@domain/entities/health';
+import { FallbackGoApiGateway } from '@infrastructure/gateways/fallback.gateway';
+import { GoApiGateway } from '@application/ports/go-api.gateway';
+import { HealthController } from '@interfaces/http/controllers/health.controller';
+import { HealthService } from '@application/services/health.service';
+import { LocalMatrixEngine } from '@infrastructure/local-engine/local-matrix.engine';
+
+describe('HealthService (Unit Test)', () => {
+    const up: DependencyHealth = { status: 'up', latencyMs: 3 };
+
+    it('should report every dependency and the worst status overall', async () => {
+        const service = new HealthService({
+            config: async () => up,
+            goApi: async () => ({ status: 'degraded', message: 'using the local engine' }),
+        }, { cacheTtlMs: 0 });
+
+        await expect(service.checkReadiness()).resolves.toMatchObject({
+            status: 'degraded',
+            dependencies: { config: up, goApi: { status: 'degraded' } },
+        });
+    });
+
+    it('should report a check that throws as down', async () => {
+        const service = new HealthService({
+            config: async () => up,
+            goApi: () => Promise.reject(new Error('connect ECONNREFUSED')),
+        }, { cacheTtlMs: 0 });
+
+        await expect(service.checkReadiness()).resolves.toMatchObject({
+            status: 'down',
+            dependencies: { goApi: { status: 'down', message: 'connect ECONNREFUSED' } },
+        });
+    });
+
+    it('should cache the report and share concurrent checks', async () => {
+        const goApi = jest.fn(async () => up);
+        const service = new HealthService({ goApi }, { cacheTtlMs: 60_000 });
+
+        const [first, second] = await Promise.all([service.checkReadiness(), service.checkReadiness()]);
+        const third = await service.checkReadiness();
+
+        expect(goApi).toHaveBeenCalledTimes(1);
+        expect(second).toBe(first);
+        expect(third).toBe(first);
+    });
+
+    it('should check again once the cached report expires', async () => {
+        const goApi = jest.fn(async () => up);
+        const service = new HealthService({ goApi }, { cacheTtlMs: 0 });
+
+        await service.checkReadiness();
+        await service.checkReadiness();
+
+        expect(goApi).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report down without checking the dependencies once the shutdown begins', async () => {
+        const goApi = jest.fn(async () => up);
+        const service = new HealthService({ goApi }, { cacheTtlMs: 60_000 });
+        await service.checkReadiness();
+
+        service.beginShutdown();
+
+        await expect(service.checkReadiness()).resolves.toMatchObject({
+            status: 'down',
+            dependencies: { server: { status: 'down', message: 'The server is shutting down.' } },
+        });
+        expect(goApi).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('FallbackGoApiGateway health (Unit Test)', () => {
+    it('should be degraded when the primary is down but the fallback is up', async () => {
+        const primary: jest.Mocked<GoApiGateway> = {
+            processMatrix: jest.fn(),
+            decompose: jest.fn(),
+            healthCheck: jest.fn().mockResolvedValue({ status: 'down', message: 'timeout' }),
+            close: jest.fn(),
+        };
+
+        await expect(new FallbackGoApiGateway(primary, new LocalMatrixEngine()).healthCheck()).resolves.toMatchObject({
+            status: 'degraded',
+        });
+    });
+});
+
+describe('HealthController (Unit Test)', () => {
+    let mockResponse: Partial<Response>;
+    const mockNext: NextFunction = jest.fn();
+
+    beforeEach(() => {
+        mockResponse = { status: jest.fn().mockReturnThis(), json: jest.fn().mockReturnThis() };
+    });
+
+    it('should answer the liveness probe without checking dependencies', () => {
+        const goApi = jest.fn(async (): Promise<DependencyHealth> => ({ status: 'down' }));
+        const controller = new HealthController(new HealthService({ goApi }, { cacheTtlMs: 0 }));
+
+        controller.live({} as Request, mockResponse as Response);
+
+        expect(mockResponse.status).toHaveBeenCalledWith(200);
+        expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ status: 'up' }));
+        expect(goApi).not.toHaveBeenCalled();
+    });
+
+    it('should answer 503 on the readiness probe when a dependency is down', async () => {
+        const controller = new HealthController(new HealthService({
+            goApi: async () => ({ status: 'down', message: 'Go API rejected the application access token.' }),
+        }, { cacheTtlMs: 0 }));
+
+        await controller.ready({} as Request, mockResponse as Response, mockNext);
+
+        expect(mockResponse.status).toHaveBeenCalledWith(503);
+        expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ status: 'down' }));
+    });
+
+    it('should answer 200 on the readiness probe when degraded', async () => {
+        const controller = new HealthController(new HealthService({
+            goApi: async () => ({ status: 'degraded' }),
+        }, { cacheTtlMs: 0 }));
+
+        await controller.ready({} as Request, mockResponse as Response, mockNext);
+
+        expect(mockResponse.status).toHaveBeenCalledWith(200);
+    });
+});
@@ -0,0 +1,94 @@
+// tests/unit/linear-system.test.ts
+
+import { DecompositionName, Matrix } from '@domain/entities/matrix';
+import { minimumNormSolve, qrRank, qrSolve } from '@shared/math/least-squares';
+
+import { LocalMatrixEngine } from '@infrastructure/local-engine/local-matrix.engine';
+import { SolveLinearSystemUseCase } from '@application/use-cases/matrix/solve-linear-system.usecase';
+import { householderQR } from '@shared/math/householder-qr';
+
+describe('Least-squares math (Unit Test)', () => {
+    it('should solve with both the full and the reduced QR factorization', () => {
+        const A = [[1, 1], [1, 2], [1, 3]];
+        const full = householderQR(A);
+        const reduced = { Q: full.Q.map(row => row.slice(0, 2)), R: full.R.slice(0, 2) };
+        const B = [[1], [2], [2]];
+
+        for (const qr of [full, reduced]) {
+            const [[intercept], [slope]] = qrSolve(qr, B);
+            expect(intercept).toBeCloseTo(2 / 3, 12);
+            expect(slope).toBeCloseTo(0.5, 12);
+        }
+    });
+
+    it('should detect rank deficiency from R and return the minimum-norm solution', () => {
+        const A = [[1, 2], [2, 4], [3, 6]];
+        expect(qrRank(householderQR(A).R, 3, 2)).toBe(1);
+
+        // A·x = b has infinitely many solutions on the line x1 + 2·x2 = 1; the minimum-norm one is (1, 2) / 5
+        const { X, rank } = minimumNormSolve(A, [[1], [2], [3]]);
+        expect(rank).toBe(1);
+        expect(X[0][0]).toBeCloseTo(0.2, 12);
+        expect(X[1][0]).toBeCloseTo(0.4, 12);
+    });
+});
+
+describe('SolveLinearSystemUseCase (Unit Test)', () => {
+    const engine = new LocalMatrixEngine();
+    const gateway = {
+        processMatrix: jest.fn(),
+        decompose: jest.fn((matrix: Matrix, decompositions: DecompositionName[]) => engine.decompose(matrix, decompositions)),
+        healthCheck: jest.fn(),
+        close: jest.fn(),
+    };
+    const useCase = new SolveLinearSystemUseCase(gateway);
+
+    beforeEach(() => gateway.decompose.mockClear());
+
+    it('should solve a square system exactly with the QR factorization from the gateway', async () => {
+        const solution = await useCase.execute({ matrix: [[2, 1], [1, 3]], b: [3, 5] });
+
+        expect(gateway.decompose).toHaveBeenCalledWith([[2, 1], [1, 3]], ['qr']);
+        expect(solution).toMatchObject({ method: 'exact', rank: 2, rankDeficient: false, warnings: [] });
+        expect(solution.x).toHaveLength(2);
+        expect((solution.x as number[])[0]).toBeCloseTo(0.8, 12);
+        expect((solution.x as number[])[1]).toBeCloseTo(1.4, 12);
+        expect(solution.residualNorms[0]).toBeCloseTo(0, 12);
+    });
+
+    it('should return least-squares solutions and residual norms for several right-hand sides', async () => {
+        const solution = await useCase.execute({ matrix: [[1, 1], [1, 2], [1, 3]], b: [[1, 1], [2, 2], [2, 3]] });
+        const x = solution.x as Matrix;
+
+        expect(solution).toMatchObject({ method: 'least-squares', rank: 2, rankDeficient: false });
+        expect(x[0][0]).toBeCloseTo(2 / 3, 12);
+        expect(x[1][0]).toBeCloseTo(0.5, 12);
+        // The second right-hand side lies on the line y = t, so its residual is zero
+        expect(x[0][1]).toBeCloseTo(0, 12);
+        expect(x[1][1]).toBeCloseTo(1, 12);
+        expect(solution.residualNorms[0]).toBeCloseTo(Math.sqrt(1 / 6), 12);
+        expect(solution.residualNorms[1]).toBeCloseTo(0, 12);
+    });
+
+    it('should warn about a rank-deficient matrix instead of failing', async () => {
+        const solution = await useCase.execute({ matrix: [[1, 2], [2, 4]], b: [1, 2] });
+
+        expect(solution).toMatchObject({ method: 'least-squares', rank: 1, rankDeficient: true });
+        expect(solution.warnings).toEqual([expect.stringContaining('rank deficient (rank 1 < 2 columns)')]);
+        expect(solution.residualNorms[0]).toBeCloseTo(0, 12);
+    });
+
+    it.each<[string, Matrix, number[] | Matrix, string]>([
+        ['an underdetermined system', [[1, 2, 3]], [1], 'at least as many equations (rows) as unknowns (columns)'],
+        ['a right-hand side of the wrong length', [[1, 0], [0, 1]], [1, 2, 3], 'the matrix has 2 rows and b has 3'],
+        ['a non-numeric right-hand side', [[1, 0], [0, 1]], [1, 'x'] as unknown as number[], 'only arrays of numbers'],
+        ['an empty right-hand side', [[1, 0], [0, 1]], [], 'b must be an array of numbers'],
+    ])('should reject %s with INVALID_MATRIX', async (_label, matrix, b, details) => {
+        await expect(useCase.execute({ matrix, b })).rejects.toEqual(expect.objectContaining({
+            statusCode: 400,
+            errorCode: 'INVALID_MATRIX',
+            details: expect.stringContaining(details),
+        }));
+        expect(gateway.decompose).not.toHaveBeenCalled();
+    });
+});
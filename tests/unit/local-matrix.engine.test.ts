@@ -0,0 +1,103 @@
+// tests/unit/local-matrix.engine.test.ts
+
+import { GoApiResponseData, Matrix, MatrixOperation } from '@domain/entities/matrix';
+import { identity, multiply, transpose } from '@shared/math/linear-algebra';
+
+import { DEFAULT_MATRIX_OPERATION } from '@application/services/matrix-operation';
+import { FallbackGoApiGateway } from '@infrastructure/gateways/fallback.gateway';
+import { GoApiError } from '@domain/errors/app.errors';
+import { GoApiGateway } from '@application/ports/go-api.gateway';
+import { LocalMatrixEngine } from '@infrastructure/local-engine/local-matrix.engine';
+
+const expectMatrixClose = (actual: Matrix, expected: Matrix, digits: number = 10) => {
+    expect(actual).toHaveLength(expected.length);
+    actual.forEach((row, i) => row.forEach((value, j) => expect(value).toBeCloseTo(expected[i][j], digits)));
+};
+
+describe('LocalMatrixEngine (Unit Test)', () => {
+    const engine = new LocalMatrixEngine();
+
+    it('should rotate the matrix 90 degrees clockwise like the Go API', async () => {
+        const result = await engine.processMatrix([[1, 2], [3, 4]], DEFAULT_MATRIX_OPERATION);
+        expect(result.original_matrix).toEqual([[1, 2], [3, 4]]);
+        expect(result.rotated_matrix).toEqual([[3, 1], [4, 2]]);
+
+        const rectangular = await engine.processMatrix([[1, 2, 3], [4, 5, 6]], DEFAULT_MATRIX_OPERATION);
+        expect(rectangular.rotated_matrix).toEqual([[4, 1], [5, 2], [6, 3]]);
+    });
+
+    it.each<[string, MatrixOperation, Matrix]>([
+        ['90 degrees counterclockwise', { type: 'rotate', degrees: 90, direction: 'counterclockwise' }, [[3, 6], [2, 5], [1, 4]]],
+        ['270 degrees clockwise', { type: 'rotate', degrees: 270, direction: 'clockwise' }, [[3, 6], [2, 5], [1, 4]]],
+        ['270 degrees counterclockwise', { type: 'rotate', degrees: 270, direction: 'counterclockwise' }, [[4, 1], [5, 2], [6, 3]]],
+        ['180 degrees', { type: 'rotate', degrees: 180, direction: 'counterclockwise' }, [[6, 5, 4], [3, 2, 1]]],
+        ['transpose', { type: 'transpose' }, [[1, 4], [2, 5], [3, 6]]],
+        ['horizontal flip', { type: 'flip', axis: 'horizontal' }, [[3, 2, 1], [6, 5, 4]]],
+        ['vertical flip', { type: 'flip', axis: 'vertical' }, [[4, 5, 6], [1, 2, 3]]],
+    ])('should apply a %s', async (_label, operation, expected) => {
+        const matrix = [[1, 2, 3], [4, 5, 6]];
+        const result = await engine.processMatrix(matrix, operation);
+
+        expect(result.rotated_matrix).toEqual(expected);
+        expect(result.original_matrix).toEqual([[1, 2, 3], [4, 5, 6]]);
+        expect(matrix).toEqual([[1, 2, 3], [4, 5, 6]]);
+    });
+
+    it('should return a QR factorization with the same sign convention as the Go API', async () => {
+        const { qr_factorization } = await engine.processMatrix([[1, 2], [3, 4]], DEFAULT_MATRIX_OPERATION);
+        expectMatrixClose(qr_factorization.Q, [[-0.3162, -0.9487], [-0.9487, 0.3162]], 3);
+        expectMatrixClose(qr_factorization.R, [[-3.1623, -4.4272], [0, -0.6325]], 3);
+    });
+
+    it.each<[string, Matrix]>([
+        ['square', [[12, -51, 4], [6, 167, -68], [-4, 24, -41]]],
+        ['tall', [[1, 2], [3, 4], [5, 6], [7, 8]]],
+        ['wide', [[2, -1, 0, 3], [1, 4, 2, -2]]],
+        ['rank deficient', [[1, 2], [2, 4]]],
+    ])('should produce an orthogonal Q and upper-triangular R that reconstruct a %s matrix', async (_label, matrix) => {
+        const { qr_factorization: { Q, R } } = await engine.processMatrix(matrix, DEFAULT_MATRIX_OPERATION);
+        const m = matrix.length;
+
+        expectMatrixClose(multiply(transpose(Q), Q), identity(m));
+        R.forEach((row, i) => row.forEach((value, j) => {
+            if (i > j) expect(value).toBe(0);
+        }));
+        expectMatrixClose(multiply(Q, R), matrix);
+    });
+});
+
+describe('FallbackGoApiGateway (Unit Test)', () => {
+    const localResult: GoApiResponseData = {
+        original_matrix: [[1]],
+        rotated_matrix: [[1]],
+        qr_factorization: { Q: [[1]], R: [[1]] },
+    };
+    let primary: jest.Mocked<GoApiGateway>;
+    let fallback: jest.Mocked<GoApiGateway>;
+    let gateway: FallbackGoApiGateway;
+
+    beforeEach(() => {
+        primary = { processMatrix: jest.fn(), decompose: jest.fn(), healthCheck: jest.fn(), close: jest.fn() };
+        fallback = { processMatrix: jest.fn().mockResolvedValue(localResult), decompose: jest.fn(), healthCheck: jest.fn(), close: jest.fn() };
+        gateway = new FallbackGoApiGateway(primary, fallback);
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it('should use the fallback when the Go API is unreachable', async () => {
+        primary.processMatrix.mockRejectedValue(new GoApiError('No response received from Go API.', 'NETWORK_ERROR'));
+
+        const flip: MatrixOperation = { type: 'flip', axis: 'vertical' };
+        await expect(gateway.processMatrix([[1]], flip)).resolves.toBe(localResult);
+        expect(fallback.processMatrix).toHaveBeenCalledWith([[1]], flip);
+    });
+
+    it('should not use the fallback for client errors', async () => {
+        const clientError = new GoApiError('Bad request', 'BAD_REQUEST', 400);
+        primary.processMatrix.mockRejectedValue(clientError);
+
+        await expect(gateway.processMatrix([[1]], DEFAULT_MATRIX_OPERATION)).rejects.toBe(clientError);
+        expect(fallback.processMatrix).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,108 @@
+// tests/unit/logger.test.ts
+
+import { NextFunction, Request, Response } from 'express';
+import { bindRequestContext, runWithRequestContext } from '@shared/logging/request-context';
+
+import { EventEmitter } from 'events';
+import { Logger } from '@shared/logging/logger';
+import { createRequestLoggingMiddleware } from '@interfaces/http/middleware/request-logging.middleware';
+import { redact } from '@shared/logging/redact';
+
+describe('Structured logging (Unit Test)', () => {
+    let logSpy: jest.SpyInstance;
+    let warnSpy: jest.SpyInstance;
+    const entries = (spy: jest.SpyInstance) => spy.mock.calls.map(([line]) => JSON.parse(line));
+
+    beforeEach(() => {
+        logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should redact tokens, passwords and API keys and summarize matrices', () => {
+        expect(redact({
+            headers: { authorization: 'Bearer abc', 'x-api-key': 'ak_123' },
+            body: { username: 'alice', password: 'secret!', refreshToken: 'r', matrix: [[1, 2, 3], [4, 5, 6]] },
+            qr_factorization: { Q: [[1, 0], [0, 1]], R: [[1, 2], [0, 3]] },
+            stats: ['trace'],
+        })).toEqual({
+            headers: { authorization: '[REDACTED]', 'x-api-key': '[REDACTED]' },
+            body: { username: 'alice', password: '[REDACTED]', refreshToken: '[REDACTED]', matrix: '[matrix 2x3]' },
+            qr_factorization: { Q: '[matrix 2x2]', R: '[matrix 2x2]' },
+            stats: ['trace'],
+        });
+    });
+
+    it('should write one JSON line per entry with the bindings and honour the level', () => {
+        const logger = new Logger({ component: 'Test' });
+        logger.debug('hidden');
+        logger.info('visible', { count: 2 });
+        logger.setLevel('warn');
+        logger.child({ extra: true }).info('hidden too');
+        logger.warn('warned');
+
+        expect(entries(logSpy)).toEqual([expect.objectContaining({ level: 'info', message: 'visible', component: 'Test', count: 2 })]);
+        expect(entries(warnSpy)).toEqual([expect.objectContaining({ level: 'warn', message: 'warned', component: 'Test' })]);
+        expect(entries(logSpy)[0].timestamp).toEqual(expect.any(String));
+    });
+
+    it('should add the request context to every entry logged during the request', async () => {
+        const logger = new Logger();
+
+        await runWithRequestContext({ requestId: 'req-1', method: 'POST', path: '/api/matrix/process-matrix' }, async () => {
+            await Promise.resolve();
+            bindRequestContext({ userId: 'user-1' });
+            logger.info('inside');
+        });
+        logger.info('outside');
+
+        const [inside, outside] = entries(logSpy);
+        expect(inside).toMatchObject({ requestId: 'req-1', userId: 'user-1', method: 'POST', path: '/api/matrix/process-matrix' });
+        expect(outside).not.toHaveProperty('requestId');
+    });
+
+    describe('request logging middleware', () => {
+        const run = (headers: Record<string, string>) => {
+            const res = Object.assign(new EventEmitter(), { statusCode: 200, setHeader: jest.fn() }) as unknown as Response & EventEmitter;
+            const req = {
+                method: 'POST',
+                originalUrl: '/api/matrix/process-matrix?stats=all',
+                baseUrl: '/api/matrix',
+                route: { path: '/process-matrix' },
+                get: (name: string) => headers[name.toLowerCase()],
+            } as unknown as Request;
+            const next: NextFunction = jest.fn();
+
+            createRequestLoggingMiddleware(new Logger())(req, res, next);
+            return { req, res, next };
+        };
+
+        it('should accept a valid X-Request-ID, echo it and log the completed request', () => {
+            const { req, res, next } = run({ 'x-request-id': 'trace-123' });
+            req.user = { id: 'user-1', username: 'alice', roles: ['user'] };
+            res.emit('finish');
+
+            expect(next).toHaveBeenCalled();
+            expect(res.setHeader).toHaveBeenCalledWith('X-Request-ID', 'trace-123');
+            expect(entries(logSpy)).toEqual([expect.objectContaining({
+                message: 'Request completed',
+                requestId: 'trace-123',
+                method: 'POST',
+                path: '/api/matrix/process-matrix',
+                route: '/api/matrix/process-matrix',
+                status: 200,
+                userId: 'user-1',
+                latencyMs: expect.any(Number),
+            })]);
+        });
+
+        it('should generate a request id when the header is missing or invalid', () => {
+            const { req } = run({ 'x-request-id': 'bad id with spaces' });
+
+            expect(req.requestId).toMatch(/^[0-9a-f-]{36}$/);
+        });
+    });
+});
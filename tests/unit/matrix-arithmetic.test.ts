@@ -0,0 +1,106 @@
+// tests/unit/matrix-arithmetic.test.ts
+
+import { MatrixArithmeticRequest, MatrixLimits } from '@domain/entities/matrix';
+import { NextFunction, Request, Response } from 'express';
+
+import { ApplyMatrixArithmeticUseCase } from '@application/use-cases/matrix/apply-matrix-arithmetic.usecase';
+import { MatrixArithmeticController } from '@interfaces/http/controllers/matrix-arithmetic.controller';
+
+describe('ApplyMatrixArithmeticUseCase (Unit Test)', () => {
+    const useCase = new ApplyMatrixArithmeticUseCase();
+    const apply = (request: MatrixArithmeticRequest) => useCase.execute(request).result;
+
+    it('should add, subtract and scale element-wise', () => {
+        expect(apply({ operation: 'add', a: [[1, 2], [3, 4]], b: [[10, 20], [30, 40]] })).toEqual([[11, 22], [33, 44]]);
+        expect(apply({ operation: 'subtract', a: [[1, 2], [3, 4]], b: [[1, 1], [1, 1]] })).toEqual([[0, 1], [2, 3]]);
+        expect(apply({ operation: 'scalarMultiply', matrix: [[1, -2, 3]], scalar: -2 })).toEqual([[-2, 4, -6]]);
+    });
+
+    it('should multiply, transpose and compute the Kronecker product', () => {
+        expect(apply({ operation: 'multiply', a: [[1, 2, 3], [4, 5, 6]], b: [[1, 0], [0, 1], [1, 1]] })).toEqual([[4, 5], [10, 11]]);
+        expect(apply({ operation: 'transpose', matrix: [[1, 2, 3]] })).toEqual([[1], [2], [3]]);
+        expect(apply({ operation: 'kronecker', a: [[1, 2]], b: [[0, 1], [1, 0]] })).toEqual([[0, 1, 0, 2], [1, 0, 2, 0]]);
+    });
+
+    it('should invert a square matrix and raise it to integer powers', () => {
+        const inverse = apply({ operation: 'inverse', matrix: [[4, 7], [2, 6]] });
+        [[0.6, -0.7], [-0.2, 0.4]].forEach((row, i) => row.forEach((value, j) => expect(inverse[i][j]).toBeCloseTo(value, 12)));
+
+        expect(apply({ operation: 'power', matrix: [[1, 1], [1, 0]], exponent: 10 })).toEqual([[89, 55], [55, 34]]);
+        expect(apply({ operation: 'power', matrix: [[2, 5], [1, 3]], exponent: 0 })).toEqual([[1, 0], [0, 1]]);
+        const inverseSquared = apply({ operation: 'power', matrix: [[2, 0], [0, 4]], exponent: -2 });
+        expect(inverseSquared[0][0]).toBeCloseTo(0.25, 12);
+        expect(inverseSquared[1][1]).toBeCloseTo(0.0625, 12);
+    });
+
+    it.each<[string, MatrixArithmeticRequest, string]>([
+        ['adding matrices of different dimensions', { operation: 'add', a: [[1, 2]], b: [[1], [2]] }, 'Addition requires matrices of the same dimensions; a is 1x2 and b is 2x1'],
+        ['multiplying incompatible matrices', { operation: 'multiply', a: [[1, 2]], b: [[1, 2]] }, 'the columns of a to match the rows of b; a is 1x2 and b is 1x2'],
+        ['inverting a rectangular matrix', { operation: 'inverse', matrix: [[1, 2, 3]] }, 'Matrix inverse requires a square matrix; the matrix is 1x3'],
+        ['inverting a singular matrix', { operation: 'inverse', matrix: [[1, 2], [2, 4]] }, 'singular'],
+        ['a negative power of a singular matrix', { operation: 'power', matrix: [[0, 0], [0, 0]], exponent: -1 }, 'singular'],
+        ['a power of a rectangular matrix', { operation: 'power', matrix: [[1, 2]], exponent: 2 }, 'Matrix power requires a square matrix'],
+        ['a non-rectangular operand', { operation: 'subtract', a: [[1, 2], [3]], b: [[1, 2], [3, 4]] }, 'must be rectangular'],
+        ['an overflowing result', { operation: 'power', matrix: [[1e200]], exponent: 2 }, 'overflow'],
+    ])('should reject %s with INVALID_MATRIX', (_label, request, details) => {
+        expect(() => useCase.execute(request)).toThrow(expect.objectContaining({
+            statusCode: 400,
+            errorCode: 'INVALID_MATRIX',
+            details: expect.stringContaining(details),
+        }));
+    });
+
+    it('should reject a non-integer exponent and a Kronecker product larger than the limits', () => {
+        expect(() => useCase.execute({ operation: 'power', matrix: [[1]], exponent: 1.5 }))
+            .toThrow(expect.objectContaining({ errorCode: 'BAD_REQUEST' }));
+
+        const limits: MatrixLimits = { maxDimension: 10, maxElements: 50, maxComputeDimension: 10 };
+        const square = Array.from({ length: 4 }, () => [1, 2, 3, 4]);
+        expect(() => useCase.execute({ operation: 'kronecker', a: square, b: square, limits }))
+            .toThrow(expect.objectContaining({ statusCode: 413, details: expect.stringContaining('16x16') }));
+    });
+
+    it('should cap the dimensions of multiply, inverse and power separately from the size limits', () => {
+        const limits: MatrixLimits = { maxDimension: 10, maxElements: 100, maxComputeDimension: 3 };
+        const square = Array.from({ length: 4 }, (_, i) => Array.from({ length: 4 }, (_, j) => (i === j ? 2 : 0)));
+        const tooLarge = expect.objectContaining({ statusCode: 413, errorCode: 'MATRIX_TOO_LARGE', details: expect.stringContaining('compute-heavy') });
+
+        expect(() => useCase.execute({ operation: 'multiply', a: [[1, 2, 3, 4]], b: square, limits })).toThrow(tooLarge);
+        expect(() => useCase.execute({ operation: 'inverse', matrix: square, limits })).toThrow(tooLarge);
+        expect(() => useCase.execute({ operation: 'power', matrix: square, exponent: 2, limits })).toThrow(tooLarge);
+        // Operations with a lower cost only depend on the size limits
+        expect(useCase.execute({ operation: 'add', a: square, b: square, limits }).result[0][0]).toBe(4);
+        expect(useCase.execute({ operation: 'multiply', a: [[1, 2, 3]], b: [[1], [1], [1]], limits }).result).toEqual([[6]]);
+    });
+});
+
+describe('MatrixArithmeticController (Unit Test)', () => {
+    const controller = new MatrixArithmeticController(new ApplyMatrixArithmeticUseCase());
+    let res: Partial<Response>;
+    let next: jest.Mock<NextFunction>;
+
+    beforeEach(() => {
+        res = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+        next = jest.fn();
+    });
+
+    it('should respond with the operation and its result', () => {
+        const req = { body: { a: [[1, 2]], b: [[3], [4]] } } as Request;
+        controller.handle('multiply')(req, res as Response, next);
+
+        expect(res.status).toHaveBeenCalledWith(200);
+        expect(res.json).toHaveBeenCalledWith({
+            message: 'Matrix operation applied successfully.',
+            data: { operation: 'multiply', result: [[11]] },
+        });
+        expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should pass errors to the error-handling middleware', () => {
+        const req = { body: { matrix: [[1, 2]] }, matrixLimits: { maxDimension: 1, maxElements: 1, maxComputeDimension: 1 } } as unknown as Request;
+        controller.handle('transpose')(req, res as Response, next);
+
+        expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 413, errorCode: 'MATRIX_TOO_LARGE' }));
+        expect(res.status).not.toHaveBeenCalled();
+    });
+});
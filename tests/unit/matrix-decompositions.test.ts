@@ -0,0 +1,168 @@
+// tests/unit/matrix-decompositions.test.ts
+
+import { DecompositionName, GoApiResponseData, Matrix, MatrixLimits } from '@domain/entities/matrix';
+import { MatrixDecompositionRegistry, resolveDecompositionSelection } from '@application/services/decompositions/matrix-decomposition.registry';
+import { identity, multiply, transpose } from '@shared/math/linear-algebra';
+
+import { DecomposeMatrixUseCase } from '@application/use-cases/matrix/decompose-matrix.usecase';
+import { LocalMatrixEngine } from '@infrastructure/local-engine/local-matrix.engine';
+import { ProcessMatrixAndGetStatsUseCase } from '@application/use-cases/matrix/process-matrix-and-get-stats.usecase';
+import { eigenvalues } from '@shared/math/eigenvalues';
+
+const expectMatrixClose = (actual: Matrix, expected: Matrix, digits: number = 10) => {
+    expect(actual).toHaveLength(expected.length);
+    actual.forEach((row, i) => row.forEach((value, j) => expect(value).toBeCloseTo(expected[i][j], digits)));
+};
+
+const diagonal = (values: number[]): Matrix => values.map((value, i) => values.map((_, j) => (i === j ? value : 0)));
+
+describe('MatrixDecompositionRegistry (Unit Test)', () => {
+    const registry = new MatrixDecompositionRegistry();
+    const square = [[2, -1, 0], [4, 1, 3], [-2, 5, 7]];
+
+    it('should compute LU with partial pivoting (P·A = L·U)', () => {
+        const { lu } = registry.compute(square, ['lu']);
+
+        expectMatrixClose(multiply(lu!.P, square), multiply(lu!.L, lu!.U));
+        lu!.L.forEach((row, i) => row.forEach((value, j) => expect(j > i ? value : 0).toBe(0)));
+        lu!.U.forEach((row, i) => row.forEach((value, j) => expect(j < i ? value : 0).toBe(0)));
+    });
+
+    it('should compute the Cholesky factor of a symmetric positive definite matrix', () => {
+        const spd = [[4, 12, -16], [12, 37, -43], [-16, -43, 98]];
+        const { cholesky } = registry.compute(spd, ['cholesky']);
+
+        expectMatrixClose(cholesky!.L, [[2, 0, 0], [6, 1, 0], [-8, 5, 3]]);
+    });
+
+    it.each<[string, Matrix]>([
+        ['tall', [[1, 2], [3, 4], [5, 6]]],
+        ['wide', [[1, 2, 3], [4, 5, 6]]],
+        ['rank-deficient', [[1, 1], [1, 1]]],
+    ])('should compute the reduced SVD of a %s matrix', (_label, matrix) => {
+        const { svd } = registry.compute(matrix, ['svd']);
+        const k = Math.min(matrix.length, matrix[0].length);
+
+        expect(svd!.S).toHaveLength(k);
+        expect(svd!.S).toEqual([...svd!.S].sort((a, b) => b - a));
+        expectMatrixClose(multiply(multiply(svd!.U, diagonal(svd!.S)), transpose(svd!.V)), matrix);
+        expectMatrixClose(multiply(transpose(svd!.U), svd!.U), identity(k));
+        expectMatrixClose(multiply(transpose(svd!.V), svd!.V), identity(k));
+    });
+
+    it('should return real eigenvalues and eigenvectors of a symmetric matrix', () => {
+        const symmetric = [[2, 0, 0], [0, 3, 4], [0, 4, 9]];
+        const { eigen } = registry.compute(symmetric, ['eigen']);
+
+        expect(eigen!.real.map(value => Number(value.toFixed(10)))).toEqual([11, 2, 1]);
+        expect(eigen!.imaginary).toEqual([0, 0, 0]);
+        expectMatrixClose(multiply(symmetric, eigen!.vectors!), multiply(eigen!.vectors!, diagonal(eigen!.real)));
+    });
+
+    it('should return complex conjugate eigenvalues of a non-symmetric matrix, without eigenvectors', () => {
+        const { eigen } = registry.compute([[0, -1], [1, 0]], ['eigen']);
+        expect(eigen).toEqual({ real: [0, 0], imaginary: [1, -1], vectors: null });
+
+        const general = registry.compute([[1, 2, 3], [4, 5, 6], [7, 8, 10]], ['eigen']).eigen!;
+        expect(general.real[0]).toBeCloseTo(16.7075, 4);
+        expect(general.real[1]).toBeCloseTo(0.1982, 4);
+        expect(general.real[2]).toBeCloseTo(-0.9057, 4);
+        // The eigenvalues add up to the trace
+        expect(general.real.reduce((sum, value) => sum + value, 0)).toBeCloseTo(16, 10);
+    });
+
+    it('should mix real and complex eigenvalues and report a QR iteration that does not converge', () => {
+        // Companion matrix of (x - 1)(x - 2)(x - 3)(x² + 1)
+        const companion = [[6, -12, 12, -11, 6], [1, 0, 0, 0, 0], [0, 1, 0, 0, 0], [0, 0, 1, 0, 0], [0, 0, 0, 1, 0]];
+        const { real, imaginary } = registry.compute(companion, ['eigen']).eigen!;
+        [3, 2, 1, 0, 0].forEach((value, i) => expect(real[i]).toBeCloseTo(value, 8));
+        [0, 0, 0, 1, -1].forEach((value, i) => expect(imaginary[i]).toBeCloseTo(value, 8));
+
+        expect(() => eigenvalues([[NaN, 1, 0], [1, 2, 1], [0, 1, 3]])).toThrow(expect.objectContaining({
+            statusCode: 400,
+            errorCode: 'INVALID_MATRIX',
+            details: expect.stringContaining('did not converge'),
+        }));
+    });
+
+    it.each<[string, DecompositionName, Matrix, string]>([
+        ['LU of a rectangular matrix', 'lu', [[1, 2, 3], [4, 5, 6]], 'requires a square matrix; the matrix is 2x3'],
+        ['eigenvalues of a rectangular matrix', 'eigen', [[1, 2]], 'requires a square matrix; the matrix is 1x2'],
+        ['Cholesky of a non-symmetric matrix', 'cholesky', [[4, 1], [2, 3]], 'requires a symmetric matrix'],
+        ['Cholesky of an indefinite matrix', 'cholesky', [[1, 2], [2, 1]], 'not positive definite'],
+    ])('should reject the %s with INVALID_MATRIX', (_label, name, matrix, details) => {
+        expect(() => registry.compute(matrix, [name])).toThrow(expect.objectContaining({
+            statusCode: 400,
+            errorCode: 'INVALID_MATRIX',
+            details: expect.stringContaining(details),
+        }));
+    });
+
+    it('should resolve the selection of decompositions', () => {
+        expect(resolveDecompositionSelection(undefined)).toEqual([]);
+        expect(resolveDecompositionSelection(['svd', 'lu', 'svd'])).toEqual(['svd', 'lu']);
+        expect(resolveDecompositionSelection(['all'])).toEqual(['qr', 'lu', 'cholesky', 'svd', 'eigen']);
+        expect(() => resolveDecompositionSelection(['lu', 'schur']))
+            .toThrow(expect.objectContaining({ statusCode: 400, errorCode: 'BAD_REQUEST' }));
+    });
+});
+
+describe('Decompositions in the use cases (Unit Test)', () => {
+    const engine = new LocalMatrixEngine();
+
+    it('should decompose a matrix through the gateway and require at least one decomposition', async () => {
+        const useCase = new DecomposeMatrixUseCase(engine);
+
+        const result = await useCase.execute({ matrix: [[4, 2], [2, 3]], decompositions: ['cholesky', 'qr'] });
+        expect(Object.keys(result).sort()).toEqual(['cholesky', 'qr']);
+        expectMatrixClose(result.cholesky!.L, [[2, 0], [1, Math.SQRT2]]);
+
+        await expect(useCase.execute({ matrix: [[1]], decompositions: [] }))
+            .rejects.toEqual(expect.objectContaining({ statusCode: 400, errorCode: 'BAD_REQUEST' }));
+        await expect(useCase.execute({ matrix: [[1, 2], [3]], decompositions: ['lu'] }))
+            .rejects.toEqual(expect.objectContaining({ statusCode: 400, errorCode: 'INVALID_MATRIX' }));
+    });
+
+    it('should add the requested decompositions to process-matrix, reusing the QR factorization from Go', async () => {
+        const goResult: GoApiResponseData = {
+            original_matrix: [[1, 2], [3, 4]],
+            rotated_matrix: [[3, 1], [4, 2]],
+            qr_factorization: { Q: [[1, 0], [0, 1]], R: [[1, 2], [3, 4]] },
+        };
+        const gateway = {
+            processMatrix: jest.fn().mockResolvedValue(goResult),
+            decompose: jest.fn((matrix: Matrix, decompositions: DecompositionName[]) => engine.decompose(matrix, decompositions)),
+            healthCheck: jest.fn(),
+            close: jest.fn(),
+        };
+        const useCase = new ProcessMatrixAndGetStatsUseCase(gateway);
+
+        const result = await useCase.execute({ matrix: [[1, 2], [3, 4]], decompositions: ['qr', 'lu'] });
+        expect(gateway.decompose).toHaveBeenCalledWith([[1, 2], [3, 4]], ['lu']);
+        expect(result.decompositions?.qr).toBe(goResult.qr_factorization);
+        expect(result.decompositions?.lu?.P).toEqual([[0, 1], [1, 0]]);
+
+        const withoutDecompositions = await useCase.execute({ matrix: [[1, 2], [3, 4]] });
+        expect(withoutDecompositions).not.toHaveProperty('decompositions');
+        await expect(useCase.execute({ matrix: [[1, 2], [3, 4]], decompositions: ['jordan'] }))
+            .rejects.toEqual(expect.objectContaining({ errorCode: 'BAD_REQUEST' }));
+    });
+
+    it('should cap the dimensions of in-process decompositions and heavy statistics separately from the size limits', async () => {
+        const limits: MatrixLimits = { maxDimension: 10, maxElements: 100, maxComputeDimension: 2 };
+        const matrix = diagonal([1, 2, 3]);
+        const tooLarge = expect.objectContaining({ statusCode: 413, errorCode: 'MATRIX_TOO_LARGE', details: expect.stringContaining('compute-heavy') });
+        const processUseCase = new ProcessMatrixAndGetStatsUseCase(engine);
+        const decomposeUseCase = new DecomposeMatrixUseCase(engine);
+
+        await expect(decomposeUseCase.execute({ matrix, decompositions: ['svd'], limits })).rejects.toEqual(tooLarge);
+        await expect(processUseCase.execute({ matrix, decompositions: ['lu'], limits })).rejects.toEqual(tooLarge);
+        expect(() => processUseCase.validateRequest({ matrix, stats: ['all'], limits })).toThrow(tooLarge);
+        expect(() => processUseCase.validateRequest({ matrix, stats: ['rank'], limits })).toThrow(tooLarge);
+
+        // The QR factorization comes from Go, and the other statistics are linear in the number of elements
+        expect(Object.keys(await decomposeUseCase.execute({ matrix, decompositions: ['qr'], limits }))).toEqual(['qr']);
+        const result = await processUseCase.execute({ matrix, stats: ['max', 'trace'], decompositions: ['qr'], limits });
+        expect(result.matrixStatistics.original).toEqual({ max: 3, trace: 6 });
+    });
+});
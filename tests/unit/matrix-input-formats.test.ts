@@ -0,0 +1,134 @@
+// tests/unit/matrix-input-formats.test.ts
+
+import express, { NextFunction, Request, Response } from 'express';
+
+import { AddressInfo } from 'net';
+import { createMatrixBodyParser } from '@interfaces/http/middleware/matrix-body.middleware';
+import { parseCsvMatrix } from '@interfaces/http/formats/csv-matrix.parser';
+import { parseMatrixMarket } from '@interfaces/http/formats/matrix-market.parser';
+import { toErrorResponseBody } from '@domain/errors/app.errors';
+
+describe('parseCsvMatrix (Unit Test)', () => {
+    it('should parse one row per line, ignoring blank lines and the BOM', () => {
+        expect(parseCsvMatrix('\uFEFF1,2.5,-3\r\n4, 5e1 ,"6"\n\n')).toEqual([[1, 2.5, -3], [4, 50, 6]]);
+    });
+
+    it('should honour the delimiter and skip the header', () => {
+        expect(parseCsvMatrix('a;b\n1;2\n3;4\n', { delimiter: ';', hasHeader: true })).toEqual([[1, 2], [3, 4]]);
+        expect(parseCsvMatrix('1\t2\n', { delimiter: '\t', hasHeader: false })).toEqual([[1, 2]]);
+    });
+
+    it('should report the line and column of invalid values', () => {
+        expect(() => parseCsvMatrix('1,2\n3,abc\n')).toThrow(expect.objectContaining({
+            errorCode: 'INVALID_MATRIX',
+            details: 'Line 2, column 2: "abc" is not a finite number.',
+        }));
+        expect(() => parseCsvMatrix('1,,3\n')).toThrow(expect.objectContaining({ details: 'Line 1, column 2: empty value.' }));
+        expect(() => parseCsvMatrix('1,2\n\n3\n')).toThrow(expect.objectContaining({ details: 'Line 3: expected 2 columns, found 1.' }));
+        expect(() => parseCsvMatrix('x,y\n', { delimiter: ',', hasHeader: true })).toThrow(expect.objectContaining({ errorCode: 'INVALID_MATRIX' }));
+    });
+
+    it('should stop reading as soon as the matrix exceeds maxElements', () => {
+        const options = { delimiter: ',', hasHeader: false, maxElements: 4 };
+        expect(parseCsvMatrix('1,2\n3,4\n', options)).toEqual([[1, 2], [3, 4]]);
+        // The invalid value after the limit is never converted
+        expect(() => parseCsvMatrix('1,2\n3,4\n5,x\n', options)).toThrow(expect.objectContaining({
+            statusCode: 413,
+            errorCode: 'MATRIX_TOO_LARGE',
+            details: 'The CSV has more than 4 values; the maximum for your plan is 4.',
+        }));
+    });
+});
+
+describe('parseMatrixMarket (Unit Test)', () => {
+    it('should parse the coordinate format, filling the missing entries with zeros', () => {
+        const text = [
+            '%%MatrixMarket matrix coordinate real general',
+            '% exported from MATLAB',
+            '2 3 2',
+            '1 1 1.5',
+            '2 3 -2',
+        ].join('\n');
+
+        expect(parseMatrixMarket(text)).toEqual([[1.5, 0, 0], [0, 0, -2]]);
+    });
+
+    it('should mirror the lower triangle of symmetric and skew-symmetric matrices', () => {
+        expect(parseMatrixMarket('%%MatrixMarket matrix coordinate integer symmetric\n2 2 2\n1 1 4\n2 1 7\n'))
+            .toEqual([[4, 7], [7, 0]]);
+        expect(parseMatrixMarket('%%MatrixMarket matrix coordinate pattern skew-symmetric\n2 2 1\n2 1\n'))
+            .toEqual([[0, -1], [1, 0]]);
+    });
+
+    it('should parse the array format in column-major order', () => {
+        expect(parseMatrixMarket('%%MatrixMarket matrix array real general\n2 2\n1\n3\n2\n4\n')).toEqual([[1, 2], [3, 4]]);
+        expect(parseMatrixMarket('%%MatrixMarket matrix array real symmetric\n2 2\n1\n2\n3\n')).toEqual([[1, 2], [2, 3]]);
+    });
+
+    it('should report the line and column of errors', () => {
+        expect(() => parseMatrixMarket('%%MatrixMarket matrix coordinate complex general\n1 1 1\n1 1 1 0\n'))
+            .toThrow(expect.objectContaining({ details: expect.stringContaining('Line 1: unsupported field "complex"') }));
+        expect(() => parseMatrixMarket('%%MatrixMarket matrix coordinate real general\n2 2 1\n3 1 5\n'))
+            .toThrow(expect.objectContaining({ details: 'Line 3, column 1: index "3" must be an integer between 1 and 2.' }));
+        expect(() => parseMatrixMarket('%%MatrixMarket matrix array real general\n1 2\n1\nx\n'))
+            .toThrow(expect.objectContaining({ details: 'Line 4, column 1: "x" is not a finite number.' }));
+        expect(() => parseMatrixMarket('%%MatrixMarket matrix coordinate real general\n2 2 2\n1 1 5\n'))
+            .toThrow(expect.objectContaining({ details: 'Line 3: expected 2 entries, found 1.' }));
+        expect(() => parseMatrixMarket('1 2\n3 4\n')).toThrow(expect.objectContaining({ errorCode: 'INVALID_MATRIX' }));
+    });
+
+    it('should refuse a declared size above the limit before allocating it', () => {
+        expect(() => parseMatrixMarket('%%MatrixMarket matrix coordinate real general\n100000 100000 0\n', { maxElements: 10_000 }))
+            .toThrow(expect.objectContaining({ errorCode: 'MATRIX_TOO_LARGE', statusCode: 413 }));
+    });
+});
+
+describe('createMatrixBodyParser (Unit Test)', () => {
+    let server: ReturnType<ReturnType<typeof express>['listen']>;
+    let baseUrl: string;
+
+    beforeAll(async () => {
+        const app = express();
+        app.use(express.json());
+        app.post('/process-matrix', createMatrixBodyParser(), (req: Request, res: Response) => {
+            res.json({ body: req.body ?? null });
+        });
+        app.use((error: any, req: Request, res: Response, next: NextFunction) => {
+            res.status(error.statusCode ?? 500).json(toErrorResponseBody(error));
+        });
+        server = app.listen(0);
+        await new Promise(resolve => server.once('listening', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/process-matrix`;
+    });
+
+    afterAll(async () => {
+        server.closeAllConnections();
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    const post = async (path: string, contentType: string, body: string) => {
+        const response = await fetch(`${baseUrl}${path}`, { method: 'POST', headers: { 'Content-Type': contentType }, body });
+        return { status: response.status, body: await response.json() };
+    };
+
+    it('should leave JSON bodies untouched', async () => {
+        await expect(post('', 'application/json', '{"matrix":[[1]],"stats":["trace"]}'))
+            .resolves.toEqual({ status: 200, body: { body: { matrix: [[1]], stats: ['trace'] } } });
+    });
+
+    it('should convert CSV and Matrix Market bodies into { matrix }', async () => {
+        await expect(post('?delimiter=tab&header=true', 'text/csv; charset=utf-8', 'a\tb\n1\t2\n'))
+            .resolves.toEqual({ status: 200, body: { body: { matrix: [[1, 2]] } } });
+        await expect(post('', 'application/x-matrix-market', '%%MatrixMarket matrix coordinate real general\n1 2 1\n1 2 9\n'))
+            .resolves.toEqual({ status: 200, body: { body: { matrix: [[0, 9]] } } });
+    });
+
+    it('should report parse errors with their position and reject other content types', async () => {
+        await expect(post('', 'text/csv', '1,2\n3,x\n')).resolves.toEqual({
+            status: 400,
+            body: { error: 'INVALID_MATRIX', details: 'Invalid matrix provided.', message: 'Line 2, column 2: "x" is not a finite number.' },
+        });
+        await expect(post('?delimiter=ab', 'text/csv', '1,2\n')).resolves.toMatchObject({ status: 400, body: { error: 'BAD_REQUEST' } });
+        await expect(post('', 'application/xml', '<matrix/>')).resolves.toMatchObject({ status: 415, body: { error: 'UNSUPPORTED_MEDIA_TYPE' } });
+    });
+});
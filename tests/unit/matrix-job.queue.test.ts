@@ -0,0 +1,138 @@
+// tests/unit/matrix-job.queue.test.ts
+
+import { GoApiResponseData, Matrix, MatrixOperation } from '@domain/entities/matrix';
+
+import { GoApiGateway } from '@application/ports/go-api.gateway';
+import { MatrixJobQueue } from '@application/services/matrix-job.queue';
+import { ProcessMatrixAndGetStatsUseCase } from '@application/use-cases/matrix/process-matrix-and-get-stats.usecase';
+
+const goResultFor = (matrix: Matrix): GoApiResponseData => ({
+    original_matrix: matrix,
+    rotated_matrix: matrix,
+    qr_factorization: { Q: [[1]], R: [[1]] },
+});
+
+// Lets pending promise callbacks (job completion, queue pumping) run
+const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+describe('MatrixJobQueue (Unit Test)', () => {
+    let mockGoApiGateway: jest.Mocked<GoApiGateway>;
+    let resolvers: Array<() => void>;
+    let queue: MatrixJobQueue;
+
+    beforeEach(() => {
+        resolvers = [];
+        mockGoApiGateway = {
+            processMatrix: jest.fn((matrix: Matrix, operation: MatrixOperation) => new Promise<GoApiResponseData>(resolve => {
+                resolvers.push(() => resolve(goResultFor(matrix)));
+            })),
+            decompose: jest.fn(),
+            healthCheck: jest.fn(),
+            close: jest.fn(),
+        };
+        queue = new MatrixJobQueue(new ProcessMatrixAndGetStatsUseCase(mockGoApiGateway), {
+            concurrency: 2,
+            maxQueueDepth: 2,
+            retentionMs: 60_000,
+        });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should run at most `concurrency` jobs at a time and complete them in order', async () => {
+        const jobs = [1, 2, 3].map(value => queue.submit('alice', { matrix: [[value]] }));
+        await flushPromises();
+
+        expect(jobs.map(job => job.status)).toEqual(['running', 'running', 'queued']);
+        expect(queue.getStats()).toEqual({ queued: 1, running: 2, retained: 3 });
+        expect(queue.get(jobs[2].id, 'alice').status).toBe('queued');
+
+        resolvers.shift()!();
+        await flushPromises();
+
+        const finished = queue.get(jobs[0].id, 'alice');
+        expect(finished.status).toBe('succeeded');
+        expect(finished.result?.originalMatrix).toEqual([[1]]);
+        expect(queue.get(jobs[2].id, 'alice').status).toBe('running');
+    });
+
+    it('should reject new jobs with QUEUE_FULL once the maximum queue depth is reached', () => {
+        for (let i = 0; i < 4; i++) {
+            queue.submit('alice', { matrix: [[i]] }); // 2 running + 2 queued
+        }
+
+        expect(() => queue.submit('alice', { matrix: [[9]] })).toThrow(expect.objectContaining({ errorCode: 'QUEUE_FULL', statusCode: 503 }));
+    });
+
+    it('should validate the request before enqueuing it', () => {
+        expect(() => queue.submit('alice', { matrix: [[1, 2], [3]] })).toThrow(expect.objectContaining({ errorCode: 'INVALID_MATRIX' }));
+        expect(() => queue.submit('alice', { matrix: [[1, 2, 3]], limits: { maxDimension: 2, maxElements: 100, maxComputeDimension: 2 } }))
+            .toThrow(expect.objectContaining({ errorCode: 'MATRIX_TOO_LARGE', statusCode: 413 }));
+        expect(queue.getStats()).toEqual({ queued: 0, running: 0, retained: 0 });
+    });
+
+    it('should hide jobs from users who do not own them', () => {
+        const job = queue.submit('alice', { matrix: [[1]] });
+
+        expect(() => queue.get(job.id, 'mallory')).toThrow(expect.objectContaining({ statusCode: 404 }));
+        expect(() => queue.cancel(job.id, 'mallory')).toThrow(expect.objectContaining({ statusCode: 404 }));
+    });
+
+    it('should record failures with the same shape as HTTP error responses', async () => {
+        // Go rechaza la matriz (las matrices mal formadas ya se rechazan en submit)
+        mockGoApiGateway.processMatrix.mockRejectedValueOnce({
+            message: 'Request failed with status code 400',
+            response: { status: 400, data: { error: 'dimensiones_de_matriz_invalidas', details: 'Invalid dimensions.' } },
+        });
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        const job = queue.submit('alice', { matrix: [[1, 2], [3, 4]] });
+        await flushPromises();
+
+        expect(queue.get(job.id, 'alice')).toEqual(expect.objectContaining({
+            status: 'failed',
+            error: expect.objectContaining({ error: 'INVALID_MATRIX' }),
+        }));
+    });
+
+    it('should cancel queued and running jobs and refuse to cancel finished ones', async () => {
+        const running = queue.submit('alice', { matrix: [[1]] });
+        queue.submit('alice', { matrix: [[2]] });
+        const queued = queue.submit('alice', { matrix: [[3]] });
+
+        expect(queue.cancel(queued.id, 'alice').status).toBe('cancelled');
+        expect(queue.cancel(running.id, 'alice').status).toBe('cancelled');
+
+        resolvers.forEach(resolve => resolve());
+        await flushPromises();
+
+        // The running job's late result is discarded
+        expect(queue.get(running.id, 'alice').status).toBe('cancelled');
+        expect(queue.get(running.id, 'alice').result).toBeUndefined();
+        expect(mockGoApiGateway.processMatrix).toHaveBeenCalledTimes(2);
+        expect(() => queue.cancel(running.id, 'alice')).toThrow(expect.objectContaining({ errorCode: 'CONFLICT' }));
+    });
+
+    it('should finish the queued and running jobs when drained, rejecting new ones', async () => {
+        const jobs = [1, 2, 3].map(value => queue.submit('alice', { matrix: [[value]] }));
+        let drained = false;
+        queue.drain().then(() => { drained = true; });
+
+        expect(() => queue.submit('alice', { matrix: [[4]] })).toThrow(expect.objectContaining({ errorCode: 'SHUTTING_DOWN', statusCode: 503 }));
+
+        resolvers.splice(0).forEach(resolve => resolve());
+        await flushPromises();
+        expect(drained).toBe(false); // The third job is now running
+
+        resolvers.splice(0).forEach(resolve => resolve());
+        await flushPromises();
+        expect(drained).toBe(true);
+        expect(jobs.map(job => queue.get(job.id, 'alice').status)).toEqual(['succeeded', 'succeeded', 'succeeded']);
+    });
+
+    it('should drain immediately when there is no pending work', async () => {
+        await expect(queue.drain()).resolves.toBeUndefined();
+    });
+});
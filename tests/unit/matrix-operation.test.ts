@@ -0,0 +1,30 @@
+// tests/unit/matrix-operation.test.ts
+
+import { DEFAULT_MATRIX_OPERATION, resolveMatrixOperation } from '@application/services/matrix-operation';
+
+describe('resolveMatrixOperation (Unit Test)', () => {
+    it('should default to a 90-degree clockwise rotation', () => {
+        expect(resolveMatrixOperation(undefined)).toEqual(DEFAULT_MATRIX_OPERATION);
+        expect(resolveMatrixOperation({ type: 'rotate' })).toEqual({ type: 'rotate', degrees: 90, direction: 'clockwise' });
+        expect(resolveMatrixOperation({ type: 'rotate', degrees: 270 })).toEqual({ type: 'rotate', degrees: 270, direction: 'clockwise' });
+    });
+
+    it('should accept the shorthand form', () => {
+        expect(resolveMatrixOperation('rotate:180:counterclockwise')).toEqual({ type: 'rotate', degrees: 180, direction: 'counterclockwise' });
+        expect(resolveMatrixOperation(' transpose ')).toEqual({ type: 'transpose' });
+        expect(resolveMatrixOperation('flip:vertical')).toEqual({ type: 'flip', axis: 'vertical' });
+    });
+
+    it.each([
+        ['an unknown type', { type: 'shear' }],
+        ['an unsupported angle', { type: 'rotate', degrees: 45 }],
+        ['an unknown direction', 'rotate:90:left'],
+        ['a flip without axis', { type: 'flip' }],
+        ['a parameter of another type', { type: 'transpose', axis: 'horizontal' }],
+        ['too many shorthand parts', 'flip:vertical:twice'],
+        ['a value that is not a descriptor', [1, 2]],
+    ])('should reject %s with 400', (_, raw) => {
+        expect(() => resolveMatrixOperation(raw))
+            .toThrow(expect.objectContaining({ statusCode: 400, errorCode: 'BAD_REQUEST' }));
+    });
+});
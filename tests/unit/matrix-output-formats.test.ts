@@ -0,0 +1,126 @@
+// tests/unit/matrix-output-formats.test.ts
+
+import { toCsv, toLatexBmatrix, toMatrixMarket, toNpy } from '@interfaces/http/formats/matrix.serializers';
+
+import { ProcessedMatrixResult } from '@domain/entities/matrix';
+import { Request } from 'express';
+import { ResultFormatterRegistry } from '@interfaces/http/formats/result-formatter.registry';
+import { crc32 } from '@shared/archive/zip';
+import { inflateRawSync } from 'zlib';
+import { parseCsvMatrix } from '@interfaces/http/formats/csv-matrix.parser';
+import { parseMatrixMarket } from '@interfaces/http/formats/matrix-market.parser';
+
+const result = {
+    originalMatrix: [[1, 2], [3, 4]],
+    rotatedMatrix: [[3, 1], [4, 2]],
+    qrFactorization: { Q: [[0.6, -0.8], [0.8, 0.6]], R: [[5, 2.2], [0, -0.4]] },
+} as ProcessedMatrixResult;
+
+// Minimal request for the negotiation: `accepts` mimics Express for an exact Accept type or a wildcard
+const requestWith = (query: Record<string, string>, accept?: string) => ({
+    query,
+    headers: accept ? { accept } : {},
+    accepts: (types: string[]) => (accept === '*/*' ? types[0] : types.find(type => type === accept) ?? false),
+}) as unknown as Request;
+
+describe('Matrix serializers (Unit Test)', () => {
+    it('should write CSV and Matrix Market that the input parsers read back', () => {
+        const matrix = [[1.5, -2], [0.1, 1e-17], [3, 4]];
+
+        expect(toCsv(matrix)).toBe('1.5,-2\n0.1,1e-17\n3,4\n');
+        expect(parseCsvMatrix(toCsv(matrix))).toEqual(matrix);
+        expect(toMatrixMarket(matrix, 'rotated matrix')).toBe(
+            '%%MatrixMarket matrix array real general\n% rotated matrix\n3 2\n1.5\n0.1\n3\n-2\n1e-17\n4\n'
+        );
+        expect(parseMatrixMarket(toMatrixMarket(matrix))).toEqual(matrix);
+    });
+
+    it('should write a NumPy .npy v1.0 file with a 64-byte aligned header and float64 data', () => {
+        const npy = toNpy([[1, 2, 3], [4, 5, 6.5]]);
+        const headerLength = npy.readUInt16LE(8);
+        const header = npy.toString('latin1', 10, 10 + headerLength);
+
+        expect(npy.subarray(0, 8)).toEqual(Buffer.from([0x93, 0x4E, 0x55, 0x4D, 0x50, 0x59, 1, 0]));
+        expect((10 + headerLength) % 64).toBe(0);
+        expect(header.startsWith("{'descr': '<f8', 'fortran_order': False, 'shape': (2, 3), }")).toBe(true);
+        expect(header.endsWith('\n')).toBe(true);
+        expect(npy.length).toBe(10 + headerLength + 6 * 8);
+        expect(npy.readDoubleLE(10 + headerLength + 5 * 8)).toBe(6.5);
+    });
+
+    it('should render a LaTeX bmatrix, with exponents as powers of ten', () => {
+        expect(toLatexBmatrix([[1, -2], [2.5e-17, 4]])).toBe(
+            '\\begin{bmatrix}\n    1 & -2 \\\\\n    2.5 \\times 10^{-17} & 4\n\\end{bmatrix}'
+        );
+    });
+});
+
+describe('ResultFormatterRegistry (Unit Test)', () => {
+    const registry = new ResultFormatterRegistry();
+
+    it('should default to JSON and negotiate with the Accept header', () => {
+        expect(registry.negotiate(requestWith({})).formatter.name).toBe('json');
+        expect(registry.negotiate(requestWith({}, '*/*')).formatter.name).toBe('json');
+        expect(registry.negotiate(requestWith({}, 'application/x-npy'))).toMatchObject({ formatter: { name: 'npy' }, matrices: ['rotated'] });
+        expect(registry.negotiate(requestWith({}, 'text/csv')).matrices).toEqual(['original', 'rotated', 'q', 'r']);
+    });
+
+    it('should give the format query parameter precedence and honour the matrix selection', () => {
+        expect(registry.negotiate(requestWith({ format: 'latex', matrix: 'q' }, 'application/json')))
+            .toMatchObject({ formatter: { name: 'latex' }, matrices: ['q'] });
+    });
+
+    it('should reject unknown formats with 406 and unknown matrices with 400', () => {
+        expect(() => registry.negotiate(requestWith({ format: 'xlsx' })))
+            .toThrow(expect.objectContaining({ statusCode: 406, errorCode: 'NOT_ACCEPTABLE' }));
+        expect(() => registry.negotiate(requestWith({}, 'application/xml')))
+            .toThrow(expect.objectContaining({ statusCode: 406, errorCode: 'NOT_ACCEPTABLE' }));
+        expect(() => registry.negotiate(requestWith({ format: 'csv', matrix: 'l' })))
+            .toThrow(expect.objectContaining({ statusCode: 400, errorCode: 'BAD_REQUEST' }));
+    });
+
+    it('should accept additional formatters', () => {
+        const custom = new ResultFormatterRegistry([]);
+        custom.register({ name: 'tsv', contentType: 'text/tab-separated-values', description: 'TSV.', format: r => toCsv(r.rotatedMatrix, '\t') });
+
+        const { formatter, matrices } = custom.negotiate(requestWith({}, 'text/tab-separated-values'));
+        expect(formatter.format(result, matrices)).toBe('3\t1\n4\t2\n');
+    });
+
+    it('should render the built-in formats of a result', () => {
+        const format = (name: string, query: Record<string, string> = {}) => {
+            const { formatter, matrices } = registry.negotiate(requestWith({ format: name, ...query }));
+            return formatter.format(result, matrices);
+        };
+
+        expect(JSON.parse(format('json') as string)).toEqual({ message: expect.any(String), data: result });
+        expect(format('csv')).toBe('# original\n1,2\n3,4\n\n# rotated\n3,1\n4,2\n\n# q\n0.6,-0.8\n0.8,0.6\n\n# r\n5,2.2\n0,-0.4\n');
+        expect(format('mtx', { matrix: 'r' })).toBe('%%MatrixMarket matrix array real general\n% r matrix\n2 2\n5\n0\n2.2\n-0.4\n');
+        expect(format('latex', { matrix: 'rotated' })).toBe('A_{\\mathrm{rot}} = \\begin{bmatrix}\n    3 & 1 \\\\\n    4 & 2\n\\end{bmatrix}\n');
+    });
+
+    it('should bundle one CSV per matrix in a valid zip archive', () => {
+        const { formatter, matrices } = registry.negotiate(requestWith({ format: 'zip' }));
+        const zip = formatter.format(result, matrices) as Buffer;
+
+        // Walk the central directory from the end-of-central-directory record
+        const end = zip.length - 22;
+        expect(zip.readUInt32LE(end)).toBe(0x06054B50);
+        expect(zip.readUInt16LE(end + 10)).toBe(4);
+        let position = zip.readUInt32LE(end + 16);
+        const files: Record<string, string> = {};
+        for (let i = 0; i < 4; i++) {
+            const nameLength = zip.readUInt16LE(position + 28);
+            const name = zip.toString('utf8', position + 46, position + 46 + nameLength);
+            const local = zip.readUInt32LE(position + 42);
+            const dataStart = local + 30 + zip.readUInt16LE(local + 26);
+            const content = inflateRawSync(zip.subarray(dataStart, dataStart + zip.readUInt32LE(position + 20)));
+            expect(crc32(content)).toBe(zip.readUInt32LE(position + 16));
+            files[name] = content.toString('utf8');
+            position += 46 + nameLength;
+        }
+
+        expect(files).toEqual({ 'original.csv': '1,2\n3,4\n', 'rotated.csv': '3,1\n4,2\n', 'q.csv': '0.6,-0.8\n0.8,0.6\n', 'r.csv': '5,2.2\n0,-0.4\n' });
+        expect(crc32(Buffer.from('123456789'))).toBe(0xCBF43926);
+    });
+});
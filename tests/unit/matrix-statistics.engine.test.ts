@@ -0,0 +1,152 @@
+// tests/unit/matrix-statistics.engine.test.ts
+
+import { DEFAULT_STATISTICS_SELECTION, MatrixStatisticsEngine } from '@application/services/statistics/matrix-statistics.engine';
+import { GoApiResponseData, Matrix, MatrixOperation } from '@domain/entities/matrix';
+
+import { GoApiGateway } from '@application/ports/go-api.gateway';
+import { LocalMatrixEngine } from '@infrastructure/local-engine/local-matrix.engine';
+import { ProcessMatrixAndGetStatsUseCase } from '@application/use-cases/matrix/process-matrix-and-get-stats.usecase';
+import { symmetricEigen } from '@shared/math/symmetric-eigen';
+
+describe('MatrixStatisticsEngine (Unit Test)', () => {
+    const engine = new MatrixStatisticsEngine();
+
+    it('should compute descriptive statistics over all elements', () => {
+        const report = engine.compute([[1, 2], [3, 10]], ['max', 'min', 'sum', 'average', 'median', 'variance', 'standardDeviation']);
+
+        expect(report).toEqual({
+            max: 10,
+            min: 1,
+            sum: 16,
+            average: 4,
+            median: 2.5,
+            variance: 12.5,
+            standardDeviation: Math.sqrt(12.5),
+        });
+    });
+
+    it('should compute linear algebra statistics', () => {
+        const matrix: Matrix = [[4, 1], [2, 3]];
+        const report = engine.compute(matrix, ['trace', 'determinant', 'rank', 'frobeniusNorm', 'oneNorm', 'infinityNorm']);
+
+        expect(report.trace).toBe(7);
+        expect(report.determinant).toBeCloseTo(10, 10);
+        expect(report.rank).toBe(2);
+        expect(report.frobeniusNorm).toBeCloseTo(Math.sqrt(30), 10);
+        expect(report.oneNorm).toBe(6);
+        expect(report.infinityNorm).toBe(5);
+    });
+
+    it('should report the condition number, and null for singular matrices', () => {
+        const diagonal = engine.compute([[10, 0], [0, 2]], ['conditionNumber']);
+        expect(diagonal.conditionNumber).toBeCloseTo(5, 8);
+
+        const singular = engine.compute([[1, 2], [2, 4]], ['conditionNumber', 'rank', 'determinant']);
+        expect(singular.conditionNumber).toBeNull();
+        expect(singular.rank).toBe(1);
+        expect(singular.determinant).toBeCloseTo(0, 10);
+    });
+
+    it('should not depend on the scale of the matrix for the condition number and the eigenvalues', () => {
+        const matrix: Matrix = [[2, 1], [1, 3]];
+        const expected = (5 + Math.sqrt(5)) / (5 - Math.sqrt(5));
+
+        for (const factor of [1, 1e-9, 1e-16, 1e9]) {
+            const scaled = matrix.map(row => row.map(value => value * factor));
+            expect(engine.compute(scaled, ['conditionNumber']).conditionNumber).toBeCloseTo(expected, 8);
+        }
+
+        const { values, vectors } = symmetricEigen([[2e-16, 1e-16], [1e-16, 2e-16]]);
+        expect(values[0] / 1e-16).toBeCloseTo(3, 10);
+        expect(values[1] / 1e-16).toBeCloseTo(1, 10);
+        expect(Math.abs(vectors[0][0])).toBeCloseTo(Math.SQRT1_2, 10);
+    });
+
+    it('should detect structural properties within the tolerance', () => {
+        const selection = ['isDiagonal', 'isSymmetric', 'isUpperTriangular', 'isLowerTriangular', 'isIdentity', 'isOrthogonal'];
+
+        expect(engine.compute([[1, 1e-12], [0, 1]], selection)).toEqual({
+            isDiagonal: true, isSymmetric: true, isUpperTriangular: true, isLowerTriangular: true, isIdentity: true, isOrthogonal: true,
+        });
+        expect(engine.compute([[1, 2], [0, 3]], selection)).toEqual({
+            isDiagonal: false, isSymmetric: false, isUpperTriangular: true, isLowerTriangular: false, isIdentity: false, isOrthogonal: false,
+        });
+        expect(engine.compute([[0, -1], [1, 0]], ['isOrthogonal'])).toEqual({ isOrthogonal: true });
+    });
+
+    it('should return null for square-only statistics on rectangular matrices and for empty matrices', () => {
+        expect(engine.compute([[1, 2, 3], [4, 5, 6]], ['trace', 'determinant', 'isDiagonal', 'rank'])).toEqual({
+            trace: null, determinant: null, isDiagonal: false, rank: 2,
+        });
+        expect(engine.compute([], ['max', 'trace'])).toEqual({ max: null, trace: null });
+    });
+
+    it('should resolve the default selection, "all" and reject unknown statistics', () => {
+        expect(engine.resolveSelection(undefined)).toEqual(DEFAULT_STATISTICS_SELECTION);
+        expect(engine.resolveSelection(['all'])).toEqual(engine.listStatistics().map(({ name }) => name));
+        expect(engine.resolveSelection(['median', 'median', 'trace'])).toEqual(['median', 'trace']);
+        expect(() => engine.resolveSelection(['median', 'kurtosis'])).toThrow(
+            expect.objectContaining({ statusCode: 400, errorCode: 'BAD_REQUEST' })
+        );
+    });
+
+    it('should accept custom statistics through register', () => {
+        const custom = new MatrixStatisticsEngine();
+        custom.register({ name: 'elementCount', description: 'Number of elements.', compute: ({ values }) => values.length });
+
+        expect(custom.resolveSelection(['elementCount'])).toEqual(['elementCount']);
+        expect(custom.compute([[1, 2], [3, 4]], ['elementCount'])).toEqual({ elementCount: 4 });
+    });
+
+    it('should keep the legacy pooled summary of the original and rotated matrices', () => {
+        expect(engine.computeSummary([[1, 0], [0, 2]], [[0, 1], [2, 0]])).toEqual({
+            maxValue: 2,
+            minValue: 0,
+            totalSum: 6,
+            average: 0.75,
+            isDiagonalOriginal: true,
+            isDiagonalRotated: false,
+        });
+    });
+});
+
+describe('ProcessMatrixAndGetStatsUseCase with selectable statistics (Unit Test)', () => {
+    const localEngine = new LocalMatrixEngine();
+    let mockGoApiGateway: jest.Mocked<GoApiGateway>;
+    let useCase: ProcessMatrixAndGetStatsUseCase;
+
+    beforeEach(() => {
+        mockGoApiGateway = {
+            processMatrix: jest.fn((matrix: Matrix, operation: MatrixOperation): Promise<GoApiResponseData> => localEngine.processMatrix(matrix, operation)),
+            decompose: jest.fn(),
+            healthCheck: jest.fn(),
+            close: jest.fn(),
+        };
+        useCase = new ProcessMatrixAndGetStatsUseCase(mockGoApiGateway);
+    });
+
+    it('should report the selected statistics for each matrix of the result', async () => {
+        const result = await useCase.execute({ matrix: [[2, 1], [1, 3]], stats: ['trace', 'isSymmetric', 'isOrthogonal', 'isUpperTriangular'] });
+
+        expect(result.matrixStatistics.original).toEqual({ trace: 5, isSymmetric: true, isOrthogonal: false, isUpperTriangular: false });
+        expect(result.matrixStatistics.rotated).toEqual({ trace: 2, isSymmetric: false, isOrthogonal: false, isUpperTriangular: false });
+        expect(result.matrixStatistics.q.isOrthogonal).toBe(true);
+        expect(result.matrixStatistics.r.isUpperTriangular).toBe(true);
+        // El resumen agregado se sigue devolviendo sin cambios
+        expect(result.statistics.totalSum).toBe(14);
+    });
+
+    it('should use the default selection when no statistics are requested', async () => {
+        const result = await useCase.execute({ matrix: [[1, 2], [3, 4]] });
+
+        expect(Object.keys(result.matrixStatistics.original)).toEqual(DEFAULT_STATISTICS_SELECTION);
+    });
+
+    it('should reject unknown statistics before calling the Go API', async () => {
+        await expect(useCase.execute({ matrix: [[1, 2], [3, 4]], stats: ['kurtosis'] })).rejects.toMatchObject({
+            statusCode: 400,
+            errorCode: 'BAD_REQUEST',
+        });
+        expect(mockGoApiGateway.processMatrix).not.toHaveBeenCalled();
+    });
+});
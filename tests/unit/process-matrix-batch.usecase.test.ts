@@ -0,0 +1,81 @@
+// tests/unit/process-matrix-batch.usecase.test.ts
+
+import { GoApiResponseData, Matrix, MatrixOperation } from '@domain/entities/matrix';
+
+import { GoApiGateway } from '@application/ports/go-api.gateway';
+import { ProcessMatrixAndGetStatsUseCase } from '@application/use-cases/matrix/process-matrix-and-get-stats.usecase';
+import { ProcessMatrixBatchUseCase } from '@application/use-cases/matrix/process-matrix-batch.usecase';
+
+describe('ProcessMatrixBatchUseCase (Unit Test)', () => {
+    let mockGoApiGateway: jest.Mocked<GoApiGateway>;
+    let useCase: ProcessMatrixBatchUseCase;
+    let inFlight: number;
+    let maxInFlight: number;
+
+    beforeEach(() => {
+        inFlight = 0;
+        maxInFlight = 0;
+        mockGoApiGateway = {
+            processMatrix: jest.fn(async (matrix: Matrix, operation: MatrixOperation): Promise<GoApiResponseData> => {
+                inFlight++;
+                maxInFlight = Math.max(maxInFlight, inFlight);
+                await new Promise(resolve => setImmediate(resolve));
+                inFlight--;
+                return { original_matrix: matrix, rotated_matrix: matrix, qr_factorization: { Q: [[1]], R: [[1]] } };
+            }),
+            decompose: jest.fn(),
+            healthCheck: jest.fn(),
+            close: jest.fn(),
+        };
+        useCase = new ProcessMatrixBatchUseCase(new ProcessMatrixAndGetStatsUseCase(mockGoApiGateway), {
+            concurrency: 2,
+            maxBatchSize: 10,
+        });
+    });
+
+    it('should return one result per matrix, in input order, with bounded parallelism', async () => {
+        const matrices: Matrix[] = [[[1]], [[2]], [[3]], [[4]], [[5]]];
+
+        const { items } = await useCase.execute({ matrices });
+
+        expect(items.map(item => item.index)).toEqual([0, 1, 2, 3, 4]);
+        expect(items.every(item => item.status === 'succeeded')).toBe(true);
+        expect(items.map(item => item.status === 'succeeded' && item.result.originalMatrix)).toEqual(matrices);
+        expect(maxInFlight).toBe(2);
+    });
+
+    it('should report invalid matrices per item without failing the whole batch', async () => {
+        const matrices = [[[1, 2], [3, 4]], [[1, 2], [3]], [[5]]] as Matrix[];
+
+        const { items, summary } = await useCase.execute({ matrices });
+
+        expect(items[1]).toEqual({
+            index: 1,
+            status: 'failed',
+            error: expect.objectContaining({ error: 'INVALID_MATRIX' }),
+        });
+        expect(items[0].status).toBe('succeeded');
+        expect(items[2].status).toBe('succeeded');
+        expect(mockGoApiGateway.processMatrix).toHaveBeenCalledTimes(2);
+
+        // Aggregate over original + rotated values of the successful items: [1,2,3,4] x2 and [5] x2
+        expect(summary).toEqual({
+            total: 3,
+            succeeded: 2,
+            failed: 1,
+            statistics: { maxValue: 5, minValue: 1, totalSum: 30, average: 3, elementCount: 10 },
+        });
+    });
+
+    it('should omit aggregate statistics when every item fails', async () => {
+        const { summary } = await useCase.execute({ matrices: [[] as number[]] as unknown as Matrix[] });
+
+        expect(summary).toEqual({ total: 1, succeeded: 0, failed: 1 });
+    });
+
+    it('should reject empty or oversized batches', async () => {
+        await expect(useCase.execute({ matrices: [] })).rejects.toHaveProperty('errorCode', 'BAD_REQUEST');
+        await expect(useCase.execute({ matrices: Array.from({ length: 11 }, () => [[1]]) })).rejects.toHaveProperty('errorCode', 'BAD_REQUEST');
+        expect(mockGoApiGateway.processMatrix).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,136 @@
+// tests/unit/prometheus.metrics.test.ts
+
+import { BadRequestError, GoApiError, InvalidMatrixError } from '@domain/errors/app.errors';
+import { createHttpMetricsMiddleware, recordRouteBaseUrl } from '@interfaces/http/middleware/http-metrics.middleware';
+import express, { NextFunction, Request, Response } from 'express';
+
+import { AddressInfo } from 'net';
+import { DEFAULT_MATRIX_OPERATION } from '@application/services/matrix-operation';
+import { EventEmitter } from 'events';
+import { GoApiGateway } from '@application/ports/go-api.gateway';
+import { MetricsGoApiGateway } from '@infrastructure/gateways/metrics.gateway';
+import { PrometheusMetrics } from '@infrastructure/metrics/prometheus.metrics';
+
+describe('PrometheusMetrics (Unit Test)', () => {
+    let metrics: PrometheusMetrics;
+
+    beforeEach(() => {
+        metrics = new PrometheusMetrics({ collectDefaults: false });
+    });
+
+    it('should render HTTP, auth and matrix size metrics in the Prometheus text format', async () => {
+        metrics.observeHttpRequest('POST', '/api/matrix/process-matrix', 200, 0.042);
+        metrics.recordAuthAttempt('password', 'failure');
+        metrics.observeMatrixSize(3, 4);
+
+        const text = await metrics.render();
+
+        expect(metrics.contentType).toContain('text/plain');
+        expect(text).toContain('http_requests_total{method="POST",route="/api/matrix/process-matrix",status="200"} 1');
+        expect(text).toContain('http_request_duration_seconds_bucket{le="0.05",method="POST",route="/api/matrix/process-matrix",status="200"} 1');
+        expect(text).toContain('auth_attempts_total{method="password",outcome="failure"} 1');
+        expect(text).toContain('matrix_dimension_sum{axis="rows"} 3');
+        expect(text).toContain('matrix_elements_sum 12');
+    });
+
+    it('should collect the values of registered component gauges and counters on each scrape', async () => {
+        let queued = 2;
+        let hits = 5;
+        metrics.registerGauge({ name: 'matrix_jobs_queued', help: 'Queued jobs.', collect: () => queued });
+        metrics.registerCounter({ name: 'result_cache_hits_total', help: 'Cache hits.', collect: () => hits });
+
+        expect(await metrics.render()).toContain('matrix_jobs_queued 2');
+        queued = 0;
+        hits = 7;
+        const text = await metrics.render();
+        expect(text).toContain('matrix_jobs_queued 0');
+        expect(text).toContain('result_cache_hits_total 7');
+    });
+
+    it('should time Go API calls and count their errors by error code', async () => {
+        const inner: jest.Mocked<GoApiGateway> = {
+            processMatrix: jest.fn()
+                .mockResolvedValueOnce({ original_matrix: [[1]], rotated_matrix: [[1]], qr_factorization: { Q: [[1]], R: [[1]] } })
+                .mockRejectedValueOnce(new GoApiError('Go API is down', 'NETWORK_ERROR', 503)),
+            decompose: jest.fn(),
+            healthCheck: jest.fn(),
+            close: jest.fn(),
+        };
+        const gateway = new MetricsGoApiGateway(inner, metrics);
+
+        await gateway.processMatrix([[1]], DEFAULT_MATRIX_OPERATION);
+        await expect(gateway.processMatrix([[1]], DEFAULT_MATRIX_OPERATION)).rejects.toMatchObject({ statusCode: 503 });
+
+        const text = await metrics.render();
+        expect(text).toContain('go_api_request_duration_seconds_count{operation="process_matrix",outcome="success"} 1');
+        expect(text).toContain('go_api_request_duration_seconds_count{operation="process_matrix",outcome="error"} 1');
+        expect(text).toContain('go_api_errors_total{operation="process_matrix",error_code="GO_API_ERROR"} 1');
+    });
+
+    it('should time the decompositions computed in Node.js apart from the Go API calls', async () => {
+        const inner: jest.Mocked<GoApiGateway> = {
+            processMatrix: jest.fn(),
+            decompose: jest.fn()
+                .mockResolvedValueOnce({ lu: { L: [[1]], U: [[2]], P: [[1]] } })
+                .mockResolvedValueOnce({ qr: { Q: [[1]], R: [[2]] } })
+                .mockRejectedValueOnce(new InvalidMatrixError('LU decomposition requires a square matrix.')),
+            healthCheck: jest.fn(),
+            close: jest.fn(),
+        };
+        const gateway = new MetricsGoApiGateway(inner, metrics);
+
+        await expect(gateway.decompose([[2]], ['qr', 'lu'])).resolves.toEqual({ lu: { L: [[1]], U: [[2]], P: [[1]] }, qr: { Q: [[1]], R: [[2]] } });
+        expect(inner.decompose).toHaveBeenNthCalledWith(1, [[2]], ['lu']);
+        expect(inner.decompose).toHaveBeenNthCalledWith(2, [[2]], ['qr']);
+        await expect(gateway.decompose([[1, 2]], ['lu'])).rejects.toMatchObject({ errorCode: 'INVALID_MATRIX' });
+
+        const text = await metrics.render();
+        expect(text).toContain('local_computation_duration_seconds_count{operation="decompose",outcome="success"} 1');
+        expect(text).toContain('local_computation_duration_seconds_count{operation="decompose",outcome="error"} 1');
+        expect(text).toContain('go_api_request_duration_seconds_count{operation="decompose",outcome="success"} 1');
+        // A local precondition failure is not a Go API error
+        expect(text).not.toContain('go_api_errors_total{operation="decompose"');
+        expect(text).not.toContain('go_api_request_duration_seconds_count{operation="decompose",outcome="error"}');
+    });
+
+    it('should label HTTP requests by route template, grouping unmatched requests', async () => {
+        const middleware = createHttpMetricsMiddleware(metrics);
+        const finish = (req: Partial<Request>, statusCode: number) => {
+            const res = Object.assign(new EventEmitter(), { statusCode }) as unknown as Response & EventEmitter;
+            middleware({ method: 'GET', baseUrl: '', ...req } as Request, res, jest.fn());
+            res.emit('finish');
+        };
+
+        finish({ baseUrl: '/api/matrix', route: { path: '/jobs/:id' } }, 200);
+        finish({ baseUrl: '/api/matrix', route: { path: '/jobs/:id' } }, 404);
+        finish({}, 404);
+
+        const text = await metrics.render();
+        expect(text).toContain('http_requests_total{method="GET",route="/api/matrix/jobs/:id",status="200"} 1');
+        expect(text).toContain('http_requests_total{method="GET",route="/api/matrix/jobs/:id",status="404"} 1');
+        expect(text).toContain('http_requests_total{method="GET",route="unmatched",status="404"} 1');
+    });
+
+    it('should label requests that fail through next(error) with the full route template', async () => {
+        const app = express();
+        app.use(createHttpMetricsMiddleware(metrics));
+        const router = express.Router();
+        router.post('/fail', (req, res, next) => next(new BadRequestError('Invalid.')));
+        router.post('/ok', (req, res) => { res.json({}); });
+        app.use('/api/things', recordRouteBaseUrl, router);
+        app.use((error: BadRequestError, req: Request, res: Response, next: NextFunction) => { res.status(error.statusCode).json({}); });
+        const server = app.listen(0);
+        await new Promise(resolve => server.once('listening', resolve));
+        const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+        await (await fetch(`${baseUrl}/api/things/fail`, { method: 'POST' })).json();
+        await (await fetch(`${baseUrl}/api/things/ok`, { method: 'POST' })).json();
+        server.closeAllConnections();
+        await new Promise(resolve => server.close(resolve));
+
+        const text = await metrics.render();
+        expect(text).toContain('http_requests_total{method="POST",route="/api/things/fail",status="400"} 1');
+        expect(text).toContain('http_requests_total{method="POST",route="/api/things/ok",status="200"} 1');
+        expect(text).not.toContain('route="/fail"');
+    });
+});
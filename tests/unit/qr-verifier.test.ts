@@ -0,0 +1,140 @@
+// tests/unit/qr-verifier.test.ts
+
+import { GoApiResponseData, Matrix } from '@domain/entities/matrix';
+
+import { GoApiGateway } from '@application/ports/go-api.gateway';
+import { MatrixStatisticsEngine } from '@application/services/statistics/matrix-statistics.engine';
+import { ProcessMatrixAndGetStatsUseCase } from '@application/use-cases/matrix/process-matrix-and-get-stats.usecase';
+import { QRVerifier } from '@application/services/qr-verifier';
+import { householderQR } from '@shared/math/householder-qr';
+
+describe('QRVerifier (Unit Test)', () => {
+    const verifier = new QRVerifier({ tolerance: 1e-9, mode: 'flag' });
+    const matrix: Matrix = [[1, 2], [3, 4], [5, 6]];
+
+    it('should pass a correct full QR factorization and report small residuals', () => {
+        const report = verifier.verify(matrix, householderQR(matrix));
+
+        expect(report.passed).toBe(true);
+        expect(report.failures).toEqual([]);
+        expect(report.residuals.orthogonality).toBeLessThan(1e-12);
+        expect(report.residuals.triangularity).toBeLessThan(1e-12);
+        expect(report.residuals.reconstruction).toBeLessThan(1e-12);
+    });
+
+    it('should accept a reduced factorization (Q of m x n)', () => {
+        const { Q, R } = householderQR(matrix);
+        const reduced = { Q: Q.map(row => row.slice(0, 2)), R: R.slice(0, 2) };
+
+        expect(verifier.verify(matrix, reduced).passed).toBe(true);
+    });
+
+    it('should flag a Q that is not orthogonal', () => {
+        const { Q, R } = householderQR(matrix);
+        const scaled = Q.map(row => row.map(value => value * 2));
+
+        const report = verifier.verify(matrix, { Q: scaled, R });
+        expect(report.passed).toBe(false);
+        expect(report.failures).toEqual(['orthogonality', 'reconstruction']);
+    });
+
+    it('should flag an R that is not upper triangular', () => {
+        const { Q, R } = householderQR(matrix);
+        const broken = R.map(row => row.slice());
+        broken[1][0] = 0.5;
+
+        expect(verifier.verify(matrix, { Q, R: broken }).failures).toEqual(['triangularity', 'reconstruction']);
+    });
+
+    it('should flag factors whose product does not reconstruct the original matrix', () => {
+        const report = verifier.verify([[1, 2], [3, 4]], householderQR([[1, 2], [3, 5]]));
+
+        expect(report.failures).toEqual(['reconstruction']);
+        expect(report.residuals.reconstruction).toBeGreaterThan(1e-3);
+    });
+
+    it('should fail with null residuals when the dimensions are incompatible', () => {
+        expect(verifier.verify(matrix, { Q: [[1, 0], [0, 1]], R: [[1, 2], [0, 3]] })).toEqual({
+            passed: false,
+            tolerance: 1e-9,
+            residuals: { orthogonality: null, triangularity: null, reconstruction: null },
+            failures: ['dimensions'],
+        });
+    });
+});
+
+describe('ProcessMatrixAndGetStatsUseCase with QR verification (Unit Test)', () => {
+    const matrix: Matrix = [[1, 2], [3, 4]];
+    const brokenResponse: GoApiResponseData = {
+        original_matrix: matrix,
+        rotated_matrix: [[3, 1], [4, 2]],
+        qr_factorization: { Q: [[1, 0], [0, 1]], R: [[1, 2], [0, 4]] },
+    };
+    let mockGoApiGateway: jest.Mocked<GoApiGateway>;
+
+    beforeEach(() => {
+        mockGoApiGateway = { processMatrix: jest.fn().mockResolvedValue(brokenResponse), decompose: jest.fn(), healthCheck: jest.fn(), close: jest.fn() };
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should reject a failing factorization in reject mode', async () => {
+        const useCase = new ProcessMatrixAndGetStatsUseCase(
+            mockGoApiGateway, new MatrixStatisticsEngine(), new QRVerifier({ tolerance: 1e-6, mode: 'reject' })
+        );
+
+        await expect(useCase.execute({ matrix })).rejects.toMatchObject({
+            statusCode: 502,
+            errorCode: 'QR_VERIFICATION_FAILED',
+        });
+    });
+
+    it('should return the result with the failed report in flag mode', async () => {
+        const useCase = new ProcessMatrixAndGetStatsUseCase(
+            mockGoApiGateway, new MatrixStatisticsEngine(), new QRVerifier({ tolerance: 1e-6, mode: 'flag' })
+        );
+
+        const result = await useCase.execute({ matrix });
+        expect(result.qrVerification).toMatchObject({ passed: false, failures: ['reconstruction'] });
+        expect(result.statistics.totalSum).toBe(20);
+    });
+
+    it('should verify Q·R against the submitted matrix and flag a different echoed original', async () => {
+        // Q·R reproduces the matrix Go echoes back exactly, but not the one the client sent
+        const echoed: Matrix = [[1, 2], [0, 4]];
+        mockGoApiGateway.processMatrix.mockResolvedValue({ ...brokenResponse, original_matrix: echoed });
+        const useCase = new ProcessMatrixAndGetStatsUseCase(
+            mockGoApiGateway, new MatrixStatisticsEngine(), new QRVerifier({ tolerance: 1e-6, mode: 'flag' })
+        );
+
+        const result = await useCase.execute({ matrix });
+        expect(result.qrVerification).toMatchObject({ passed: false, failures: ['reconstruction', 'originalMatrix'] });
+    });
+
+    it('should reject a result whose echoed original differs from the input in reject mode', async () => {
+        const { Q, R } = householderQR(matrix);
+        mockGoApiGateway.processMatrix.mockResolvedValue({
+            original_matrix: [[1, 2], [3, 5]],
+            rotated_matrix: [[3, 1], [4, 2]],
+            qr_factorization: { Q, R },
+        });
+        const useCase = new ProcessMatrixAndGetStatsUseCase(
+            mockGoApiGateway, new MatrixStatisticsEngine(), new QRVerifier({ tolerance: 1e-6, mode: 'reject' })
+        );
+
+        await expect(useCase.execute({ matrix })).rejects.toMatchObject({
+            statusCode: 502,
+            errorCode: 'QR_VERIFICATION_FAILED',
+            details: expect.stringContaining('originalMatrix'),
+        });
+    });
+
+    it('should not report a verification when no verifier is configured', async () => {
+        const result = await new ProcessMatrixAndGetStatsUseCase(mockGoApiGateway).execute({ matrix });
+
+        expect(result.qrVerification).toBeUndefined();
+    });
+});
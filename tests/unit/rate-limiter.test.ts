@@ -0,0 +1,107 @@
+// tests/unit/rate-limiter.test.ts
+
+import { NextFunction, Request, Response } from 'express';
+
+import { InMemoryRateLimitStore } from '@infrastructure/persistence/in-memory-rate-limit.store';
+import { TokenBucketRateLimiter } from '@application/services/token-bucket.rate-limiter';
+import { createRateLimitMiddleware } from '@interfaces/http/middleware/rate-limit.middleware';
+
+describe('TokenBucketRateLimiter (Unit Test)', () => {
+    const policy = { limit: 3, windowMs: 3_000 }; // 1 token por segundo
+    let store: InMemoryRateLimitStore;
+    let rateLimiter: TokenBucketRateLimiter;
+
+    beforeEach(() => {
+        store = new InMemoryRateLimitStore();
+        rateLimiter = new TokenBucketRateLimiter(store, policy, 'test');
+    });
+
+    it('should allow a burst up to the limit and then reject with the time until the next token', async () => {
+        const now = Date.now();
+        const decisions = [];
+        for (let i = 0; i < 4; i++) {
+            decisions.push(await rateLimiter.consume('user:1', now));
+        }
+
+        expect(decisions.map(({ allowed, remaining }) => [allowed, remaining])).toEqual([[true, 2], [true, 1], [true, 0], [false, 0]]);
+        expect(decisions[3]).toMatchObject({ limit: 3, retryAfterMs: 1_000, resetMs: 3_000 });
+    });
+
+    it('should refill continuously over the window', async () => {
+        const now = Date.now();
+        for (let i = 0; i < 3; i++) {
+            await rateLimiter.consume('user:1', now);
+        }
+
+        expect((await rateLimiter.consume('user:1', now + 500)).allowed).toBe(false);
+        expect(await rateLimiter.consume('user:1', now + 1_500)).toMatchObject({ allowed: true, remaining: 0 });
+        // Nunca acumula más de `limit` tokens
+        expect(await rateLimiter.consume('user:1', now + 60_000)).toMatchObject({ allowed: true, remaining: 2 });
+    });
+
+    it('should keep separate buckets per key and per limiter', async () => {
+        const now = Date.now();
+        const other = new TokenBucketRateLimiter(store, { limit: 1, windowMs: 1_000 }, 'other');
+
+        await rateLimiter.consume('user:1', now);
+        expect((await rateLimiter.consume('user:2', now)).remaining).toBe(2);
+        expect((await other.consume('user:1', now)).allowed).toBe(true);
+        expect((await other.consume('user:1', now)).allowed).toBe(false);
+        expect((await rateLimiter.consume('user:1', now)).remaining).toBe(1);
+    });
+
+    it('should not let concurrent requests spend the same token', async () => {
+        const now = Date.now();
+        const decisions = await Promise.all(Array.from({ length: 5 }, () => rateLimiter.consume('user:1', now)));
+
+        expect(decisions.filter(({ allowed }) => allowed)).toHaveLength(3);
+        expect(decisions.map(({ remaining }) => remaining)).toEqual([2, 1, 0, 0, 0]);
+    });
+
+    it('should take several tokens at once only when the bucket holds all of them', async () => {
+        const now = Date.now();
+
+        expect(await store.take('test:user:1', 2, policy, now)).toMatchObject({ allowed: true, remaining: 1 });
+        expect(await store.take('test:user:1', 2, policy, now)).toMatchObject({ allowed: false, remaining: 1, retryAfterMs: 1_000 });
+        expect(await rateLimiter.consume('user:1', now)).toMatchObject({ allowed: true, remaining: 0 });
+    });
+});
+
+describe('Rate limit middleware (Unit Test)', () => {
+    const rateLimiter = () => new TokenBucketRateLimiter(new InMemoryRateLimitStore(), { limit: 1, windowMs: 60_000 }, 'test');
+    let res: Response;
+    let next: jest.Mock<NextFunction>;
+
+    beforeEach(() => {
+        res = { setHeader: jest.fn() } as unknown as Response;
+        next = jest.fn();
+    });
+
+    it('should set the quota headers and reject with 429 and Retry-After once the limit is exceeded', async () => {
+        const middleware = createRateLimitMiddleware(rateLimiter());
+        const req = { ip: '10.0.0.1' } as Request;
+
+        await middleware(req, res, next);
+        expect(next).toHaveBeenLastCalledWith();
+        expect(res.setHeader).toHaveBeenCalledWith('RateLimit-Limit', 1);
+        expect(res.setHeader).toHaveBeenCalledWith('RateLimit-Remaining', 0);
+        expect(res.setHeader).toHaveBeenCalledWith('RateLimit-Reset', 60);
+
+        await middleware(req, res, next);
+        expect(next).toHaveBeenLastCalledWith(expect.objectContaining({ statusCode: 429, errorCode: 'RATE_LIMIT_EXCEEDED' }));
+        expect(res.setHeader).toHaveBeenCalledWith('Retry-After', 60);
+    });
+
+    it('should key on the authenticated user and on the IP otherwise', async () => {
+        const middleware = createRateLimitMiddleware(rateLimiter());
+        const user = { id: 'user-1', username: 'alice', roles: ['user' as const] };
+
+        await middleware({ ip: '10.0.0.1', user } as Request, res, next);
+        // Mismo usuario desde otra IP: comparte el cubo
+        await middleware({ ip: '10.0.0.2', user } as Request, res, next);
+        // Anónimo desde la primera IP: cubo propio
+        await middleware({ ip: '10.0.0.1' } as Request, res, next);
+
+        expect(next.mock.calls).toEqual([[], [expect.objectContaining({ statusCode: 429 })], []]);
+    });
+});
@@ -0,0 +1,96 @@
+// tests/unit/request-validation.test.ts
+
+import { NextFunction, Request, Response } from 'express';
+
+import { authOperations } from '@interfaces/http/openapi/operations/auth.operations';
+import { buildOpenApiDocument } from '@interfaces/http/openapi/openapi.document';
+import { healthOperations } from '@interfaces/http/openapi/operations/health.operations';
+import { matrixOperations } from '@interfaces/http/openapi/operations/matrix.operations';
+import { toErrorResponseBody } from '@domain/errors/app.errors';
+import { validateRequest } from '@interfaces/http/middleware/validation.middleware';
+import { validateSchema } from '@shared/validation/json-schema';
+
+describe('validateSchema (Unit Test)', () => {
+    it('should report the path of every invalid field', () => {
+        const violations = validateSchema(matrixOperations.processMatrix.body, { matrix: [[1, 'a'], []], stats: 3 }, 'body');
+
+        expect(violations).toEqual([
+            { field: 'body.matrix[0][1]', message: 'must be of type number (received string)' },
+            { field: 'body.matrix[1]', message: 'must not be empty' },
+            { field: 'body.stats', message: 'does not match any of the allowed formats' },
+        ]);
+    });
+
+    it('should report missing required fields and accept valid values', () => {
+        expect(validateSchema(authOperations.login.body, {}, 'body')).toEqual([
+            { field: 'body.username', message: 'is required' },
+            { field: 'body.password', message: 'is required' },
+        ]);
+        expect(validateSchema(matrixOperations.processMatrix.body, { matrix: [[1, 2], [3, 4]], stats: 'median,trace' })).toEqual([]);
+    });
+
+    it('should cap the number of reported errors', () => {
+        const matrix = Array.from({ length: 10 }, () => Array.from({ length: 10 }, () => 'x'));
+
+        expect(validateSchema(matrixOperations.processMatrix.body, { matrix })).toHaveLength(20);
+    });
+});
+
+describe('validateRequest middleware (Unit Test)', () => {
+    const run = (body: unknown) => {
+        const next = jest.fn() as jest.MockedFunction<NextFunction>;
+        validateRequest(authOperations.login)({ body, params: {}, query: {} } as unknown as Request, {} as Response, next);
+        return next;
+    };
+
+    it('should call next without error for a valid body', () => {
+        expect(run({ username: 'alice', password: 'secret' })).toHaveBeenCalledWith(undefined);
+    });
+
+    it('should reject an invalid or missing body with field-level errors', () => {
+        const next = run(undefined);
+        const error = next.mock.calls[0][0];
+
+        expect(error).toMatchObject({ statusCode: 400, errorCode: 'VALIDATION_ERROR' });
+        expect(toErrorResponseBody(error)).toMatchObject({
+            error: 'VALIDATION_ERROR',
+            fields: [
+                { field: 'body.username', message: 'is required' },
+                { field: 'body.password', message: 'is required' },
+            ],
+        });
+    });
+});
+
+describe('buildOpenApiDocument (Unit Test)', () => {
+    const document = buildOpenApiDocument(
+        [...Object.values(authOperations), ...Object.values(matrixOperations), ...Object.values(healthOperations)],
+        { title: 'Test API', version: '1.0.0' }
+    ) as any;
+
+    it('should describe every operation with its request body and responses', () => {
+        const processMatrix = document.paths['/api/matrix/process-matrix'].post;
+
+        expect(document.openapi).toBe('3.0.3');
+        expect(processMatrix.operationId).toBe('processMatrix');
+        expect(processMatrix.security).toEqual([{ bearerAuth: [] }, { apiKeyAuth: [] }]);
+        expect(processMatrix.requestBody.content['application/json'].schema).toEqual({ $ref: '#/components/schemas/MatrixProcessingRequest' });
+        expect(processMatrix.responses['400'].content['application/json'].schema).toEqual({ $ref: '#/components/schemas/ErrorResponse' });
+        expect(processMatrix.parameters).toEqual(['stats', 'operation', 'decompositions', 'delimiter', 'header', 'format', 'matrix'].map(name => expect.objectContaining({ name, in: 'query', required: false })));
+        expect(Object.keys(processMatrix.requestBody.content)).toEqual(['application/json', 'text/csv', 'application/x-matrix-market']);
+        expect(processMatrix.responses['200'].content['application/x-npy'].schema).toMatchObject({ type: 'string', format: 'binary' });
+        expect(processMatrix.responses['406']).toBeDefined();
+        expect(document.paths['/health/live'].get.security).toBeUndefined();
+    });
+
+    it('should publish titled schemas as components and path parameters as required', () => {
+        expect(Object.keys(document.components.schemas)).toEqual(expect.arrayContaining([
+            'Matrix', 'MatrixProcessingRequest', 'ProcessedMatrixResult', 'MatrixOperation', 'MatrixJob', 'ErrorResponse', 'User', 'HealthReport',
+        ]));
+        expect(document.components.schemas.MatrixProcessingRequest.properties.matrix).toEqual({ $ref: '#/components/schemas/Matrix' });
+        expect(document.paths['/api/matrix/jobs/{id}'].get.parameters).toEqual([
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', minLength: 1 } },
+        ]);
+        expect(Object.keys(document.components.securitySchemes)).toEqual(['bearerAuth', 'apiKeyAuth']);
+    });
+});
@@ -0,0 +1,117 @@
+// tests/unit/user-auth.usecases.test.ts
+
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+
+import { AuthSessionService } from '@application/services/auth-session.service';
+import { ChangePasswordUseCase } from '@application/use-cases/auth/change-password.usecase';
+import { FileUserRepository } from '@infrastructure/persistence/file-user.repository';
+import { InMemorySessionStore } from '@infrastructure/persistence/in-memory-session.store';
+import { JwtTokenService } from '@infrastructure/security/jwt-token.service';
+import { LoginUseCase } from '@application/use-cases/auth/login.usecase';
+import { RegisterUserUseCase } from '@application/use-cases/auth/register-user.usecase';
+import { ScryptPasswordHasher } from '@infrastructure/security/scrypt-password.hasher';
+import { SetUserDisabledUseCase } from '@application/use-cases/auth/set-user-disabled.usecase';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('User store and authentication use cases (Unit Test)', () => {
+    // Coste reducido para que las pruebas sean rápidas
+    const passwordHasher = new ScryptPasswordHasher({ cost: 1024, blockSize: 8, parallelization: 1 });
+    const tokenService = new JwtTokenService({ jwtSecret: 'test-secret', jwtExpiresIn: '1h' });
+    let directory: string;
+    let filePath: string;
+    let userRepository: FileUserRepository;
+    let register: RegisterUserUseCase;
+    let login: LoginUseCase;
+    let authSessionService: AuthSessionService;
+
+    beforeEach(() => {
+        directory = mkdtempSync(join(tmpdir(), 'users-'));
+        filePath = join(directory, 'nested', 'users.json');
+        userRepository = new FileUserRepository(filePath);
+        register = new RegisterUserUseCase(userRepository, passwordHasher);
+        authSessionService = new AuthSessionService(tokenService, new InMemorySessionStore(), { refreshTokenTtlMs: 60_000 });
+        login = new LoginUseCase(userRepository, passwordHasher, authSessionService);
+    });
+
+    afterEach(() => {
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should hash passwords with scrypt and a random salt', async () => {
+        const first = await passwordHasher.hash('correct horse');
+        const second = await passwordHasher.hash('correct horse');
+
+        expect(first).toMatch(/^scrypt\$1024\$8\$1\$/);
+        expect(first).not.toBe(second);
+        expect(await passwordHasher.verify('correct horse', first)).toBe(true);
+        expect(await passwordHasher.verify('wrong horse', first)).toBe(false);
+        expect(await passwordHasher.verify('correct horse', 'not-a-hash')).toBe(false);
+    });
+
+    it('should register a user, persist it hashed and reject duplicate usernames', async () => {
+        const user = await register.execute({ username: 'alice', password: 'password123' });
+
+        expect(user).toMatchObject({ username: 'alice', roles: ['user'], disabled: false });
+        expect(user).not.toHaveProperty('passwordHash');
+
+        const stored = readFileSync(filePath, 'utf8');
+        expect(stored).toContain('"alice"');
+        expect(stored).not.toContain('password123');
+
+        await expect(register.execute({ username: 'ALICE', password: 'password456' })).rejects.toMatchObject({ statusCode: 409 });
+        // Un repositorio nuevo sobre el mismo archivo ve al usuario
+        expect(await new FileUserRepository(filePath).findByUsername('Alice')).toMatchObject({ id: user.id });
+    });
+
+    it('should validate usernames and passwords on registration', async () => {
+        await expect(register.execute({ username: 'a', password: 'password123' })).rejects.toMatchObject({ statusCode: 400 });
+        await expect(register.execute({ username: 'bob', password: 'short' })).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should log in with valid credentials and issue a JWT with the real id and roles', async () => {
+        const user = await register.execute({ username: 'alice', password: 'password123', roles: ['admin'] });
+
+        const result = await login.execute({ username: 'alice', password: 'password123' });
+
+        expect(result.user.id).toBe(user.id);
+        expect(tokenService.verifyAccessToken(result.token)).toMatchObject({ id: user.id, username: 'alice', roles: ['admin'] });
+    });
+
+    it('should reject unknown users and wrong passwords with the same error', async () => {
+        await register.execute({ username: 'alice', password: 'password123' });
+
+        const expected = { statusCode: 401, details: 'Invalid username or password.' };
+        await expect(login.execute({ username: 'alice', password: 'wrong-password' })).rejects.toMatchObject(expected);
+        await expect(login.execute({ username: 'nobody', password: 'password123' })).rejects.toMatchObject(expected);
+    });
+
+    it('should change the password only with the current password', async () => {
+        const user = await register.execute({ username: 'alice', password: 'password123' });
+        const changePassword = new ChangePasswordUseCase(userRepository, passwordHasher, authSessionService);
+
+        await expect(changePassword.execute({ userId: user.id, currentPassword: 'nope-nope', newPassword: 'new-password' }))
+            .rejects.toMatchObject({ statusCode: 401 });
+
+        await changePassword.execute({ userId: user.id, currentPassword: 'password123', newPassword: 'new-password' });
+        await expect(login.execute({ username: 'alice', password: 'password123' })).rejects.toMatchObject({ statusCode: 401 });
+        await expect(login.execute({ username: 'alice', password: 'new-password' })).resolves.toHaveProperty('token');
+    });
+
+    it('should let users disable their own account and only admins enable or disable others', async () => {
+        const alice = await register.execute({ username: 'alice', password: 'password123' });
+        const bob = await register.execute({ username: 'bob', password: 'password123' });
+        const admin = await register.execute({ username: 'root', password: 'password123', roles: ['admin'] });
+        const setDisabled = new SetUserDisabledUseCase(userRepository, authSessionService);
+        const asActor = ({ id, username, roles }: typeof alice) => ({ id, username, roles });
+
+        await expect(setDisabled.execute({ actor: asActor(alice), userId: bob.id, disabled: true })).rejects.toMatchObject({ statusCode: 403 });
+
+        await setDisabled.execute({ actor: asActor(alice), userId: alice.id, disabled: true });
+        await expect(login.execute({ username: 'alice', password: 'password123' })).rejects.toMatchObject({ statusCode: 403 });
+        await expect(setDisabled.execute({ actor: asActor(alice), userId: alice.id, disabled: false })).rejects.toMatchObject({ statusCode: 403 });
+
+        await setDisabled.execute({ actor: asActor(admin), userId: alice.id, disabled: false });
+        await expect(login.execute({ username: 'alice', password: 'password123' })).resolves.toHaveProperty('token');
+    });
+});